@@ -0,0 +1,66 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Authorization;
+using AirlineSimulationApi.Services;
+
+namespace AirlineSimulationApi.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class AccountController : ControllerBase
+{
+    private readonly INotificationPreferencesService _notificationPreferencesService;
+    private readonly ILogger<AccountController> _logger;
+
+    public AccountController(INotificationPreferencesService notificationPreferencesService, ILogger<AccountController> logger)
+    {
+        _notificationPreferencesService = notificationPreferencesService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// The current user's notification channels and the kinds of message they want
+    /// </summary>
+    [HttpGet("notification-preferences")]
+    public async Task<ActionResult<NotificationPreferencesDto>> GetNotificationPreferences()
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            return Ok(await _notificationPreferencesService.GetAsync(userId));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving notification preferences");
+            return StatusCode(500, new { message = "Failed to retrieve notification preferences" });
+        }
+    }
+
+    /// <summary>
+    /// Replace the current user's notification preferences. Every toggle is sent each time.
+    /// </summary>
+    [HttpPut("notification-preferences")]
+    public async Task<ActionResult<NotificationPreferencesDto>> UpdateNotificationPreferences([FromBody] NotificationPreferencesDto request)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            return Ok(await _notificationPreferencesService.UpdateAsync(userId, request));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating notification preferences");
+            return StatusCode(500, new { message = "Failed to update notification preferences" });
+        }
+    }
+}
@@ -1,10 +1,13 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.IdentityModel.Tokens;
 using System.IdentityModel.Tokens.Jwt;
 using System.Security.Claims;
+using System.Security.Cryptography;
 using System.Text;
 using AirlineSimulationApi.Data;
 using AirlineSimulationApi.Models;
+using AirlineSimulationApi.Services;
 using Microsoft.EntityFrameworkCore;
 using BCrypt.Net;
 
@@ -16,12 +19,14 @@ public class AuthController : ControllerBase
 {
     private readonly ApplicationDbContext _context;
     private readonly IConfiguration _configuration;
+    private readonly ILoyaltyService _loyaltyService;
     private readonly ILogger<AuthController> _logger;
 
-    public AuthController(ApplicationDbContext context, IConfiguration configuration, ILogger<AuthController> logger)
+    public AuthController(ApplicationDbContext context, IConfiguration configuration, ILoyaltyService loyaltyService, ILogger<AuthController> logger)
     {
         _context = context;
         _configuration = configuration;
+        _loyaltyService = loyaltyService;
         _logger = logger;
     }
 
@@ -33,23 +38,33 @@ public class AuthController : ControllerBase
             // Validate input
             if (!IsValidEmail(request.Email))
             {
-                return BadRequest(new { message = "Invalid email format" });
+                ModelState.AddModelError(nameof(request.Email), "Invalid email format");
             }
 
             if (string.IsNullOrWhiteSpace(request.Password) || request.Password.Length < 6)
             {
-                return BadRequest(new { message = "Password must be at least 6 characters long" });
+                ModelState.AddModelError(nameof(request.Password), "Password must be at least 6 characters long");
             }
 
-            if (string.IsNullOrWhiteSpace(request.FirstName) || string.IsNullOrWhiteSpace(request.LastName))
+            if (string.IsNullOrWhiteSpace(request.FirstName))
             {
-                return BadRequest(new { message = "First name and last name are required" });
+                ModelState.AddModelError(nameof(request.FirstName), "First name is required");
+            }
+
+            if (string.IsNullOrWhiteSpace(request.LastName))
+            {
+                ModelState.AddModelError(nameof(request.LastName), "Last name is required");
+            }
+
+            if (!ModelState.IsValid)
+            {
+                return ValidationProblem(ModelState);
             }
 
             // Check if user already exists
             if (await _context.Users.AnyAsync(u => u.Email == request.Email.ToLowerInvariant()))
             {
-                return BadRequest(new { message = "User already exists with this email" });
+                return Conflict(new { message = "User already exists with this email", code = ErrorCodes.EmailTaken });
             }
 
             // Create new user with proper password hashing
@@ -67,18 +82,7 @@ public class AuthController : ControllerBase
             _context.Users.Add(user);
             await _context.SaveChangesAsync();
 
-            var token = GenerateJwtToken(user);
-            return Ok(new AuthResponse
-            {
-                Token = token,
-                User = new UserDto
-                {
-                    Id = user.Id,
-                    Email = user.Email,
-                    FirstName = user.FirstName,
-                    LastName = user.LastName
-                }
-            });
+            return Ok(await IssueTokensAsync(user));
         }
         catch (Exception ex)
         {
@@ -110,18 +114,8 @@ public class AuthController : ControllerBase
             {
                 return BadRequest(new { message = "Invalid credentials" });
             }
-            var token = GenerateJwtToken(user);
-            return Ok(new AuthResponse
-            {
-                Token = token,
-                User = new UserDto
-                {
-                    Id = user.Id,
-                    Email = user.Email,
-                    FirstName = user.FirstName,
-                    LastName = user.LastName
-                }
-            });
+
+            return Ok(await IssueTokensAsync(user));
         }
         catch (Exception ex)
         {
@@ -130,6 +124,147 @@ public class AuthController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Exchange a refresh token for a new access token. Refresh tokens are single use:
+    /// the presented token is revoked and a replacement is returned with the new access token.
+    /// </summary>
+    [HttpPost("refresh")]
+    public async Task<ActionResult<AuthResponse>> Refresh([FromBody] RefreshTokenRequest request)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(request.RefreshToken))
+            {
+                return Unauthorized(new { message = "Your session has expired", code = ErrorCodes.SessionExpired });
+            }
+
+            var tokenHash = HashToken(request.RefreshToken);
+            var refreshToken = await _context.RefreshTokens
+                .Include(t => t.User)
+                .FirstOrDefaultAsync(t => t.TokenHash == tokenHash);
+
+            if (refreshToken == null || !refreshToken.IsActive)
+            {
+                return Unauthorized(new { message = "Your session has expired", code = ErrorCodes.SessionExpired });
+            }
+
+            refreshToken.RevokedAt = DateTime.UtcNow;
+            return Ok(await IssueTokensAsync(refreshToken.User));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error refreshing session");
+            return StatusCode(500, new { message = "Failed to refresh session" });
+        }
+    }
+
+    /// <summary>
+    /// Revoke a refresh token so it can no longer be used to extend the session
+    /// </summary>
+    [HttpPost("logout")]
+    public async Task<IActionResult> Logout([FromBody] RefreshTokenRequest request)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(request?.RefreshToken))
+            {
+                return BadRequest(new { message = "Refresh token is required" });
+            }
+
+            var tokenHash = HashToken(request.RefreshToken);
+            var refreshToken = await _context.RefreshTokens.FirstOrDefaultAsync(t => t.TokenHash == tokenHash);
+
+            if (refreshToken != null && refreshToken.RevokedAt == null)
+            {
+                refreshToken.RevokedAt = DateTime.UtcNow;
+                await _context.SaveChangesAsync();
+            }
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error during logout");
+            return StatusCode(500, new { message = "Logout failed" });
+        }
+    }
+
+    /// <summary>
+    /// Get the user the current access token belongs to
+    /// </summary>
+    [Authorize]
+    [HttpGet("me")]
+    public async Task<ActionResult<UserDto>> GetCurrentUser()
+    {
+        try
+        {
+            var userId = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            var user = userId == null ? null : await _context.Users.FindAsync(userId);
+
+            if (user == null)
+            {
+                return Unauthorized(new { message = "Your session has expired", code = ErrorCodes.SessionExpired });
+            }
+
+            return Ok(MapToUserDto(user, await _loyaltyService.GetOrCreateAccountAsync(user.Id)));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting current user");
+            return StatusCode(500, new { message = "Failed to load user" });
+        }
+    }
+
+    private async Task<AuthResponse> IssueTokensAsync(User user)
+    {
+        var refreshDays = _configuration.GetValue<int>("JwtSettings:RefreshTokenExpiryInDays");
+        if (refreshDays <= 0)
+        {
+            refreshDays = 7; // Default to 7 days
+        }
+
+        var rawRefreshToken = Convert.ToBase64String(RandomNumberGenerator.GetBytes(64));
+        _context.RefreshTokens.Add(new RefreshToken
+        {
+            UserId = user.Id,
+            TokenHash = HashToken(rawRefreshToken),
+            CreatedAt = DateTime.UtcNow,
+            ExpiresAt = DateTime.UtcNow.AddDays(refreshDays)
+        });
+        await _context.SaveChangesAsync();
+
+        return new AuthResponse
+        {
+            Token = GenerateJwtToken(user),
+            RefreshToken = rawRefreshToken,
+            // Accounts from before the loyalty programme are enrolled on their next sign-in
+            User = MapToUserDto(user, await _loyaltyService.GetOrCreateAccountAsync(user.Id))
+        };
+    }
+
+    private static string HashToken(string token)
+    {
+        var hash = SHA256.HashData(Encoding.UTF8.GetBytes(token));
+        return Convert.ToHexString(hash).ToLowerInvariant();
+    }
+
+    private static UserDto MapToUserDto(User user, LoyaltyAccount loyaltyAccount)
+    {
+        return new UserDto
+        {
+            Id = user.Id,
+            Email = user.Email,
+            FirstName = user.FirstName,
+            LastName = user.LastName,
+            Loyalty = new LoyaltySummary
+            {
+                MembershipNumber = loyaltyAccount.MembershipNumber,
+                Tier = loyaltyAccount.Tier,
+                Points = loyaltyAccount.Points
+            }
+        };
+    }
+
     private string GenerateJwtToken(User user)
     {
         var jwtSecret = Environment.GetEnvironmentVariable("JWT_SECRET");
@@ -195,9 +330,15 @@ public class LoginRequest
     public string Password { get; set; } = string.Empty;
 }
 
+public class RefreshTokenRequest
+{
+    public string RefreshToken { get; set; } = string.Empty;
+}
+
 public class AuthResponse
 {
     public string Token { get; set; } = string.Empty;
+    public string RefreshToken { get; set; } = string.Empty;
     public UserDto User { get; set; } = new();
 }
 
@@ -207,4 +348,5 @@ public class UserDto
     public string Email { get; set; } = string.Empty;
     public string FirstName { get; set; } = string.Empty;
     public string LastName { get; set; } = string.Empty;
+    public LoyaltySummary? Loyalty { get; set; }
 }
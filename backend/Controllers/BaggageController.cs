@@ -0,0 +1,47 @@
+using Microsoft.AspNetCore.Mvc;
+using AirlineSimulationApi.Services;
+
+namespace AirlineSimulationApi.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+public class BaggageController : ControllerBase
+{
+    private readonly IBaggageService _baggageService;
+    private readonly ILogger<BaggageController> _logger;
+
+    public BaggageController(IBaggageService baggageService, ILogger<BaggageController> logger)
+    {
+        _baggageService = baggageService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Where a checked bag is now and every status it has passed through. The tracking number on the bag tag is all
+    /// that is needed, so travellers can follow a bag without signing in.
+    /// </summary>
+    /// <param name="trackingNumber">Tracking number printed on the bag tag</param>
+    [HttpGet("{trackingNumber}")]
+    public async Task<ActionResult<BaggageInfo>> TrackBaggage(string trackingNumber)
+    {
+        try
+        {
+            var result = await _baggageService.TrackBaggageAsync(trackingNumber);
+            if (!result.Success)
+            {
+                if (result.ErrorCode == ErrorCodes.BaggageNotFound)
+                {
+                    return NotFound(new { message = result.ErrorMessage, code = result.ErrorCode });
+                }
+                return StatusCode(500, new { message = result.ErrorMessage });
+            }
+
+            return Ok(result.Baggage);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error tracking baggage {TrackingNumber}", trackingNumber);
+            return StatusCode(500, new { message = "Failed to track baggage" });
+        }
+    }
+}
@@ -11,11 +11,23 @@ namespace AirlineSimulationApi.Controllers;
 public class BookingsController : ControllerBase
 {
     private readonly IBookingService _bookingService;
+    private readonly IBookingChangeService _bookingChangeService;
+    private readonly IFareService _fareService;
+    private readonly ISeatHoldService _seatHoldService;
+    private readonly ITripAccessService _tripAccessService;
+    private readonly IBaggageService _baggageService;
+    private readonly ILoyaltyService _loyaltyService;
     private readonly ILogger<BookingsController> _logger;
 
-    public BookingsController(IBookingService bookingService, ILogger<BookingsController> logger)
+    public BookingsController(IBookingService bookingService, IBookingChangeService bookingChangeService, IFareService fareService, ISeatHoldService seatHoldService, ITripAccessService tripAccessService, IBaggageService baggageService, ILoyaltyService loyaltyService, ILogger<BookingsController> logger)
     {
         _bookingService = bookingService;
+        _bookingChangeService = bookingChangeService;
+        _fareService = fareService;
+        _seatHoldService = seatHoldService;
+        _tripAccessService = tripAccessService;
+        _baggageService = baggageService;
+        _loyaltyService = loyaltyService;
         _logger = logger;
     }
 
@@ -35,21 +47,17 @@ public class BookingsController : ControllerBase
                 FlightNumber = request.FlightNumber,
                 FlightDate = request.FlightDate,
                 UserId = userId,
-                Passengers = request.Passengers.Select(p => new PassengerInfo
-                {
-                    FirstName = p.FirstName,
-                    LastName = p.LastName,
-                    DateOfBirth = p.DateOfBirth,
-                    SeatClass = p.SeatClass
-                }).ToList(),
-                SelectedSeats = request.SelectedSeats
+                Passengers = request.Passengers.Select(MapToPassengerInfo).ToList(),
+                SelectedSeats = request.SelectedSeats,
+                PaymentInfo = request.PaymentInfo,
+                PointsToRedeem = request.PointsToRedeem
             };
 
             var result = await _bookingService.CreateBookingAsync(bookingRequest);
             
             if (!result.Success)
             {
-                return BadRequest(new { message = result.ErrorMessage });
+                return BookingFailure(result);
             }
 
             return Ok(new BookingResponse
@@ -57,6 +65,8 @@ public class BookingsController : ControllerBase
                 ConfirmationNumber = result.ConfirmationNumber!,
                 Status = result.Booking!.Status.ToString(),
                 TotalAmount = result.Booking.TotalAmount,
+                PointsRedeemed = result.Booking.PointsRedeemed,
+                PointsValue = result.Booking.PointsValue,
                 CreatedAt = result.Booking.CreatedAt
             });
         }
@@ -67,44 +77,266 @@ public class BookingsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Price a prospective booking. The total matches what CreateBooking will charge
+    /// for the same passengers, so clients should display this rather than pricing locally.
+    /// Also says what the booking would earn in loyalty points and miles once flown, and how many
+    /// points the customer could put toward it.
+    /// </summary>
+    [HttpPost("quote")]
+    public async Task<ActionResult<FareQuote>> QuoteFare([FromBody] FareQuoteRequest request)
+    {
+        try
+        {
+            if (request.Passengers == null || !request.Passengers.Any())
+            {
+                ModelState.AddModelError("passengers", "At least one passenger is required");
+            }
+            else
+            {
+                for (var i = 0; i < request.Passengers.Count; i++)
+                {
+                    var checkedBags = request.Passengers[i].CheckedBags;
+                    if (checkedBags < 0 || checkedBags > FareService.MaxCheckedBagsPerPassenger)
+                    {
+                        ModelState.AddModelError($"passengers[{i}].checkedBags", $"Each passenger can check between 0 and {FareService.MaxCheckedBagsPerPassenger} bags");
+                    }
+                }
+            }
+
+            if (!ModelState.IsValid)
+            {
+                return ValidationProblem(ModelState);
+            }
+
+            // Same normalisation as CreateBooking, so both price the flight on the same day
+            var flightDate = request.FlightDate.Kind == DateTimeKind.Unspecified
+                ? DateTime.SpecifyKind(request.FlightDate, DateTimeKind.Utc)
+                : request.FlightDate.ToUniversalTime();
+
+            var quote = _fareService.QuoteFare(request.Passengers.Select(MapToPassengerInfo).ToList(), flightDate);
+
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (!string.IsNullOrEmpty(userId))
+            {
+                quote.LoyaltyEarning = await _loyaltyService.QuoteEarningAsync(userId, request.FlightNumber, flightDate, quote.Total);
+                quote.PointsRedemption = await _loyaltyService.QuoteRedemptionAsync(userId, quote.Total);
+            }
+
+            return Ok(quote);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error quoting fare for flight {FlightNumber}", request.FlightNumber);
+            return StatusCode(500, new { message = "Failed to quote fare" });
+        }
+    }
+
+    /// <summary>
+    /// Hold a seat for the current user while they finish booking. Holding a seat the user
+    /// already holds restarts its countdown.
+    /// </summary>
+    [HttpPost("holds")]
+    public async Task<ActionResult<SeatHoldResponse>> HoldSeat([FromBody] SeatHoldRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            if (string.IsNullOrWhiteSpace(request.FlightNumber) || string.IsNullOrWhiteSpace(request.SeatNumber))
+            {
+                return BadRequest(new { message = "Flight number and seat number are required", code = ErrorCodes.ValidationFailed });
+            }
+
+            var result = await _seatHoldService.HoldSeatAsync(request.FlightNumber, request.FlightDate, request.SeatNumber, userId);
+            if (!result.Success)
+            {
+                return result.ErrorCode == ErrorCodes.SeatUnavailable
+                    ? Conflict(new { message = result.ErrorMessage, code = result.ErrorCode, seats = new[] { request.SeatNumber.ToUpperInvariant() } })
+                    : BadRequest(new { message = result.ErrorMessage, code = result.ErrorCode });
+            }
+
+            return Ok(new SeatHoldResponse
+            {
+                FlightNumber = result.Hold!.FlightNumber,
+                SeatNumber = result.Hold.SeatNumber,
+                ExpiresAt = result.Hold.ExpiresAt
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error holding seat {SeatNumber} on flight {FlightNumber}", request.SeatNumber, request.FlightNumber);
+            return StatusCode(500, new { message = "Failed to hold seat" });
+        }
+    }
+
+    /// <summary>
+    /// Release one of the current user's seat holds
+    /// </summary>
+    [HttpDelete("holds/{flightNumber}/{seatNumber}")]
+    public async Task<IActionResult> ReleaseSeat(string flightNumber, string seatNumber, [FromQuery] DateTime date)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            await _seatHoldService.ReleaseSeatAsync(flightNumber, date, seatNumber, userId);
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error releasing seat {SeatNumber} on flight {FlightNumber}", seatNumber, flightNumber);
+            return StatusCode(500, new { message = "Failed to release seat" });
+        }
+    }
+
+    /// <summary>
+    /// Release every seat the current user holds on a flight, e.g. when they leave the booking page
+    /// </summary>
+    [HttpDelete("holds/{flightNumber}")]
+    public async Task<IActionResult> ReleaseAllSeats(string flightNumber, [FromQuery] DateTime date)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            await _seatHoldService.ReleaseAllAsync(flightNumber, date, userId);
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error releasing seats on flight {FlightNumber}", flightNumber);
+            return StatusCode(500, new { message = "Failed to release seats" });
+        }
+    }
+
+    [HttpGet]
+    public async Task<ActionResult<MyBookingsResponse>> GetMyBookings(
+        [FromQuery] BookingScope scope = BookingScope.All,
+        [FromQuery] BookingStatus? status = null,
+        [FromQuery] int page = 1,
+        [FromQuery] int pageSize = 10)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            if (page < 1 || pageSize < 1 || pageSize > 50)
+            {
+                return BadRequest(new { message = "Page must be at least 1 and page size between 1 and 50" });
+            }
+
+            var result = await _bookingService.GetUserBookingsAsync(new UserBookingsQuery
+            {
+                UserId = userId,
+                Scope = scope,
+                Status = status,
+                Page = page,
+                PageSize = pageSize
+            });
+
+            return Ok(new MyBookingsResponse
+            {
+                Bookings = result.Bookings.Select(MapToBookingDetails).ToList(),
+                Page = page,
+                PageSize = pageSize,
+                TotalCount = result.TotalCount,
+                TotalPages = (int)Math.Ceiling(result.TotalCount / (double)pageSize),
+                UpcomingCount = result.UpcomingCount,
+                PastCount = result.PastCount
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving bookings for current user");
+            return StatusCode(500, new { message = "Failed to retrieve bookings" });
+        }
+    }
+
+    /// <summary>
+    /// Find my trip: exchange a confirmation number and a passenger's last name for a token that
+    /// opens this booking alone, for viewing, check-in and boarding passes without an account
+    /// </summary>
+    [AllowAnonymous]
+    [HttpPost("lookup")]
+    public async Task<ActionResult<TripAccessResponse>> FindTrip([FromBody] FindTripRequest request)
+    {
+        try
+        {
+            if (string.IsNullOrWhiteSpace(request.ConfirmationNumber))
+            {
+                ModelState.AddModelError("confirmationNumber", "Confirmation number is required");
+            }
+            if (string.IsNullOrWhiteSpace(request.LastName))
+            {
+                ModelState.AddModelError("lastName", "Last name is required");
+            }
+            if (!ModelState.IsValid)
+            {
+                return ValidationProblem(ModelState);
+            }
+
+            var clientKey = HttpContext.Connection.RemoteIpAddress?.ToString() ?? "unknown";
+            var result = await _tripAccessService.FindTripAsync(request.ConfirmationNumber, request.LastName, clientKey);
+            if (!result.Success)
+            {
+                return result.ErrorCode == ErrorCodes.TooManyAttempts
+                    ? StatusCode(429, new { message = result.ErrorMessage, code = result.ErrorCode })
+                    : NotFound(new { message = result.ErrorMessage, code = result.ErrorCode });
+            }
+
+            return Ok(new TripAccessResponse
+            {
+                ConfirmationNumber = result.ConfirmationNumber!,
+                Token = result.Token!,
+                ExpiresAt = result.ExpiresAt
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error looking up trip");
+            return StatusCode(500, new { message = "Failed to find trip" });
+        }
+    }
+
+    /// <summary>
+    /// A booking belonging to the signed-in user, or the one a guest trip token was issued for
+    /// </summary>
     [HttpGet("{confirmationNumber}")]
     public async Task<ActionResult<BookingDetailsResponse>> GetBooking(string confirmationNumber)
     {
         try
         {
+            var userId = await _tripAccessService.GetBookingUserIdAsync(User, confirmationNumber);
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
             var booking = await _bookingService.GetBookingAsync(confirmationNumber);
             
-            if (booking == null)
+            if (booking == null || booking.UserId != userId)
             {
                 return NotFound(new { message = "Booking not found" });
             }
 
-            return Ok(new BookingDetailsResponse
-            {
-                ConfirmationNumber = booking.ConfirmationNumber,
-                Status = booking.Status.ToString(),
-                TotalAmount = booking.TotalAmount,
-                Flight = new FlightSummary
-                {
-                    FlightNumber = booking.Flight.FlightNumber,
-                    Airline = booking.Flight.Airline,
-                    OriginAirport = booking.Flight.OriginAirport,
-                    DestinationAirport = booking.Flight.DestinationAirport,
-                    ScheduledDeparture = booking.Flight.ScheduledDeparture,
-                    ScheduledArrival = booking.Flight.ScheduledArrival,
-                    Status = booking.Flight.Status,
-                    Gate = booking.Flight.Gate,
-                    Terminal = booking.Flight.Terminal
-                },
-                Passengers = booking.Passengers.Select(p => new PassengerDto
-                {
-                    FirstName = p.FirstName,
-                    LastName = p.LastName,
-                    SeatNumber = p.SeatNumber,
-                    SeatClass = p.SeatClass.ToString()
-                }).ToList(),
-                CreatedAt = booking.CreatedAt
-            });
+            return Ok(MapToBookingDetails(booking));
         }
         catch (Exception ex)
         {
@@ -113,22 +345,45 @@ public class BookingsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Checks in the selected passengers once their travel documents are recorded and returns a boarding pass for each.
+    /// Open to guest trip tokens for this booking as well as its owner.
+    /// </summary>
     [HttpPost("{confirmationNumber}/checkin")]
-    public async Task<ActionResult<CheckInResponse>> CheckIn(string confirmationNumber)
+    public async Task<ActionResult<CheckInResponse>> CheckIn(string confirmationNumber, [FromBody] CheckInPassengersRequest request)
     {
         try
         {
-            var result = await _bookingService.CheckInAsync(confirmationNumber);
-            
+            var userId = await _tripAccessService.GetBookingUserIdAsync(User, confirmationNumber);
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            var result = await _bookingService.CheckInAsync(new CheckInRequest
+            {
+                ConfirmationNumber = confirmationNumber,
+                UserId = userId,
+                Passengers = request.Passengers.Select(p => new PassengerCheckIn
+                {
+                    PassengerId = p.PassengerId,
+                    DocumentType = p.DocumentType,
+                    DocumentNumber = p.DocumentNumber,
+                    DocumentExpiry = p.DocumentExpiry,
+                    DocumentCountry = p.DocumentCountry
+                }).ToList(),
+                DocumentsConfirmed = request.DocumentsConfirmed
+            });
+
             if (!result.Success)
             {
-                return BadRequest(new { message = result.ErrorMessage });
+                return CheckInFailure(result);
             }
 
             return Ok(new CheckInResponse
             {
                 Success = true,
-                BoardingPass = result.BoardingPass
+                BoardingPasses = result.BoardingPasses
             });
         }
         catch (Exception ex)
@@ -137,6 +392,460 @@ public class BookingsController : ControllerBase
             return StatusCode(500, new { message = "Check-in failed" });
         }
     }
+
+    /// <summary>
+    /// Boarding passes for every passenger on the booking who has already checked in. Open to guest trip tokens too.
+    /// </summary>
+    [HttpGet("{confirmationNumber}/boarding-passes")]
+    public async Task<ActionResult<List<BoardingPass>>> GetBoardingPasses(string confirmationNumber)
+    {
+        try
+        {
+            var userId = await _tripAccessService.GetBookingUserIdAsync(User, confirmationNumber);
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            var boardingPasses = await _bookingService.GetBoardingPassesAsync(confirmationNumber, userId);
+            if (boardingPasses == null)
+            {
+                return NotFound(new { message = "Booking not found", code = ErrorCodes.BookingNotFound });
+            }
+
+            return Ok(boardingPasses);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving boarding passes for {ConfirmationNumber}", confirmationNumber);
+            return StatusCode(500, new { message = "Failed to retrieve boarding passes" });
+        }
+    }
+
+    /// <summary>
+    /// The bags tagged for this booking at check-in, each with its status history. Open to guest trip tokens too.
+    /// </summary>
+    [HttpGet("{confirmationNumber}/baggage")]
+    public async Task<ActionResult<List<BaggageInfo>>> GetBookingBaggage(string confirmationNumber)
+    {
+        try
+        {
+            var userId = await _tripAccessService.GetBookingUserIdAsync(User, confirmationNumber);
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            var booking = await _bookingService.GetBookingAsync(confirmationNumber);
+            if (booking == null || booking.UserId != userId)
+            {
+                return NotFound(new { message = "Booking not found", code = ErrorCodes.BookingNotFound });
+            }
+
+            return Ok(await _baggageService.GetBookingBaggageAsync(booking.Id));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving baggage for {ConfirmationNumber}", confirmationNumber);
+            return StatusCode(500, new { message = "Failed to retrieve baggage" });
+        }
+    }
+
+    /// <summary>
+    /// What cancelling the given passengers, or the whole booking when none are given, would refund now
+    /// </summary>
+    [HttpGet("{confirmationNumber}/cancellation-quote")]
+    public async Task<ActionResult<CancellationQuote>> GetCancellationQuote(string confirmationNumber, [FromQuery] List<int> passengerIds)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            var result = await _bookingService.QuoteCancellationAsync(new CancellationRequest
+            {
+                ConfirmationNumber = confirmationNumber,
+                UserId = userId,
+                PassengerIds = passengerIds
+            });
+
+            if (!result.Success)
+            {
+                return CancellationFailure(result);
+            }
+
+            return Ok(result.Quote);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error quoting cancellation for {ConfirmationNumber}", confirmationNumber);
+            return StatusCode(500, new { message = "Failed to quote cancellation" });
+        }
+    }
+
+    /// <summary>
+    /// Cancels the selected passengers, or the whole booking, refunding the card and issuing credit per the quote
+    /// </summary>
+    [HttpPost("{confirmationNumber}/cancel")]
+    public async Task<ActionResult<CancelBookingResponse>> CancelBooking(string confirmationNumber, [FromBody] CancelBookingRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            var result = await _bookingService.CancelBookingAsync(new CancellationRequest
+            {
+                ConfirmationNumber = confirmationNumber,
+                UserId = userId,
+                PassengerIds = request.PassengerIds
+            });
+
+            if (!result.Success)
+            {
+                return CancellationFailure(result);
+            }
+
+            return Ok(new CancelBookingResponse
+            {
+                Booking = MapToBookingDetails(result.Booking!),
+                Cancellation = result.Quote!
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error cancelling booking {ConfirmationNumber}", confirmationNumber);
+            return StatusCode(500, new { message = "Cancellation failed" });
+        }
+    }
+
+    /// <summary>
+    /// Other upcoming flights on the booking's route, each priced against what the passengers have paid
+    /// </summary>
+    [HttpGet("{confirmationNumber}/change-options")]
+    public async Task<ActionResult<FlightChangeOptionsResponse>> GetFlightChangeOptions(string confirmationNumber)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            var result = await _bookingChangeService.GetFlightChangeOptionsAsync(confirmationNumber, userId);
+            if (!result.Success)
+            {
+                return BookingChangeFailure(new BookingChangeResult { ErrorMessage = result.ErrorMessage, ErrorCode = result.ErrorCode });
+            }
+
+            return Ok(new FlightChangeOptionsResponse
+            {
+                Currency = result.Currency,
+                CurrentFare = result.CurrentFare,
+                Options = result.Options
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving flight change options for {ConfirmationNumber}", confirmationNumber);
+            return StatusCode(500, new { message = "Failed to retrieve alternative flights" });
+        }
+    }
+
+    /// <summary>
+    /// Moves passengers to new seats in their cabin. Dearer seats are charged to the card given, cheaper ones credited.
+    /// </summary>
+    [HttpPost("{confirmationNumber}/change-seats")]
+    public async Task<ActionResult<BookingChangeResponse>> ChangeSeats(string confirmationNumber, [FromBody] ChangeSeatsRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            var result = await _bookingChangeService.ChangeSeatsAsync(new SeatChangeRequest
+            {
+                ConfirmationNumber = confirmationNumber,
+                UserId = userId,
+                Seats = request.Seats,
+                PaymentInfo = request.PaymentInfo
+            });
+
+            if (!result.Success)
+            {
+                return BookingChangeFailure(result);
+            }
+
+            return Ok(MapToBookingChangeResponse(result));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error changing seats on booking {ConfirmationNumber}", confirmationNumber);
+            return StatusCode(500, new { message = "Seat change failed" });
+        }
+    }
+
+    /// <summary>
+    /// Moves the booking to another flight on the same route, charging or crediting the fare difference
+    /// </summary>
+    [HttpPost("{confirmationNumber}/change-flight")]
+    public async Task<ActionResult<BookingChangeResponse>> ChangeFlight(string confirmationNumber, [FromBody] ChangeFlightRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            var result = await _bookingChangeService.ChangeFlightAsync(new FlightChangeRequest
+            {
+                ConfirmationNumber = confirmationNumber,
+                UserId = userId,
+                FlightId = request.FlightId,
+                PaymentInfo = request.PaymentInfo
+            });
+
+            if (!result.Success)
+            {
+                return BookingChangeFailure(result);
+            }
+
+            return Ok(MapToBookingChangeResponse(result));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error changing flight on booking {ConfirmationNumber}", confirmationNumber);
+            return StatusCode(500, new { message = "Flight change failed" });
+        }
+    }
+
+    /// <summary>
+    /// Fixes a typo in a passenger's name. Larger changes are rejected, since they would hand the ticket to someone else.
+    /// </summary>
+    [HttpPost("{confirmationNumber}/correct-name")]
+    public async Task<ActionResult<BookingChangeResponse>> CorrectName(string confirmationNumber, [FromBody] CorrectNameRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            var result = await _bookingChangeService.CorrectNameAsync(new NameCorrectionRequest
+            {
+                ConfirmationNumber = confirmationNumber,
+                UserId = userId,
+                PassengerId = request.PassengerId,
+                FirstName = request.FirstName,
+                LastName = request.LastName
+            });
+
+            if (!result.Success)
+            {
+                return BookingChangeFailure(result);
+            }
+
+            return Ok(MapToBookingChangeResponse(result));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error correcting a name on booking {ConfirmationNumber}", confirmationNumber);
+            return StatusCode(500, new { message = "Name correction failed" });
+        }
+    }
+
+    private ActionResult BookingChangeFailure(BookingChangeResult result)
+    {
+        switch (result.ErrorCode)
+        {
+            case ErrorCodes.ValidationFailed:
+                var problem = new ValidationProblemDetails(result.FieldErrors)
+                {
+                    Title = result.ErrorMessage,
+                    Status = StatusCodes.Status400BadRequest
+                };
+                problem.Extensions["code"] = result.ErrorCode;
+                return BadRequest(problem);
+            case ErrorCodes.BookingNotFound:
+                return NotFound(new { message = result.ErrorMessage, code = result.ErrorCode });
+            case ErrorCodes.ChangeUnavailable:
+            case ErrorCodes.FlightSoldOut:
+            case ErrorCodes.SeatUnavailable:
+                return Conflict(new { message = result.ErrorMessage, code = result.ErrorCode, seats = result.UnavailableSeats });
+            case ErrorCodes.PaymentDeclined:
+                return StatusCode(StatusCodes.Status402PaymentRequired, new { message = result.ErrorMessage, code = result.ErrorCode, declineCode = result.DeclineCode });
+            default:
+                return BadRequest(new { message = result.ErrorMessage, code = result.ErrorCode });
+        }
+    }
+
+    private ActionResult CancellationFailure(CancellationResult result)
+    {
+        switch (result.ErrorCode)
+        {
+            case ErrorCodes.ValidationFailed:
+                var problem = new ValidationProblemDetails(result.FieldErrors)
+                {
+                    Title = result.ErrorMessage,
+                    Status = StatusCodes.Status400BadRequest
+                };
+                problem.Extensions["code"] = result.ErrorCode;
+                return BadRequest(problem);
+            case ErrorCodes.BookingNotFound:
+                return NotFound(new { message = result.ErrorMessage, code = result.ErrorCode });
+            case ErrorCodes.CancellationUnavailable:
+                return Conflict(new { message = result.ErrorMessage, code = result.ErrorCode });
+            case ErrorCodes.RefundFailed:
+                return StatusCode(StatusCodes.Status502BadGateway, new { message = result.ErrorMessage, code = result.ErrorCode });
+            default:
+                return BadRequest(new { message = result.ErrorMessage, code = result.ErrorCode });
+        }
+    }
+
+    private ActionResult CheckInFailure(CheckInResult result)
+    {
+        switch (result.ErrorCode)
+        {
+            case ErrorCodes.ValidationFailed:
+                var problem = new ValidationProblemDetails(result.FieldErrors)
+                {
+                    Title = result.ErrorMessage,
+                    Status = StatusCodes.Status400BadRequest
+                };
+                problem.Extensions["code"] = result.ErrorCode;
+                return BadRequest(problem);
+            case ErrorCodes.BookingNotFound:
+                return NotFound(new { message = result.ErrorMessage, code = result.ErrorCode });
+            case ErrorCodes.CheckInUnavailable:
+                return Conflict(new { message = result.ErrorMessage, code = result.ErrorCode });
+            default:
+                return BadRequest(new { message = result.ErrorMessage, code = result.ErrorCode });
+        }
+    }
+
+    private ActionResult BookingFailure(BookingResult result)
+    {
+        switch (result.ErrorCode)
+        {
+            case ErrorCodes.ValidationFailed:
+                var problem = new ValidationProblemDetails(result.FieldErrors)
+                {
+                    Title = result.ErrorMessage,
+                    Status = StatusCodes.Status400BadRequest
+                };
+                problem.Extensions["code"] = result.ErrorCode;
+                return BadRequest(problem);
+            case ErrorCodes.FlightNotFound:
+                return NotFound(new { message = result.ErrorMessage, code = result.ErrorCode });
+            case ErrorCodes.FlightDeparted:
+            case ErrorCodes.FlightSoldOut:
+            case ErrorCodes.SeatUnavailable:
+                return Conflict(new { message = result.ErrorMessage, code = result.ErrorCode, seats = result.UnavailableSeats });
+            case ErrorCodes.PaymentDeclined:
+                return StatusCode(StatusCodes.Status402PaymentRequired, new { message = result.ErrorMessage, code = result.ErrorCode, declineCode = result.DeclineCode });
+            default:
+                return BadRequest(new { message = result.ErrorMessage, code = result.ErrorCode });
+        }
+    }
+
+    private static PassengerInfo MapToPassengerInfo(PassengerRequest passenger)
+    {
+        return new PassengerInfo
+        {
+            FirstName = passenger.FirstName,
+            LastName = passenger.LastName,
+            DateOfBirth = passenger.DateOfBirth,
+            SeatClass = passenger.SeatClass,
+            CheckedBags = passenger.CheckedBags,
+            SeatNumber = passenger.SeatNumber
+        };
+    }
+
+    private static BookingDetailsResponse MapToBookingDetails(Booking booking)
+    {
+        return new BookingDetailsResponse
+        {
+            ConfirmationNumber = booking.ConfirmationNumber,
+            Status = booking.Status.ToString(),
+            TotalAmount = booking.TotalAmount,
+            RefundedAmount = booking.RefundedAmount,
+            CreditAmount = booking.CreditAmount,
+            PointsRedeemed = booking.PointsRedeemed,
+            PointsValue = booking.PointsValue,
+            PointsRefunded = booking.PointsRefunded,
+            Flight = new FlightSummary
+            {
+                Id = booking.Flight.Id,
+                FlightNumber = booking.Flight.FlightNumber,
+                Airline = booking.Flight.Airline,
+                OriginAirport = booking.Flight.OriginAirport,
+                DestinationAirport = booking.Flight.DestinationAirport,
+                ScheduledDeparture = booking.Flight.ScheduledDeparture,
+                EstimatedDeparture = booking.Flight.EstimatedDeparture,
+                ScheduledArrival = booking.Flight.ScheduledArrival,
+                EstimatedArrival = booking.Flight.EstimatedArrival,
+                Status = booking.Flight.Status,
+                Gate = booking.Flight.Gate,
+                Terminal = booking.Flight.Terminal
+            },
+            Passengers = booking.Passengers.Select(p => new PassengerDto
+            {
+                Id = p.Id,
+                FirstName = p.FirstName,
+                LastName = p.LastName,
+                SeatNumber = p.SeatNumber,
+                SeatClass = p.SeatClass.ToString(),
+                CheckedIn = p.CheckedIn,
+                Cancelled = p.CancelledAt != null
+            }).ToList(),
+            Changes = booking.Changes
+                .OrderByDescending(c => c.ChangedAt)
+                .Select(MapToBookingChangeDto)
+                .ToList(),
+            CreatedAt = booking.CreatedAt
+        };
+    }
+
+    private static BookingChangeResponse MapToBookingChangeResponse(BookingChangeResult result)
+    {
+        return new BookingChangeResponse
+        {
+            Booking = MapToBookingDetails(result.Booking!),
+            Changes = result.Changes.Select(MapToBookingChangeDto).ToList(),
+            AmountCharged = result.Changes.Sum(c => c.AmountCharged),
+            CreditIssued = result.Changes.Sum(c => c.CreditIssued)
+        };
+    }
+
+    private static BookingChangeDto MapToBookingChangeDto(BookingChange change)
+    {
+        return new BookingChangeDto
+        {
+            Id = change.Id,
+            PassengerId = change.PassengerId,
+            Type = change.Type.ToString(),
+            Description = change.Description,
+            PreviousValue = change.PreviousValue,
+            NewValue = change.NewValue,
+            AmountCharged = change.AmountCharged,
+            CreditIssued = change.CreditIssued,
+            ChangedAt = change.ChangedAt
+        };
+    }
 }
 
 // DTOs
@@ -146,6 +855,16 @@ public class CreateBookingRequest
     public DateTime FlightDate { get; set; }
     public List<PassengerRequest> Passengers { get; set; } = new();
     public List<string> SelectedSeats { get; set; } = new();
+    // Only needed when the fare is not fully covered by points
+    public PaymentInfo? PaymentInfo { get; set; }
+    public int PointsToRedeem { get; set; }
+}
+
+public class FareQuoteRequest
+{
+    public string FlightNumber { get; set; } = string.Empty;
+    public DateTime FlightDate { get; set; }
+    public List<PassengerRequest> Passengers { get; set; } = new();
 }
 
 public class PassengerRequest
@@ -154,6 +873,22 @@ public class PassengerRequest
     public string LastName { get; set; } = string.Empty;
     public DateTime? DateOfBirth { get; set; }
     public SeatClass SeatClass { get; set; }
+    public int CheckedBags { get; set; }
+    public string? SeatNumber { get; set; }
+}
+
+public class SeatHoldRequest
+{
+    public string FlightNumber { get; set; } = string.Empty;
+    public DateTime FlightDate { get; set; }
+    public string SeatNumber { get; set; } = string.Empty;
+}
+
+public class SeatHoldResponse
+{
+    public string FlightNumber { get; set; } = string.Empty;
+    public string SeatNumber { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
 }
 
 public class BookingResponse
@@ -161,29 +896,143 @@ public class BookingResponse
     public string ConfirmationNumber { get; set; } = string.Empty;
     public string Status { get; set; } = string.Empty;
     public decimal TotalAmount { get; set; }
+    public int PointsRedeemed { get; set; }
+    // The part of TotalAmount paid with points
+    public decimal PointsValue { get; set; }
     public DateTime CreatedAt { get; set; }
 }
 
+public class FindTripRequest
+{
+    public string ConfirmationNumber { get; set; } = string.Empty;
+    public string LastName { get; set; } = string.Empty;
+}
+
+public class TripAccessResponse
+{
+    public string ConfirmationNumber { get; set; } = string.Empty;
+    // Bearer token for this booking's view, check-in and boarding pass endpoints only
+    public string Token { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
+}
+
 public class BookingDetailsResponse
 {
     public string ConfirmationNumber { get; set; } = string.Empty;
     public string Status { get; set; } = string.Empty;
     public decimal TotalAmount { get; set; }
+    public decimal RefundedAmount { get; set; }
+    public decimal CreditAmount { get; set; }
+    public int PointsRedeemed { get; set; }
+    // The part of TotalAmount paid with points
+    public decimal PointsValue { get; set; }
+    public int PointsRefunded { get; set; }
     public FlightSummary Flight { get; set; } = new();
     public List<PassengerDto> Passengers { get; set; } = new();
+    // Newest first
+    public List<BookingChangeDto> Changes { get; set; } = new();
     public DateTime CreatedAt { get; set; }
 }
 
+public class MyBookingsResponse
+{
+    public List<BookingDetailsResponse> Bookings { get; set; } = new();
+    public int Page { get; set; }
+    public int PageSize { get; set; }
+    public int TotalCount { get; set; }
+    public int TotalPages { get; set; }
+    public int UpcomingCount { get; set; }
+    public int PastCount { get; set; }
+}
+
+public class CheckInPassengersRequest
+{
+    public List<PassengerCheckInRequest> Passengers { get; set; } = new();
+    public bool DocumentsConfirmed { get; set; }
+}
+
+public class PassengerCheckInRequest
+{
+    public int PassengerId { get; set; }
+    public TravelDocumentType? DocumentType { get; set; }
+    public string DocumentNumber { get; set; } = string.Empty;
+    public DateTime? DocumentExpiry { get; set; }
+    public string DocumentCountry { get; set; } = string.Empty;
+}
+
 public class CheckInResponse
 {
     public bool Success { get; set; }
-    public BoardingPass? BoardingPass { get; set; }
+    public List<BoardingPass> BoardingPasses { get; set; } = new();
 }
 
 public class PassengerDto
 {
+    public int Id { get; set; }
     public string FirstName { get; set; } = string.Empty;
     public string LastName { get; set; } = string.Empty;
     public string? SeatNumber { get; set; }
     public string SeatClass { get; set; } = string.Empty;
+    public bool CheckedIn { get; set; }
+    public bool Cancelled { get; set; }
+}
+
+public class CancelBookingRequest
+{
+    // Empty cancels every passenger still on the booking
+    public List<int> PassengerIds { get; set; } = new();
+}
+
+public class CancelBookingResponse
+{
+    public BookingDetailsResponse Booking { get; set; } = new();
+    public CancellationQuote Cancellation { get; set; } = new();
+}
+
+public class ChangeSeatsRequest
+{
+    public List<PassengerSeatChange> Seats { get; set; } = new();
+    public PaymentInfo? PaymentInfo { get; set; }
+}
+
+public class ChangeFlightRequest
+{
+    public int FlightId { get; set; }
+    public PaymentInfo? PaymentInfo { get; set; }
+}
+
+public class CorrectNameRequest
+{
+    public int PassengerId { get; set; }
+    public string FirstName { get; set; } = string.Empty;
+    public string LastName { get; set; } = string.Empty;
+}
+
+public class FlightChangeOptionsResponse
+{
+    public string Currency { get; set; } = string.Empty;
+    public decimal CurrentFare { get; set; }
+    public List<FlightChangeOption> Options { get; set; } = new();
+}
+
+public class BookingChangeDto
+{
+    public int Id { get; set; }
+    public int? PassengerId { get; set; }
+    public string Type { get; set; } = string.Empty;
+    public string Description { get; set; } = string.Empty;
+    public string? PreviousValue { get; set; }
+    public string? NewValue { get; set; }
+    public decimal AmountCharged { get; set; }
+    public decimal CreditIssued { get; set; }
+    public DateTime ChangedAt { get; set; }
+}
+
+public class BookingChangeResponse
+{
+    public BookingDetailsResponse Booking { get; set; } = new();
+    // The changes just made
+    public List<BookingChangeDto> Changes { get; set; } = new();
+    public decimal AmountCharged { get; set; }
+    public decimal CreditIssued { get; set; }
 }
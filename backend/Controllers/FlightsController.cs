@@ -11,12 +11,14 @@ namespace AirlineSimulationApi.Controllers;
 public class FlightsController : ControllerBase
 {
     private readonly IFlightService _flightService;
+    private readonly ISeatHoldService _seatHoldService;
     private readonly ILogger<FlightsController> _logger;
     private static readonly RandomNumberGenerator _rng = RandomNumberGenerator.Create();
 
-    public FlightsController(IFlightService flightService, ILogger<FlightsController> logger)
+    public FlightsController(IFlightService flightService, ISeatHoldService seatHoldService, ILogger<FlightsController> logger)
     {
         _flightService = flightService;
+        _seatHoldService = seatHoldService;
         _logger = logger;
     }
 
@@ -60,7 +62,11 @@ public class FlightsController : ControllerBase
                 Airport = airport,
                 Flights = filteredFlights.Select(MapToFlightSummary).ToList(),
                 LastUpdated = DateTime.UtcNow,
-                TotalCount = filteredFlights.Count()
+                TotalCount = filteredFlights.Count(),
+                // Unfiltered figures so the board can show "x of y" and keep every airline selectable
+                TotalDepartures = flights.Count(f => f.OriginAirport == airport),
+                TotalArrivals = flights.Count(f => f.DestinationAirport == airport),
+                Airlines = flights.Select(f => f.Airline).Distinct().OrderBy(a => a).ToList()
             };
 
             return Ok(response);
@@ -229,17 +235,40 @@ public class FlightsController : ControllerBase
             // In a real application, this would come from the database
             var seatMap = GenerateMockSeatMap(flightNumber);
 
+            // Seats other customers are holding show as unavailable; the caller's own holds stay selectable
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            var heldSeats = _seatHoldService.GetSeatsHeldByOthers(flightNumber, flightDate, userId);
+
             var response = new SeatMapResponse
             {
                 FlightNumber = flightNumber,
+                Aircraft = seatMap.Aircraft,
+                Currency = FareService.Currency,
+                Cabins = seatMap.Cabins.Select(cabin => new CabinDto
+                {
+                    Class = cabin.Class.ToString(),
+                    FirstRow = cabin.FirstRow,
+                    LastRow = cabin.LastRow,
+                    Columns = cabin.Columns,
+                    AislesAfter = cabin.AislesAfter
+                }).ToList(),
                 Rows = seatMap.Rows.Select(row => new SeatRowDto
                 {
                     RowNumber = row.RowNumber,
+                    IsExitRow = row.IsExitRow,
+                    IsBulkhead = row.IsBulkhead,
+                    IsOverWing = row.IsOverWing,
                     Seats = row.Seats.Select(seat => new SeatDto
                     {
                         Number = seat.Number,
+                        Column = seat.Column,
                         Class = seat.Class.ToString(),
-                        IsAvailable = seat.IsAvailable
+                        IsAvailable = seat.IsAvailable && !heldSeats.Contains(seat.Number),
+                        Position = seat.Position.ToString(),
+                        HasExtraLegroom = seat.HasExtraLegroom,
+                        IsBlocked = seat.IsBlocked,
+                        BlockedReason = seat.BlockedReason,
+                        Upcharge = seat.Upcharge
                     }).ToList()
                 }).ToList()
             };
@@ -289,36 +318,19 @@ public class FlightsController : ControllerBase
 
     private SeatMap GenerateMockSeatMap(string flightNumber)
     {
-        var rows = new List<SeatRow>();
+        var rows = SeatLayout.BuildRows();
 
-        for (int i = 1; i <= 30; i++)
+        // Blocked seats stay unavailable; everything else is randomly occupied
+        foreach (var seat in rows.SelectMany(row => row.Seats).Where(seat => !seat.IsBlocked))
         {
-            var seats = new List<Seat>();
-            var seatLetters = new[] { "A", "B", "C", "D", "E", "F" };
-
-            foreach (var letter in seatLetters)
-            {
-                var seatNumber = $"{i}{letter}";
-                var isAvailable = IsRandomSeatAvailable();
-
-                seats.Add(new Seat
-                {
-                    Number = seatNumber,
-                    Class = SeatClass.Economy,
-                    IsAvailable = isAvailable
-                });
-            }
-
-            rows.Add(new SeatRow
-            {
-                RowNumber = i,
-                Seats = seats
-            });
+            seat.IsAvailable = IsRandomSeatAvailable();
         }
 
         return new SeatMap
         {
             FlightNumber = flightNumber,
+            Aircraft = SeatLayout.Aircraft,
+            Cabins = SeatLayout.Cabins.ToList(),
             Rows = rows
         };
     }
@@ -379,6 +391,9 @@ public class FlightBoardResponse
     public List<FlightSummary> Flights { get; set; } = new();
     public DateTime LastUpdated { get; set; }
     public int TotalCount { get; set; }
+    public int TotalDepartures { get; set; }
+    public int TotalArrivals { get; set; }
+    public List<string> Airlines { get; set; } = new();
 }
 
 public class FlightDetailsResponse
@@ -428,18 +443,40 @@ public class ErrorResponse
 public class SeatMapResponse
 {
     public string FlightNumber { get; set; } = string.Empty;
+    public string Aircraft { get; set; } = string.Empty;
+    // Currency of seat upcharges
+    public string Currency { get; set; } = string.Empty;
+    public List<CabinDto> Cabins { get; set; } = new();
     public List<SeatRowDto> Rows { get; set; } = new();
 }
 
+public class CabinDto
+{
+    public string Class { get; set; } = string.Empty;
+    public int FirstRow { get; set; }
+    public int LastRow { get; set; }
+    public List<string> Columns { get; set; } = new();
+    public List<string> AislesAfter { get; set; } = new();
+}
+
 public class SeatRowDto
 {
     public int RowNumber { get; set; }
+    public bool IsExitRow { get; set; }
+    public bool IsBulkhead { get; set; }
+    public bool IsOverWing { get; set; }
     public List<SeatDto> Seats { get; set; } = new();
 }
 
 public class SeatDto
 {
     public string Number { get; set; } = string.Empty;
+    public string Column { get; set; } = string.Empty;
     public string Class { get; set; } = string.Empty;
     public bool IsAvailable { get; set; }
+    public string Position { get; set; } = string.Empty;
+    public bool HasExtraLegroom { get; set; }
+    public bool IsBlocked { get; set; }
+    public string? BlockedReason { get; set; }
+    public decimal Upcharge { get; set; }
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Authorization;
+using AirlineSimulationApi.Services;
+
+namespace AirlineSimulationApi.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class LoyaltyController : ControllerBase
+{
+    private readonly ILoyaltyService _loyaltyService;
+    private readonly ILogger<LoyaltyController> _logger;
+
+    public LoyaltyController(ILoyaltyService loyaltyService, ILogger<LoyaltyController> logger)
+    {
+        _loyaltyService = loyaltyService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// The current user's loyalty account: tier, progress to the next tier and the points history
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<LoyaltyDashboard>> GetDashboard()
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            return Ok(await _loyaltyService.GetDashboardAsync(userId));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving loyalty account");
+            return StatusCode(500, new { message = "Failed to retrieve loyalty account" });
+        }
+    }
+}
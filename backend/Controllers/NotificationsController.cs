@@ -0,0 +1,166 @@
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Authorization;
+using AirlineSimulationApi.Services;
+
+namespace AirlineSimulationApi.Controllers;
+
+[ApiController]
+[Route("api/[controller]")]
+[Authorize]
+public class NotificationsController : ControllerBase
+{
+    private readonly INotificationService _notificationService;
+    private readonly IPushNotificationService _pushNotificationService;
+    private readonly ILogger<NotificationsController> _logger;
+
+    public NotificationsController(INotificationService notificationService, IPushNotificationService pushNotificationService, ILogger<NotificationsController> logger)
+    {
+        _notificationService = notificationService;
+        _pushNotificationService = pushNotificationService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// The current user's most recent notifications, newest first, with how many are unread
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<UserNotificationList>> GetNotifications()
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            return Ok(await _notificationService.GetNotificationsAsync(userId));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving notifications");
+            return StatusCode(500, new { message = "Failed to retrieve notifications" });
+        }
+    }
+
+    /// <summary>
+    /// Mark one of the current user's notifications as read
+    /// </summary>
+    [HttpPost("{id:int}/read")]
+    public async Task<IActionResult> MarkRead(int id)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            if (!await _notificationService.MarkReadAsync(userId, id))
+            {
+                return NotFound(new { message = "Notification not found" });
+            }
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error marking notification {NotificationId} as read", id);
+            return StatusCode(500, new { message = "Failed to update notification" });
+        }
+    }
+
+    /// <summary>
+    /// Mark all of the current user's notifications as read
+    /// </summary>
+    [HttpPost("read-all")]
+    public async Task<IActionResult> MarkAllRead()
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            await _notificationService.MarkAllReadAsync(userId);
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error marking notifications as read");
+            return StatusCode(500, new { message = "Failed to update notifications" });
+        }
+    }
+
+    /// <summary>
+    /// The VAPID public key browsers need to subscribe to Web Push
+    /// </summary>
+    [HttpGet("push/public-key")]
+    [AllowAnonymous]
+    public ActionResult GetPushPublicKey()
+    {
+        return Ok(new { publicKey = _pushNotificationService.GetPublicKey() });
+    }
+
+    /// <summary>
+    /// Register this browser's Web Push subscription for the current user
+    /// </summary>
+    [HttpPost("push/subscriptions")]
+    public async Task<IActionResult> Subscribe([FromBody] PushSubscriptionRequest request)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            if (request.Endpoint.Length > 1000 ||
+                !Uri.TryCreate(request.Endpoint, UriKind.Absolute, out var endpoint) || endpoint.Scheme != Uri.UriSchemeHttps ||
+                string.IsNullOrWhiteSpace(request.Keys.P256dh) || string.IsNullOrWhiteSpace(request.Keys.Auth))
+            {
+                return BadRequest(new { message = "Invalid push subscription" });
+            }
+
+            await _pushNotificationService.SubscribeAsync(userId, request);
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error storing push subscription");
+            return StatusCode(500, new { message = "Failed to enable push notifications" });
+        }
+    }
+
+    /// <summary>
+    /// Stop sending Web Push messages to a browser
+    /// </summary>
+    [HttpDelete("push/subscriptions")]
+    public async Task<IActionResult> Unsubscribe([FromQuery] string endpoint)
+    {
+        try
+        {
+            var userId = User.FindFirst(System.Security.Claims.ClaimTypes.NameIdentifier)?.Value;
+            if (string.IsNullOrEmpty(userId))
+            {
+                return Unauthorized();
+            }
+
+            if (!await _pushNotificationService.UnsubscribeAsync(userId, endpoint))
+            {
+                return NotFound(new { message = "Push subscription not found" });
+            }
+
+            return NoContent();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error removing push subscription");
+            return StatusCode(500, new { message = "Failed to disable push notifications" });
+        }
+    }
+}
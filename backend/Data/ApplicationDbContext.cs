@@ -16,7 +16,13 @@ public class ApplicationDbContext : DbContext
     public DbSet<Passenger> Passengers { get; set; }
     public DbSet<NotificationPreferences> NotificationPreferences { get; set; }
     public DbSet<BaggageItem> BaggageItems { get; set; }
+    public DbSet<BaggageStatusEvent> BaggageStatusEvents { get; set; }
     public DbSet<LoyaltyAccount> LoyaltyAccounts { get; set; }
+    public DbSet<LoyaltyTransaction> LoyaltyTransactions { get; set; }
+    public DbSet<RefreshToken> RefreshTokens { get; set; }
+    public DbSet<BookingChange> BookingChanges { get; set; }
+    public DbSet<UserNotification> UserNotifications { get; set; }
+    public DbSet<WebPushSubscription> WebPushSubscriptions { get; set; }
 
     protected override void OnModelCreating(ModelBuilder builder)
     {
@@ -59,6 +65,9 @@ public class ApplicationDbContext : DbContext
             entity.Property(e => e.TotalAmount).HasColumnType("decimal(10,2)");
             entity.Property(e => e.Status).HasConversion<string>();
             entity.Property(e => e.PaymentStatus).HasConversion<string>();
+            entity.Property(e => e.PaymentTransactionId).HasMaxLength(50);
+            entity.Property(e => e.RefundedAmount).HasColumnType("decimal(10,2)");
+            entity.Property(e => e.CreditAmount).HasColumnType("decimal(10,2)");
             
             entity.HasOne(e => e.User)
                   .WithMany(u => u.Bookings)
@@ -79,6 +88,11 @@ public class ApplicationDbContext : DbContext
                   .WithOne(e => e.Booking)
                   .HasForeignKey(e => e.BookingId)
                   .OnDelete(DeleteBehavior.Cascade);
+                  
+            entity.HasMany(e => e.Changes)
+                  .WithOne(e => e.Booking)
+                  .HasForeignKey(e => e.BookingId)
+                  .OnDelete(DeleteBehavior.Cascade);
         });
 
         // Passenger entity configuration
@@ -89,6 +103,10 @@ public class ApplicationDbContext : DbContext
             entity.Property(e => e.LastName).HasMaxLength(100).IsRequired();
             entity.Property(e => e.SeatNumber).HasMaxLength(5);
             entity.Property(e => e.SeatClass).HasConversion<string>();
+            entity.Property(e => e.DocumentType).HasConversion<string>();
+            entity.Property(e => e.DocumentNumber).HasMaxLength(20);
+            entity.Property(e => e.DocumentCountry).HasMaxLength(3);
+            entity.Property(e => e.FareAmount).HasColumnType("decimal(10,2)");
         });
 
         // NotificationPreferences entity configuration
@@ -109,6 +127,20 @@ public class ApplicationDbContext : DbContext
             entity.Property(e => e.Weight).HasColumnType("decimal(5,2)");
             entity.Property(e => e.Type).HasConversion<string>();
             entity.Property(e => e.Status).HasConversion<string>();
+
+            entity.HasMany(e => e.StatusHistory)
+                  .WithOne(e => e.BaggageItem)
+                  .HasForeignKey(e => e.BaggageItemId)
+                  .OnDelete(DeleteBehavior.Cascade);
+        });
+
+        // BaggageStatusEvent entity configuration
+        builder.Entity<BaggageStatusEvent>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Status).HasConversion<string>();
+            entity.Property(e => e.Location).HasMaxLength(100).IsRequired();
+            entity.Property(e => e.Description).HasMaxLength(200).IsRequired();
         });
 
         // LoyaltyAccount entity configuration
@@ -122,6 +154,82 @@ public class ApplicationDbContext : DbContext
                   .WithOne(e => e.LoyaltyAccount)
                   .HasForeignKey<LoyaltyAccount>(e => e.UserId)
                   .OnDelete(DeleteBehavior.Cascade);
+            entity.HasMany(e => e.Transactions)
+                  .WithOne(e => e.LoyaltyAccount)
+                  .HasForeignKey(e => e.LoyaltyAccountId)
+                  .OnDelete(DeleteBehavior.Cascade);
+        });
+
+        // LoyaltyTransaction entity configuration
+        builder.Entity<LoyaltyTransaction>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Type).HasConversion<string>();
+            entity.Property(e => e.Description).HasMaxLength(200).IsRequired();
+            entity.HasIndex(e => new { e.LoyaltyAccountId, e.CreatedAt });
+            entity.HasOne(e => e.Booking)
+                  .WithMany()
+                  .HasForeignKey(e => e.BookingId)
+                  .OnDelete(DeleteBehavior.SetNull);
+        });
+
+        // UserNotification entity configuration
+        builder.Entity<UserNotification>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Type).HasConversion<string>();
+            entity.Property(e => e.Title).HasMaxLength(100).IsRequired();
+            entity.Property(e => e.Message).HasMaxLength(500).IsRequired();
+            entity.Property(e => e.FlightNumber).HasMaxLength(10);
+            entity.HasIndex(e => new { e.UserId, e.CreatedAt });
+            entity.HasOne(e => e.User)
+                  .WithMany()
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
+            entity.HasOne(e => e.Booking)
+                  .WithMany()
+                  .HasForeignKey(e => e.BookingId)
+                  .OnDelete(DeleteBehavior.SetNull);
+        });
+
+        // WebPushSubscription entity configuration
+        builder.Entity<WebPushSubscription>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Endpoint).HasMaxLength(1000).IsRequired();
+            entity.Property(e => e.P256dh).HasMaxLength(200).IsRequired();
+            entity.Property(e => e.Auth).HasMaxLength(100).IsRequired();
+            entity.HasIndex(e => e.Endpoint).IsUnique();
+            entity.HasIndex(e => e.UserId);
+            entity.HasOne(e => e.User)
+                  .WithMany()
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
+        });
+
+        // BookingChange entity configuration
+        builder.Entity<BookingChange>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Type).HasConversion<string>();
+            entity.Property(e => e.Description).HasMaxLength(200).IsRequired();
+            entity.Property(e => e.PreviousValue).HasMaxLength(100);
+            entity.Property(e => e.NewValue).HasMaxLength(100);
+            entity.Property(e => e.AmountCharged).HasColumnType("decimal(10,2)");
+            entity.Property(e => e.CreditIssued).HasColumnType("decimal(10,2)");
+            entity.Property(e => e.PaymentTransactionId).HasMaxLength(50);
+        });
+
+        // RefreshToken entity configuration
+        builder.Entity<RefreshToken>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.TokenHash).HasMaxLength(64).IsRequired();
+            entity.HasIndex(e => e.TokenHash).IsUnique();
+            entity.HasOne(e => e.User)
+                  .WithMany()
+                  .HasForeignKey(e => e.UserId)
+                  .OnDelete(DeleteBehavior.Cascade);
         });
     }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.SignalR;
 using Microsoft.AspNetCore.Authorization;
+using AirlineSimulationApi.Services;
 
 namespace AirlineSimulationApi.Hubs;
 
@@ -92,6 +93,46 @@ public class FlightUpdatesHub : Hub
             Context.ConnectionId, airportCode);
     }
 
+    /// <summary>
+    /// Join a baggage group to receive status changes for a checked bag
+    /// </summary>
+    /// <param name="trackingNumber">The bag tag's tracking number</param>
+    public async Task JoinBaggageGroup(string trackingNumber)
+    {
+        if (string.IsNullOrWhiteSpace(trackingNumber))
+        {
+            await Clients.Caller.SendAsync("Error", "Tracking number cannot be empty");
+            return;
+        }
+
+        var groupName = $"baggage_{trackingNumber.Trim().ToUpperInvariant()}";
+        await Groups.AddToGroupAsync(Context.ConnectionId, groupName);
+        await Clients.Caller.SendAsync("JoinedBaggageGroup", trackingNumber);
+        
+        _logger.LogDebug("Connection {ConnectionId} joined baggage group {TrackingNumber}", 
+            Context.ConnectionId, trackingNumber);
+    }
+
+    /// <summary>
+    /// Leave a baggage group to stop receiving status changes for a checked bag
+    /// </summary>
+    /// <param name="trackingNumber">The tracking number to unsubscribe from</param>
+    public async Task LeaveBaggageGroup(string trackingNumber)
+    {
+        if (string.IsNullOrWhiteSpace(trackingNumber))
+        {
+            await Clients.Caller.SendAsync("Error", "Tracking number cannot be empty");
+            return;
+        }
+
+        var groupName = $"baggage_{trackingNumber.Trim().ToUpperInvariant()}";
+        await Groups.RemoveFromGroupAsync(Context.ConnectionId, groupName);
+        await Clients.Caller.SendAsync("LeftBaggageGroup", trackingNumber);
+        
+        _logger.LogDebug("Connection {ConnectionId} left baggage group {TrackingNumber}", 
+            Context.ConnectionId, trackingNumber);
+    }
+
     /// <summary>
     /// Subscribe to notifications for a specific user (requires authentication)
     /// </summary>
@@ -150,11 +191,16 @@ public interface IFlightUpdatesClient
     Task FlightDelayed(DelayUpdate update);
     Task FlightCancelled(FlightCancellationUpdate update);
     Task FlightBoardUpdated(FlightBoardUpdate update);
+    Task SeatHoldChanged(SeatHoldUpdate update);
+    Task BaggageStatusChanged(BaggageInfo update);
+    Task NotificationReceived(UserNotificationDto notification);
     Task Connected(object connectionInfo);
     Task JoinedFlightGroup(string flightNumber);
     Task LeftFlightGroup(string flightNumber);
     Task JoinedAirportGroup(string airportCode);
     Task LeftAirportGroup(string airportCode);
+    Task JoinedBaggageGroup(string trackingNumber);
+    Task LeftBaggageGroup(string trackingNumber);
     Task JoinedUserGroup(string userId);
     Task Error(string message);
 }
@@ -175,6 +221,16 @@ public class FlightStatusUpdate
     public DateTime UpdatedAt { get; set; }
 }
 
+public class SeatHoldUpdate
+{
+    public string FlightNumber { get; set; } = string.Empty;
+    public string FlightDate { get; set; } = string.Empty;
+    public string SeatNumber { get; set; } = string.Empty;
+    public string Status { get; set; } = string.Empty;
+    public DateTime? ExpiresAt { get; set; }
+    public DateTime UpdatedAt { get; set; }
+}
+
 public class GateChangeUpdate
 {
     public string FlightNumber { get; set; } = string.Empty;
@@ -0,0 +1,71 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace AirlineSimulationApi.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddPassengerCheckInDetails : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "CheckInSequence",
+                table: "Passengers",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "DocumentCountry",
+                table: "Passengers",
+                type: "character varying(3)",
+                maxLength: 3,
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "DocumentExpiry",
+                table: "Passengers",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "DocumentNumber",
+                table: "Passengers",
+                type: "character varying(20)",
+                maxLength: 20,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "DocumentType",
+                table: "Passengers",
+                type: "text",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CheckInSequence",
+                table: "Passengers");
+
+            migrationBuilder.DropColumn(
+                name: "DocumentCountry",
+                table: "Passengers");
+
+            migrationBuilder.DropColumn(
+                name: "DocumentExpiry",
+                table: "Passengers");
+
+            migrationBuilder.DropColumn(
+                name: "DocumentNumber",
+                table: "Passengers");
+
+            migrationBuilder.DropColumn(
+                name: "DocumentType",
+                table: "Passengers");
+        }
+    }
+}
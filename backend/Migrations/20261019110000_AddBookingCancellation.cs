@@ -0,0 +1,91 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace AirlineSimulationApi.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddBookingCancellation : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "CancelledAt",
+                table: "Passengers",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "FareAmount",
+                table: "Passengers",
+                type: "decimal(10,2)",
+                nullable: false,
+                defaultValue: 0m);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "CancelledAt",
+                table: "Bookings",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "CreditAmount",
+                table: "Bookings",
+                type: "decimal(10,2)",
+                nullable: false,
+                defaultValue: 0m);
+
+            migrationBuilder.AddColumn<string>(
+                name: "PaymentTransactionId",
+                table: "Bookings",
+                type: "character varying(50)",
+                maxLength: 50,
+                nullable: true);
+
+            migrationBuilder.AddColumn<decimal>(
+                name: "RefundedAmount",
+                table: "Bookings",
+                type: "decimal(10,2)",
+                nullable: false,
+                defaultValue: 0m);
+
+            // Existing bookings never recorded per-passenger fares; split their totals evenly
+            migrationBuilder.Sql(@"
+                UPDATE ""Passengers"" AS p
+                SET ""FareAmount"" = ROUND(b.""TotalAmount"" / counts.passenger_count, 2)
+                FROM ""Bookings"" AS b,
+                     (SELECT ""BookingId"", COUNT(*) AS passenger_count FROM ""Passengers"" GROUP BY ""BookingId"") AS counts
+                WHERE p.""BookingId"" = b.""Id"" AND counts.""BookingId"" = b.""Id"";");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CancelledAt",
+                table: "Passengers");
+
+            migrationBuilder.DropColumn(
+                name: "FareAmount",
+                table: "Passengers");
+
+            migrationBuilder.DropColumn(
+                name: "CancelledAt",
+                table: "Bookings");
+
+            migrationBuilder.DropColumn(
+                name: "CreditAmount",
+                table: "Bookings");
+
+            migrationBuilder.DropColumn(
+                name: "PaymentTransactionId",
+                table: "Bookings");
+
+            migrationBuilder.DropColumn(
+                name: "RefundedAmount",
+                table: "Bookings");
+        }
+    }
+}
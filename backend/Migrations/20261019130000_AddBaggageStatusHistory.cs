@@ -0,0 +1,61 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+using Npgsql.EntityFrameworkCore.PostgreSQL.Metadata;
+
+#nullable disable
+
+namespace AirlineSimulationApi.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddBaggageStatusHistory : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "PassengerId",
+                table: "BaggageItems",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "BaggageStatusEvents",
+                columns: table => new
+                {
+                    Id = table.Column<int>(type: "integer", nullable: false)
+                        .Annotation("Npgsql:ValueGenerationStrategy", NpgsqlValueGenerationStrategy.IdentityByDefaultColumn),
+                    BaggageItemId = table.Column<int>(type: "integer", nullable: false),
+                    Status = table.Column<string>(type: "text", nullable: false),
+                    Location = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    Description = table.Column<string>(type: "character varying(200)", maxLength: 200, nullable: false),
+                    Timestamp = table.Column<DateTime>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_BaggageStatusEvents", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_BaggageStatusEvents_BaggageItems_BaggageItemId",
+                        column: x => x.BaggageItemId,
+                        principalTable: "BaggageItems",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BaggageStatusEvents_BaggageItemId",
+                table: "BaggageStatusEvents",
+                column: "BaggageItemId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "BaggageStatusEvents");
+
+            migrationBuilder.DropColumn(
+                name: "PassengerId",
+                table: "BaggageItems");
+        }
+    }
+}
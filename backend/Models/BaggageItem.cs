@@ -9,6 +9,9 @@ public class BaggageItem
     
     [Required]
     public int BookingId { get; set; }
+
+    // The passenger the bag was checked in for
+    public int? PassengerId { get; set; }
     
     [Required]
     [MaxLength(12)]
@@ -29,6 +32,7 @@ public class BaggageItem
     
     // Navigation properties
     public Booking Booking { get; set; } = null!;
+    public ICollection<BaggageStatusEvent> StatusHistory { get; set; } = new List<BaggageStatusEvent>();
 }
 
 public enum BaggageType
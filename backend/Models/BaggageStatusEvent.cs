@@ -0,0 +1,30 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace AirlineSimulationApi.Models;
+
+/// <summary>
+/// One step in a bag's journey, kept so travellers can follow it from check-in to the carousel
+/// </summary>
+public class BaggageStatusEvent
+{
+    public int Id { get; set; }
+
+    [Required]
+    public int BaggageItemId { get; set; }
+
+    [Required]
+    public BaggageStatus Status { get; set; }
+
+    [Required]
+    [MaxLength(100)]
+    public string Location { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(200)]
+    public string Description { get; set; } = string.Empty;
+
+    public DateTime Timestamp { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public BaggageItem BaggageItem { get; set; } = null!;
+}
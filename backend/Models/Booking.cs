@@ -27,14 +27,37 @@ public class Booking
     
     [Required]
     public PaymentStatus PaymentStatus { get; set; }
+
+    // Gateway reference of the original charge, needed to refund it
+    [MaxLength(50)]
+    public string? PaymentTransactionId { get; set; }
+
+    // Returned to the card across all cancellations so far
+    [Column(TypeName = "decimal(10,2)")]
+    public decimal RefundedAmount { get; set; }
+
+    // Issued as travel credit instead of a refund
+    [Column(TypeName = "decimal(10,2)")]
+    public decimal CreditAmount { get; set; }
+
+    // Loyalty points put toward the fare, and the part of TotalAmount they covered
+    public int PointsRedeemed { get; set; }
+
+    [Column(TypeName = "decimal(10,2)")]
+    public decimal PointsValue { get; set; }
+
+    // Points returned to the loyalty account across all cancellations so far
+    public int PointsRefunded { get; set; }
     
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? CancelledAt { get; set; }
     
     // Navigation properties
     public User User { get; set; } = null!;
     public Flight Flight { get; set; } = null!;
     public ICollection<Passenger> Passengers { get; set; } = new List<Passenger>();
     public ICollection<BaggageItem> BaggageItems { get; set; } = new List<BaggageItem>();
+    public ICollection<BookingChange> Changes { get; set; } = new List<BookingChange>();
 }
 
 public enum BookingStatus
@@ -52,5 +75,6 @@ public enum PaymentStatus
     Processing,
     Completed,
     Failed,
-    Refunded
+    Refunded,
+    PartiallyRefunded
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace AirlineSimulationApi.Models;
+
+/// <summary>
+/// One change made to a booking after purchase, kept as its history
+/// </summary>
+public class BookingChange
+{
+    public int Id { get; set; }
+
+    [Required]
+    public int BookingId { get; set; }
+
+    // The passenger the change applies to, or null for the whole booking
+    public int? PassengerId { get; set; }
+
+    [Required]
+    public BookingChangeType Type { get; set; }
+
+    [Required]
+    [MaxLength(200)]
+    public string Description { get; set; } = string.Empty;
+
+    [MaxLength(100)]
+    public string? PreviousValue { get; set; }
+
+    [MaxLength(100)]
+    public string? NewValue { get; set; }
+
+    // Charged to the card for the change
+    [Column(TypeName = "decimal(10,2)")]
+    public decimal AmountCharged { get; set; }
+
+    // Issued as travel credit when the change made the booking cheaper
+    [Column(TypeName = "decimal(10,2)")]
+    public decimal CreditIssued { get; set; }
+
+    // Gateway reference of the charge for the change, needed to refund it. Changes paid for together
+    // share one charge.
+    [MaxLength(50)]
+    public string? PaymentTransactionId { get; set; }
+
+    public DateTime ChangedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public Booking Booking { get; set; } = null!;
+}
+
+public enum BookingChangeType
+{
+    SeatChange,
+    FlightChange,
+    NameCorrection
+}
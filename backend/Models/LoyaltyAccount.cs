@@ -26,6 +26,7 @@ public class LoyaltyAccount
     
     // Navigation properties
     public User User { get; set; } = null!;
+    public ICollection<LoyaltyTransaction> Transactions { get; set; } = new List<LoyaltyTransaction>();
 }
 
 public enum LoyaltyTier
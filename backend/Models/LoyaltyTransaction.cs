@@ -0,0 +1,43 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace AirlineSimulationApi.Models;
+
+/// <summary>
+/// A movement of points on a loyalty account, with the miles it counted toward tier status
+/// </summary>
+public class LoyaltyTransaction
+{
+    public int Id { get; set; }
+
+    [Required]
+    public int LoyaltyAccountId { get; set; }
+
+    // The booking the points were earned on, if any
+    public int? BookingId { get; set; }
+
+    [Required]
+    public LoyaltyTransactionType Type { get; set; }
+
+    // Negative when points leave the account
+    public int Points { get; set; }
+
+    [Range(0, int.MaxValue)]
+    public int Miles { get; set; }
+
+    [Required]
+    [MaxLength(200)]
+    public string Description { get; set; } = string.Empty;
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public LoyaltyAccount LoyaltyAccount { get; set; } = null!;
+    public Booking? Booking { get; set; }
+}
+
+public enum LoyaltyTransactionType
+{
+    Earned,
+    Redeemed,
+    Refunded
+}
@@ -18,4 +18,18 @@ public class NotificationPreferences
     
     // Navigation properties
     public User User { get; set; } = null!;
-}
\ No newline at end of file
+}
+
+public enum NotificationChannel
+{
+    Email,
+    Sms,
+    Push
+}
+
+public enum NotificationCategory
+{
+    FlightUpdates,
+    BookingConfirmations,
+    PromotionalOffers
+}
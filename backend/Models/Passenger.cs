@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
 
 namespace AirlineSimulationApi.Models;
 
@@ -24,9 +25,34 @@ public class Passenger
     
     [Required]
     public SeatClass SeatClass { get; set; }
+
+    // This passenger's share of the booking total, used to price partial cancellations
+    [Column(TypeName = "decimal(10,2)")]
+    public decimal FareAmount { get; set; }
+
+    // Bags paid for at booking, so the fare can be priced again when the flight changes
+    public int CheckedBags { get; set; }
+
+    // Set when the passenger is removed from the booking; the row is kept for the booking history
+    public DateTime? CancelledAt { get; set; }
     
     public bool CheckedIn { get; set; } = false;
     public DateTime? CheckInTime { get; set; }
+
+    // Order of check-in on the flight, printed on the boarding pass
+    public int? CheckInSequence { get; set; }
+
+    // Travel document confirmed at check-in
+    public TravelDocumentType? DocumentType { get; set; }
+
+    [MaxLength(20)]
+    public string? DocumentNumber { get; set; }
+
+    public DateTime? DocumentExpiry { get; set; }
+
+    // ISO 3166 code of the issuing country
+    [MaxLength(3)]
+    public string? DocumentCountry { get; set; }
     
     // Navigation properties
     public Booking Booking { get; set; } = null!;
@@ -38,4 +64,10 @@ public enum SeatClass
     PremiumEconomy,
     Business,
     First
+}
+
+public enum TravelDocumentType
+{
+    Passport,
+    NationalId
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+using System.ComponentModel.DataAnnotations;
+using System.ComponentModel.DataAnnotations.Schema;
+
+namespace AirlineSimulationApi.Models;
+
+public class RefreshToken
+{
+    public int Id { get; set; }
+    
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+    
+    // Only a SHA-256 hash of the token is stored, the raw value is handed to the client once
+    [Required]
+    [MaxLength(64)]
+    public string TokenHash { get; set; } = string.Empty;
+    
+    public DateTime ExpiresAt { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? RevokedAt { get; set; }
+    
+    [NotMapped]
+    public bool IsActive => RevokedAt == null && ExpiresAt > DateTime.UtcNow;
+    
+    // Navigation properties
+    public User User { get; set; } = null!;
+}
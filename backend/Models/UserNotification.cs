@@ -0,0 +1,48 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace AirlineSimulationApi.Models;
+
+/// <summary>
+/// An entry in a user's notification center, such as a gate change on a flight they have booked
+/// </summary>
+public class UserNotification
+{
+    public int Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    // The booking the notification is about, if any
+    public int? BookingId { get; set; }
+
+    [Required]
+    public UserNotificationType Type { get; set; }
+
+    [Required]
+    [MaxLength(100)]
+    public string Title { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(500)]
+    public string Message { get; set; } = string.Empty;
+
+    [MaxLength(10)]
+    public string? FlightNumber { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    // Null until the user has seen it
+    public DateTime? ReadAt { get; set; }
+
+    // Navigation properties
+    public User User { get; set; } = null!;
+    public Booking? Booking { get; set; }
+}
+
+public enum UserNotificationType
+{
+    GateChange,
+    Delay,
+    Cancellation,
+    CheckInReminder
+}
@@ -0,0 +1,33 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace AirlineSimulationApi.Models;
+
+/// <summary>
+/// A browser's Web Push subscription, registered by the service worker on behalf of a signed-in user
+/// </summary>
+public class WebPushSubscription
+{
+    public int Id { get; set; }
+
+    [Required]
+    public string UserId { get; set; } = string.Empty;
+
+    // The push service URL the browser handed out; unique per browser profile
+    [Required]
+    [MaxLength(1000)]
+    public string Endpoint { get; set; } = string.Empty;
+
+    // Keys the payload is encrypted with, base64url encoded
+    [Required]
+    [MaxLength(200)]
+    public string P256dh { get; set; } = string.Empty;
+
+    [Required]
+    [MaxLength(100)]
+    public string Auth { get; set; } = string.Empty;
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation properties
+    public User User { get; set; } = null!;
+}
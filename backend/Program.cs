@@ -74,6 +74,20 @@ builder.Services.AddAuthentication(JwtBearerDefaults.AuthenticationScheme)
             ValidateLifetime = true,
             ClockSkew = TimeSpan.Zero
         };
+
+        // Browsers cannot set headers on WebSocket requests, so the hub client sends its token in the query string
+        options.Events = new JwtBearerEvents
+        {
+            OnMessageReceived = context =>
+            {
+                var accessToken = context.Request.Query["access_token"];
+                if (!string.IsNullOrEmpty(accessToken) && context.HttpContext.Request.Path.StartsWithSegments("/flightUpdatesHub"))
+                {
+                    context.Token = accessToken;
+                }
+                return Task.CompletedTask;
+            }
+        };
     });
 
 // In-memory caching (simpler than Redis)
@@ -110,16 +124,46 @@ builder.Services.AddHttpClient<IWeatherService, OpenWeatherMapService>(client =>
 // Application services (simplified)
 builder.Services.AddScoped<IFlightService, FlightService>();
 builder.Services.AddScoped<IBookingService, BookingService>();
+builder.Services.AddScoped<IBookingChangeService, BookingChangeService>();
+builder.Services.AddScoped<ITripAccessService, TripAccessService>();
+builder.Services.AddScoped<ILoyaltyService, LoyaltyService>();
 builder.Services.AddScoped<IPaymentService, PaymentService>();
+builder.Services.AddScoped<IPaymentGateway, MockPaymentGateway>();
+builder.Services.AddScoped<IFareService, FareService>();
+builder.Services.AddSingleton<ISeatHoldService, SeatHoldService>();
 builder.Services.AddScoped<INotificationService, NotificationService>();
+builder.Services.AddScoped<INotificationPreferencesService, NotificationPreferencesService>();
+builder.Services.AddScoped<IPushNotificationService, PushNotificationService>();
 builder.Services.AddScoped<IBaggageService, BaggageService>();
 builder.Services.AddScoped<IEmailService, EmailService>();
 
 // Email configuration (using simulation for demo purposes)
 Console.WriteLine("Using simulated email service for demo purposes.");
 
+// Web Push - without VAPID keys, pushes go to a local stand-in that only logs them
+var vapidPublicKey = Environment.GetEnvironmentVariable("VAPID_PUBLIC_KEY");
+var vapidPrivateKey = Environment.GetEnvironmentVariable("VAPID_PRIVATE_KEY");
+var vapidSubject = Environment.GetEnvironmentVariable("VAPID_SUBJECT") ?? "mailto:notifications@localhost";
+if (!string.IsNullOrEmpty(vapidPublicKey) && !string.IsNullOrEmpty(vapidPrivateKey))
+{
+    builder.Services.AddSingleton(new VapidSettings { PublicKey = vapidPublicKey, PrivateKey = vapidPrivateKey, Subject = vapidSubject });
+    builder.Services.AddSingleton<IPushSender, WebPushSender>();
+}
+else
+{
+    Console.WriteLine("VAPID keys not set, using local push stand-in.");
+    // Browsers still need a real key pair to subscribe, so make one up for this run
+    var generatedKeys = WebPush.VapidHelper.GenerateVapidKeys();
+    builder.Services.AddSingleton(new VapidSettings { PublicKey = generatedKeys.PublicKey, PrivateKey = generatedKeys.PrivateKey, Subject = vapidSubject });
+    builder.Services.AddSingleton<IPushSender, LocalPushSender>();
+}
+
 // Background services
 builder.Services.AddHostedService<FlightUpdateBackgroundService>();
+builder.Services.AddHostedService<SeatHoldCleanupService>();
+builder.Services.AddHostedService<BaggageUpdateBackgroundService>();
+builder.Services.AddHostedService<LoyaltyCreditBackgroundService>();
+builder.Services.AddHostedService<CheckInReminderBackgroundService>();
 
 var app = builder.Build();
 
@@ -1,5 +1,7 @@
 using AirlineSimulationApi.Models;
 using AirlineSimulationApi.Data;
+using AirlineSimulationApi.Hubs;
+using Microsoft.AspNetCore.SignalR;
 using Microsoft.EntityFrameworkCore;
 
 namespace AirlineSimulationApi.Services;
@@ -9,16 +11,29 @@ public interface IBaggageService
     Task<BaggageTrackingResult> TrackBaggageAsync(string trackingNumber);
     Task<BaggageTrackingResult> CreateBaggageAsync(int bookingId, int passengerId, string description);
     Task<BaggageTrackingResult> UpdateBaggageStatusAsync(string trackingNumber, BaggageStatus newStatus);
+    Task<List<BaggageInfo>> GetBookingBaggageAsync(int bookingId);
+    Task<int> AdvanceBaggageAsync();
 }
 
+/// <summary>
+/// Bag tags issued at check-in and their journey to the destination carousel. Every status change is
+/// kept as history and pushed to the bag's hub group as BaggageStatusChanged.
+/// </summary>
 public class BaggageService : IBaggageService
 {
+    // When bags move on, relative to the flight's (estimated) times
+    private static readonly TimeSpan TransferBeforeDeparture = TimeSpan.FromMinutes(60);
+    private static readonly TimeSpan LoadedBeforeDeparture = TimeSpan.FromMinutes(15);
+    private static readonly TimeSpan DeliveredAfterArrival = TimeSpan.FromMinutes(20);
+
     private readonly ApplicationDbContext _context;
+    private readonly IHubContext<FlightUpdatesHub> _hubContext;
     private readonly ILogger<BaggageService> _logger;
 
-    public BaggageService(ApplicationDbContext context, ILogger<BaggageService> logger)
+    public BaggageService(ApplicationDbContext context, IHubContext<FlightUpdatesHub> hubContext, ILogger<BaggageService> logger)
     {
         _context = context;
+        _hubContext = hubContext;
         _logger = logger;
     }
 
@@ -28,39 +43,23 @@ public class BaggageService : IBaggageService
         {
             _logger.LogInformation("Tracking baggage with number {TrackingNumber}", trackingNumber);
 
-            var baggage = await _context.BaggageItems
-                .Include(b => b.Booking)
-                .ThenInclude(booking => booking.Flight)
-                .FirstOrDefaultAsync(b => b.TrackingNumber == trackingNumber);
-
+            var baggage = await LoadBaggageAsync(trackingNumber);
             if (baggage == null)
             {
                 return new BaggageTrackingResult
                 {
                     Success = false,
-                    ErrorMessage = "Baggage not found with the provided tracking number"
+                    ErrorMessage = "Baggage not found with the provided tracking number",
+                    ErrorCode = ErrorCodes.BaggageNotFound
                 };
             }
 
-            var result = new BaggageTrackingResult
+            _logger.LogInformation("Baggage tracking successful for {TrackingNumber}", trackingNumber);
+            return new BaggageTrackingResult
             {
                 Success = true,
-                Baggage = new BaggageInfo
-                {
-                    TrackingNumber = baggage.TrackingNumber,
-                    Description = baggage.Type.ToString(),
-                    Status = baggage.Status.ToString(),
-                    CurrentLocation = GetLocationByStatus(baggage.Status),
-                    LastUpdated = baggage.CreatedAt,
-                    FlightNumber = baggage.Booking.Flight.FlightNumber,
-                    PassengerName = "Passenger", // Simplified for demo
-                    Weight = baggage.Weight,
-                    StatusHistory = GenerateStatusHistory(baggage.Status)
-                }
+                Baggage = MapToBaggageInfo(baggage)
             };
-
-            _logger.LogInformation("Baggage tracking successful for {TrackingNumber}", trackingNumber);
-            return result;
         }
         catch (Exception ex)
         {
@@ -79,16 +78,38 @@ public class BaggageService : IBaggageService
         {
             _logger.LogInformation("Creating baggage for booking {BookingId}, passenger {PassengerId}", bookingId, passengerId);
 
+            var booking = await _context.Bookings
+                .Include(b => b.Flight)
+                .FirstOrDefaultAsync(b => b.Id == bookingId);
+            if (booking == null)
+            {
+                return new BaggageTrackingResult
+                {
+                    Success = false,
+                    ErrorMessage = "Booking not found",
+                    ErrorCode = ErrorCodes.BookingNotFound
+                };
+            }
+
             var trackingNumber = GenerateTrackingNumber();
+            var now = DateTime.UtcNow;
             var baggage = new BaggageItem
             {
                 TrackingNumber = trackingNumber,
                 BookingId = bookingId,
+                PassengerId = passengerId,
                 Type = BaggageType.Checked,
                 Status = BaggageStatus.CheckedIn,
                 Weight = new Random().Next(15, 50), // Random weight between 15-50 lbs
-                CreatedAt = DateTime.UtcNow
+                CreatedAt = now
             };
+            baggage.StatusHistory.Add(new BaggageStatusEvent
+            {
+                Status = BaggageStatus.CheckedIn,
+                Location = GetLocationByStatus(BaggageStatus.CheckedIn, booking.Flight),
+                Description = description,
+                Timestamp = now
+            });
 
             _context.BaggageItems.Add(baggage);
             await _context.SaveChangesAsync();
@@ -98,25 +119,7 @@ public class BaggageService : IBaggageService
             return new BaggageTrackingResult
             {
                 Success = true,
-                Baggage = new BaggageInfo
-                {
-                    TrackingNumber = trackingNumber,
-                    Description = description,
-                    Status = "Checked",
-                    CurrentLocation = "Check-in Counter",
-                    LastUpdated = DateTime.UtcNow,
-                    Weight = baggage.Weight,
-                    StatusHistory = new List<BaggageStatusUpdate>
-                    {
-                        new BaggageStatusUpdate
-                        {
-                            Status = "Checked",
-                            Location = "Check-in Counter",
-                            Timestamp = DateTime.UtcNow,
-                            Description = "Baggage checked in at airport"
-                        }
-                    }
-                }
+                Baggage = MapToBaggageInfo((await LoadBaggageAsync(trackingNumber))!)
             };
         }
         catch (Exception ex)
@@ -136,36 +139,46 @@ public class BaggageService : IBaggageService
         {
             _logger.LogInformation("Updating baggage status for {TrackingNumber} to {NewStatus}", trackingNumber, newStatus);
 
-            var baggage = await _context.BaggageItems
-                .FirstOrDefaultAsync(b => b.TrackingNumber == trackingNumber);
-
+            var baggage = await LoadBaggageAsync(trackingNumber);
             if (baggage == null)
             {
                 return new BaggageTrackingResult
                 {
                     Success = false,
-                    ErrorMessage = "Baggage not found"
+                    ErrorMessage = "Baggage not found",
+                    ErrorCode = ErrorCodes.BaggageNotFound
+                };
+            }
+
+            if (baggage.Status == newStatus)
+            {
+                return new BaggageTrackingResult
+                {
+                    Success = true,
+                    Baggage = MapToBaggageInfo(baggage)
                 };
             }
 
             baggage.Status = newStatus;
+            baggage.StatusHistory.Add(new BaggageStatusEvent
+            {
+                Status = newStatus,
+                Location = GetLocationByStatus(newStatus, baggage.Booking.Flight),
+                Description = GetStatusDescription(newStatus),
+                Timestamp = DateTime.UtcNow
+            });
             await _context.SaveChangesAsync();
 
             _logger.LogInformation("Baggage status updated successfully for {TrackingNumber}", trackingNumber);
 
+            var info = MapToBaggageInfo(baggage);
+            await _hubContext.Clients.Group($"baggage_{baggage.TrackingNumber}")
+                .SendAsync("BaggageStatusChanged", info);
+
             return new BaggageTrackingResult
             {
                 Success = true,
-                Baggage = new BaggageInfo
-                {
-                    TrackingNumber = trackingNumber,
-                    Description = baggage.Type.ToString(),
-                    Status = newStatus.ToString(),
-                    CurrentLocation = GetLocationByStatus(newStatus),
-                    LastUpdated = DateTime.UtcNow,
-                    Weight = baggage.Weight,
-                    StatusHistory = GenerateStatusHistory(newStatus)
-                }
+                Baggage = info
             };
         }
         catch (Exception ex)
@@ -179,62 +192,174 @@ public class BaggageService : IBaggageService
         }
     }
 
+    public async Task<List<BaggageInfo>> GetBookingBaggageAsync(int bookingId)
+    {
+        var baggage = await BaggageQuery()
+            .Where(b => b.BookingId == bookingId)
+            .OrderBy(b => b.CreatedAt)
+            .ToListAsync();
+
+        return baggage.Select(MapToBaggageInfo).ToList();
+    }
+
+    /// <summary>
+    /// Moves every bag still on its way one step along as its flight's times pass. Bags on cancelled
+    /// flights stay where they are. Returns how many bags moved.
+    /// </summary>
+    public async Task<int> AdvanceBaggageAsync()
+    {
+        var now = DateTime.UtcNow;
+        var baggage = await _context.BaggageItems
+            .Include(b => b.Booking)
+            .ThenInclude(booking => booking.Flight)
+            .Where(b => b.Status != BaggageStatus.Delivered && b.Status != BaggageStatus.Lost)
+            .Where(b => b.Booking.Flight.Status != FlightStatus.Cancelled)
+            .ToListAsync();
+
+        var advanced = 0;
+        foreach (var bag in baggage)
+        {
+            var nextStatus = GetNextStatus(bag, now);
+            if (nextStatus == null)
+            {
+                continue;
+            }
+
+            var result = await UpdateBaggageStatusAsync(bag.TrackingNumber, nextStatus.Value);
+            if (result.Success)
+            {
+                advanced++;
+            }
+        }
+
+        return advanced;
+    }
+
+    private IQueryable<BaggageItem> BaggageQuery()
+    {
+        return _context.BaggageItems
+            .Include(b => b.StatusHistory)
+            .Include(b => b.Booking)
+            .ThenInclude(booking => booking.Flight)
+            .Include(b => b.Booking)
+            .ThenInclude(booking => booking.Passengers);
+    }
+
+    private Task<BaggageItem?> LoadBaggageAsync(string trackingNumber)
+    {
+        var normalized = trackingNumber.Trim().ToUpperInvariant();
+        return BaggageQuery().FirstOrDefaultAsync(b => b.TrackingNumber == normalized);
+    }
+
+    private static BaggageStatus? GetNextStatus(BaggageItem baggage, DateTime now)
+    {
+        var flight = baggage.Booking.Flight;
+        var departure = flight.EstimatedDeparture ?? flight.ScheduledDeparture;
+        var arrival = flight.EstimatedArrival ?? flight.ScheduledArrival;
+
+        return baggage.Status switch
+        {
+            BaggageStatus.CheckedIn when now >= departure - TransferBeforeDeparture => BaggageStatus.InTransit,
+            BaggageStatus.InTransit when now >= departure - LoadedBeforeDeparture => BaggageStatus.Loaded,
+            BaggageStatus.Loaded when now >= arrival + DeliveredAfterArrival => BaggageStatus.Delivered,
+            _ => null
+        };
+    }
+
+    private static BaggageInfo MapToBaggageInfo(BaggageItem baggage)
+    {
+        var flight = baggage.Booking.Flight;
+        var passenger = baggage.Booking.Passengers.FirstOrDefault(p => p.Id == baggage.PassengerId);
+        var history = baggage.StatusHistory
+            .OrderBy(e => e.Timestamp)
+            .Select(e => new BaggageStatusUpdate
+            {
+                Status = e.Status.ToString(),
+                Location = e.Location,
+                Timestamp = e.Timestamp,
+                Description = e.Description
+            })
+            .ToList();
+
+        // Bags tagged before history was kept only know where they are now
+        if (!history.Any())
+        {
+            history.Add(new BaggageStatusUpdate
+            {
+                Status = baggage.Status.ToString(),
+                Location = GetLocationByStatus(baggage.Status, flight),
+                Timestamp = baggage.CreatedAt,
+                Description = GetStatusDescription(baggage.Status)
+            });
+        }
+
+        var latest = history.Last();
+        return new BaggageInfo
+        {
+            TrackingNumber = baggage.TrackingNumber,
+            Description = GetTypeDescription(baggage.Type),
+            Status = baggage.Status.ToString(),
+            CurrentLocation = latest.Location,
+            LastUpdated = latest.Timestamp,
+            FlightNumber = flight.FlightNumber,
+            OriginAirport = flight.OriginAirport,
+            DestinationAirport = flight.DestinationAirport,
+            PassengerName = passenger == null ? null : $"{passenger.FirstName} {passenger.LastName}",
+            Weight = baggage.Weight,
+            StatusHistory = history
+        };
+    }
+
     private string GenerateTrackingNumber()
     {
         var random = new Random();
         var letters = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
         var numbers = "0123456789";
-        
+
         var letterPart = new string(Enumerable.Repeat(letters, 3)
             .Select(s => s[random.Next(s.Length)]).ToArray());
         var numberPart = new string(Enumerable.Repeat(numbers, 6)
             .Select(s => s[random.Next(s.Length)]).ToArray());
-        
+
         return $"{letterPart}{numberPart}";
     }
 
-    private string GetLocationByStatus(BaggageStatus status)
+    private static string GetLocationByStatus(BaggageStatus status, Flight flight)
     {
         return status switch
         {
-            BaggageStatus.CheckedIn => "Check-in Counter",
-            BaggageStatus.InTransit => "In Transit to Aircraft",
-            BaggageStatus.Loaded => "Loaded on Aircraft",
-            BaggageStatus.Delivered => "Delivered to Baggage Claim",
+            BaggageStatus.CheckedIn => $"Check-in Counter, {flight.OriginAirport}",
+            BaggageStatus.InTransit => $"Baggage Handling, {flight.OriginAirport}",
+            BaggageStatus.Loaded => $"Aboard {flight.FlightNumber}",
+            BaggageStatus.Delivered => $"Baggage Claim, {flight.DestinationAirport}",
             BaggageStatus.Lost => "Lost - Under Investigation",
             _ => "Unknown Location"
         };
     }
 
-    private List<BaggageStatusUpdate> GenerateStatusHistory(BaggageStatus currentStatus)
+    private static string GetStatusDescription(BaggageStatus status)
     {
-        var history = new List<BaggageStatusUpdate>();
-        var random = new Random();
-        var baseTime = DateTime.UtcNow.AddHours(-random.Next(1, 12));
-
-        var statuses = new[]
+        return status switch
         {
-            (BaggageStatus.CheckedIn, "Checked in at airport"),
-            (BaggageStatus.InTransit, "Transferred to aircraft loading area"),
-            (BaggageStatus.Loaded, "Loaded onto aircraft"),
-            (BaggageStatus.Delivered, "Delivered to baggage claim area")
+            BaggageStatus.CheckedIn => "Checked in at airport",
+            BaggageStatus.InTransit => "Transferred to aircraft loading area",
+            BaggageStatus.Loaded => "Loaded onto aircraft",
+            BaggageStatus.Delivered => "Delivered to baggage claim area",
+            BaggageStatus.Lost => "Reported missing; our baggage team is tracing it",
+            _ => status.ToString()
         };
+    }
 
-        foreach (var (status, description) in statuses)
+    private static string GetTypeDescription(BaggageType type)
+    {
+        return type switch
         {
-            if (status <= currentStatus)
-            {
-                history.Add(new BaggageStatusUpdate
-                {
-                    Status = status.ToString(),
-                    Location = GetLocationByStatus(status),
-                    Timestamp = baseTime.AddMinutes(random.Next(30, 180)),
-                    Description = description
-                });
-            }
-        }
-
-        return history.OrderBy(h => h.Timestamp).ToList();
+            BaggageType.CarryOn => "Carry-on bag",
+            BaggageType.Checked => "Checked bag",
+            BaggageType.Oversized => "Oversized item",
+            BaggageType.Special => "Special item",
+            _ => type.ToString()
+        };
     }
 }
 
@@ -244,6 +369,7 @@ public class BaggageTrackingResult
     public bool Success { get; set; }
     public BaggageInfo? Baggage { get; set; }
     public string? ErrorMessage { get; set; }
+    public string? ErrorCode { get; set; }
 }
 
 public class BaggageInfo
@@ -254,6 +380,8 @@ public class BaggageInfo
     public string CurrentLocation { get; set; } = string.Empty;
     public DateTime LastUpdated { get; set; }
     public string? FlightNumber { get; set; }
+    public string? OriginAirport { get; set; }
+    public string? DestinationAirport { get; set; }
     public string? PassengerName { get; set; }
     public decimal Weight { get; set; }
     public List<BaggageStatusUpdate> StatusHistory { get; set; } = new();
@@ -0,0 +1,48 @@
+namespace AirlineSimulationApi.Services;
+
+/// <summary>
+/// Moves checked bags along from check-in to the carousel as their flights depart and arrive
+/// </summary>
+public class BaggageUpdateBackgroundService : BackgroundService
+{
+    private readonly IServiceProvider _serviceProvider;
+    private readonly ILogger<BaggageUpdateBackgroundService> _logger;
+    private readonly TimeSpan _updateInterval = TimeSpan.FromMinutes(1);
+
+    public BaggageUpdateBackgroundService(
+        IServiceProvider serviceProvider,
+        ILogger<BaggageUpdateBackgroundService> logger)
+    {
+        _serviceProvider = serviceProvider;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                using (var scope = _serviceProvider.CreateScope())
+                {
+                    var baggageService = scope.ServiceProvider.GetRequiredService<IBaggageService>();
+                    var advanced = await baggageService.AdvanceBaggageAsync();
+                    if (advanced > 0)
+                    {
+                        _logger.LogInformation("Advanced {Count} bags to their next status", advanced);
+                    }
+                }
+                await Task.Delay(_updateInterval, stoppingToken);
+            }
+            catch (OperationCanceledException)
+            {
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error advancing baggage statuses");
+                await Task.Delay(_updateInterval, stoppingToken);
+            }
+        }
+    }
+}
@@ -0,0 +1,781 @@
+using AirlineSimulationApi.Data;
+using AirlineSimulationApi.Models;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Storage;
+
+namespace AirlineSimulationApi.Services;
+
+public interface IBookingChangeService
+{
+    Task<FlightChangeOptionsResult> GetFlightChangeOptionsAsync(string confirmationNumber, string userId);
+    Task<BookingChangeResult> ChangeSeatsAsync(SeatChangeRequest request);
+    Task<BookingChangeResult> ChangeFlightAsync(FlightChangeRequest request);
+    Task<BookingChangeResult> CorrectNameAsync(NameCorrectionRequest request);
+}
+
+/// <summary>
+/// Changes made to a booking after purchase: seats, a different date on the same route, and name
+/// typos. Price differences are charged to a card or issued as travel credit, and every change is
+/// recorded on the booking's history.
+/// </summary>
+public class BookingChangeService : IBookingChangeService
+{
+    // A correction may touch this many letters across first and last name; anything more is a different traveller
+    public const int MaxNameCorrectionEdits = 3;
+    private const int MaxFlightOptions = 20;
+
+    private readonly ApplicationDbContext _context;
+    private readonly IBookingService _bookingService;
+    private readonly IPaymentService _paymentService;
+    private readonly IFareService _fareService;
+    private readonly ISeatHoldService _seatHoldService;
+    private readonly IEmailService _emailService;
+    private readonly ILogger<BookingChangeService> _logger;
+
+    public BookingChangeService(ApplicationDbContext context, IBookingService bookingService, IPaymentService paymentService, IFareService fareService, ISeatHoldService seatHoldService, IEmailService emailService, ILogger<BookingChangeService> logger)
+    {
+        _context = context;
+        _bookingService = bookingService;
+        _paymentService = paymentService;
+        _fareService = fareService;
+        _seatHoldService = seatHoldService;
+        _emailService = emailService;
+        _logger = logger;
+    }
+
+    public async Task<FlightChangeOptionsResult> GetFlightChangeOptionsAsync(string confirmationNumber, string userId)
+    {
+        var (booking, failure) = await LoadChangeableBookingAsync(confirmationNumber, userId);
+        if (failure != null)
+        {
+            return new FlightChangeOptionsResult
+            {
+                Success = false,
+                ErrorMessage = failure.ErrorMessage,
+                ErrorCode = failure.ErrorCode
+            };
+        }
+
+        var flightChangeBlocked = GetFlightChangeUnavailableReason(booking!);
+        if (flightChangeBlocked != null)
+        {
+            return new FlightChangeOptionsResult
+            {
+                Success = false,
+                ErrorMessage = flightChangeBlocked,
+                ErrorCode = ErrorCodes.ChangeUnavailable
+            };
+        }
+
+        var passengers = booking!.Passengers.Where(p => p.CancelledAt == null).ToList();
+        var paid = passengers.Sum(p => p.FareAmount);
+        var flights = await FindAlternativeFlights(booking.Flight).Take(MaxFlightOptions).ToListAsync();
+
+        var options = new List<FlightChangeOption>();
+        foreach (var flight in flights)
+        {
+            var seatsRemaining = SeatLayout.Capacity - await CountBookedPassengersAsync(flight.Id);
+            var newFare = QuoteFare(passengers, flight).Total;
+            options.Add(new FlightChangeOption
+            {
+                FlightId = flight.Id,
+                FlightNumber = flight.FlightNumber,
+                Airline = flight.Airline,
+                ScheduledDeparture = flight.ScheduledDeparture,
+                ScheduledArrival = flight.ScheduledArrival,
+                SeatsRemaining = Math.Max(seatsRemaining, 0),
+                IsAvailable = seatsRemaining >= passengers.Count,
+                NewFare = newFare,
+                FareDifference = newFare - paid
+            });
+        }
+
+        return new FlightChangeOptionsResult
+        {
+            Success = true,
+            Currency = FareService.Currency,
+            CurrentFare = paid,
+            Options = options
+        };
+    }
+
+    public async Task<BookingChangeResult> ChangeSeatsAsync(SeatChangeRequest request)
+    {
+        try
+        {
+            var (booking, failure) = await LoadChangeableBookingAsync(request.ConfirmationNumber, request.UserId);
+            if (failure != null)
+            {
+                return failure;
+            }
+
+            var fieldErrors = ValidateSeatChanges(request, booking!);
+            if (fieldErrors.Any())
+            {
+                return ValidationFailure(fieldErrors, "Please check the seat changes");
+            }
+
+            var moves = request.Seats
+                .Select(s => (Passenger: booking!.Passengers.FirstOrDefault(p => p.Id == s.PassengerId), Seat: s.SeatNumber.Trim().ToUpperInvariant()))
+                .Where(m => m.Passenger != null && !string.Equals(m.Passenger.SeatNumber, m.Seat, StringComparison.OrdinalIgnoreCase))
+                .Select(m => (Passenger: m.Passenger!, m.Seat))
+                .ToList();
+            if (!moves.Any())
+            {
+                fieldErrors["seats"] = new[] { "Choose a different seat for at least one passenger" };
+                return ValidationFailure(fieldErrors, fieldErrors["seats"][0]);
+            }
+
+            // Each move is priced on its own: a dearer seat is charged, a cheaper one credited
+            var differences = moves.ToDictionary(m => m.Passenger.Id, m => GetUpcharge(m.Seat) - GetUpcharge(m.Passenger.SeatNumber));
+            var toCharge = differences.Values.Where(d => d > 0).Sum();
+            AddPaymentErrors(fieldErrors, toCharge, request.PaymentInfo);
+            if (fieldErrors.Any())
+            {
+                return ValidationFailure(fieldErrors, "Please check your payment details");
+            }
+
+            // Seats other bookings hold or are about to take
+            var flight = booking!.Flight;
+            var requestedSeats = moves.Select(m => m.Seat).ToList();
+            var takenSeats = await _context.Passengers
+                .Where(p => p.Booking.FlightId == flight.Id && p.BookingId != booking.Id && p.Booking.Status != BookingStatus.Cancelled && p.CancelledAt == null)
+                .Where(p => p.SeatNumber != null && requestedSeats.Contains(p.SeatNumber))
+                .Select(p => p.SeatNumber!)
+                .ToListAsync();
+            var heldSeats = _seatHoldService.GetSeatsHeldByOthers(flight.FlightNumber, flight.ScheduledDeparture, request.UserId);
+            takenSeats.AddRange(requestedSeats
+                .Where(seat => heldSeats.Contains(seat, StringComparer.OrdinalIgnoreCase) && !takenSeats.Contains(seat)));
+            if (takenSeats.Any())
+            {
+                return new BookingChangeResult
+                {
+                    Success = false,
+                    ErrorMessage = $"Seat(s) {string.Join(", ", takenSeats)} are no longer available",
+                    ErrorCode = ErrorCodes.SeatUnavailable,
+                    UnavailableSeats = takenSeats
+                };
+            }
+
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            var (paymentFailure, transactionId) = await ChargeAsync(booking, toCharge, request.PaymentInfo, $"Seat change for booking {booking.ConfirmationNumber}");
+            if (paymentFailure != null)
+            {
+                await transaction.RollbackAsync();
+                return paymentFailure;
+            }
+
+            var now = DateTime.UtcNow;
+            var changes = new List<BookingChange>();
+            try
+            {
+                foreach (var (passenger, seat) in moves)
+                {
+                    var difference = differences[passenger.Id];
+                    changes.Add(new BookingChange
+                    {
+                        BookingId = booking.Id,
+                        PassengerId = passenger.Id,
+                        Type = BookingChangeType.SeatChange,
+                        Description = $"Seat for {passenger.FirstName} {passenger.LastName} changed to {seat}",
+                        PreviousValue = passenger.SeatNumber,
+                        NewValue = seat,
+                        AmountCharged = Math.Max(difference, 0),
+                        CreditIssued = Math.Max(-difference, 0),
+                        PaymentTransactionId = difference > 0 ? transactionId : null,
+                        ChangedAt = now
+                    });
+                    passenger.SeatNumber = seat;
+                    passenger.FareAmount += difference;
+                }
+
+                booking.CreditAmount += changes.Sum(c => c.CreditIssued);
+                _context.BookingChanges.AddRange(changes);
+                await _context.SaveChangesAsync();
+                await transaction.CommitAsync();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error saving seat change on booking {ConfirmationNumber}, reversing payment", booking.ConfirmationNumber);
+                return await ReverseChangeAsync(transaction, transactionId, toCharge, "Seat change failed");
+            }
+
+            await _seatHoldService.MarkBookedAsync(flight.FlightNumber, flight.ScheduledDeparture, requestedSeats);
+
+            _logger.LogInformation("Changed {Count} seat(s) on booking {ConfirmationNumber}", changes.Count, booking.ConfirmationNumber);
+            SendChangeConfirmation(booking, changes);
+
+            return new BookingChangeResult
+            {
+                Success = true,
+                Booking = booking,
+                Changes = changes
+            };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error changing seats on booking {ConfirmationNumber}", request.ConfirmationNumber);
+            return new BookingChangeResult
+            {
+                Success = false,
+                ErrorMessage = "Seat change failed"
+            };
+        }
+    }
+
+    public async Task<BookingChangeResult> ChangeFlightAsync(FlightChangeRequest request)
+    {
+        try
+        {
+            var (booking, failure) = await LoadChangeableBookingAsync(request.ConfirmationNumber, request.UserId);
+            if (failure != null)
+            {
+                return failure;
+            }
+
+            var unavailableReason = GetFlightChangeUnavailableReason(booking!);
+            if (unavailableReason != null)
+            {
+                return new BookingChangeResult
+                {
+                    Success = false,
+                    ErrorMessage = unavailableReason,
+                    ErrorCode = ErrorCodes.ChangeUnavailable
+                };
+            }
+
+            var currentFlight = booking!.Flight;
+            var newFlight = await FindAlternativeFlights(currentFlight).FirstOrDefaultAsync(f => f.Id == request.FlightId);
+            if (newFlight == null)
+            {
+                return ValidationFailure(new Dictionary<string, string[]>
+                {
+                    ["flightId"] = new[] { $"Choose another upcoming {currentFlight.OriginAirport} → {currentFlight.DestinationAirport} flight" }
+                }, "That flight is not available for this booking");
+            }
+
+            var passengers = booking.Passengers.Where(p => p.CancelledAt == null).ToList();
+            var fareQuote = QuoteFare(passengers, newFlight);
+            var difference = fareQuote.Total - passengers.Sum(p => p.FareAmount);
+
+            var fieldErrors = new Dictionary<string, string[]>();
+            AddPaymentErrors(fieldErrors, difference, request.PaymentInfo);
+            if (fieldErrors.Any())
+            {
+                return ValidationFailure(fieldErrors, "Please check your payment details");
+            }
+
+            // Hold the new flight's row until the move is saved so nobody else fills the seats counted here
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            await LockFlightAsync(newFlight.Id);
+            var bookedCount = await CountBookedPassengersAsync(newFlight.Id);
+            if (bookedCount + passengers.Count > SeatLayout.Capacity)
+            {
+                await transaction.RollbackAsync();
+                return new BookingChangeResult
+                {
+                    Success = false,
+                    ErrorMessage = $"Only {Math.Max(SeatLayout.Capacity - bookedCount, 0)} seat(s) remain on that flight",
+                    ErrorCode = ErrorCodes.FlightSoldOut
+                };
+            }
+
+            var (paymentFailure, transactionId) = await ChargeAsync(booking, difference, request.PaymentInfo, $"Flight change to {newFlight.FlightNumber} for booking {booking.ConfirmationNumber}");
+            if (paymentFailure != null)
+            {
+                await transaction.RollbackAsync();
+                return paymentFailure;
+            }
+
+            var change = new BookingChange
+            {
+                BookingId = booking.Id,
+                Type = BookingChangeType.FlightChange,
+                Description = $"Moved from {currentFlight.FlightNumber} on {currentFlight.ScheduledDeparture:d MMM} to {newFlight.FlightNumber} on {newFlight.ScheduledDeparture:d MMM}",
+                PreviousValue = $"{currentFlight.FlightNumber} {currentFlight.ScheduledDeparture:yyyy-MM-dd HH:mm}",
+                NewValue = $"{newFlight.FlightNumber} {newFlight.ScheduledDeparture:yyyy-MM-dd HH:mm}",
+                AmountCharged = Math.Max(difference, 0),
+                CreditIssued = Math.Max(-difference, 0),
+                PaymentTransactionId = transactionId,
+                ChangedAt = DateTime.UtcNow
+            };
+
+            try
+            {
+                // Seats do not carry over; they are chosen again or assigned at check-in
+                for (var i = 0; i < passengers.Count; i++)
+                {
+                    passengers[i].SeatNumber = null;
+                    passengers[i].FareAmount = fareQuote.Passengers[i].Total;
+                }
+
+                booking.FlightId = newFlight.Id;
+                booking.Flight = newFlight;
+                booking.CreditAmount += change.CreditIssued;
+                _context.BookingChanges.Add(change);
+                await _context.SaveChangesAsync();
+                await transaction.CommitAsync();
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error saving flight change on booking {ConfirmationNumber}, reversing payment", booking.ConfirmationNumber);
+                return await ReverseChangeAsync(transaction, transactionId, difference, "Flight change failed");
+            }
+
+            _logger.LogInformation("Moved booking {ConfirmationNumber} from flight {OldFlightId} to {NewFlightId}, difference {Difference}",
+                booking.ConfirmationNumber, currentFlight.Id, newFlight.Id, difference);
+            SendChangeConfirmation(booking, new List<BookingChange> { change });
+
+            return new BookingChangeResult
+            {
+                Success = true,
+                Booking = booking,
+                Changes = new List<BookingChange> { change }
+            };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error changing flight on booking {ConfirmationNumber}", request.ConfirmationNumber);
+            return new BookingChangeResult
+            {
+                Success = false,
+                ErrorMessage = "Flight change failed"
+            };
+        }
+    }
+
+    public async Task<BookingChangeResult> CorrectNameAsync(NameCorrectionRequest request)
+    {
+        try
+        {
+            var (booking, failure) = await LoadChangeableBookingAsync(request.ConfirmationNumber, request.UserId);
+            if (failure != null)
+            {
+                return failure;
+            }
+
+            var firstName = request.FirstName.Trim();
+            var lastName = request.LastName.Trim();
+            var passenger = booking!.Passengers.FirstOrDefault(p => p.Id == request.PassengerId && p.CancelledAt == null);
+
+            var fieldErrors = new Dictionary<string, string[]>();
+            if (passenger == null)
+            {
+                fieldErrors["passengerId"] = new[] { "This passenger is not on the booking" };
+            }
+            else if (passenger.CheckedIn)
+            {
+                fieldErrors["passengerId"] = new[] { "Names cannot be changed after check-in. Please see an agent at the airport." };
+            }
+            if (string.IsNullOrEmpty(firstName))
+            {
+                fieldErrors["firstName"] = new[] { "First name is required" };
+            }
+            if (string.IsNullOrEmpty(lastName))
+            {
+                fieldErrors["lastName"] = new[] { "Last name is required" };
+            }
+
+            var previousName = passenger == null ? string.Empty : $"{passenger.FirstName} {passenger.LastName}";
+            var newName = $"{firstName} {lastName}";
+            if (!fieldErrors.Any())
+            {
+                var edits = EditDistance(passenger!.FirstName, firstName) + EditDistance(passenger.LastName, lastName);
+                if (previousName == newName)
+                {
+                    fieldErrors["lastName"] = new[] { "The name is unchanged" };
+                }
+                else if (edits > MaxNameCorrectionEdits)
+                {
+                    fieldErrors["lastName"] = new[] { $"Only spelling corrections of up to {MaxNameCorrectionEdits} letters can be made. A different traveller needs a new booking." };
+                }
+            }
+            if (fieldErrors.Any())
+            {
+                return ValidationFailure(fieldErrors, fieldErrors.Values.First()[0]);
+            }
+
+            var change = new BookingChange
+            {
+                BookingId = booking.Id,
+                PassengerId = passenger!.Id,
+                Type = BookingChangeType.NameCorrection,
+                Description = Truncate($"Name corrected from {previousName} to {newName}", 200),
+                PreviousValue = Truncate(previousName, 100),
+                NewValue = Truncate(newName, 100),
+                ChangedAt = DateTime.UtcNow
+            };
+            passenger.FirstName = firstName;
+            passenger.LastName = lastName;
+            _context.BookingChanges.Add(change);
+            await _context.SaveChangesAsync();
+
+            _logger.LogInformation("Corrected passenger {PassengerId} name on booking {ConfirmationNumber}", passenger.Id, booking.ConfirmationNumber);
+            SendChangeConfirmation(booking, new List<BookingChange> { change });
+
+            return new BookingChangeResult
+            {
+                Success = true,
+                Booking = booking,
+                Changes = new List<BookingChange> { change }
+            };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error correcting a name on booking {ConfirmationNumber}", request.ConfirmationNumber);
+            return new BookingChangeResult
+            {
+                Success = false,
+                ErrorMessage = "Name correction failed"
+            };
+        }
+    }
+
+    // Loads the caller's booking if it can still be changed at all
+    private async Task<(Booking? Booking, BookingChangeResult? Failure)> LoadChangeableBookingAsync(string confirmationNumber, string userId)
+    {
+        var booking = await _bookingService.GetBookingAsync(confirmationNumber);
+        if (booking == null || booking.UserId != userId)
+        {
+            return (null, new BookingChangeResult
+            {
+                Success = false,
+                ErrorMessage = "Booking not found",
+                ErrorCode = ErrorCodes.BookingNotFound
+            });
+        }
+
+        string? unavailableReason = null;
+        if (booking.Status == BookingStatus.Cancelled)
+        {
+            unavailableReason = "This booking has been cancelled";
+        }
+        else if (booking.Flight.ScheduledDeparture <= DateTime.UtcNow)
+        {
+            unavailableReason = "Bookings cannot be changed after the flight has departed";
+        }
+        if (unavailableReason != null)
+        {
+            return (booking, new BookingChangeResult
+            {
+                Success = false,
+                ErrorMessage = unavailableReason,
+                ErrorCode = ErrorCodes.ChangeUnavailable
+            });
+        }
+
+        return (booking, null);
+    }
+
+    private static string? GetFlightChangeUnavailableReason(Booking booking)
+    {
+        return booking.Passengers.Any(p => p.CancelledAt == null && p.CheckedIn)
+            ? "The flight cannot be changed once a passenger has checked in"
+            : null;
+    }
+
+    // Later flights on the same route that are still open for booking
+    private IQueryable<Flight> FindAlternativeFlights(Flight current)
+    {
+        var now = DateTime.UtcNow;
+        return _context.Flights
+            .Where(f => f.OriginAirport == current.OriginAirport &&
+                        f.DestinationAirport == current.DestinationAirport &&
+                        f.Id != current.Id &&
+                        f.ScheduledDeparture > now &&
+                        f.Status != FlightStatus.Cancelled)
+            .OrderBy(f => f.ScheduledDeparture);
+    }
+
+    private Task<int> CountBookedPassengersAsync(int flightId)
+    {
+        return _context.Passengers
+            .CountAsync(p => p.Booking.FlightId == flightId && p.Booking.Status != BookingStatus.Cancelled && p.CancelledAt == null);
+    }
+
+    // Today's fare for the same passengers, cabins and bags on another flight
+    private FareQuote QuoteFare(List<Passenger> passengers, Flight flight)
+    {
+        return _fareService.QuoteFare(passengers.Select(p => new PassengerInfo
+        {
+            FirstName = p.FirstName,
+            LastName = p.LastName,
+            SeatClass = p.SeatClass,
+            CheckedBags = p.CheckedBags
+        }).ToList(), flight.ScheduledDeparture);
+    }
+
+    private static Dictionary<string, string[]> ValidateSeatChanges(SeatChangeRequest request, Booking booking)
+    {
+        var errors = new Dictionary<string, string[]>();
+        if (!request.Seats.Any())
+        {
+            errors["seats"] = new[] { "Choose a new seat for at least one passenger" };
+            return errors;
+        }
+
+        // Where everyone on the booking will sit once the request is applied
+        var finalSeats = booking.Passengers
+            .Where(p => p.CancelledAt == null)
+            .ToDictionary(p => p.Id, p => p.SeatNumber?.ToUpperInvariant());
+        foreach (var change in request.Seats.Where(s => finalSeats.ContainsKey(s.PassengerId)))
+        {
+            finalSeats[change.PassengerId] = change.SeatNumber.Trim().ToUpperInvariant();
+        }
+
+        var seen = new HashSet<int>();
+        for (var i = 0; i < request.Seats.Count; i++)
+        {
+            var change = request.Seats[i];
+            var prefix = $"seats[{i}]";
+            var passenger = booking.Passengers.FirstOrDefault(p => p.Id == change.PassengerId && p.CancelledAt == null);
+            if (passenger == null || !seen.Add(change.PassengerId))
+            {
+                errors[$"{prefix}.passengerId"] = new[] { "This passenger is not on the booking" };
+                continue;
+            }
+            if (passenger.CheckedIn)
+            {
+                errors[$"{prefix}.passengerId"] = new[] { $"{passenger.FirstName} {passenger.LastName} has checked in. Seats can be changed at the airport." };
+                continue;
+            }
+
+            var seatNumber = change.SeatNumber.Trim().ToUpperInvariant();
+            var seat = SeatLayout.FindSeat(seatNumber);
+            var sharedWith = booking.Passengers.FirstOrDefault(p => p.Id != passenger.Id && finalSeats.TryGetValue(p.Id, out var s) && s == seatNumber);
+            if (seat == null)
+            {
+                errors[$"{prefix}.seatNumber"] = new[] { $"Seat {seatNumber} does not exist on this aircraft" };
+            }
+            else if (seat.IsBlocked)
+            {
+                errors[$"{prefix}.seatNumber"] = new[] { $"Seat {seatNumber} cannot be booked ({seat.BlockedReason})" };
+            }
+            else if (seat.Class != passenger.SeatClass)
+            {
+                errors[$"{prefix}.seatNumber"] = new[] { $"Seat {seatNumber} is in {seat.Class}, but this passenger is booked in {passenger.SeatClass}" };
+            }
+            else if (sharedWith != null)
+            {
+                errors[$"{prefix}.seatNumber"] = new[] { $"Seat {seatNumber} would also be assigned to {sharedWith.FirstName} {sharedWith.LastName}" };
+            }
+        }
+
+        return errors;
+    }
+
+    private static void AddPaymentErrors(Dictionary<string, string[]> errors, decimal amountDue, PaymentInfo? paymentInfo)
+    {
+        if (amountDue <= 0)
+        {
+            return;
+        }
+        if (paymentInfo == null)
+        {
+            errors["paymentInfo"] = new[] { $"A card is needed to pay the difference of {amountDue:0.00} {FareService.Currency}" };
+            return;
+        }
+        foreach (var (path, messages) in CardValidator.Validate(paymentInfo))
+        {
+            errors[path] = messages;
+        }
+    }
+
+    // Charges the amount due, returning the failure when the card is declined or the transaction to reverse otherwise
+    private async Task<(BookingChangeResult? Failure, string? TransactionId)> ChargeAsync(Booking booking, decimal amount, PaymentInfo? paymentInfo, string description)
+    {
+        if (amount <= 0)
+        {
+            return (null, null);
+        }
+
+        var paymentResult = await _paymentService.ProcessPaymentAsync(new PaymentRequest
+        {
+            Amount = amount,
+            CardNumber = CardValidator.NormalizeCardNumber(paymentInfo!.CardNumber),
+            CardHolderName = paymentInfo.CardHolderName.Trim(),
+            ExpiryMonth = paymentInfo.ExpiryMonth,
+            ExpiryYear = paymentInfo.ExpiryYear,
+            Cvv = paymentInfo.Cvv,
+            Description = description
+        });
+        if (!paymentResult.Success)
+        {
+            return (new BookingChangeResult
+            {
+                Success = false,
+                ErrorMessage = paymentResult.ErrorMessage ?? "Payment failed",
+                ErrorCode = ErrorCodes.PaymentDeclined,
+                DeclineCode = paymentResult.DeclineCode
+            }, null);
+        }
+
+        booking.TotalAmount += amount;
+        return (null, paymentResult.TransactionId);
+    }
+
+    // Undoes a change that was paid for but could not be saved, so the customer is not left charged for it
+    private async Task<BookingChangeResult> ReverseChangeAsync(IDbContextTransaction transaction, string? transactionId, decimal amount, string message)
+    {
+        try
+        {
+            await transaction.RollbackAsync();
+        }
+        catch
+        {
+            // The connection is gone, and the database discards the open transaction with it
+        }
+        _context.ChangeTracker.Clear();
+
+        if (!string.IsNullOrEmpty(transactionId))
+        {
+            var refund = await _paymentService.RefundPaymentAsync(transactionId, amount, $"void-{transactionId}");
+            if (!refund.Success)
+            {
+                _logger.LogCritical("Charge {TransactionId} of {Amount} was not reversed after a failed booking change and needs a manual refund",
+                    transactionId, amount);
+            }
+        }
+
+        return new BookingChangeResult
+        {
+            Success = false,
+            ErrorMessage = $"{message}. Any charge to your card has been reversed."
+        };
+    }
+
+    // Row lock on the flight, held until the surrounding transaction ends
+    private Task LockFlightAsync(int flightId)
+    {
+        return _context.Database.ExecuteSqlInterpolatedAsync($"SELECT 1 FROM \"Flights\" WHERE \"Id\" = {flightId} FOR UPDATE");
+    }
+
+    private void SendChangeConfirmation(Booking booking, List<BookingChange> changes)
+    {
+        if (booking.User == null)
+        {
+            return;
+        }
+
+        var email = booking.User.Email;
+        _ = Task.Run(async () =>
+        {
+            try
+            {
+                await _emailService.SendBookingChangeConfirmationAsync(booking, email, changes);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Failed to send booking change email for {ConfirmationNumber}", booking.ConfirmationNumber);
+            }
+        });
+    }
+
+    private static BookingChangeResult ValidationFailure(Dictionary<string, string[]> fieldErrors, string message)
+    {
+        return new BookingChangeResult
+        {
+            Success = false,
+            ErrorMessage = message,
+            ErrorCode = ErrorCodes.ValidationFailed,
+            FieldErrors = fieldErrors
+        };
+    }
+
+    private static decimal GetUpcharge(string? seatNumber)
+    {
+        return seatNumber == null ? 0m : SeatLayout.FindSeat(seatNumber)?.Upcharge ?? 0m;
+    }
+
+    private static string Truncate(string value, int maxLength) => value.Length <= maxLength ? value : value[..maxLength];
+
+    // Levenshtein distance, ignoring case
+    private static int EditDistance(string from, string to)
+    {
+        var a = from.ToUpperInvariant();
+        var b = to.ToUpperInvariant();
+        var previous = Enumerable.Range(0, b.Length + 1).ToArray();
+        for (var i = 1; i <= a.Length; i++)
+        {
+            var current = new int[b.Length + 1];
+            current[0] = i;
+            for (var j = 1; j <= b.Length; j++)
+            {
+                var cost = a[i - 1] == b[j - 1] ? 0 : 1;
+                current[j] = Math.Min(Math.Min(current[j - 1] + 1, previous[j] + 1), previous[j - 1] + cost);
+            }
+            previous = current;
+        }
+        return previous[b.Length];
+    }
+}
+
+public class SeatChangeRequest
+{
+    public string ConfirmationNumber { get; set; } = string.Empty;
+    public string UserId { get; set; } = string.Empty;
+    public List<PassengerSeatChange> Seats { get; set; } = new();
+    // Needed when the new seats cost more than the old ones
+    public PaymentInfo? PaymentInfo { get; set; }
+}
+
+public class PassengerSeatChange
+{
+    public int PassengerId { get; set; }
+    public string SeatNumber { get; set; } = string.Empty;
+}
+
+public class FlightChangeRequest
+{
+    public string ConfirmationNumber { get; set; } = string.Empty;
+    public string UserId { get; set; } = string.Empty;
+    public int FlightId { get; set; }
+    // Needed when the new flight costs more than was paid
+    public PaymentInfo? PaymentInfo { get; set; }
+}
+
+public class NameCorrectionRequest
+{
+    public string ConfirmationNumber { get; set; } = string.Empty;
+    public string UserId { get; set; } = string.Empty;
+    public int PassengerId { get; set; }
+    public string FirstName { get; set; } = string.Empty;
+    public string LastName { get; set; } = string.Empty;
+}
+
+public class BookingChangeResult
+{
+    public bool Success { get; set; }
+    public string? ErrorMessage { get; set; }
+    public string? ErrorCode { get; set; }
+    public Dictionary<string, string[]> FieldErrors { get; set; } = new();
+    public List<string> UnavailableSeats { get; set; } = new();
+    public string? DeclineCode { get; set; }
+    public Booking? Booking { get; set; }
+    public List<BookingChange> Changes { get; set; } = new();
+}
+
+public class FlightChangeOptionsResult
+{
+    public bool Success { get; set; }
+    public string? ErrorMessage { get; set; }
+    public string? ErrorCode { get; set; }
+    public string Currency { get; set; } = string.Empty;
+    // What the passengers still on the booking have paid so far
+    public decimal CurrentFare { get; set; }
+    public List<FlightChangeOption> Options { get; set; } = new();
+}
+
+public class FlightChangeOption
+{
+    public int FlightId { get; set; }
+    public string FlightNumber { get; set; } = string.Empty;
+    public string Airline { get; set; } = string.Empty;
+    public DateTime ScheduledDeparture { get; set; }
+    public DateTime ScheduledArrival { get; set; }
+    public int SeatsRemaining { get; set; }
+    public bool IsAvailable { get; set; }
+    public decimal NewFare { get; set; }
+    // Positive is charged to a card, negative issued as travel credit
+    public decimal FareDifference { get; set; }
+}
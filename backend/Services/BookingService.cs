@@ -1,7 +1,9 @@
 using AirlineSimulationApi.Models;
 using AirlineSimulationApi.Data;
 using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Storage;
 using System.Security.Cryptography;
+using System.Text.RegularExpressions;
 
 namespace AirlineSimulationApi.Services;
 
@@ -9,15 +11,28 @@ public class BookingService : IBookingService
 {
     private readonly ApplicationDbContext _context;
     private readonly IPaymentService _paymentService;
+    private readonly IFareService _fareService;
+    private readonly ISeatHoldService _seatHoldService;
     private readonly IEmailService _emailService;
+    private readonly IBaggageService _baggageService;
+    private readonly ILoyaltyService _loyaltyService;
     private readonly ILogger<BookingService> _logger;
     private static readonly RandomNumberGenerator _rng = RandomNumberGenerator.Create();
 
-    public BookingService(ApplicationDbContext context, IPaymentService paymentService, IEmailService emailService, ILogger<BookingService> logger)
+    private const int CheckInOpensHoursBeforeDeparture = 24;
+    private const int CheckInClosesMinutesBeforeDeparture = 45;
+    private static readonly Regex DocumentNumberPattern = new(@"^[A-Za-z0-9]{5,20}$", RegexOptions.Compiled);
+    private static readonly Regex CountryCodePattern = new(@"^[A-Za-z]{2,3}$", RegexOptions.Compiled);
+
+    public BookingService(ApplicationDbContext context, IPaymentService paymentService, IFareService fareService, ISeatHoldService seatHoldService, IEmailService emailService, IBaggageService baggageService, ILoyaltyService loyaltyService, ILogger<BookingService> logger)
     {
         _context = context;
         _paymentService = paymentService;
+        _fareService = fareService;
+        _seatHoldService = seatHoldService;
         _emailService = emailService;
+        _baggageService = baggageService;
+        _loyaltyService = loyaltyService;
         _logger = logger;
     }
 
@@ -31,7 +46,8 @@ public class BookingService : IBookingService
                 return new BookingResult
                 {
                     Success = false,
-                    ErrorMessage = "Flight number and user ID are required"
+                    ErrorMessage = "Flight number and user ID are required",
+                    ErrorCode = ErrorCodes.ValidationFailed
                 };
             }
 
@@ -40,21 +56,38 @@ public class BookingService : IBookingService
                 return new BookingResult
                 {
                     Success = false,
-                    ErrorMessage = "At least one passenger is required"
+                    ErrorMessage = "At least one passenger is required",
+                    ErrorCode = ErrorCodes.ValidationFailed,
+                    FieldErrors = { ["passengers"] = new[] { "At least one passenger is required" } }
                 };
             }
 
-            // Validate passenger data
-            foreach (var passenger in request.Passengers)
+            // Validate passenger, seat and card data. With points toward the fare the card may not be
+            // needed at all, so it is checked once the amount left to pay is known.
+            var fieldErrors = ValidatePassengersAndSeats(request);
+            if (request.PointsToRedeem < 0)
+            {
+                fieldErrors["pointsToRedeem"] = new[] { "Points to redeem cannot be negative" };
+            }
+            var paymentErrors = request.PointsToRedeem > 0
+                ? new Dictionary<string, string[]>()
+                : CardValidator.Validate(request.PaymentInfo);
+            foreach (var (path, messages) in paymentErrors)
+            {
+                fieldErrors[path] = messages;
+            }
+
+            if (fieldErrors.Any())
             {
-                if (string.IsNullOrWhiteSpace(passenger.FirstName) || string.IsNullOrWhiteSpace(passenger.LastName))
+                return new BookingResult
                 {
-                    return new BookingResult
-                    {
-                        Success = false,
-                        ErrorMessage = "Passenger first name and last name are required"
-                    };
-                }
+                    Success = false,
+                    ErrorMessage = paymentErrors.Count == fieldErrors.Count
+                        ? "Please check your payment details"
+                        : "Please correct the highlighted passenger details",
+                    ErrorCode = ErrorCodes.ValidationFailed,
+                    FieldErrors = fieldErrors
+                };
             }
 
             // Find the flight
@@ -71,7 +104,8 @@ public class BookingService : IBookingService
                 return new BookingResult
                 {
                     Success = false,
-                    ErrorMessage = "Flight not found"
+                    ErrorMessage = "Flight not found",
+                    ErrorCode = ErrorCodes.FlightNotFound
                 };
             }
 
@@ -81,37 +115,80 @@ public class BookingService : IBookingService
                 return new BookingResult
                 {
                     Success = false,
-                    ErrorMessage = "Cannot book flights that have already departed"
+                    ErrorMessage = "Cannot book flights that have already departed",
+                    ErrorCode = ErrorCodes.FlightDeparted
                 };
             }
 
-            var confirmationNumber = GenerateConfirmationNumber();
-            var totalAmount = CalculateTotalAmount(request.Passengers);
-
-            // For demo purposes, simulate payment processing
-            // In production, this would require actual payment info
-            var paymentRequest = new PaymentRequest
-            {
-                Amount = totalAmount,
-                CardNumber = "4111111111111111", // Demo card
-                CardHolderName = $"{request.UserId} Demo",
-                ExpiryMonth = 12,
-                ExpiryYear = DateTime.Now.Year + 2,
-                Cvv = "123",
-                Description = $"Flight booking for {flight.FlightNumber}"
-            };
-
-            var paymentResult = await _paymentService.ProcessPaymentAsync(paymentRequest);
+            // Passengers already holding a place on this flight
+            var bookedPassengers = _context.Passengers
+                .Where(p => p.Booking.FlightId == flight.Id && p.Booking.Status != BookingStatus.Cancelled && p.CancelledAt == null);
 
-            if (!paymentResult.Success)
+            var bookedCount = await bookedPassengers.CountAsync();
+            if (bookedCount + request.Passengers.Count > SeatLayout.Capacity)
             {
                 return new BookingResult
                 {
                     Success = false,
-                    ErrorMessage = paymentResult.ErrorMessage ?? "Payment failed"
+                    ErrorMessage = bookedCount >= SeatLayout.Capacity
+                        ? "This flight is sold out"
+                        : $"Only {SeatLayout.Capacity - bookedCount} seat(s) remain on this flight",
+                    ErrorCode = ErrorCodes.FlightSoldOut
                 };
             }
-            
+
+            var seatAssignments = GetSeatAssignments(request);
+            var requestedSeats = seatAssignments.OfType<string>().ToList();
+            if (requestedSeats.Any())
+            {
+                var takenSeats = await bookedPassengers
+                    .Where(p => p.SeatNumber != null && requestedSeats.Contains(p.SeatNumber))
+                    .Select(p => p.SeatNumber!)
+                    .ToListAsync();
+
+                // Seats another customer is holding count as taken until their hold lapses
+                var heldSeats = _seatHoldService.GetSeatsHeldByOthers(flight.FlightNumber, flightDate, request.UserId);
+                takenSeats.AddRange(requestedSeats
+                    .Where(seat => heldSeats.Contains(seat, StringComparer.OrdinalIgnoreCase) && !takenSeats.Contains(seat)));
+
+                if (takenSeats.Any())
+                {
+                    return new BookingResult
+                    {
+                        Success = false,
+                        ErrorMessage = $"Seat(s) {string.Join(", ", takenSeats)} are no longer available",
+                        ErrorCode = ErrorCodes.SeatUnavailable,
+                        UnavailableSeats = takenSeats
+                    };
+                }
+            }
+
+            var confirmationNumber = GenerateConfirmationNumber();
+            // Charge exactly what the fare quote shows the customer
+            var fareQuote = _fareService.QuoteFare(request.Passengers, flight.ScheduledDeparture);
+            var totalAmount = fareQuote.Total;
+            var pointsValue = request.PointsToRedeem * LoyaltyService.PointValue;
+            if (pointsValue > totalAmount)
+            {
+                return PointsFailure($"You can redeem at most {(int)(totalAmount / LoyaltyService.PointValue):N0} points on this booking");
+            }
+
+            var amountDue = totalAmount - pointsValue;
+            if (amountDue > 0 && request.PointsToRedeem > 0)
+            {
+                paymentErrors = CardValidator.Validate(request.PaymentInfo);
+                if (paymentErrors.Any())
+                {
+                    return new BookingResult
+                    {
+                        Success = false,
+                        ErrorMessage = "Please check your payment details",
+                        ErrorCode = ErrorCodes.ValidationFailed,
+                        FieldErrors = paymentErrors
+                    };
+                }
+            }
+
             var booking = new Booking
             {
                 ConfirmationNumber = confirmationNumber,
@@ -120,37 +197,121 @@ public class BookingService : IBookingService
                 Status = BookingStatus.Confirmed,
                 PaymentStatus = PaymentStatus.Completed,
                 TotalAmount = totalAmount,
+                PointsRedeemed = request.PointsToRedeem,
+                PointsValue = pointsValue,
                 CreatedAt = DateTime.UtcNow
             };
 
-            _context.Bookings.Add(booking);
-            await _context.SaveChangesAsync(); // Save to get the booking ID
+            // Points come off the balance and the booking is saved together, or neither happens
+            await using var transaction = await _context.Database.BeginTransactionAsync();
 
-            // Add passengers with the actual booking ID
-            foreach (var passengerInfo in request.Passengers)
+            // Count again holding the flight's row, which flight changes onto this flight lock too
+            await LockFlightAsync(flight.Id);
+            if (await bookedPassengers.CountAsync() + request.Passengers.Count > SeatLayout.Capacity)
             {
-                DateTime? passengerDateOfBirth = null;
-                if (passengerInfo.DateOfBirth.HasValue)
+                await transaction.RollbackAsync();
+                return new BookingResult
                 {
-                    var dob = passengerInfo.DateOfBirth.Value;
-                    passengerDateOfBirth = dob.Kind == DateTimeKind.Unspecified
-                        ? DateTime.SpecifyKind(dob, DateTimeKind.Utc)
-                        : dob.ToUniversalTime();
+                    Success = false,
+                    ErrorMessage = "This flight no longer has enough seats for your party",
+                    ErrorCode = ErrorCodes.FlightSoldOut
+                };
+            }
+
+            if (request.PointsToRedeem > 0 && !await _loyaltyService.RedeemPointsAsync(booking, request.PointsToRedeem))
+            {
+                await transaction.RollbackAsync();
+                return PointsFailure("You don't have enough points for this redemption");
+            }
+
+            if (amountDue > 0)
+            {
+                var paymentInfo = request.PaymentInfo!;
+                var paymentRequest = new PaymentRequest
+                {
+                    Amount = amountDue,
+                    CardNumber = CardValidator.NormalizeCardNumber(paymentInfo.CardNumber),
+                    CardHolderName = paymentInfo.CardHolderName.Trim(),
+                    ExpiryMonth = paymentInfo.ExpiryMonth,
+                    ExpiryYear = paymentInfo.ExpiryYear,
+                    Cvv = paymentInfo.Cvv,
+                    Description = $"Flight booking for {flight.FlightNumber}"
+                };
+
+                var paymentResult = await _paymentService.ProcessPaymentAsync(paymentRequest);
+
+                if (!paymentResult.Success)
+                {
+                    // Hands the points back
+                    await transaction.RollbackAsync();
+                    return new BookingResult
+                    {
+                        Success = false,
+                        ErrorMessage = paymentResult.ErrorMessage ?? "Payment failed",
+                        ErrorCode = ErrorCodes.PaymentDeclined,
+                        DeclineCode = paymentResult.DeclineCode
+                    };
                 }
 
-                var passenger = new Passenger
+                booking.PaymentTransactionId = paymentResult.TransactionId;
+            }
+
+            try
+            {
+                _context.Bookings.Add(booking);
+                await _context.SaveChangesAsync(); // Save to get the booking ID
+
+                // Add passengers with the actual booking ID and their assigned seats
+                for (var i = 0; i < request.Passengers.Count; i++)
                 {
-                    BookingId = booking.Id,
-                    FirstName = passengerInfo.FirstName,
-                    LastName = passengerInfo.LastName,
-                    DateOfBirth = passengerDateOfBirth,
-                    SeatClass = passengerInfo.SeatClass,
-                    CheckedIn = false
+                    var passengerInfo = request.Passengers[i];
+                    DateTime? passengerDateOfBirth = null;
+                    if (passengerInfo.DateOfBirth.HasValue)
+                    {
+                        var dob = passengerInfo.DateOfBirth.Value;
+                        passengerDateOfBirth = dob.Kind == DateTimeKind.Unspecified
+                            ? DateTime.SpecifyKind(dob, DateTimeKind.Utc)
+                            : dob.ToUniversalTime();
+                    }
+
+                    var passenger = new Passenger
+                    {
+                        BookingId = booking.Id,
+                        FirstName = passengerInfo.FirstName,
+                        LastName = passengerInfo.LastName,
+                        DateOfBirth = passengerDateOfBirth,
+                        SeatNumber = seatAssignments[i],
+                        SeatClass = passengerInfo.SeatClass,
+                        FareAmount = fareQuote.Passengers[i].Total,
+                        CheckedBags = passengerInfo.CheckedBags,
+                        CheckedIn = false
+                    };
+                    _context.Passengers.Add(passenger);
+                }
+
+                await _context.SaveChangesAsync(); // Save passengers
+                await transaction.CommitAsync();
+            }
+            catch (Exception ex)
+            {
+                // Nothing was kept, so the customer must not stay charged either. The points were taken
+                // inside the same transaction, so rolling it back credits them to the account again.
+                _logger.LogError(ex, "Error saving booking {ConfirmationNumber}, reversing payment", confirmationNumber);
+                await RollBackQuietlyAsync(transaction);
+                _context.ChangeTracker.Clear();
+                await ReversePaymentAsync(booking.PaymentTransactionId, amountDue);
+                return new BookingResult
+                {
+                    Success = false,
+                    ErrorMessage = "Failed to create booking. Any charge to your card has been reversed."
                 };
-                _context.Passengers.Add(passenger);
             }
 
-            await _context.SaveChangesAsync(); // Save passengers
+            if (requestedSeats.Any())
+            {
+                await _seatHoldService.MarkBookedAsync(flight.FlightNumber, flightDate, requestedSeats);
+            }
+            await _seatHoldService.ReleaseAllAsync(flight.FlightNumber, flightDate, request.UserId);
 
             // Get user email for booking confirmation
             var user = await _context.Users.FindAsync(request.UserId);
@@ -203,72 +364,182 @@ public class BookingService : IBookingService
             .Include(b => b.Flight)
             .Include(b => b.Passengers)
             .Include(b => b.User)
+            .Include(b => b.Changes)
             .FirstOrDefaultAsync(b => b.ConfirmationNumber == confirmationNumber);
     }
 
-    public async Task<CheckInResult> CheckInAsync(string confirmationNumber)
+    public async Task<UserBookingsResult> GetUserBookingsAsync(UserBookingsQuery query)
+    {
+        var now = DateTime.UtcNow;
+
+        var userBookings = _context.Bookings
+            .Where(b => b.UserId == query.UserId);
+
+        if (query.Status.HasValue)
+        {
+            userBookings = userBookings.Where(b => b.Status == query.Status.Value);
+        }
+
+        // Counts for each scope are returned alongside the page so the client can label its filters
+        var upcomingCount = await userBookings.CountAsync(b => b.Flight.ScheduledDeparture > now);
+        var pastCount = await userBookings.CountAsync(b => b.Flight.ScheduledDeparture <= now);
+
+        var scopedBookings = query.Scope switch
+        {
+            BookingScope.Upcoming => userBookings
+                .Where(b => b.Flight.ScheduledDeparture > now)
+                .OrderBy(b => b.Flight.ScheduledDeparture),
+            BookingScope.Past => userBookings
+                .Where(b => b.Flight.ScheduledDeparture <= now)
+                .OrderByDescending(b => b.Flight.ScheduledDeparture),
+            _ => userBookings.OrderByDescending(b => b.CreatedAt)
+        };
+
+        var bookings = await scopedBookings
+            .Skip((query.Page - 1) * query.PageSize)
+            .Take(query.PageSize)
+            .Include(b => b.Flight)
+            .Include(b => b.Passengers)
+            .ToListAsync();
+
+        return new UserBookingsResult
+        {
+            Bookings = bookings,
+            TotalCount = query.Scope switch
+            {
+                BookingScope.Upcoming => upcomingCount,
+                BookingScope.Past => pastCount,
+                _ => upcomingCount + pastCount
+            },
+            UpcomingCount = upcomingCount,
+            PastCount = pastCount
+        };
+    }
+
+    public async Task<CheckInResult> CheckInAsync(CheckInRequest request)
     {
         try
         {
-            var booking = await GetBookingAsync(confirmationNumber);
-            
-            if (booking == null)
+            var booking = await GetBookingAsync(request.ConfirmationNumber);
+
+            if (booking == null || booking.UserId != request.UserId)
             {
                 return new CheckInResult
                 {
                     Success = false,
-                    ErrorMessage = "Booking not found"
+                    ErrorMessage = "Booking not found",
+                    ErrorCode = ErrorCodes.BookingNotFound
                 };
             }
 
-            // Check if check-in is available
-            var checkInAvailable = DateTime.UtcNow >= booking.Flight.ScheduledDeparture.AddHours(-24);
-            if (!checkInAvailable)
+            var unavailableReason = GetCheckInUnavailableReason(booking);
+            if (unavailableReason != null)
             {
                 return new CheckInResult
                 {
                     Success = false,
-                    ErrorMessage = "Check-in not yet available. Opens 24 hours before departure."
+                    ErrorMessage = unavailableReason,
+                    ErrorCode = ErrorCodes.CheckInUnavailable
                 };
             }
 
-            // Update booking status
-            booking.Status = BookingStatus.CheckedIn;
-            await _context.SaveChangesAsync();
-
-            // Generate boarding pass - safely handle passengers
-            var firstPassenger = booking.Passengers?.FirstOrDefault();
-            if (firstPassenger == null)
+            var fieldErrors = ValidateCheckIn(request, booking);
+            if (fieldErrors.Any())
             {
                 return new CheckInResult
                 {
                     Success = false,
-                    ErrorMessage = "No passengers found for this booking"
+                    ErrorMessage = "Please check the travel document details",
+                    ErrorCode = ErrorCodes.ValidationFailed,
+                    FieldErrors = fieldErrors
                 };
             }
 
-            var boardingPass = new BoardingPass
+            // Hold the flight's row while seats and boarding order are handed out, so passengers checking in
+            // at the same moment cannot be given the same seat or sequence number
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            await LockFlightAsync(booking.FlightId);
+
+            var flightPassengers = _context.Passengers
+                .Where(p => p.Booking.FlightId == booking.FlightId && p.Booking.Status != BookingStatus.Cancelled && p.CancelledAt == null);
+            var sequence = await flightPassengers.MaxAsync(p => p.CheckInSequence) ?? 0;
+            var takenSeats = (await flightPassengers
+                    .Where(p => p.SeatNumber != null)
+                    .Select(p => p.SeatNumber!)
+                    .ToListAsync())
+                .Concat(_seatHoldService.GetSeatsHeldByOthers(booking.Flight.FlightNumber, booking.Flight.ScheduledDeparture, null))
+                .ToHashSet(StringComparer.OrdinalIgnoreCase);
+
+            var now = DateTime.UtcNow;
+            var checkedIn = new List<Passenger>();
+            var newlyCheckedIn = new List<Passenger>();
+            foreach (var checkIn in request.Passengers)
             {
-                ConfirmationNumber = booking.ConfirmationNumber,
-                PassengerName = $"{firstPassenger.FirstName} {firstPassenger.LastName}",
-                FlightNumber = booking.Flight.FlightNumber,
-                SeatNumber = firstPassenger.SeatNumber ?? "TBD",
-                Gate = booking.Flight.Gate ?? "TBD",
-                BoardingTime = booking.Flight.ScheduledDeparture.AddMinutes(-30),
-                QrCode = GenerateSecureQrCode(booking.ConfirmationNumber)
-            };
+                var passenger = booking.Passengers.First(p => p.Id == checkIn.PassengerId);
+                passenger.DocumentType = checkIn.DocumentType;
+                passenger.DocumentNumber = checkIn.DocumentNumber.Trim().ToUpperInvariant();
+                passenger.DocumentExpiry = DateTime.SpecifyKind(checkIn.DocumentExpiry!.Value.Date, DateTimeKind.Utc);
+                passenger.DocumentCountry = checkIn.DocumentCountry.Trim().ToUpperInvariant();
+
+                // Checking in again just reissues the boarding pass
+                if (!passenger.CheckedIn)
+                {
+                    if (passenger.SeatNumber == null)
+                    {
+                        passenger.SeatNumber = AssignFreeSeat(passenger.SeatClass, takenSeats);
+                    }
+                    passenger.CheckedIn = true;
+                    passenger.CheckInTime = now;
+                    passenger.CheckInSequence = ++sequence;
+                    newlyCheckedIn.Add(passenger);
+                }
+                checkedIn.Add(passenger);
+            }
+
+            if (booking.Passengers.Where(p => p.CancelledAt == null).All(p => p.CheckedIn))
+            {
+                booking.Status = BookingStatus.CheckedIn;
+            }
+            await _context.SaveChangesAsync();
+            await transaction.CommitAsync();
+
+            // Bags paid for at booking are tagged once, on the passenger's first check-in
+            foreach (var passenger in newlyCheckedIn)
+            {
+                for (var bag = 1; bag <= passenger.CheckedBags; bag++)
+                {
+                    await _baggageService.CreateBaggageAsync(booking.Id, passenger.Id,
+                        $"Bag {bag} of {passenger.CheckedBags} checked in for {passenger.FirstName} {passenger.LastName}");
+                }
+            }
+
+            _logger.LogInformation("Checked in {Count} passenger(s) for booking: {ConfirmationNumber}", checkedIn.Count, booking.ConfirmationNumber);
 
-            _logger.LogInformation("Check-in completed for booking: {ConfirmationNumber}", confirmationNumber);
+            if (booking.User != null)
+            {
+                var email = booking.User.Email;
+                _ = Task.Run(async () =>
+                {
+                    try
+                    {
+                        await _emailService.SendCheckInConfirmationAsync(booking, email);
+                    }
+                    catch (Exception ex)
+                    {
+                        _logger.LogError(ex, "Failed to send check-in confirmation email for {ConfirmationNumber}", booking.ConfirmationNumber);
+                    }
+                });
+            }
 
             return new CheckInResult
             {
                 Success = true,
-                BoardingPass = boardingPass
+                BoardingPasses = checkedIn.Select(p => BuildBoardingPass(booking, p)).ToList()
             };
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error during check-in for {ConfirmationNumber}", confirmationNumber);
+            _logger.LogError(ex, "Error during check-in for {ConfirmationNumber}", request.ConfirmationNumber);
             return new CheckInResult
             {
                 Success = false,
@@ -277,82 +548,484 @@ public class BookingService : IBookingService
         }
     }
 
+    public async Task<List<BoardingPass>?> GetBoardingPassesAsync(string confirmationNumber, string userId)
+    {
+        var booking = await GetBookingAsync(confirmationNumber);
+        if (booking == null || booking.UserId != userId)
+        {
+            return null;
+        }
+
+        return booking.Passengers
+            .Where(p => p.CheckedIn && p.CancelledAt == null)
+            .OrderBy(p => p.Id)
+            .Select(p => BuildBoardingPass(booking, p))
+            .ToList();
+    }
+
+    public async Task<CancellationResult> QuoteCancellationAsync(CancellationRequest request)
+    {
+        var (booking, passengers, failure) = await PrepareCancellationAsync(request);
+        if (failure != null)
+        {
+            return failure;
+        }
+
+        return new CancellationResult
+        {
+            Success = true,
+            Quote = CancellationPolicy.Quote(booking!, passengers, DateTime.UtcNow),
+            Booking = booking
+        };
+    }
+
+    public async Task<CancellationResult> CancelBookingAsync(CancellationRequest request)
+    {
+        try
+        {
+            // The booking update, the points and the refund all happen in one transaction, or none of them do
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+
+            // Lock the booking's row before loading it, so a concurrent cancellation on the same booking waits
+            // here and then quotes from what this one saved instead of overwriting it with stale totals
+            await LockBookingAsync(request.ConfirmationNumber);
+            var (booking, passengers, failure) = await PrepareCancellationAsync(request);
+            if (failure != null)
+            {
+                await transaction.RollbackAsync();
+                return failure;
+            }
+
+            var now = DateTime.UtcNow;
+            var quote = CancellationPolicy.Quote(booking!, passengers, now);
+            // Split before RefundedAmount grows, since it decides what is left on each charge
+            var refunds = CancellationPolicy.AllocateRefund(booking!, quote.RefundAmount);
+            var passengerIds = passengers.Select(p => p.Id).OrderBy(id => id).ToList();
+
+            if (quote.PointsRefunded > 0)
+            {
+                await _loyaltyService.RefundPointsAsync(booking!, quote.PointsRefunded);
+            }
+
+            foreach (var passenger in passengers)
+            {
+                passenger.CancelledAt = now;
+            }
+
+            booking!.RefundedAmount += quote.RefundAmount;
+            booking.CreditAmount += quote.CreditAmount;
+            booking.PointsRefunded += quote.PointsRefunded;
+            if (quote.CancelsBooking)
+            {
+                booking.Status = BookingStatus.Cancelled;
+                booking.CancelledAt = now;
+            }
+            else if (booking.Passengers.Where(p => p.CancelledAt == null).All(p => p.CheckedIn))
+            {
+                // Everyone left on the booking has already checked in
+                booking.Status = BookingStatus.CheckedIn;
+            }
+            if (booking.RefundedAmount > 0)
+            {
+                // Only the part paid by card could be refunded to it
+                booking.PaymentStatus = booking.RefundedAmount >= booking.TotalAmount - booking.PointsValue
+                    ? PaymentStatus.Refunded
+                    : PaymentStatus.PartiallyRefunded;
+            }
+            await _context.SaveChangesAsync();
+
+            // Refund last, while the booking is still locked, against the purchase and any paid changes in
+            // turn. A gateway failure rolls the cancellation back; a retry carries the same keys, so charges
+            // refunded before the failure or before a failed commit are not paid out again.
+            foreach (var refund in refunds)
+            {
+                var idempotencyKey = $"cancel-{booking.Id}-{string.Join("-", passengerIds)}-{refund.TransactionId}";
+                var refundResult = await _paymentService.RefundPaymentAsync(refund.TransactionId, refund.Amount, idempotencyKey);
+                if (!refundResult.Success)
+                {
+                    await transaction.RollbackAsync();
+                    return new CancellationResult
+                    {
+                        Success = false,
+                        ErrorMessage = refundResult.ErrorMessage ?? "The refund could not be processed. Your booking has not been changed.",
+                        ErrorCode = ErrorCodes.RefundFailed
+                    };
+                }
+            }
+
+            await transaction.CommitAsync();
+
+            _logger.LogInformation("Cancelled {Count} passenger(s) on booking {ConfirmationNumber}: refund {Refund}, credit {Credit}, points {Points}",
+                passengers.Count, booking.ConfirmationNumber, quote.RefundAmount, quote.CreditAmount, quote.PointsRefunded);
+
+            if (booking.User != null)
+            {
+                var email = booking.User.Email;
+                _ = Task.Run(async () =>
+                {
+                    try
+                    {
+                        await _emailService.SendCancellationConfirmationAsync(booking, email, quote);
+                    }
+                    catch (Exception ex)
+                    {
+                        _logger.LogError(ex, "Failed to send cancellation email for {ConfirmationNumber}", booking.ConfirmationNumber);
+                    }
+                });
+            }
+
+            return new CancellationResult
+            {
+                Success = true,
+                Quote = quote,
+                Booking = booking
+            };
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error cancelling booking {ConfirmationNumber}", request.ConfirmationNumber);
+            return new CancellationResult
+            {
+                Success = false,
+                ErrorMessage = "Cancellation failed"
+            };
+        }
+    }
+
     public Task<SeatMap> GetSeatMapAsync(string flightNumber, DateTime date)
     {
-        // Simplified seat map - just return basic structure
         var seatMap = new SeatMap
         {
             FlightNumber = flightNumber,
-            Rows = GenerateSeatRows()
+            Aircraft = SeatLayout.Aircraft,
+            Cabins = SeatLayout.Cabins.ToList(),
+            Rows = SeatLayout.BuildRows()
         };
         return Task.FromResult(seatMap);
     }
 
-    private string GenerateConfirmationNumber()
+    private static Dictionary<string, string[]> ValidatePassengersAndSeats(BookingRequest request)
     {
-        const string chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-        var result = new char[6];
-        var buffer = new byte[4];
+        var errors = new Dictionary<string, string[]>();
 
-        for (int i = 0; i < 6; i++)
+        for (var i = 0; i < request.Passengers.Count; i++)
         {
-            _rng.GetBytes(buffer);
-            var randomValue = BitConverter.ToUInt32(buffer, 0);
-            result[i] = chars[(int)(randomValue % chars.Length)];
+            var passenger = request.Passengers[i];
+            if (string.IsNullOrWhiteSpace(passenger.FirstName))
+            {
+                errors[$"passengers[{i}].firstName"] = new[] { "First name is required" };
+            }
+            if (string.IsNullOrWhiteSpace(passenger.LastName))
+            {
+                errors[$"passengers[{i}].lastName"] = new[] { "Last name is required" };
+            }
+            if (passenger.DateOfBirth.HasValue && passenger.DateOfBirth.Value > DateTime.UtcNow)
+            {
+                errors[$"passengers[{i}].dateOfBirth"] = new[] { "Date of birth cannot be in the future" };
+            }
+            if (passenger.CheckedBags < 0 || passenger.CheckedBags > FareService.MaxCheckedBagsPerPassenger)
+            {
+                errors[$"passengers[{i}].checkedBags"] = new[] { $"Each passenger can check between 0 and {FareService.MaxCheckedBagsPerPassenger} bags" };
+            }
         }
 
-        return new string(result);
+        if (request.SelectedSeats.Count > request.Passengers.Count)
+        {
+            errors["selectedSeats"] = new[] { "More seats were selected than there are passengers" };
+            return errors;
+        }
+
+        // Each seat must exist, be in the passenger's cabin and belong to only one passenger
+        var seatAssignments = GetSeatAssignments(request);
+        for (var i = 0; i < seatAssignments.Count; i++)
+        {
+            var seatNumber = seatAssignments[i];
+            if (seatNumber == null)
+            {
+                continue;
+            }
+
+            var seat = SeatLayout.FindSeat(seatNumber);
+            var firstAssignedTo = seatAssignments.FindIndex(s => string.Equals(s, seatNumber, StringComparison.OrdinalIgnoreCase));
+            if (seat == null)
+            {
+                errors[$"passengers[{i}].seatNumber"] = new[] { $"Seat {seatNumber} does not exist on this aircraft" };
+            }
+            else if (seat.IsBlocked)
+            {
+                errors[$"passengers[{i}].seatNumber"] = new[] { $"Seat {seatNumber} cannot be booked ({seat.BlockedReason})" };
+            }
+            else if (seat.Class != request.Passengers[i].SeatClass)
+            {
+                errors[$"passengers[{i}].seatNumber"] = new[] { $"Seat {seatNumber} is in {seat.Class}, but this passenger is booked in {request.Passengers[i].SeatClass}" };
+            }
+            else if (firstAssignedTo != i)
+            {
+                errors[$"passengers[{i}].seatNumber"] = new[] { $"Seat {seatNumber} is already assigned to passenger {firstAssignedTo + 1}" };
+            }
+        }
+
+        return errors;
     }
 
-    private string GenerateSecureQrCode(string confirmationNumber)
+    /// <summary>
+    /// The seat for each passenger, in passenger order. Seats named on the passenger win;
+    /// otherwise the seat at the same position in SelectedSeats is used.
+    /// </summary>
+    private static List<string?> GetSeatAssignments(BookingRequest request)
     {
-        var buffer = new byte[8];
-        _rng.GetBytes(buffer);
-        var randomSuffix = BitConverter.ToUInt64(buffer, 0);
-        return $"QR-{confirmationNumber}-{randomSuffix}";
+        return request.Passengers
+            .Select((passenger, i) => string.IsNullOrWhiteSpace(passenger.SeatNumber)
+                ? request.SelectedSeats.ElementAtOrDefault(i)?.ToUpperInvariant()
+                : passenger.SeatNumber.Trim().ToUpperInvariant())
+            .ToList();
     }
 
-    private decimal CalculateTotalAmount(List<PassengerInfo> passengers)
+    // Row lock on the flight, held until the surrounding transaction ends
+    private Task LockFlightAsync(int flightId)
     {
-        var basePrice = 299.99m;
-        var total = 0m;
+        return _context.Database.ExecuteSqlInterpolatedAsync($"SELECT 1 FROM \"Flights\" WHERE \"Id\" = {flightId} FOR UPDATE");
+    }
+
+    // Row lock on the booking, held until the surrounding transaction ends
+    private Task LockBookingAsync(string confirmationNumber)
+    {
+        return _context.Database.ExecuteSqlInterpolatedAsync($"SELECT 1 FROM \"Bookings\" WHERE \"ConfirmationNumber\" = {confirmationNumber} FOR UPDATE");
+    }
 
-        foreach (var passenger in passengers)
+    private static async Task RollBackQuietlyAsync(IDbContextTransaction transaction)
+    {
+        try
         {
-            var multiplier = passenger.SeatClass switch
-            {
-                SeatClass.Economy => 1.0m,
-                SeatClass.PremiumEconomy => 1.5m,
-                SeatClass.Business => 2.5m,
-                SeatClass.First => 4.0m,
-                _ => 1.0m
-            };
-            total += basePrice * multiplier;
+            await transaction.RollbackAsync();
+        }
+        catch
+        {
+            // The connection is gone, and the database discards the open transaction with it
         }
+    }
+
+    // Gives back a charge for a booking that could not be saved
+    private async Task ReversePaymentAsync(string? transactionId, decimal amount)
+    {
+        if (string.IsNullOrEmpty(transactionId)) return;
 
-        return total;
+        var refund = await _paymentService.RefundPaymentAsync(transactionId, amount, $"void-{transactionId}");
+        if (!refund.Success)
+        {
+            _logger.LogCritical("Charge {TransactionId} of {Amount} was not reversed after a failed booking and needs a manual refund",
+                transactionId, amount);
+        }
     }
 
-    private List<SeatRow> GenerateSeatRows()
+    private static BookingResult PointsFailure(string message)
     {
-        var rows = new List<SeatRow>();
-        for (int i = 1; i <= 30; i++)
+        return new BookingResult
         {
-            rows.Add(new SeatRow
+            Success = false,
+            ErrorMessage = message,
+            ErrorCode = ErrorCodes.ValidationFailed,
+            FieldErrors = { ["pointsToRedeem"] = new[] { message } }
+        };
+    }
+
+    // Loads the booking and works out which passengers the request cancels, or why it cannot go ahead
+    private async Task<(Booking? Booking, List<Passenger> Passengers, CancellationResult? Failure)> PrepareCancellationAsync(CancellationRequest request)
+    {
+        var booking = await GetBookingAsync(request.ConfirmationNumber);
+        if (booking == null || booking.UserId != request.UserId)
+        {
+            return (null, new(), new CancellationResult
             {
-                RowNumber = i,
-                Seats = new List<Seat>
-                {
-                    new Seat { Number = $"{i}A", Class = SeatClass.Economy, IsAvailable = true },
-                    new Seat { Number = $"{i}B", Class = SeatClass.Economy, IsAvailable = true },
-                    new Seat { Number = $"{i}C", Class = SeatClass.Economy, IsAvailable = false },
-                    new Seat { Number = $"{i}D", Class = SeatClass.Economy, IsAvailable = true },
-                    new Seat { Number = $"{i}E", Class = SeatClass.Economy, IsAvailable = true },
-                    new Seat { Number = $"{i}F", Class = SeatClass.Economy, IsAvailable = true }
-                }
+                Success = false,
+                ErrorMessage = "Booking not found",
+                ErrorCode = ErrorCodes.BookingNotFound
+            });
+        }
+
+        string? unavailableReason = null;
+        if (booking.Status == BookingStatus.Cancelled)
+        {
+            unavailableReason = "This booking has already been cancelled";
+        }
+        else if (booking.Flight.ScheduledDeparture <= DateTime.UtcNow)
+        {
+            unavailableReason = "Bookings cannot be cancelled after the flight has departed";
+        }
+        if (unavailableReason != null)
+        {
+            return (booking, new(), new CancellationResult
+            {
+                Success = false,
+                ErrorMessage = unavailableReason,
+                ErrorCode = ErrorCodes.CancellationUnavailable
+            });
+        }
+
+        if (booking.Passengers.Any(p => p.CancelledAt != null && request.PassengerIds.Contains(p.Id)))
+        {
+            return (booking, new(), new CancellationResult
+            {
+                Success = false,
+                ErrorMessage = "These passengers have already been cancelled",
+                ErrorCode = ErrorCodes.CancellationUnavailable
+            });
+        }
+
+        var activePassengers = booking.Passengers.Where(p => p.CancelledAt == null).ToList();
+        var passengers = request.PassengerIds.Any()
+            ? activePassengers.Where(p => request.PassengerIds.Contains(p.Id)).ToList()
+            : activePassengers;
+
+        var fieldErrors = new Dictionary<string, string[]>();
+        if (passengers.Count != request.PassengerIds.Distinct().Count() && request.PassengerIds.Any())
+        {
+            fieldErrors["passengerIds"] = new[] { "One or more passengers are not on this booking" };
+        }
+        else if (passengers.Any(p => p.CheckedIn))
+        {
+            var names = string.Join(", ", passengers.Where(p => p.CheckedIn).Select(p => $"{p.FirstName} {p.LastName}"));
+            fieldErrors["passengerIds"] = new[] { $"{names} already checked in and can only be removed at the airport" };
+        }
+        if (fieldErrors.Any())
+        {
+            return (booking, passengers, new CancellationResult
+            {
+                Success = false,
+                ErrorMessage = fieldErrors["passengerIds"][0],
+                ErrorCode = ErrorCodes.ValidationFailed,
+                FieldErrors = fieldErrors
             });
         }
-        return rows;
+
+        return (booking, passengers, null);
+    }
+
+    private static string? GetCheckInUnavailableReason(Booking booking)
+    {
+        var departure = booking.Flight.ScheduledDeparture;
+        if (booking.Status == BookingStatus.Cancelled)
+        {
+            return "This booking has been cancelled";
+        }
+        if (DateTime.UtcNow < departure.AddHours(-CheckInOpensHoursBeforeDeparture))
+        {
+            return $"Check-in not yet available. Opens {CheckInOpensHoursBeforeDeparture} hours before departure.";
+        }
+        if (DateTime.UtcNow > departure.AddMinutes(-CheckInClosesMinutesBeforeDeparture))
+        {
+            return $"Online check-in closed {CheckInClosesMinutesBeforeDeparture} minutes before departure. Please see an agent at the airport.";
+        }
+        return null;
+    }
+
+    private static Dictionary<string, string[]> ValidateCheckIn(CheckInRequest request, Booking booking)
+    {
+        var errors = new Dictionary<string, string[]>();
+
+        if (!request.Passengers.Any())
+        {
+            errors["passengers"] = new[] { "Select at least one passenger to check in" };
+        }
+        if (!request.DocumentsConfirmed)
+        {
+            errors["documentsConfirmed"] = new[] { "Please confirm that every passenger holds valid travel documents" };
+        }
+
+        var seen = new HashSet<int>();
+        for (var i = 0; i < request.Passengers.Count; i++)
+        {
+            var checkIn = request.Passengers[i];
+            var prefix = $"passengers[{i}]";
+
+            if (!booking.Passengers.Any(p => p.Id == checkIn.PassengerId && p.CancelledAt == null) || !seen.Add(checkIn.PassengerId))
+            {
+                errors[$"{prefix}.passengerId"] = new[] { "This passenger is not on the booking" };
+                continue;
+            }
+            if (checkIn.DocumentType == null)
+            {
+                errors[$"{prefix}.documentType"] = new[] { "Document type is required" };
+            }
+            if (!DocumentNumberPattern.IsMatch(checkIn.DocumentNumber.Trim()))
+            {
+                errors[$"{prefix}.documentNumber"] = new[] { "Enter the 5 to 20 letters and digits of the document number" };
+            }
+            if (checkIn.DocumentExpiry == null)
+            {
+                errors[$"{prefix}.documentExpiry"] = new[] { "Expiry date is required" };
+            }
+            else if (checkIn.DocumentExpiry.Value.Date < booking.Flight.ScheduledArrival.Date)
+            {
+                errors[$"{prefix}.documentExpiry"] = new[] { "This document expires before the flight arrives" };
+            }
+            if (!CountryCodePattern.IsMatch(checkIn.DocumentCountry.Trim()))
+            {
+                errors[$"{prefix}.documentCountry"] = new[] { "Enter the 2 or 3 letter code of the issuing country" };
+            }
+        }
+
+        return errors;
+    }
+
+    // First seat in the passenger's cabin nobody has taken, or null when the cabin is full
+    private static string? AssignFreeSeat(SeatClass seatClass, HashSet<string> takenSeats)
+    {
+        var seat = SeatLayout.BuildRows()
+            .SelectMany(row => row.Seats)
+            .FirstOrDefault(s => s.Class == seatClass && !s.IsBlocked && !takenSeats.Contains(s.Number));
+        if (seat != null)
+        {
+            takenSeats.Add(seat.Number);
+        }
+        return seat?.Number;
+    }
+
+    private static BoardingPass BuildBoardingPass(Booking booking, Passenger passenger)
+    {
+        var flight = booking.Flight;
+        return new BoardingPass
+        {
+            ConfirmationNumber = booking.ConfirmationNumber,
+            PassengerId = passenger.Id,
+            FirstName = passenger.FirstName,
+            LastName = passenger.LastName,
+            PassengerName = $"{passenger.FirstName} {passenger.LastName}",
+            FlightNumber = flight.FlightNumber,
+            Airline = flight.Airline,
+            OriginAirport = flight.OriginAirport,
+            DestinationAirport = flight.DestinationAirport,
+            ScheduledDeparture = flight.ScheduledDeparture,
+            SeatNumber = passenger.SeatNumber ?? "TBD",
+            SeatClass = passenger.SeatClass,
+            Gate = flight.Gate ?? "TBD",
+            Terminal = flight.Terminal,
+            BoardingTime = (flight.EstimatedDeparture ?? flight.ScheduledDeparture).AddMinutes(-30),
+            // Premium cabins board first
+            BoardingGroup = passenger.SeatClass switch
+            {
+                SeatClass.First or SeatClass.Business => 1,
+                SeatClass.PremiumEconomy => 2,
+                _ => 3
+            },
+            SequenceNumber = passenger.CheckInSequence ?? 0
+        };
+    }
+
+    private string GenerateConfirmationNumber()
+    {
+        const string chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+        var result = new char[6];
+        var buffer = new byte[4];
+
+        for (int i = 0; i < 6; i++)
+        {
+            _rng.GetBytes(buffer);
+            var randomValue = BitConverter.ToUInt32(buffer, 0);
+            result[i] = chars[(int)(randomValue % chars.Length)];
+        }
+
+        return new string(result);
     }
 
 }
\ No newline at end of file
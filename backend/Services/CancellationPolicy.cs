@@ -0,0 +1,196 @@
+using AirlineSimulationApi.Models;
+
+namespace AirlineSimulationApi.Services;
+
+/// <summary>
+/// Prices a cancellation from how close to departure it happens. Far enough out the fare goes back
+/// to the card; closer in, part or all of it is kept as travel credit less a change fee. Loyalty points
+/// put toward the fare always go back to the account in full.
+/// </summary>
+public static class CancellationPolicy
+{
+    public const int FullRefundDaysBeforeDeparture = 7;
+    public const int PartialRefundHoursBeforeDeparture = 24;
+    public const decimal PartialRefundShare = 0.5m;
+    public const decimal LateCancellationFee = 75m;
+
+    /// <summary>
+    /// What cancelling the given passengers now would return. Refunds can only go back to card charges
+    /// the booking still has unrefunded; anything beyond that, as on bookings paid before transaction ids
+    /// were stored, is issued as credit instead. Redeemed points are shared across passengers by fare, and
+    /// only the cash rest of each fare is split into refund, credit and fee.
+    /// </summary>
+    public static CancellationQuote Quote(Booking booking, IReadOnlyCollection<Passenger> passengers, DateTime now)
+    {
+        var timeToDeparture = booking.Flight.ScheduledDeparture - now;
+        var refundableToCard = GetRefundableCharges(booking).Sum(c => c.Amount);
+
+        string policy;
+        Func<decimal, (decimal Refund, decimal Credit, decimal Fee)> split;
+        if (timeToDeparture >= TimeSpan.FromDays(FullRefundDaysBeforeDeparture))
+        {
+            policy = $"Cancelled more than {FullRefundDaysBeforeDeparture} days before departure: full refund";
+            split = fare => (fare, 0m, 0m);
+        }
+        else if (timeToDeparture >= TimeSpan.FromHours(PartialRefundHoursBeforeDeparture))
+        {
+            policy = $"Cancelled within {FullRefundDaysBeforeDeparture} days of departure: {PartialRefundShare:P0} refund, the rest as travel credit";
+            split = fare =>
+            {
+                var refund = Math.Round(fare * PartialRefundShare, 2);
+                return (refund, fare - refund, 0m);
+            };
+        }
+        else
+        {
+            policy = $"Cancelled within {PartialRefundHoursBeforeDeparture} hours of departure: travel credit less a {LateCancellationFee:0.00} {FareService.Currency} fee per passenger";
+            split = fare =>
+            {
+                var fee = Math.Min(LateCancellationFee, fare);
+                return (0m, fare - fee, fee);
+            };
+        }
+
+        var cancelsBooking = booking.Passengers.Where(p => p.CancelledAt == null).All(p => passengers.Contains(p));
+        var pointsShares = AllocatePoints(booking, passengers, cancelsBooking);
+
+        var lines = new List<PassengerCancellation>();
+        foreach (var (passenger, points) in passengers.Zip(pointsShares))
+        {
+            var (refund, credit, fee) = split(Math.Max(0m, passenger.FareAmount - points * LoyaltyService.PointValue));
+            var toCard = Math.Min(refund, refundableToCard);
+            refundableToCard -= toCard;
+            lines.Add(new PassengerCancellation
+            {
+                PassengerId = passenger.Id,
+                PassengerName = $"{passenger.FirstName} {passenger.LastName}",
+                FareAmount = passenger.FareAmount,
+                RefundAmount = toCard,
+                CreditAmount = credit + refund - toCard,
+                Fee = fee,
+                PointsRefunded = points
+            });
+        }
+
+        return new CancellationQuote
+        {
+            ConfirmationNumber = booking.ConfirmationNumber,
+            Currency = FareService.Currency,
+            Policy = policy,
+            Passengers = lines,
+            RefundAmount = lines.Sum(l => l.RefundAmount),
+            CreditAmount = lines.Sum(l => l.CreditAmount),
+            Fee = lines.Sum(l => l.Fee),
+            PointsRefunded = lines.Sum(l => l.PointsRefunded),
+            CancelsBooking = cancelsBooking,
+            QuotedAt = now
+        };
+    }
+
+    /// <summary>
+    /// Splits a refund across the booking's card charges, each paying back at most what is left of it
+    /// </summary>
+    public static List<CardCharge> AllocateRefund(Booking booking, decimal amount)
+    {
+        var refunds = new List<CardCharge>();
+        foreach (var charge in GetRefundableCharges(booking))
+        {
+            if (amount <= 0)
+            {
+                break;
+            }
+
+            var refund = Math.Min(amount, charge.Amount);
+            refunds.Add(new CardCharge { TransactionId = charge.TransactionId, Amount = refund });
+            amount -= refund;
+        }
+        return refunds;
+    }
+
+    // What is left to refund on each card charge: the purchase first, then the paid changes in the order
+    // they were made. Earlier refunds are taken off in that same order, matching how AllocateRefund paid them.
+    private static List<CardCharge> GetRefundableCharges(Booking booking)
+    {
+        var changeCharges = booking.Changes
+            .Where(c => c.AmountCharged > 0)
+            .OrderBy(c => c.ChangedAt)
+            .ThenBy(c => c.Id)
+            .ToList();
+
+        var charges = new List<CardCharge>();
+        if (!string.IsNullOrEmpty(booking.PaymentTransactionId))
+        {
+            // TotalAmount also counts what the changes charged
+            var purchase = booking.TotalAmount - booking.PointsValue - changeCharges.Sum(c => c.AmountCharged);
+            charges.Add(new CardCharge { TransactionId = booking.PaymentTransactionId, Amount = purchase });
+        }
+        charges.AddRange(changeCharges
+            .Where(c => !string.IsNullOrEmpty(c.PaymentTransactionId))
+            .GroupBy(c => c.PaymentTransactionId!)
+            .Select(g => new CardCharge { TransactionId = g.Key, Amount = g.Sum(c => c.AmountCharged) }));
+
+        var alreadyRefunded = booking.RefundedAmount;
+        foreach (var charge in charges)
+        {
+            var refunded = Math.Min(alreadyRefunded, charge.Amount);
+            charge.Amount -= refunded;
+            alreadyRefunded -= refunded;
+        }
+        return charges.Where(c => c.Amount > 0).ToList();
+    }
+
+    // Each passenger's share of the booking's redeemed points, in proportion to their fare. Shares round
+    // down, so the last cancellation returns whatever is left over.
+    private static List<int> AllocatePoints(Booking booking, IReadOnlyCollection<Passenger> passengers, bool cancelsBooking)
+    {
+        var pointsLeft = booking.PointsRedeemed - booking.PointsRefunded;
+        var totalFares = booking.Passengers.Sum(p => p.FareAmount);
+        if (pointsLeft <= 0 || totalFares <= 0)
+        {
+            return passengers.Select(_ => 0).ToList();
+        }
+
+        var shares = passengers
+            .Select(p => Math.Min(pointsLeft, (int)Math.Floor(booking.PointsRedeemed * p.FareAmount / totalFares)))
+            .ToList();
+        if (cancelsBooking && shares.Count > 0)
+        {
+            shares[^1] += pointsLeft - shares.Sum();
+        }
+        return shares;
+    }
+}
+
+public class CancellationQuote
+{
+    public string ConfirmationNumber { get; set; } = string.Empty;
+    public string Currency { get; set; } = string.Empty;
+    public string Policy { get; set; } = string.Empty;
+    public List<PassengerCancellation> Passengers { get; set; } = new();
+    public decimal RefundAmount { get; set; }
+    public decimal CreditAmount { get; set; }
+    public decimal Fee { get; set; }
+    // Loyalty points going back to the customer's account
+    public int PointsRefunded { get; set; }
+    // True when no passenger would be left on the booking
+    public bool CancelsBooking { get; set; }
+    public DateTime QuotedAt { get; set; }
+}
+
+// An amount charged to, or refunded against, one card transaction
+public class CardCharge
+{
+    public string TransactionId { get; set; } = string.Empty;
+    public decimal Amount { get; set; }
+}
+
+public class PassengerCancellation
+{
+    public int PassengerId { get; set; }
+    public string PassengerName { get; set; } = string.Empty;
+    public decimal FareAmount { get; set; }
+    public decimal RefundAmount { get; set; }
+    public decimal CreditAmount { get; set; }
+    public decimal Fee { get; set; }
+    public int PointsRefunded { get; set; }
+}
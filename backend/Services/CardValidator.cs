@@ -0,0 +1,131 @@
+namespace AirlineSimulationApi.Services;
+
+/// <summary>
+/// Card number, expiry and CVV checks shared by booking validation and payment processing
+/// </summary>
+public static class CardValidator
+{
+    public static string NormalizeCardNumber(string cardNumber)
+    {
+        return new string((cardNumber ?? string.Empty).Where(char.IsDigit).ToArray());
+    }
+
+    public static bool IsLuhnValid(string cardNumber)
+    {
+        var digits = NormalizeCardNumber(cardNumber);
+        if (digits.Length < 12 || digits.Length > 19)
+            return false;
+
+        var sum = 0;
+        var doubleDigit = false;
+        for (var i = digits.Length - 1; i >= 0; i--)
+        {
+            var digit = digits[i] - '0';
+            if (doubleDigit)
+            {
+                digit *= 2;
+                if (digit > 9)
+                    digit -= 9;
+            }
+            sum += digit;
+            doubleDigit = !doubleDigit;
+        }
+
+        return sum % 10 == 0;
+    }
+
+    public static CardBrand DetectBrand(string cardNumber)
+    {
+        var digits = NormalizeCardNumber(cardNumber);
+        if (digits.Length == 0)
+            return CardBrand.Unknown;
+
+        if (digits.StartsWith("34") || digits.StartsWith("37"))
+            return CardBrand.Amex;
+
+        if (digits.StartsWith("4"))
+            return CardBrand.Visa;
+
+        if (digits.Length >= 2 && int.TryParse(digits[..2], out var two) && two >= 51 && two <= 55)
+            return CardBrand.Mastercard;
+
+        if (digits.Length >= 4 && int.TryParse(digits[..4], out var four) && four >= 2221 && four <= 2720)
+            return CardBrand.Mastercard;
+
+        if (digits.StartsWith("6011") || digits.StartsWith("65"))
+            return CardBrand.Discover;
+
+        return CardBrand.Unknown;
+    }
+
+    /// <summary>
+    /// Cards are valid through the last day of their expiry month
+    /// </summary>
+    public static bool IsExpired(int expiryMonth, int expiryYear, DateTime now)
+    {
+        if (expiryMonth < 1 || expiryMonth > 12)
+            return true;
+
+        return expiryYear < now.Year || (expiryYear == now.Year && expiryMonth < now.Month);
+    }
+
+    public static int ExpectedCvvLength(CardBrand brand)
+    {
+        return brand == CardBrand.Amex ? 4 : 3;
+    }
+
+    /// <summary>
+    /// Validate card details, returning errors keyed by the camelCase field name under <paramref name="prefix"/>
+    /// </summary>
+    public static Dictionary<string, string[]> Validate(PaymentInfo? payment, string prefix = "paymentInfo")
+    {
+        var errors = new Dictionary<string, string[]>();
+
+        if (payment == null)
+        {
+            errors[prefix] = new[] { "Payment details are required" };
+            return errors;
+        }
+
+        var brand = DetectBrand(payment.CardNumber);
+        if (!IsLuhnValid(payment.CardNumber))
+        {
+            errors[$"{prefix}.cardNumber"] = new[] { "Enter a valid card number" };
+        }
+        else if (brand == CardBrand.Unknown)
+        {
+            errors[$"{prefix}.cardNumber"] = new[] { "We accept Visa, Mastercard, American Express and Discover" };
+        }
+
+        if (string.IsNullOrWhiteSpace(payment.CardHolderName))
+        {
+            errors[$"{prefix}.cardHolderName"] = new[] { "Cardholder name is required" };
+        }
+
+        if (payment.ExpiryMonth < 1 || payment.ExpiryMonth > 12)
+        {
+            errors[$"{prefix}.expiryMonth"] = new[] { "Enter a valid expiry month" };
+        }
+        else if (IsExpired(payment.ExpiryMonth, payment.ExpiryYear, DateTime.UtcNow))
+        {
+            errors[$"{prefix}.expiryYear"] = new[] { "This card has expired" };
+        }
+
+        var cvv = payment.Cvv ?? string.Empty;
+        if (!cvv.All(char.IsDigit) || cvv.Length != ExpectedCvvLength(brand))
+        {
+            errors[$"{prefix}.cvv"] = new[] { $"Enter the {ExpectedCvvLength(brand)}-digit security code" };
+        }
+
+        return errors;
+    }
+}
+
+public enum CardBrand
+{
+    Unknown,
+    Visa,
+    Mastercard,
+    Amex,
+    Discover
+}
@@ -0,0 +1,44 @@
+namespace AirlineSimulationApi.Services;
+
+/// <summary>
+/// Adds a check-in reminder to the notification center once a booked flight's check-in window opens
+/// </summary>
+public class CheckInReminderBackgroundService : BackgroundService
+{
+    private readonly IServiceProvider _serviceProvider;
+    private readonly ILogger<CheckInReminderBackgroundService> _logger;
+    private readonly TimeSpan _reminderInterval = TimeSpan.FromMinutes(5);
+
+    public CheckInReminderBackgroundService(
+        IServiceProvider serviceProvider,
+        ILogger<CheckInReminderBackgroundService> logger)
+    {
+        _serviceProvider = serviceProvider;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                using (var scope = _serviceProvider.CreateScope())
+                {
+                    var notificationService = scope.ServiceProvider.GetRequiredService<INotificationService>();
+                    await notificationService.SendCheckInRemindersAsync();
+                }
+                await Task.Delay(_reminderInterval, stoppingToken);
+            }
+            catch (OperationCanceledException)
+            {
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error sending check-in reminders");
+                await Task.Delay(_reminderInterval, stoppingToken);
+            }
+        }
+    }
+}
@@ -7,14 +7,18 @@ public interface IEmailService
     Task<bool> SendBookingConfirmationAsync(Booking booking, string userEmail);
     Task<bool> SendCheckInConfirmationAsync(Booking booking, string userEmail);
     Task<bool> SendFlightUpdateAsync(Booking booking, string userEmail, string updateMessage);
+    Task<bool> SendCancellationConfirmationAsync(Booking booking, string userEmail, CancellationQuote quote);
+    Task<bool> SendBookingChangeConfirmationAsync(Booking booking, string userEmail, List<BookingChange> changes);
 }
 
 public class EmailService : IEmailService
 {
+    private readonly IServiceScopeFactory _scopeFactory;
     private readonly ILogger<EmailService> _logger;
 
-    public EmailService(ILogger<EmailService> logger)
+    public EmailService(IServiceScopeFactory scopeFactory, ILogger<EmailService> logger)
     {
+        _scopeFactory = scopeFactory;
         _logger = logger;
     }
 
@@ -22,6 +26,11 @@ public class EmailService : IEmailService
     {
         try
         {
+            if (!await IsAllowedAsync(booking, NotificationCategory.BookingConfirmations, "booking confirmation"))
+            {
+                return false;
+            }
+
             _logger.LogInformation("Sending booking confirmation email to {Email} for booking {ConfirmationNumber}",
                 userEmail, booking.ConfirmationNumber);
 
@@ -47,6 +56,11 @@ public class EmailService : IEmailService
     {
         try
         {
+            if (!await IsAllowedAsync(booking, NotificationCategory.BookingConfirmations, "check-in confirmation"))
+            {
+                return false;
+            }
+
             _logger.LogInformation("Sending check-in confirmation email to {Email} for booking {ConfirmationNumber}",
                 userEmail, booking.ConfirmationNumber);
 
@@ -67,6 +81,11 @@ public class EmailService : IEmailService
     {
         try
         {
+            if (!await IsAllowedAsync(booking, NotificationCategory.FlightUpdates, "flight update"))
+            {
+                return false;
+            }
+
             _logger.LogInformation("Sending flight update email to {Email} for booking {ConfirmationNumber}",
                 userEmail, booking.ConfirmationNumber);
 
@@ -85,6 +104,81 @@ public class EmailService : IEmailService
         }
     }
 
+    public async Task<bool> SendCancellationConfirmationAsync(Booking booking, string userEmail, CancellationQuote quote)
+    {
+        try
+        {
+            if (!await IsAllowedAsync(booking, NotificationCategory.BookingConfirmations, "cancellation"))
+            {
+                return false;
+            }
+
+            _logger.LogInformation("Sending cancellation email to {Email} for booking {ConfirmationNumber}",
+                userEmail, booking.ConfirmationNumber);
+
+            // Simulate email sending delay
+            await Task.Delay(500);
+
+            var emailContent = GenerateCancellationConfirmationText(booking, quote);
+
+            _logger.LogInformation("Cancellation email sent successfully to {Email}", userEmail);
+            _logger.LogInformation("Email content preview: {Count} passenger(s) cancelled - refund {Refund}, credit {Credit}",
+                quote.Passengers.Count, quote.RefundAmount, quote.CreditAmount);
+
+            return true;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to send cancellation email to {Email}", userEmail);
+            return false;
+        }
+    }
+
+    public async Task<bool> SendBookingChangeConfirmationAsync(Booking booking, string userEmail, List<BookingChange> changes)
+    {
+        try
+        {
+            if (!await IsAllowedAsync(booking, NotificationCategory.BookingConfirmations, "booking change"))
+            {
+                return false;
+            }
+
+            _logger.LogInformation("Sending booking change email to {Email} for booking {ConfirmationNumber}",
+                userEmail, booking.ConfirmationNumber);
+
+            // Simulate email sending delay
+            await Task.Delay(500);
+
+            var emailContent = GenerateBookingChangeConfirmationText(booking, changes);
+
+            _logger.LogInformation("Booking change email sent successfully to {Email}", userEmail);
+            _logger.LogInformation("Email content preview: {Count} change(s) - charged {Charged}, credit {Credit}",
+                changes.Count, changes.Sum(c => c.AmountCharged), changes.Sum(c => c.CreditIssued));
+
+            return true;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to send booking change email to {Email}", userEmail);
+            return false;
+        }
+    }
+
+    // Emails go out from fire-and-forget tasks that outlive the request, so preferences are read in a scope of their own
+    private async Task<bool> IsAllowedAsync(Booking booking, NotificationCategory category, string description)
+    {
+        using var scope = _scopeFactory.CreateScope();
+        var preferences = scope.ServiceProvider.GetRequiredService<INotificationPreferencesService>();
+        if (await preferences.AllowsAsync(booking.UserId, NotificationChannel.Email, category))
+        {
+            return true;
+        }
+
+        _logger.LogInformation("Skipped {Description} email for booking {ConfirmationNumber}: user {UserId} has opted out",
+            description, booking.ConfirmationNumber, booking.UserId);
+        return false;
+    }
+
     private string GenerateBookingConfirmationEmail(Booking booking)
     {
         var flight = booking.Flight;
@@ -331,6 +425,71 @@ IMPORTANT REMINDERS:
 - Check gate information as it may change
 
 Safe travels!
+";
+    }
+
+    private string GenerateCancellationConfirmationText(Booking booking, CancellationQuote quote)
+    {
+        var flight = booking.Flight;
+        var remaining = booking.Passengers.Where(p => p.CancelledAt == null).ToList();
+
+        return $@"
+{(quote.CancelsBooking ? "Booking Cancelled" : "Passengers Removed From Booking")} - {booking.ConfirmationNumber}
+
+Dear Customer,
+
+{(quote.CancelsBooking
+    ? $"Your booking for flight {flight.FlightNumber} has been cancelled."
+    : $"The passengers below have been removed from your booking for flight {flight.FlightNumber}.")}
+
+FLIGHT:
+Flight: {flight.FlightNumber} - {flight.Airline}
+Route: {flight.OriginAirport} → {flight.DestinationAirport}
+Departure: {flight.ScheduledDeparture:MMMM dd, yyyy 'at' h:mm tt}
+
+CANCELLED PASSENGERS:
+{string.Join("\n", quote.Passengers.Select(p => $"- {p.PassengerName}: fare {p.FareAmount:F2}, refund {p.RefundAmount:F2}, credit {p.CreditAmount:F2}"))}
+
+REFUND SUMMARY ({quote.Currency}):
+Refund to your card: {quote.RefundAmount:F2}
+Travel credit: {quote.CreditAmount:F2}
+Fees: {quote.Fee:F2}{(quote.PointsRefunded > 0 ? $"\nPoints returned to your rewards account: {quote.PointsRefunded:N0}" : string.Empty)}
+{quote.Policy}
+Refunds usually reach your card within 5-10 business days.
+{(remaining.Any() ? $@"
+STILL TRAVELLING:
+{string.Join("\n", remaining.Select(p => $"- {p.FirstName} {p.LastName} - Seat: {p.SeatNumber ?? "TBD"}"))}
+" : "")}
+For assistance, contact us at support@airline.com or call 1-800-FLY-HELP
+";
+    }
+
+    private string GenerateBookingChangeConfirmationText(Booking booking, List<BookingChange> changes)
+    {
+        var flight = booking.Flight;
+        var charged = changes.Sum(c => c.AmountCharged);
+        var credit = changes.Sum(c => c.CreditIssued);
+
+        return $@"
+Booking Changed - {booking.ConfirmationNumber}
+
+Dear Customer,
+
+Your booking has been updated.
+
+CHANGES:
+{string.Join("\n", changes.Select(c => $"- {c.Description}"))}
+{(charged > 0 ? $"\nCharged to your card: {charged:F2}" : "")}{(credit > 0 ? $"\nAdded as travel credit: {credit:F2}" : "")}
+
+FLIGHT:
+Flight: {flight.FlightNumber} - {flight.Airline}
+Route: {flight.OriginAirport} → {flight.DestinationAirport}
+Departure: {flight.ScheduledDeparture:MMMM dd, yyyy 'at' h:mm tt}
+
+PASSENGERS:
+{string.Join("\n", booking.Passengers.Where(p => p.CancelledAt == null).Select(p => $"- {p.FirstName} {p.LastName} - Seat: {p.SeatNumber ?? "TBD"}"))}
+
+For assistance, contact us at support@airline.com or call 1-800-FLY-HELP
 ";
     }
 }
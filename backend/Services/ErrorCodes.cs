@@ -0,0 +1,23 @@
+namespace AirlineSimulationApi.Services;
+
+/// <summary>
+/// Machine-readable error codes returned to clients alongside the HTTP status
+/// </summary>
+public static class ErrorCodes
+{
+    public const string ValidationFailed = "VALIDATION_FAILED";
+    public const string EmailTaken = "EMAIL_TAKEN";
+    public const string SessionExpired = "SESSION_EXPIRED";
+    public const string FlightNotFound = "FLIGHT_NOT_FOUND";
+    public const string FlightDeparted = "FLIGHT_DEPARTED";
+    public const string FlightSoldOut = "FLIGHT_SOLD_OUT";
+    public const string SeatUnavailable = "SEAT_UNAVAILABLE";
+    public const string PaymentDeclined = "PAYMENT_DECLINED";
+    public const string BookingNotFound = "BOOKING_NOT_FOUND";
+    public const string CheckInUnavailable = "CHECK_IN_UNAVAILABLE";
+    public const string CancellationUnavailable = "CANCELLATION_UNAVAILABLE";
+    public const string RefundFailed = "REFUND_FAILED";
+    public const string ChangeUnavailable = "CHANGE_UNAVAILABLE";
+    public const string TooManyAttempts = "TOO_MANY_ATTEMPTS";
+    public const string BaggageNotFound = "BAGGAGE_NOT_FOUND";
+}
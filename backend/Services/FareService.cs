@@ -0,0 +1,140 @@
+using AirlineSimulationApi.Models;
+
+namespace AirlineSimulationApi.Services;
+
+public interface IFareService
+{
+    FareQuote QuoteFare(List<PassengerInfo> passengers, DateTime flightDate);
+}
+
+public class FareService : IFareService
+{
+    public const int MaxCheckedBagsPerPassenger = 3;
+
+    public const string Currency = "USD";
+    private const decimal BaseFare = 299.99m;
+    private const decimal TaxRate = 0.075m;
+    private const decimal SecurityFee = 5.60m;
+    private const decimal CheckedBagFee = 35m;
+
+    // Base fares rise as the flight gets closer, by whole days from today to the flight date
+    private static readonly (int MinDays, decimal Multiplier)[] AdvancePurchaseBands =
+    {
+        (21, 0.85m),
+        (14, 1.0m),
+        (7, 1.15m),
+        (3, 1.3m),
+        (0, 1.5m)
+    };
+
+    public FareQuote QuoteFare(List<PassengerInfo> passengers, DateTime flightDate)
+    {
+        var advanceMultiplier = GetAdvancePurchaseMultiplier(flightDate);
+        var lines = passengers.Select((passenger, index) => QuotePassenger(passenger, index, advanceMultiplier)).ToList();
+
+        return new FareQuote
+        {
+            Currency = Currency,
+            BaseFare = lines.Sum(l => l.BaseFare),
+            Taxes = lines.Sum(l => l.Taxes),
+            Fees = lines.Sum(l => l.Fees.Sum(f => f.Amount)),
+            Total = lines.Sum(l => l.Total),
+            Passengers = lines,
+            QuotedAt = DateTime.UtcNow
+        };
+    }
+
+    private static PassengerFare QuotePassenger(PassengerInfo passenger, int index, decimal advanceMultiplier)
+    {
+        var baseFare = Math.Round(BaseFare * GetClassMultiplier(passenger.SeatClass) * advanceMultiplier, 2);
+        var taxes = Math.Round(baseFare * TaxRate, 2);
+
+        var fees = new List<FareFee>
+        {
+            new FareFee { Code = "SECURITY", Description = "Security fee", Amount = SecurityFee }
+        };
+
+        var seat = string.IsNullOrWhiteSpace(passenger.SeatNumber) ? null : SeatLayout.FindSeat(passenger.SeatNumber);
+        if (seat != null && seat.Upcharge > 0)
+        {
+            fees.Add(new FareFee
+            {
+                Code = "SEAT",
+                Description = $"Seat {seat.Number}{(seat.HasExtraLegroom ? " (extra legroom)" : string.Empty)}",
+                Amount = seat.Upcharge
+            });
+        }
+
+        if (passenger.CheckedBags > 0)
+        {
+            fees.Add(new FareFee
+            {
+                Code = "CHECKED_BAGS",
+                Description = $"Checked bags ({passenger.CheckedBags} × {CheckedBagFee:0.00})",
+                Amount = passenger.CheckedBags * CheckedBagFee
+            });
+        }
+
+        return new PassengerFare
+        {
+            PassengerIndex = index,
+            PassengerName = $"{passenger.FirstName} {passenger.LastName}".Trim(),
+            SeatClass = passenger.SeatClass,
+            BaseFare = baseFare,
+            Taxes = taxes,
+            Fees = fees,
+            Total = baseFare + taxes + fees.Sum(f => f.Amount)
+        };
+    }
+
+    private static decimal GetAdvancePurchaseMultiplier(DateTime flightDate)
+    {
+        var daysAhead = (flightDate.Date - DateTime.UtcNow.Date).Days;
+        return AdvancePurchaseBands.First(band => daysAhead >= band.MinDays || band.MinDays == 0).Multiplier;
+    }
+
+    private static decimal GetClassMultiplier(SeatClass seatClass)
+    {
+        return seatClass switch
+        {
+            SeatClass.Economy => 1.0m,
+            SeatClass.PremiumEconomy => 1.5m,
+            SeatClass.Business => 2.5m,
+            SeatClass.First => 4.0m,
+            _ => 1.0m
+        };
+    }
+}
+
+public class FareQuote
+{
+    public string Currency { get; set; } = string.Empty;
+    public decimal BaseFare { get; set; }
+    public decimal Taxes { get; set; }
+    public decimal Fees { get; set; }
+    public decimal Total { get; set; }
+    public List<PassengerFare> Passengers { get; set; } = new();
+    public DateTime QuotedAt { get; set; }
+    // What the booking would earn once flown, for signed-in customers
+    public LoyaltyEarning? LoyaltyEarning { get; set; }
+    // How many points signed-in customers could put toward the total
+    public PointsRedemption? PointsRedemption { get; set; }
+}
+
+public class PassengerFare
+{
+    public int PassengerIndex { get; set; }
+    public string PassengerName { get; set; } = string.Empty;
+    public SeatClass SeatClass { get; set; }
+    public decimal BaseFare { get; set; }
+    public decimal Taxes { get; set; }
+    public List<FareFee> Fees { get; set; } = new();
+    public decimal Total { get; set; }
+}
+
+public class FareFee
+{
+    public string Code { get; set; } = string.Empty;
+    public string Description { get; set; } = string.Empty;
+    public decimal Amount { get; set; }
+}
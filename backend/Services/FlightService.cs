@@ -14,6 +14,7 @@ public class FlightService : IFlightService
     private readonly IWeatherService _weatherService;
     private readonly IMemoryCache _cache;
     private readonly IHubContext<FlightUpdatesHub> _hubContext;
+    private readonly INotificationService _notificationService;
     private readonly ILogger<FlightService> _logger;
     
     private const int CacheExpirationMinutes = 5;
@@ -27,6 +28,7 @@ public class FlightService : IFlightService
         IWeatherService weatherService,
         IMemoryCache cache,
         IHubContext<FlightUpdatesHub> hubContext,
+        INotificationService notificationService,
         ILogger<FlightService> logger)
     {
         _context = context;
@@ -34,6 +36,7 @@ public class FlightService : IFlightService
         _weatherService = weatherService;
         _cache = cache;
         _hubContext = hubContext;
+        _notificationService = notificationService;
         _logger = logger;
     }
 
@@ -251,6 +254,13 @@ public class FlightService : IFlightService
             
             // Send real-time update via SignalR
             await SendFlightStatusUpdateAsync(flight, oldStatus, status);
+            if (status == FlightStatus.Cancelled && oldStatus != FlightStatus.Cancelled)
+            {
+                await SendFlightCancellationUpdateAsync(flight, null);
+                await _notificationService.NotifyPassengersAsync(flight, UserNotificationType.Cancellation,
+                    $"Flight {flight.FlightNumber} cancelled",
+                    $"Your flight {flight.FlightNumber} from {flight.OriginAirport} to {flight.DestinationAirport} has been cancelled. Visit My Bookings for your options.");
+            }
 
             _logger.LogInformation("Flight {FlightNumber} status updated from {OldStatus} to {NewStatus}", 
                 flightNumber, oldStatus, status);
@@ -278,6 +288,13 @@ public class FlightService : IFlightService
             
             // Send real-time update via SignalR
             await SendGateChangeUpdateAsync(flight, oldGate, newGate);
+            if (!string.IsNullOrEmpty(newGate) && newGate != oldGate)
+            {
+                var location = string.IsNullOrEmpty(flight.Terminal) ? $"gate {newGate}" : $"terminal {flight.Terminal}, gate {newGate}";
+                await _notificationService.NotifyPassengersAsync(flight, UserNotificationType.GateChange,
+                    $"Gate change for {flight.FlightNumber}",
+                    $"Your flight {flight.FlightNumber} to {flight.DestinationAirport} now departs from {location}.");
+            }
 
             _logger.LogInformation("Flight {FlightNumber} gate updated from {OldGate} to {NewGate}", 
                 flightNumber, oldGate, newGate);
@@ -302,6 +319,11 @@ public class FlightService : IFlightService
             
             // Send real-time update via SignalR
             await SendDelayUpdateAsync(flight, delayMinutes, reason);
+            await _notificationService.NotifyPassengersAsync(flight, UserNotificationType.Delay,
+                $"Flight {flight.FlightNumber} delayed",
+                $"Your flight {flight.FlightNumber} to {flight.DestinationAirport} is now expected to leave at " +
+                $"{flight.EstimatedDeparture:HH:mm} UTC, {delayMinutes} minutes late" +
+                (string.IsNullOrEmpty(reason) ? "." : $" ({reason})."));
 
             _logger.LogInformation("Flight {FlightNumber} delayed by {DelayMinutes} minutes", 
                 flightNumber, delayMinutes);
@@ -394,6 +416,27 @@ public class FlightService : IFlightService
             .SendAsync("FlightDelayed", update);
     }
 
+    private async Task SendFlightCancellationUpdateAsync(Flight flight, string? reason)
+    {
+        var update = new FlightCancellationUpdate
+        {
+            FlightNumber = flight.FlightNumber,
+            Airline = flight.Airline,
+            Reason = reason,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        // Send to flight-specific group
+        await _hubContext.Clients.Group($"flight_{flight.FlightNumber.ToUpperInvariant()}")
+            .SendAsync("FlightCancelled", update);
+
+        // Send to airport groups
+        await _hubContext.Clients.Group($"airport_{flight.OriginAirport.ToUpperInvariant()}")
+            .SendAsync("FlightCancelled", update);
+        await _hubContext.Clients.Group($"airport_{flight.DestinationAirport.ToUpperInvariant()}")
+            .SendAsync("FlightCancelled", update);
+    }
+
     private async Task<WeatherData?> GetWeatherFromApiAsync(string airportCode)
     {
         try
@@ -6,7 +6,11 @@ public interface IBookingService
 {
     Task<BookingResult> CreateBookingAsync(BookingRequest request);
     Task<Booking?> GetBookingAsync(string confirmationNumber);
-    Task<CheckInResult> CheckInAsync(string confirmationNumber);
+    Task<UserBookingsResult> GetUserBookingsAsync(UserBookingsQuery query);
+    Task<CheckInResult> CheckInAsync(CheckInRequest request);
+    Task<List<BoardingPass>?> GetBoardingPassesAsync(string confirmationNumber, string userId);
+    Task<CancellationResult> QuoteCancellationAsync(CancellationRequest request);
+    Task<CancellationResult> CancelBookingAsync(CancellationRequest request);
     Task<SeatMap> GetSeatMapAsync(string flightNumber, DateTime date);
 }
 
@@ -17,7 +21,10 @@ public class BookingRequest
     public string UserId { get; set; } = string.Empty;
     public List<PassengerInfo> Passengers { get; set; } = new();
     public List<string> SelectedSeats { get; set; } = new();
+    // Only needed when the fare is not fully covered by points
     public PaymentInfo? PaymentInfo { get; set; }
+    // Loyalty points put toward the fare, worth LoyaltyService.PointValue each
+    public int PointsToRedeem { get; set; }
 }
 
 public class PassengerInfo
@@ -26,6 +33,8 @@ public class PassengerInfo
     public string LastName { get; set; } = string.Empty;
     public DateTime? DateOfBirth { get; set; }
     public SeatClass SeatClass { get; set; }
+    public int CheckedBags { get; set; }
+    public string? SeatNumber { get; set; }
 }
 
 public class BookingResult
@@ -33,44 +42,135 @@ public class BookingResult
     public bool Success { get; set; }
     public string? ConfirmationNumber { get; set; }
     public string? ErrorMessage { get; set; }
+    public string? ErrorCode { get; set; }
+    public Dictionary<string, string[]> FieldErrors { get; set; } = new();
+    public List<string> UnavailableSeats { get; set; } = new();
+    public string? DeclineCode { get; set; }
     public Booking? Booking { get; set; }
 }
 
+public class UserBookingsQuery
+{
+    public string UserId { get; set; } = string.Empty;
+    public BookingScope Scope { get; set; } = BookingScope.All;
+    public BookingStatus? Status { get; set; }
+    public int Page { get; set; } = 1;
+    public int PageSize { get; set; } = 10;
+}
+
+public enum BookingScope
+{
+    All,
+    Upcoming,
+    Past
+}
+
+public class UserBookingsResult
+{
+    public List<Booking> Bookings { get; set; } = new();
+    public int TotalCount { get; set; }
+    public int UpcomingCount { get; set; }
+    public int PastCount { get; set; }
+}
+
+public class CheckInRequest
+{
+    public string ConfirmationNumber { get; set; } = string.Empty;
+    public string UserId { get; set; } = string.Empty;
+    public List<PassengerCheckIn> Passengers { get; set; } = new();
+    // The customer's declaration that every passenger holds valid travel documents
+    public bool DocumentsConfirmed { get; set; }
+}
+
+public class PassengerCheckIn
+{
+    public int PassengerId { get; set; }
+    public TravelDocumentType? DocumentType { get; set; }
+    public string DocumentNumber { get; set; } = string.Empty;
+    public DateTime? DocumentExpiry { get; set; }
+    public string DocumentCountry { get; set; } = string.Empty;
+}
+
 public class CheckInResult
 {
     public bool Success { get; set; }
     public string? ErrorMessage { get; set; }
-    public BoardingPass? BoardingPass { get; set; }
+    public string? ErrorCode { get; set; }
+    public Dictionary<string, string[]> FieldErrors { get; set; } = new();
+    public List<BoardingPass> BoardingPasses { get; set; } = new();
 }
 
+/// <summary>
+/// Everything printed on a boarding pass. The barcode itself is encoded by the client from these fields.
+/// </summary>
 public class BoardingPass
 {
     public string ConfirmationNumber { get; set; } = string.Empty;
+    public int PassengerId { get; set; }
+    public string FirstName { get; set; } = string.Empty;
+    public string LastName { get; set; } = string.Empty;
     public string PassengerName { get; set; } = string.Empty;
     public string FlightNumber { get; set; } = string.Empty;
+    public string Airline { get; set; } = string.Empty;
+    public string OriginAirport { get; set; } = string.Empty;
+    public string DestinationAirport { get; set; } = string.Empty;
+    public DateTime ScheduledDeparture { get; set; }
     public string SeatNumber { get; set; } = string.Empty;
+    public SeatClass SeatClass { get; set; }
     public string Gate { get; set; } = string.Empty;
+    public string? Terminal { get; set; }
     public DateTime BoardingTime { get; set; }
-    public string QrCode { get; set; } = string.Empty;
+    public int BoardingGroup { get; set; }
+    // Order in which the passenger checked in for the flight
+    public int SequenceNumber { get; set; }
+}
+
+public class CancellationRequest
+{
+    public string ConfirmationNumber { get; set; } = string.Empty;
+    public string UserId { get; set; } = string.Empty;
+    // Passengers to remove from the booking; empty cancels everyone still on it
+    public List<int> PassengerIds { get; set; } = new();
+}
+
+public class CancellationResult
+{
+    public bool Success { get; set; }
+    public string? ErrorMessage { get; set; }
+    public string? ErrorCode { get; set; }
+    public Dictionary<string, string[]> FieldErrors { get; set; } = new();
+    public CancellationQuote? Quote { get; set; }
+    public Booking? Booking { get; set; }
 }
 
 public class SeatMap
 {
     public string FlightNumber { get; set; } = string.Empty;
+    public string Aircraft { get; set; } = string.Empty;
+    public List<Cabin> Cabins { get; set; } = new();
     public List<SeatRow> Rows { get; set; } = new();
 }
 
 public class SeatRow
 {
     public int RowNumber { get; set; }
+    public bool IsExitRow { get; set; }
+    public bool IsBulkhead { get; set; }
+    public bool IsOverWing { get; set; }
     public List<Seat> Seats { get; set; } = new();
 }
 
 public class Seat
 {
     public string Number { get; set; } = string.Empty;
+    public string Column { get; set; } = string.Empty;
     public SeatClass Class { get; set; }
     public bool IsAvailable { get; set; }
+    public SeatPosition Position { get; set; }
+    public bool HasExtraLegroom { get; set; }
+    public bool IsBlocked { get; set; }
+    public string? BlockedReason { get; set; }
+    public decimal Upcharge { get; set; }
 }
 
 public class PaymentInfo
@@ -0,0 +1,47 @@
+using System.Collections.Concurrent;
+
+namespace AirlineSimulationApi.Services;
+
+/// <summary>
+/// Stand-in for the browser push services, used when no VAPID keys are configured and in tests.
+/// Pushes are logged and kept in memory instead of leaving the machine.
+/// </summary>
+public class LocalPushSender : IPushSender
+{
+    private readonly ConcurrentQueue<LocalPush> _sent = new();
+    private readonly ConcurrentDictionary<string, bool> _expiredEndpoints = new();
+    private readonly ILogger<LocalPushSender> _logger;
+
+    public LocalPushSender(ILogger<LocalPushSender> logger)
+    {
+        _logger = logger;
+    }
+
+    // Everything sent so far, oldest first
+    public IReadOnlyList<LocalPush> Sent => _sent.ToArray();
+
+    /// <summary>
+    /// Make later pushes to this endpoint report it as gone, as a real push service does once the user
+    /// revokes permission
+    /// </summary>
+    public void ExpireEndpoint(string endpoint) => _expiredEndpoints[endpoint] = true;
+
+    public Task<PushDeliveryResult> SendAsync(PushTarget target, string payload)
+    {
+        if (_expiredEndpoints.ContainsKey(target.Endpoint))
+        {
+            return Task.FromResult(PushDeliveryResult.Expired);
+        }
+
+        _sent.Enqueue(new LocalPush { Endpoint = target.Endpoint, Payload = payload, SentAt = DateTime.UtcNow });
+        _logger.LogInformation("PUSH SENT TO: {Endpoint}\nPAYLOAD: {Payload}", target.Endpoint, payload);
+        return Task.FromResult(PushDeliveryResult.Delivered);
+    }
+}
+
+public class LocalPush
+{
+    public string Endpoint { get; set; } = string.Empty;
+    public string Payload { get; set; } = string.Empty;
+    public DateTime SentAt { get; set; }
+}
@@ -0,0 +1,44 @@
+namespace AirlineSimulationApi.Services;
+
+/// <summary>
+/// Credits loyalty points and miles for bookings once their flights have landed
+/// </summary>
+public class LoyaltyCreditBackgroundService : BackgroundService
+{
+    private readonly IServiceProvider _serviceProvider;
+    private readonly ILogger<LoyaltyCreditBackgroundService> _logger;
+    private readonly TimeSpan _creditInterval = TimeSpan.FromMinutes(5);
+
+    public LoyaltyCreditBackgroundService(
+        IServiceProvider serviceProvider,
+        ILogger<LoyaltyCreditBackgroundService> logger)
+    {
+        _serviceProvider = serviceProvider;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                using (var scope = _serviceProvider.CreateScope())
+                {
+                    var loyaltyService = scope.ServiceProvider.GetRequiredService<ILoyaltyService>();
+                    await loyaltyService.CreditFlownBookingsAsync();
+                }
+                await Task.Delay(_creditInterval, stoppingToken);
+            }
+            catch (OperationCanceledException)
+            {
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error crediting loyalty points for flown bookings");
+                await Task.Delay(_creditInterval, stoppingToken);
+            }
+        }
+    }
+}
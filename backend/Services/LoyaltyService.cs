@@ -0,0 +1,356 @@
+using AirlineSimulationApi.Models;
+using AirlineSimulationApi.Data;
+using Microsoft.EntityFrameworkCore;
+using System.Security.Cryptography;
+
+namespace AirlineSimulationApi.Services;
+
+public interface ILoyaltyService
+{
+    Task<LoyaltyAccount> GetOrCreateAccountAsync(string userId);
+    Task<LoyaltyDashboard> GetDashboardAsync(string userId);
+    Task<LoyaltyEarning?> QuoteEarningAsync(string userId, string flightNumber, DateTime flightDate, decimal amount);
+    Task<PointsRedemption> QuoteRedemptionAsync(string userId, decimal amount);
+    Task<int> CreditFlownBookingsAsync();
+    Task<bool> RedeemPointsAsync(Booking booking, int points);
+    Task RefundPointsAsync(Booking booking, int points);
+}
+
+/// <summary>
+/// The frequent flyer programme. Every account holder is enrolled; points and miles are credited once a
+/// booking's flight has landed, and tier status follows the miles flown.
+/// </summary>
+public class LoyaltyService : ILoyaltyService
+{
+    private const int PointsPerDollar = 5;
+    // What one point is worth when redeemed toward a fare
+    public const decimal PointValue = 0.01m;
+    private const int MembershipNumberLength = 10;
+    private const int MaxHistoryEntries = 100;
+
+    // Miles flown needed for each tier, and the bonus it applies to points earned; ordered lowest first
+    public static readonly (LoyaltyTier Tier, int MilesRequired, decimal PointsMultiplier)[] Tiers =
+    {
+        (LoyaltyTier.Basic, 0, 1.0m),
+        (LoyaltyTier.Silver, 15000, 1.25m),
+        (LoyaltyTier.Gold, 30000, 1.5m),
+        (LoyaltyTier.Platinum, 50000, 1.75m),
+        (LoyaltyTier.Diamond, 75000, 2.0m)
+    };
+
+    private readonly ApplicationDbContext _context;
+    private readonly ILogger<LoyaltyService> _logger;
+
+    public LoyaltyService(ApplicationDbContext context, ILogger<LoyaltyService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<LoyaltyAccount> GetOrCreateAccountAsync(string userId)
+    {
+        var account = await _context.LoyaltyAccounts.FirstOrDefaultAsync(a => a.UserId == userId);
+        if (account != null)
+        {
+            return account;
+        }
+
+        string membershipNumber;
+        do
+        {
+            membershipNumber = GenerateMembershipNumber();
+        }
+        while (await _context.LoyaltyAccounts.AnyAsync(a => a.MembershipNumber == membershipNumber));
+
+        account = new LoyaltyAccount
+        {
+            UserId = userId,
+            MembershipNumber = membershipNumber,
+            Tier = LoyaltyTier.Basic,
+            JoinDate = DateTime.UtcNow
+        };
+        _context.LoyaltyAccounts.Add(account);
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("Enrolled user {UserId} in the loyalty programme as {MembershipNumber}", userId, membershipNumber);
+        return account;
+    }
+
+    public async Task<LoyaltyDashboard> GetDashboardAsync(string userId)
+    {
+        var account = await GetOrCreateAccountAsync(userId);
+        var history = await _context.LoyaltyTransactions
+            .Include(t => t.Booking)
+            .ThenInclude(b => b!.Flight)
+            .Where(t => t.LoyaltyAccountId == account.Id)
+            .OrderByDescending(t => t.CreatedAt)
+            .Take(MaxHistoryEntries)
+            .ToListAsync();
+
+        var current = GetTierRule(account.Tier);
+        var next = Tiers.FirstOrDefault(t => t.Tier > account.Tier);
+
+        return new LoyaltyDashboard
+        {
+            MembershipNumber = account.MembershipNumber,
+            Tier = account.Tier,
+            Points = account.Points,
+            MilesFlown = account.MilesFlown,
+            JoinDate = account.JoinDate,
+            PointsMultiplier = current.PointsMultiplier,
+            CurrentTierMiles = current.MilesRequired,
+            NextTier = next.Tier > account.Tier ? next.Tier : null,
+            NextTierMiles = next.Tier > account.Tier ? next.MilesRequired : null,
+            History = history.Select(t => new LoyaltyActivity
+            {
+                Id = t.Id,
+                Type = t.Type,
+                Points = t.Points,
+                Miles = t.Miles,
+                Description = t.Description,
+                CreatedAt = t.CreatedAt,
+                ConfirmationNumber = t.Booking?.ConfirmationNumber,
+                FlightNumber = t.Booking?.Flight.FlightNumber,
+                OriginAirport = t.Booking?.Flight.OriginAirport,
+                DestinationAirport = t.Booking?.Flight.DestinationAirport,
+                DepartureDate = t.Booking?.Flight.ScheduledDeparture
+            }).ToList()
+        };
+    }
+
+    /// <summary>
+    /// What a booking of the given amount on this flight would earn at the member's current tier.
+    /// Null when the flight cannot be found.
+    /// </summary>
+    public async Task<LoyaltyEarning?> QuoteEarningAsync(string userId, string flightNumber, DateTime flightDate, decimal amount)
+    {
+        var flight = await _context.Flights
+            .FirstOrDefaultAsync(f => f.FlightNumber == flightNumber && f.ScheduledDeparture.Date == flightDate.Date);
+        if (flight == null)
+        {
+            return null;
+        }
+
+        var account = await GetOrCreateAccountAsync(userId);
+        return new LoyaltyEarning
+        {
+            Points = CalculatePoints(amount, account.Tier),
+            Miles = RouteDistance.GetMiles(flight),
+            Tier = account.Tier,
+            PointsMultiplier = GetTierRule(account.Tier).PointsMultiplier
+        };
+    }
+
+    /// <summary>
+    /// How many of the member's points could go toward a fare of the given amount
+    /// </summary>
+    public async Task<PointsRedemption> QuoteRedemptionAsync(string userId, decimal amount)
+    {
+        var account = await GetOrCreateAccountAsync(userId);
+        return new PointsRedemption
+        {
+            AvailablePoints = account.Points,
+            MaxPoints = Math.Min(account.Points, (int)Math.Floor(amount / PointValue)),
+            PointValue = PointValue
+        };
+    }
+
+    /// <summary>
+    /// Credits points and miles for every booking whose flight has landed and marks it completed, moving
+    /// members up a tier when their miles reach it. Returns how many bookings were credited.
+    /// </summary>
+    public async Task<int> CreditFlownBookingsAsync()
+    {
+        var now = DateTime.UtcNow;
+        var flownBookings = await _context.Bookings
+            .Include(b => b.Flight)
+            .Where(b => b.Status == BookingStatus.Confirmed || b.Status == BookingStatus.CheckedIn)
+            .Where(b => b.Flight.Status != FlightStatus.Cancelled)
+            .Where(b => (b.Flight.EstimatedArrival ?? b.Flight.ScheduledArrival) <= now)
+            .ToListAsync();
+
+        foreach (var booking in flownBookings)
+        {
+            // The credit and the booking's completion are saved together, so a booking is never credited twice
+            await using var transaction = await _context.Database.BeginTransactionAsync();
+            var account = await GetOrCreateAccountAsync(booking.UserId);
+            // Refunds and travel credit came back to the customer, and fares paid with points earn nothing,
+            // so only the rest earns points
+            var amountPaid = Math.Max(0, booking.TotalAmount - booking.PointsValue - booking.RefundedAmount - booking.CreditAmount);
+            var points = CalculatePoints(amountPaid, account.Tier);
+            var miles = RouteDistance.GetMiles(booking.Flight);
+
+            _context.LoyaltyTransactions.Add(new LoyaltyTransaction
+            {
+                LoyaltyAccountId = account.Id,
+                BookingId = booking.Id,
+                Type = LoyaltyTransactionType.Earned,
+                Points = points,
+                Miles = miles,
+                Description = $"Flight {booking.Flight.FlightNumber} {booking.Flight.OriginAirport} to {booking.Flight.DestinationAirport}",
+                CreatedAt = now
+            });
+            // One atomic update, as redemptions and refunds make, so a concurrent one is not overwritten
+            await _context.LoyaltyAccounts
+                .Where(a => a.Id == account.Id)
+                .ExecuteUpdateAsync(setters => setters
+                    .SetProperty(a => a.Points, a => a.Points + points)
+                    .SetProperty(a => a.MilesFlown, a => a.MilesFlown + miles));
+            await _context.Entry(account).ReloadAsync();
+            booking.Status = BookingStatus.Completed;
+
+            var earnedTier = Tiers.Last(t => account.MilesFlown >= t.MilesRequired).Tier;
+            if (earnedTier > account.Tier)
+            {
+                _logger.LogInformation("Loyalty account {MembershipNumber} moved up from {OldTier} to {NewTier}",
+                    account.MembershipNumber, account.Tier, earnedTier);
+                account.Tier = earnedTier;
+            }
+
+            await _context.SaveChangesAsync();
+            await transaction.CommitAsync();
+            _logger.LogInformation("Credited {Points} points and {Miles} miles for booking {ConfirmationNumber}",
+                points, miles, booking.ConfirmationNumber);
+        }
+
+        return flownBookings.Count;
+    }
+
+    /// <summary>
+    /// Takes points from the booking owner's balance toward its fare. The balance check and deduction are a
+    /// single conditional update so two bookings cannot spend the same points; returns false when the balance
+    /// is short. The deduction runs straight away but its history entry is saved with the caller's next
+    /// SaveChanges, so callers should do both inside one database transaction.
+    /// </summary>
+    public async Task<bool> RedeemPointsAsync(Booking booking, int points)
+    {
+        var account = await GetOrCreateAccountAsync(booking.UserId);
+        var updated = await _context.LoyaltyAccounts
+            .Where(a => a.Id == account.Id && a.Points >= points)
+            .ExecuteUpdateAsync(setters => setters.SetProperty(a => a.Points, a => a.Points - points));
+        if (updated == 0)
+        {
+            return false;
+        }
+
+        // ExecuteUpdate bypasses the change tracker, so pick up the new balance
+        await _context.Entry(account).ReloadAsync();
+        _context.LoyaltyTransactions.Add(new LoyaltyTransaction
+        {
+            LoyaltyAccountId = account.Id,
+            Booking = booking,
+            Type = LoyaltyTransactionType.Redeemed,
+            Points = -points,
+            Description = $"Redeemed toward booking {booking.ConfirmationNumber}",
+            CreatedAt = DateTime.UtcNow
+        });
+
+        _logger.LogInformation("Redeemed {Points} points from {MembershipNumber} toward booking {ConfirmationNumber}",
+            points, account.MembershipNumber, booking.ConfirmationNumber);
+        return true;
+    }
+
+    /// <summary>
+    /// Returns redeemed points to the booking owner's balance after a cancellation. Like redemption, the
+    /// balance changes straight away and the history entry is saved with the caller's next SaveChanges.
+    /// </summary>
+    public async Task RefundPointsAsync(Booking booking, int points)
+    {
+        var account = await GetOrCreateAccountAsync(booking.UserId);
+        await _context.LoyaltyAccounts
+            .Where(a => a.Id == account.Id)
+            .ExecuteUpdateAsync(setters => setters.SetProperty(a => a.Points, a => a.Points + points));
+        await _context.Entry(account).ReloadAsync();
+        _context.LoyaltyTransactions.Add(new LoyaltyTransaction
+        {
+            LoyaltyAccountId = account.Id,
+            BookingId = booking.Id,
+            Type = LoyaltyTransactionType.Refunded,
+            Points = points,
+            Description = $"Returned from cancelled booking {booking.ConfirmationNumber}",
+            CreatedAt = DateTime.UtcNow
+        });
+
+        _logger.LogInformation("Returned {Points} points to {MembershipNumber} from booking {ConfirmationNumber}",
+            points, account.MembershipNumber, booking.ConfirmationNumber);
+    }
+
+    private static (LoyaltyTier Tier, int MilesRequired, decimal PointsMultiplier) GetTierRule(LoyaltyTier tier)
+    {
+        return Tiers.First(t => t.Tier == tier);
+    }
+
+    private static int CalculatePoints(decimal amount, LoyaltyTier tier)
+    {
+        return (int)Math.Floor(Math.Floor(amount) * PointsPerDollar * GetTierRule(tier).PointsMultiplier);
+    }
+
+    private static string GenerateMembershipNumber()
+    {
+        var digits = new char[MembershipNumberLength];
+        // No leading zero, so the number reads the same wherever it is stored as a number
+        digits[0] = (char)('1' + RandomNumberGenerator.GetInt32(9));
+        for (var i = 1; i < digits.Length; i++)
+        {
+            digits[i] = (char)('0' + RandomNumberGenerator.GetInt32(10));
+        }
+        return new string(digits);
+    }
+}
+
+// DTOs
+public class LoyaltySummary
+{
+    public string MembershipNumber { get; set; } = string.Empty;
+    public LoyaltyTier Tier { get; set; }
+    public int Points { get; set; }
+}
+
+public class LoyaltyDashboard
+{
+    public string MembershipNumber { get; set; } = string.Empty;
+    public LoyaltyTier Tier { get; set; }
+    public int Points { get; set; }
+    public int MilesFlown { get; set; }
+    public DateTime JoinDate { get; set; }
+    // Bonus applied to points earned at the current tier, e.g. 1.5 for 50% extra
+    public decimal PointsMultiplier { get; set; }
+    // Miles the current tier starts at
+    public int CurrentTierMiles { get; set; }
+    // Null at the top tier
+    public LoyaltyTier? NextTier { get; set; }
+    public int? NextTierMiles { get; set; }
+    // Newest first
+    public List<LoyaltyActivity> History { get; set; } = new();
+}
+
+public class LoyaltyActivity
+{
+    public int Id { get; set; }
+    public LoyaltyTransactionType Type { get; set; }
+    public int Points { get; set; }
+    public int Miles { get; set; }
+    public string Description { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; }
+    public string? ConfirmationNumber { get; set; }
+    public string? FlightNumber { get; set; }
+    public string? OriginAirport { get; set; }
+    public string? DestinationAirport { get; set; }
+    public DateTime? DepartureDate { get; set; }
+}
+
+public class LoyaltyEarning
+{
+    public int Points { get; set; }
+    public int Miles { get; set; }
+    public LoyaltyTier Tier { get; set; }
+    public decimal PointsMultiplier { get; set; }
+}
+
+public class PointsRedemption
+{
+    public int AvailablePoints { get; set; }
+    // The most that can be redeemed: the balance, or enough to cover the whole fare
+    public int MaxPoints { get; set; }
+    public decimal PointValue { get; set; }
+}
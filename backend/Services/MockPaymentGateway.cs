@@ -0,0 +1,105 @@
+using System.Collections.Concurrent;
+
+namespace AirlineSimulationApi.Services;
+
+public interface IPaymentGateway
+{
+    Task<PaymentResult> ChargeAsync(PaymentRequest request);
+    Task<PaymentResult> RefundAsync(string transactionId, decimal amount, string? idempotencyKey = null);
+}
+
+/// <summary>
+/// In-process stand-in for a card processor. Outcomes are driven entirely by the card number,
+/// so declines can be reproduced with the test cards below; every other valid card is approved.
+/// </summary>
+public class MockPaymentGateway : IPaymentGateway
+{
+    // Test card number -> (decline code, message shown to the customer)
+    private static readonly Dictionary<string, (string Code, string Message)> DeclineCards = new()
+    {
+        ["4000000000000002"] = (PaymentDeclineCodes.CardDeclined, "Your card was declined"),
+        ["4000000000009995"] = (PaymentDeclineCodes.InsufficientFunds, "Your card has insufficient funds"),
+        ["4000000000000069"] = (PaymentDeclineCodes.ExpiredCard, "Your card has expired"),
+        ["4000000000000127"] = (PaymentDeclineCodes.IncorrectCvc, "Your card's security code is incorrect"),
+        ["4000000000000119"] = (PaymentDeclineCodes.ProcessingError, "An error occurred while processing your card. Please try again."),
+        ["5100000000000511"] = (PaymentDeclineCodes.CardDeclined, "Your card was declined"),
+        ["371449635398431"] = (PaymentDeclineCodes.InsufficientFunds, "Your card has insufficient funds")
+    };
+
+    // Refunds already made, by idempotency key. Like a real processor, a retried refund with the same key
+    // returns the original result instead of paying out twice. Shared because the gateway is scoped.
+    private static readonly ConcurrentDictionary<string, PaymentResult> CompletedRefunds = new();
+
+    private readonly ILogger<MockPaymentGateway> _logger;
+
+    public MockPaymentGateway(ILogger<MockPaymentGateway> logger)
+    {
+        _logger = logger;
+    }
+
+    public async Task<PaymentResult> ChargeAsync(PaymentRequest request)
+    {
+        // Simulate the round trip to the processor
+        await Task.Delay(500);
+
+        var cardNumber = CardValidator.NormalizeCardNumber(request.CardNumber);
+        if (DeclineCards.TryGetValue(cardNumber, out var decline))
+        {
+            _logger.LogInformation("Mock gateway declined test card ending {Last4} with {DeclineCode}", cardNumber[^4..], decline.Code);
+            return new PaymentResult
+            {
+                Success = false,
+                ErrorMessage = decline.Message,
+                DeclineCode = decline.Code
+            };
+        }
+
+        return new PaymentResult
+        {
+            Success = true,
+            TransactionId = GenerateTransactionId(),
+            Amount = request.Amount,
+            ProcessedAt = DateTime.UtcNow
+        };
+    }
+
+    public async Task<PaymentResult> RefundAsync(string transactionId, decimal amount, string? idempotencyKey = null)
+    {
+        if (idempotencyKey != null && CompletedRefunds.TryGetValue(idempotencyKey, out var previous))
+        {
+            _logger.LogInformation("Mock gateway replayed refund {IdempotencyKey} for transaction {TransactionId}", idempotencyKey, transactionId);
+            return previous;
+        }
+
+        await Task.Delay(250);
+
+        var result = new PaymentResult
+        {
+            Success = true,
+            TransactionId = transactionId,
+            Amount = amount,
+            ProcessedAt = DateTime.UtcNow
+        };
+        return idempotencyKey == null ? result : CompletedRefunds.GetOrAdd(idempotencyKey, result);
+    }
+
+    private static string GenerateTransactionId()
+    {
+        var timestamp = DateTimeOffset.UtcNow.ToUnixTimeSeconds();
+        var randomPart = Random.Shared.Next(1000, 9999);
+        return $"TXN_{timestamp}_{randomPart}";
+    }
+}
+
+/// <summary>
+/// Reasons a payment can be declined, returned to clients as <c>declineCode</c>
+/// </summary>
+public static class PaymentDeclineCodes
+{
+    public const string CardDeclined = "card_declined";
+    public const string InsufficientFunds = "insufficient_funds";
+    public const string ExpiredCard = "expired_card";
+    public const string IncorrectCvc = "incorrect_cvc";
+    public const string ProcessingError = "processing_error";
+    public const string InvalidCard = "invalid_card";
+}
@@ -0,0 +1,108 @@
+using AirlineSimulationApi.Models;
+using AirlineSimulationApi.Data;
+using Microsoft.EntityFrameworkCore;
+
+namespace AirlineSimulationApi.Services;
+
+public interface INotificationPreferencesService
+{
+    Task<NotificationPreferencesDto> GetAsync(string userId);
+    Task<NotificationPreferencesDto> UpdateAsync(string userId, NotificationPreferencesDto update);
+    Task<bool> AllowsAsync(string userId, NotificationChannel channel, NotificationCategory category);
+}
+
+/// <summary>
+/// Which channels and kinds of message each user has opted into. Users who have never saved a choice
+/// get the defaults on NotificationPreferences.
+/// </summary>
+public class NotificationPreferencesService : INotificationPreferencesService
+{
+    private readonly ApplicationDbContext _context;
+    private readonly ILogger<NotificationPreferencesService> _logger;
+
+    public NotificationPreferencesService(ApplicationDbContext context, ILogger<NotificationPreferencesService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<NotificationPreferencesDto> GetAsync(string userId)
+    {
+        var preferences = await _context.NotificationPreferences.AsNoTracking().FirstOrDefaultAsync(p => p.UserId == userId)
+            ?? new NotificationPreferences { UserId = userId };
+        return MapToDto(preferences);
+    }
+
+    public async Task<NotificationPreferencesDto> UpdateAsync(string userId, NotificationPreferencesDto update)
+    {
+        var preferences = await _context.NotificationPreferences.FirstOrDefaultAsync(p => p.UserId == userId);
+        if (preferences == null)
+        {
+            preferences = new NotificationPreferences { UserId = userId };
+            _context.NotificationPreferences.Add(preferences);
+        }
+
+        preferences.EmailNotifications = update.EmailNotifications;
+        preferences.SmsNotifications = update.SmsNotifications;
+        preferences.PushNotifications = update.PushNotifications;
+        preferences.FlightUpdates = update.FlightUpdates;
+        preferences.PromotionalOffers = update.PromotionalOffers;
+        preferences.BookingConfirmations = update.BookingConfirmations;
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("Updated notification preferences for user {UserId}", userId);
+        return MapToDto(preferences);
+    }
+
+    /// <summary>
+    /// Whether a message of this kind may go to the user over this channel: both the channel and the
+    /// kind of message have to be switched on.
+    /// </summary>
+    public async Task<bool> AllowsAsync(string userId, NotificationChannel channel, NotificationCategory category)
+    {
+        var preferences = await _context.NotificationPreferences.AsNoTracking().FirstOrDefaultAsync(p => p.UserId == userId)
+            ?? new NotificationPreferences { UserId = userId };
+
+        var channelEnabled = channel switch
+        {
+            NotificationChannel.Email => preferences.EmailNotifications,
+            NotificationChannel.Sms => preferences.SmsNotifications,
+            NotificationChannel.Push => preferences.PushNotifications,
+            _ => false
+        };
+        var categoryEnabled = category switch
+        {
+            NotificationCategory.FlightUpdates => preferences.FlightUpdates,
+            NotificationCategory.BookingConfirmations => preferences.BookingConfirmations,
+            NotificationCategory.PromotionalOffers => preferences.PromotionalOffers,
+            _ => false
+        };
+        return channelEnabled && categoryEnabled;
+    }
+
+    private static NotificationPreferencesDto MapToDto(NotificationPreferences preferences)
+    {
+        return new NotificationPreferencesDto
+        {
+            EmailNotifications = preferences.EmailNotifications,
+            SmsNotifications = preferences.SmsNotifications,
+            PushNotifications = preferences.PushNotifications,
+            FlightUpdates = preferences.FlightUpdates,
+            PromotionalOffers = preferences.PromotionalOffers,
+            BookingConfirmations = preferences.BookingConfirmations
+        };
+    }
+}
+
+// DTOs
+public class NotificationPreferencesDto
+{
+    // Channels
+    public bool EmailNotifications { get; set; }
+    public bool SmsNotifications { get; set; }
+    public bool PushNotifications { get; set; }
+    // Kinds of message
+    public bool FlightUpdates { get; set; }
+    public bool PromotionalOffers { get; set; }
+    public bool BookingConfirmations { get; set; }
+}
@@ -1,23 +1,50 @@
 using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using AirlineSimulationApi.Data;
 using AirlineSimulationApi.Hubs;
+using AirlineSimulationApi.Models;
 
 namespace AirlineSimulationApi.Services;
 
 public interface INotificationService
 {
     Task SendFlightUpdateAsync(string userId, FlightUpdateNotification notification);
-    Task SendEmailAsync(string email, string subject, string body);
-    Task SendSmsAsync(string phoneNumber, string message);
+    Task SendEmailAsync(string userId, NotificationCategory category, string email, string subject, string body);
+    Task SendSmsAsync(string userId, NotificationCategory category, string phoneNumber, string message);
+    Task NotifyPassengersAsync(Flight flight, UserNotificationType type, string title, string message);
+    Task<int> SendCheckInRemindersAsync();
+    Task<UserNotificationList> GetNotificationsAsync(string userId);
+    Task<bool> MarkReadAsync(string userId, int notificationId);
+    Task MarkAllReadAsync(string userId);
 }
 
+/// <summary>
+/// Sends messages to a user over the channels they have switched on, for the kinds of message they have opted into
+/// </summary>
 public class NotificationService : INotificationService
 {
+    private readonly ApplicationDbContext _context;
     private readonly IHubContext<FlightUpdatesHub> _hubContext;
+    private readonly INotificationPreferencesService _preferencesService;
+    private readonly IPushNotificationService _pushNotificationService;
     private readonly ILogger<NotificationService> _logger;
 
-    public NotificationService(IHubContext<FlightUpdatesHub> hubContext, ILogger<NotificationService> logger)
+    // Matches the check-in window in BookingService
+    private const int CheckInOpensHoursBeforeDeparture = 24;
+    private const int CheckInClosesMinutesBeforeDeparture = 45;
+    private const int NotificationCenterSize = 50;
+
+    public NotificationService(
+        ApplicationDbContext context,
+        IHubContext<FlightUpdatesHub> hubContext,
+        INotificationPreferencesService preferencesService,
+        IPushNotificationService pushNotificationService,
+        ILogger<NotificationService> logger)
     {
+        _context = context;
         _hubContext = hubContext;
+        _preferencesService = preferencesService;
+        _pushNotificationService = pushNotificationService;
         _logger = logger;
     }
 
@@ -25,6 +52,14 @@ public class NotificationService : INotificationService
     {
         try
         {
+            // Live in-app updates only depend on the kind of message; the push channel is for browser pushes
+            var preferences = await _preferencesService.GetAsync(userId);
+            if (!preferences.FlightUpdates)
+            {
+                _logger.LogInformation("Skipped flight update notification for user {UserId}: opted out", userId);
+                return;
+            }
+
             _logger.LogInformation("Sending flight update notification to user {UserId}", userId);
 
             // Send via SignalR to user's personal group
@@ -39,10 +74,16 @@ public class NotificationService : INotificationService
         }
     }
 
-    public async Task SendEmailAsync(string email, string subject, string body)
+    public async Task SendEmailAsync(string userId, NotificationCategory category, string email, string subject, string body)
     {
         try
         {
+            if (!await _preferencesService.AllowsAsync(userId, NotificationChannel.Email, category))
+            {
+                _logger.LogInformation("Skipped {Category} email for user {UserId}: opted out", category, userId);
+                return;
+            }
+
             _logger.LogInformation("Sending email to {Email} with subject: {Subject}", email, subject);
 
             // Simulate email sending delay
@@ -61,10 +102,16 @@ public class NotificationService : INotificationService
         }
     }
 
-    public async Task SendSmsAsync(string phoneNumber, string message)
+    public async Task SendSmsAsync(string userId, NotificationCategory category, string phoneNumber, string message)
     {
         try
         {
+            if (!await _preferencesService.AllowsAsync(userId, NotificationChannel.Sms, category))
+            {
+                _logger.LogInformation("Skipped {Category} SMS for user {UserId}: opted out", category, userId);
+                return;
+            }
+
             _logger.LogInformation("Sending SMS to {PhoneNumber}", phoneNumber);
 
             // Simulate SMS sending delay
@@ -82,6 +129,180 @@ public class NotificationService : INotificationService
             _logger.LogError(ex, "Error sending SMS to {PhoneNumber}", phoneNumber);
         }
     }
+
+    /// <summary>
+    /// Adds a notification to the notification center of everyone holding an active booking on the flight
+    /// who wants flight updates, and pushes it to their open sessions and subscribed browsers
+    /// </summary>
+    public async Task NotifyPassengersAsync(Flight flight, UserNotificationType type, string title, string message)
+    {
+        try
+        {
+            var bookings = await _context.Bookings
+                .AsNoTracking()
+                .Where(b => b.FlightId == flight.Id &&
+                           (b.Status == BookingStatus.Confirmed || b.Status == BookingStatus.CheckedIn))
+                .Select(b => new { b.Id, b.UserId })
+                .ToListAsync();
+
+            var notifications = new List<UserNotification>();
+            foreach (var booking in bookings)
+            {
+                var preferences = await _preferencesService.GetAsync(booking.UserId);
+                if (!preferences.FlightUpdates) continue;
+
+                notifications.Add(new UserNotification
+                {
+                    UserId = booking.UserId,
+                    BookingId = booking.Id,
+                    Type = type,
+                    Title = title,
+                    Message = message,
+                    FlightNumber = flight.FlightNumber
+                });
+            }
+
+            await SaveAndPublishAsync(notifications);
+
+            _logger.LogInformation("Sent {Type} notification for flight {FlightNumber} to {Count} bookings",
+                type, flight.FlightNumber, notifications.Count);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error notifying passengers of flight {FlightNumber}", flight.FlightNumber);
+        }
+    }
+
+    /// <summary>
+    /// Reminds travellers that check-in has opened, once per booking
+    /// </summary>
+    /// <returns>The number of reminders sent</returns>
+    public async Task<int> SendCheckInRemindersAsync()
+    {
+        var now = DateTime.UtcNow;
+        var opensBefore = now.AddHours(CheckInOpensHoursBeforeDeparture);
+        var closesAfter = now.AddMinutes(CheckInClosesMinutesBeforeDeparture);
+
+        var bookings = await _context.Bookings
+            .AsNoTracking()
+            .Include(b => b.Flight)
+            .Where(b => b.Status == BookingStatus.Confirmed &&
+                        b.Flight.Status != FlightStatus.Cancelled &&
+                        b.Flight.ScheduledDeparture <= opensBefore &&
+                        b.Flight.ScheduledDeparture > closesAfter &&
+                        !_context.UserNotifications.Any(n => n.BookingId == b.Id && n.Type == UserNotificationType.CheckInReminder))
+            .ToListAsync();
+
+        var notifications = new List<UserNotification>();
+        foreach (var booking in bookings)
+        {
+            var preferences = await _preferencesService.GetAsync(booking.UserId);
+            if (!preferences.FlightUpdates) continue;
+
+            notifications.Add(new UserNotification
+            {
+                UserId = booking.UserId,
+                BookingId = booking.Id,
+                Type = UserNotificationType.CheckInReminder,
+                Title = $"Check-in open for {booking.Flight.FlightNumber}",
+                Message = $"Check in now for your flight to {booking.Flight.DestinationAirport} on " +
+                          $"{booking.Flight.ScheduledDeparture:MMM d} at {booking.Flight.ScheduledDeparture:HH:mm} UTC " +
+                          $"(booking {booking.ConfirmationNumber}).",
+                FlightNumber = booking.Flight.FlightNumber
+            });
+        }
+
+        await SaveAndPublishAsync(notifications);
+
+        if (notifications.Count > 0)
+        {
+            _logger.LogInformation("Sent {Count} check-in reminders", notifications.Count);
+        }
+        return notifications.Count;
+    }
+
+    public async Task<UserNotificationList> GetNotificationsAsync(string userId)
+    {
+        var items = await _context.UserNotifications
+            .AsNoTracking()
+            .Where(n => n.UserId == userId)
+            .OrderByDescending(n => n.CreatedAt)
+            .Take(NotificationCenterSize)
+            .ToListAsync();
+        var unreadCount = await _context.UserNotifications
+            .CountAsync(n => n.UserId == userId && n.ReadAt == null);
+
+        return new UserNotificationList
+        {
+            Items = items.Select(MapToDto).ToList(),
+            UnreadCount = unreadCount
+        };
+    }
+
+    public async Task<bool> MarkReadAsync(string userId, int notificationId)
+    {
+        var notification = await _context.UserNotifications
+            .FirstOrDefaultAsync(n => n.Id == notificationId && n.UserId == userId);
+        if (notification == null) return false;
+
+        notification.ReadAt ??= DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    public async Task MarkAllReadAsync(string userId)
+    {
+        var now = DateTime.UtcNow;
+        await _context.UserNotifications
+            .Where(n => n.UserId == userId && n.ReadAt == null)
+            .ExecuteUpdateAsync(s => s.SetProperty(n => n.ReadAt, now));
+    }
+
+    private async Task SaveAndPublishAsync(List<UserNotification> notifications)
+    {
+        if (notifications.Count == 0) return;
+
+        _context.UserNotifications.AddRange(notifications);
+        await _context.SaveChangesAsync();
+
+        // Sessions that have joined the user group get it straight away; everyone else sees it next time they open the app
+        foreach (var notification in notifications)
+        {
+            await _hubContext.Clients.Group($"user_{notification.UserId}")
+                .SendAsync("NotificationReceived", MapToDto(notification));
+
+            // Browsers with Web Push enabled get it even with the app closed
+            try
+            {
+                await _pushNotificationService.SendAsync(notification.UserId, NotificationCategory.FlightUpdates, new PushMessage
+                {
+                    Title = notification.Title,
+                    Body = notification.Message,
+                    Url = "/my-bookings",
+                    Tag = notification.BookingId.HasValue ? $"{notification.Type}-{notification.BookingId}" : null
+                });
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error sending push for notification {NotificationId}", notification.Id);
+            }
+        }
+    }
+
+    private static UserNotificationDto MapToDto(UserNotification notification)
+    {
+        return new UserNotificationDto
+        {
+            Id = notification.Id,
+            Type = notification.Type.ToString(),
+            Title = notification.Title,
+            Message = notification.Message,
+            BookingId = notification.BookingId,
+            FlightNumber = notification.FlightNumber,
+            CreatedAt = notification.CreatedAt,
+            ReadAt = notification.ReadAt
+        };
+    }
 }
 
 // DTOs
@@ -93,4 +314,22 @@ public class FlightUpdateNotification
     public string Message { get; set; } = string.Empty;
     public DateTime Timestamp { get; set; } = DateTime.UtcNow;
     public Dictionary<string, object> AdditionalData { get; set; } = new();
-}
\ No newline at end of file
+}
+
+public class UserNotificationDto
+{
+    public int Id { get; set; }
+    public string Type { get; set; } = string.Empty;
+    public string Title { get; set; } = string.Empty;
+    public string Message { get; set; } = string.Empty;
+    public int? BookingId { get; set; }
+    public string? FlightNumber { get; set; }
+    public DateTime CreatedAt { get; set; }
+    public DateTime? ReadAt { get; set; }
+}
+
+public class UserNotificationList
+{
+    public List<UserNotificationDto> Items { get; set; } = new();
+    public int UnreadCount { get; set; }
+}
@@ -5,15 +5,18 @@ namespace AirlineSimulationApi.Services;
 public interface IPaymentService
 {
     Task<PaymentResult> ProcessPaymentAsync(PaymentRequest request);
-    Task<PaymentResult> RefundPaymentAsync(string transactionId, decimal amount);
+    // Refunds sent again with the same idempotency key are only paid out once
+    Task<PaymentResult> RefundPaymentAsync(string transactionId, decimal amount, string? idempotencyKey = null);
 }
 
 public class PaymentService : IPaymentService
 {
+    private readonly IPaymentGateway _gateway;
     private readonly ILogger<PaymentService> _logger;
 
-    public PaymentService(ILogger<PaymentService> logger)
+    public PaymentService(IPaymentGateway gateway, ILogger<PaymentService> logger)
     {
+        _gateway = gateway;
         _logger = logger;
     }
 
@@ -23,49 +26,31 @@ public class PaymentService : IPaymentService
         {
             _logger.LogInformation("Processing payment for amount {Amount}", request.Amount);
 
-            // Simulate payment processing delay
-            await Task.Delay(1000);
-
-            // Simulate payment validation
+            // Reject anything the gateway would refuse outright before sending it
             if (!ValidatePaymentRequest(request))
             {
                 return new PaymentResult
                 {
                     Success = false,
                     ErrorMessage = "Invalid payment information",
+                    DeclineCode = PaymentDeclineCodes.InvalidCard,
                     TransactionId = null
                 };
             }
 
-            // Simulate payment gateway response (90% success rate)
-            var random = new Random();
-            var isSuccessful = random.Next(100) < 90;
+            var result = await _gateway.ChargeAsync(request);
+            result.CardBrand = CardValidator.DetectBrand(request.CardNumber);
 
-            if (isSuccessful)
+            if (result.Success)
             {
-                var transactionId = GenerateTransactionId();
-                
-                _logger.LogInformation("Payment processed successfully. Transaction ID: {TransactionId}", transactionId);
-                
-                return new PaymentResult
-                {
-                    Success = true,
-                    TransactionId = transactionId,
-                    Amount = request.Amount,
-                    ProcessedAt = DateTime.UtcNow
-                };
+                _logger.LogInformation("Payment processed successfully. Transaction ID: {TransactionId}", result.TransactionId);
             }
             else
             {
-                _logger.LogWarning("Payment failed for amount {Amount}", request.Amount);
-                
-                return new PaymentResult
-                {
-                    Success = false,
-                    ErrorMessage = "Payment was declined by the bank",
-                    TransactionId = null
-                };
+                _logger.LogWarning("Payment declined for amount {Amount}: {DeclineCode}", request.Amount, result.DeclineCode);
             }
+
+            return result;
         }
         catch (Exception ex)
         {
@@ -74,21 +59,18 @@ public class PaymentService : IPaymentService
             {
                 Success = false,
                 ErrorMessage = "Payment processing failed due to a technical error",
+                DeclineCode = PaymentDeclineCodes.ProcessingError,
                 TransactionId = null
             };
         }
     }
 
-    public async Task<PaymentResult> RefundPaymentAsync(string transactionId, decimal amount)
+    public async Task<PaymentResult> RefundPaymentAsync(string transactionId, decimal amount, string? idempotencyKey = null)
     {
         try
         {
             _logger.LogInformation("Processing refund for transaction {TransactionId}, amount {Amount}", transactionId, amount);
 
-            // Simulate refund processing delay
-            await Task.Delay(500);
-
-            // Simulate refund validation
             if (string.IsNullOrEmpty(transactionId) || amount <= 0)
             {
                 return new PaymentResult
@@ -99,33 +81,18 @@ public class PaymentService : IPaymentService
                 };
             }
 
-            // Simulate refund gateway response (95% success rate)
-            var random = new Random();
-            var isSuccessful = random.Next(100) < 95;
+            var result = await _gateway.RefundAsync(transactionId, amount, idempotencyKey);
 
-            if (isSuccessful)
+            if (result.Success)
             {
                 _logger.LogInformation("Refund processed successfully for transaction {TransactionId}", transactionId);
-                
-                return new PaymentResult
-                {
-                    Success = true,
-                    TransactionId = transactionId,
-                    Amount = amount,
-                    ProcessedAt = DateTime.UtcNow
-                };
             }
             else
             {
                 _logger.LogWarning("Refund failed for transaction {TransactionId}", transactionId);
-                
-                return new PaymentResult
-                {
-                    Success = false,
-                    ErrorMessage = "Refund was declined",
-                    TransactionId = null
-                };
             }
+
+            return result;
         }
         catch (Exception ex)
         {
@@ -139,36 +106,19 @@ public class PaymentService : IPaymentService
         }
     }
 
-    private bool ValidatePaymentRequest(PaymentRequest request)
+    private static bool ValidatePaymentRequest(PaymentRequest request)
     {
-        // Basic validation
         if (request.Amount <= 0)
             return false;
 
-        if (string.IsNullOrEmpty(request.CardNumber) || request.CardNumber.Length < 13)
-            return false;
-
-        if (string.IsNullOrEmpty(request.CardHolderName))
-            return false;
-
-        if (request.ExpiryMonth < 1 || request.ExpiryMonth > 12)
-            return false;
-
-        if (request.ExpiryYear < DateTime.Now.Year)
-            return false;
-
-        if (string.IsNullOrEmpty(request.Cvv) || request.Cvv.Length < 3)
-            return false;
-
-        return true;
-    }
-
-    private string GenerateTransactionId()
-    {
-        var random = new Random();
-        var timestamp = DateTimeOffset.UtcNow.ToUnixTimeSeconds();
-        var randomPart = random.Next(1000, 9999);
-        return $"TXN_{timestamp}_{randomPart}";
+        return !CardValidator.Validate(new PaymentInfo
+        {
+            CardNumber = request.CardNumber,
+            CardHolderName = request.CardHolderName,
+            ExpiryMonth = request.ExpiryMonth,
+            ExpiryYear = request.ExpiryYear,
+            Cvv = request.Cvv
+        }).Any();
     }
 }
 
@@ -192,4 +142,6 @@ public class PaymentResult
     public decimal Amount { get; set; }
     public DateTime ProcessedAt { get; set; }
     public string? ErrorMessage { get; set; }
+    public string? DeclineCode { get; set; }
+    public CardBrand CardBrand { get; set; }
 }
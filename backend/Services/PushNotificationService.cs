@@ -0,0 +1,142 @@
+using System.Text.Json;
+using AirlineSimulationApi.Models;
+using AirlineSimulationApi.Data;
+using Microsoft.EntityFrameworkCore;
+
+namespace AirlineSimulationApi.Services;
+
+public interface IPushNotificationService
+{
+    string GetPublicKey();
+    Task SubscribeAsync(string userId, PushSubscriptionRequest request);
+    Task<bool> UnsubscribeAsync(string userId, string endpoint);
+    Task<int> SendAsync(string userId, NotificationCategory category, PushMessage message);
+}
+
+/// <summary>
+/// Keeps track of the browsers each user has allowed to show notifications and sends Web Push messages to
+/// them, so travellers hear about disruptions even with the app closed
+/// </summary>
+public class PushNotificationService : IPushNotificationService
+{
+    private static readonly JsonSerializerOptions PayloadOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly ApplicationDbContext _context;
+    private readonly IPushSender _pushSender;
+    private readonly VapidSettings _vapidSettings;
+    private readonly INotificationPreferencesService _preferencesService;
+    private readonly ILogger<PushNotificationService> _logger;
+
+    public PushNotificationService(
+        ApplicationDbContext context,
+        IPushSender pushSender,
+        VapidSettings vapidSettings,
+        INotificationPreferencesService preferencesService,
+        ILogger<PushNotificationService> logger)
+    {
+        _context = context;
+        _pushSender = pushSender;
+        _vapidSettings = vapidSettings;
+        _preferencesService = preferencesService;
+        _logger = logger;
+    }
+
+    public string GetPublicKey() => _vapidSettings.PublicKey;
+
+    /// <summary>
+    /// Store a browser's subscription against the user. A browser that was subscribed by someone else who
+    /// signed in on it before moves over to this user.
+    /// </summary>
+    public async Task SubscribeAsync(string userId, PushSubscriptionRequest request)
+    {
+        var subscription = await _context.WebPushSubscriptions.FirstOrDefaultAsync(s => s.Endpoint == request.Endpoint);
+        if (subscription == null)
+        {
+            subscription = new WebPushSubscription { Endpoint = request.Endpoint };
+            _context.WebPushSubscriptions.Add(subscription);
+        }
+
+        subscription.UserId = userId;
+        subscription.P256dh = request.Keys.P256dh;
+        subscription.Auth = request.Keys.Auth;
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("Stored push subscription {SubscriptionId} for user {UserId}", subscription.Id, userId);
+    }
+
+    public async Task<bool> UnsubscribeAsync(string userId, string endpoint)
+    {
+        var removed = await _context.WebPushSubscriptions
+            .Where(s => s.UserId == userId && s.Endpoint == endpoint)
+            .ExecuteDeleteAsync();
+        return removed > 0;
+    }
+
+    /// <summary>
+    /// Push a message to every browser the user has subscribed, if they want this kind of message by push.
+    /// Subscriptions the push service reports as gone are removed.
+    /// </summary>
+    /// <returns>The number of browsers the message was delivered to</returns>
+    public async Task<int> SendAsync(string userId, NotificationCategory category, PushMessage message)
+    {
+        if (!await _preferencesService.AllowsAsync(userId, NotificationChannel.Push, category))
+        {
+            return 0;
+        }
+
+        var subscriptions = await _context.WebPushSubscriptions
+            .AsNoTracking()
+            .Where(s => s.UserId == userId)
+            .ToListAsync();
+        if (subscriptions.Count == 0) return 0;
+
+        var payload = JsonSerializer.Serialize(message, PayloadOptions);
+        var delivered = 0;
+        var expired = new List<int>();
+        foreach (var subscription in subscriptions)
+        {
+            var target = new PushTarget { Endpoint = subscription.Endpoint, P256dh = subscription.P256dh, Auth = subscription.Auth };
+            switch (await _pushSender.SendAsync(target, payload))
+            {
+                case PushDeliveryResult.Delivered:
+                    delivered++;
+                    break;
+                case PushDeliveryResult.Expired:
+                    expired.Add(subscription.Id);
+                    break;
+            }
+        }
+
+        if (expired.Count > 0)
+        {
+            await _context.WebPushSubscriptions.Where(s => expired.Contains(s.Id)).ExecuteDeleteAsync();
+            _logger.LogInformation("Removed {Count} expired push subscriptions for user {UserId}", expired.Count, userId);
+        }
+
+        return delivered;
+    }
+}
+
+// DTOs
+// Mirrors PushSubscription.toJSON() in the browser
+public class PushSubscriptionRequest
+{
+    public string Endpoint { get; set; } = string.Empty;
+    public PushSubscriptionKeys Keys { get; set; } = new();
+}
+
+public class PushSubscriptionKeys
+{
+    public string P256dh { get; set; } = string.Empty;
+    public string Auth { get; set; } = string.Empty;
+}
+
+public class PushMessage
+{
+    public string Title { get; set; } = string.Empty;
+    public string Body { get; set; } = string.Empty;
+    // Page to open when the notification is clicked
+    public string Url { get; set; } = "/";
+    // Notifications with the same tag replace each other rather than stacking up
+    public string? Tag { get; set; }
+}
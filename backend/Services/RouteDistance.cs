@@ -0,0 +1,61 @@
+using AirlineSimulationApi.Models;
+
+namespace AirlineSimulationApi.Services;
+
+/// <summary>
+/// Great-circle distances between airports, in statute miles, for crediting miles flown
+/// </summary>
+public static class RouteDistance
+{
+    private const double EarthRadiusMiles = 3958.8;
+    // Rough cruise distance per scheduled minute, for routes between airports not listed below
+    private const double MilesPerBlockMinute = 7.5;
+
+    private static readonly Dictionary<string, (double Latitude, double Longitude)> AirportLocations = new()
+    {
+        { "ORD", (41.9786, -87.9048) },
+        { "LAX", (33.9416, -118.4085) },
+        { "JFK", (40.6413, -73.7781) },
+        { "LGA", (40.7769, -73.8740) },
+        { "EWR", (40.6895, -74.1745) },
+        { "DFW", (32.8998, -97.0403) },
+        { "DEN", (39.8561, -104.6737) },
+        { "ATL", (33.6407, -84.4277) },
+        { "PHX", (33.4342, -112.0116) },
+        { "SEA", (47.4502, -122.3088) },
+        { "SFO", (37.6213, -122.3790) },
+        { "LAS", (36.0840, -115.1537) },
+        { "MCO", (28.4312, -81.3081) },
+        { "MIA", (25.7959, -80.2870) },
+        { "BOS", (42.3656, -71.0096) },
+        { "MSP", (44.8848, -93.2223) },
+        { "DTW", (42.2162, -83.3554) },
+        { "PHL", (39.8744, -75.2424) },
+        { "CLT", (35.2144, -80.9473) },
+        { "IAH", (29.9902, -95.3368) }
+    };
+
+    public static int GetMiles(Flight flight)
+    {
+        if (AirportLocations.TryGetValue(flight.OriginAirport.ToUpperInvariant(), out var origin) &&
+            AirportLocations.TryGetValue(flight.DestinationAirport.ToUpperInvariant(), out var destination))
+        {
+            return (int)Math.Round(GreatCircleMiles(origin, destination));
+        }
+
+        var blockMinutes = (flight.ScheduledArrival - flight.ScheduledDeparture).TotalMinutes;
+        return (int)Math.Round(Math.Max(0, blockMinutes) * MilesPerBlockMinute);
+    }
+
+    private static double GreatCircleMiles((double Latitude, double Longitude) from, (double Latitude, double Longitude) to)
+    {
+        var dLat = ToRadians(to.Latitude - from.Latitude);
+        var dLon = ToRadians(to.Longitude - from.Longitude);
+        var a = Math.Sin(dLat / 2) * Math.Sin(dLat / 2) +
+                Math.Cos(ToRadians(from.Latitude)) * Math.Cos(ToRadians(to.Latitude)) *
+                Math.Sin(dLon / 2) * Math.Sin(dLon / 2);
+        return EarthRadiusMiles * 2 * Math.Atan2(Math.Sqrt(a), Math.Sqrt(1 - a));
+    }
+
+    private static double ToRadians(double degrees) => degrees * Math.PI / 180;
+}
@@ -0,0 +1,38 @@
+namespace AirlineSimulationApi.Services;
+
+/// <summary>
+/// Frees seat holds whose countdown has run out so other customers see the seats again
+/// </summary>
+public class SeatHoldCleanupService : BackgroundService
+{
+    private readonly ISeatHoldService _seatHoldService;
+    private readonly ILogger<SeatHoldCleanupService> _logger;
+    private readonly TimeSpan _sweepInterval = TimeSpan.FromSeconds(15);
+
+    public SeatHoldCleanupService(ISeatHoldService seatHoldService, ILogger<SeatHoldCleanupService> logger)
+    {
+        _seatHoldService = seatHoldService;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                await _seatHoldService.ReleaseExpiredHoldsAsync();
+                await Task.Delay(_sweepInterval, stoppingToken);
+            }
+            catch (OperationCanceledException)
+            {
+                break;
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error releasing expired seat holds");
+                await Task.Delay(_sweepInterval, stoppingToken);
+            }
+        }
+    }
+}
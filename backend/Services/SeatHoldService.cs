@@ -0,0 +1,222 @@
+using Microsoft.AspNetCore.SignalR;
+using AirlineSimulationApi.Hubs;
+
+namespace AirlineSimulationApi.Services;
+
+public interface ISeatHoldService
+{
+    Task<SeatHoldResult> HoldSeatAsync(string flightNumber, DateTime flightDate, string seatNumber, string userId);
+    Task ReleaseSeatAsync(string flightNumber, DateTime flightDate, string seatNumber, string userId);
+    Task ReleaseAllAsync(string flightNumber, DateTime flightDate, string userId);
+    Task MarkBookedAsync(string flightNumber, DateTime flightDate, IEnumerable<string> seatNumbers);
+    List<string> GetSeatsHeldByOthers(string flightNumber, DateTime flightDate, string? userId);
+    Task<int> ReleaseExpiredHoldsAsync();
+}
+
+/// <summary>
+/// Short-lived seat reservations taken while a customer is choosing seats. Holds live in memory
+/// for this process only and every change is pushed to the flight's hub group as SeatHoldChanged.
+/// </summary>
+public class SeatHoldService : ISeatHoldService
+{
+    public static readonly TimeSpan HoldDuration = TimeSpan.FromMinutes(10);
+    private const int MaxHoldsPerUser = 9;
+
+    private readonly Dictionary<string, SeatHold> _holds = new();
+    private readonly object _lock = new();
+    private readonly IHubContext<FlightUpdatesHub> _hubContext;
+    private readonly ILogger<SeatHoldService> _logger;
+
+    public SeatHoldService(IHubContext<FlightUpdatesHub> hubContext, ILogger<SeatHoldService> logger)
+    {
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    public async Task<SeatHoldResult> HoldSeatAsync(string flightNumber, DateTime flightDate, string seatNumber, string userId)
+    {
+        var hold = new SeatHold
+        {
+            FlightNumber = flightNumber.ToUpperInvariant(),
+            FlightDate = flightDate.Date,
+            SeatNumber = seatNumber.ToUpperInvariant(),
+            UserId = userId,
+            ExpiresAt = DateTime.UtcNow.Add(HoldDuration)
+        };
+
+        lock (_lock)
+        {
+            var key = HoldKey(hold.FlightNumber, hold.FlightDate, hold.SeatNumber);
+            if (_holds.TryGetValue(key, out var existing) && existing.UserId != userId && existing.ExpiresAt > DateTime.UtcNow)
+            {
+                return new SeatHoldResult
+                {
+                    Success = false,
+                    ErrorMessage = $"Seat {hold.SeatNumber} is being held by another customer",
+                    ErrorCode = ErrorCodes.SeatUnavailable
+                };
+            }
+
+            var userHoldCount = _holds.Values.Count(h =>
+                h.UserId == userId && h.FlightNumber == hold.FlightNumber && h.FlightDate == hold.FlightDate &&
+                h.SeatNumber != hold.SeatNumber && h.ExpiresAt > DateTime.UtcNow);
+            if (userHoldCount >= MaxHoldsPerUser)
+            {
+                return new SeatHoldResult
+                {
+                    Success = false,
+                    ErrorMessage = $"You can hold at most {MaxHoldsPerUser} seats at a time",
+                    ErrorCode = ErrorCodes.ValidationFailed
+                };
+            }
+
+            // Holding a seat again just extends the existing hold
+            _holds[key] = hold;
+        }
+
+        await BroadcastAsync(hold, SeatHoldStatus.Held);
+        return new SeatHoldResult { Success = true, Hold = hold };
+    }
+
+    public async Task ReleaseSeatAsync(string flightNumber, DateTime flightDate, string seatNumber, string userId)
+    {
+        SeatHold? released = null;
+        lock (_lock)
+        {
+            var key = HoldKey(flightNumber.ToUpperInvariant(), flightDate.Date, seatNumber.ToUpperInvariant());
+            if (_holds.TryGetValue(key, out var existing) && existing.UserId == userId)
+            {
+                _holds.Remove(key);
+                released = existing;
+            }
+        }
+
+        if (released != null)
+        {
+            await BroadcastAsync(released, SeatHoldStatus.Released);
+        }
+    }
+
+    public async Task ReleaseAllAsync(string flightNumber, DateTime flightDate, string userId)
+    {
+        var released = RemoveWhere(h =>
+            h.UserId == userId && h.FlightNumber == flightNumber.ToUpperInvariant() && h.FlightDate == flightDate.Date);
+
+        foreach (var hold in released)
+        {
+            await BroadcastAsync(hold, SeatHoldStatus.Released);
+        }
+    }
+
+    public async Task MarkBookedAsync(string flightNumber, DateTime flightDate, IEnumerable<string> seatNumbers)
+    {
+        var seats = seatNumbers.Select(s => s.ToUpperInvariant()).ToHashSet();
+        RemoveWhere(h => h.FlightNumber == flightNumber.ToUpperInvariant() && h.FlightDate == flightDate.Date && seats.Contains(h.SeatNumber));
+
+        foreach (var seat in seats)
+        {
+            await BroadcastAsync(new SeatHold
+            {
+                FlightNumber = flightNumber.ToUpperInvariant(),
+                FlightDate = flightDate.Date,
+                SeatNumber = seat
+            }, SeatHoldStatus.Booked);
+        }
+    }
+
+    public List<string> GetSeatsHeldByOthers(string flightNumber, DateTime flightDate, string? userId)
+    {
+        var now = DateTime.UtcNow;
+        lock (_lock)
+        {
+            return _holds.Values
+                .Where(h => h.FlightNumber == flightNumber.ToUpperInvariant() && h.FlightDate == flightDate.Date &&
+                            h.UserId != userId && h.ExpiresAt > now)
+                .Select(h => h.SeatNumber)
+                .ToList();
+        }
+    }
+
+    public async Task<int> ReleaseExpiredHoldsAsync()
+    {
+        var now = DateTime.UtcNow;
+        var expired = RemoveWhere(h => h.ExpiresAt <= now);
+
+        foreach (var hold in expired)
+        {
+            await BroadcastAsync(hold, SeatHoldStatus.Released);
+        }
+
+        if (expired.Any())
+        {
+            _logger.LogDebug("Released {Count} expired seat holds", expired.Count);
+        }
+
+        return expired.Count;
+    }
+
+    private List<SeatHold> RemoveWhere(Func<SeatHold, bool> predicate)
+    {
+        lock (_lock)
+        {
+            var matches = _holds.Where(entry => predicate(entry.Value)).ToList();
+            foreach (var entry in matches)
+            {
+                _holds.Remove(entry.Key);
+            }
+            return matches.Select(entry => entry.Value).ToList();
+        }
+    }
+
+    private async Task BroadcastAsync(SeatHold hold, SeatHoldStatus status)
+    {
+        try
+        {
+            var update = new SeatHoldUpdate
+            {
+                FlightNumber = hold.FlightNumber,
+                FlightDate = hold.FlightDate.ToString("yyyy-MM-dd"),
+                SeatNumber = hold.SeatNumber,
+                Status = status.ToString(),
+                ExpiresAt = status == SeatHoldStatus.Held ? hold.ExpiresAt : null,
+                UpdatedAt = DateTime.UtcNow
+            };
+
+            await _hubContext.Clients.Group($"flight_{hold.FlightNumber}")
+                .SendAsync("SeatHoldChanged", update);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error broadcasting seat hold change for {FlightNumber} seat {SeatNumber}", hold.FlightNumber, hold.SeatNumber);
+        }
+    }
+
+    private static string HoldKey(string flightNumber, DateTime flightDate, string seatNumber)
+    {
+        return $"{flightNumber}|{flightDate:yyyy-MM-dd}|{seatNumber}";
+    }
+}
+
+public class SeatHold
+{
+    public string FlightNumber { get; set; } = string.Empty;
+    public DateTime FlightDate { get; set; }
+    public string SeatNumber { get; set; } = string.Empty;
+    public string UserId { get; set; } = string.Empty;
+    public DateTime ExpiresAt { get; set; }
+}
+
+public class SeatHoldResult
+{
+    public bool Success { get; set; }
+    public SeatHold? Hold { get; set; }
+    public string? ErrorMessage { get; set; }
+    public string? ErrorCode { get; set; }
+}
+
+public enum SeatHoldStatus
+{
+    Held,
+    Released,
+    Booked
+}
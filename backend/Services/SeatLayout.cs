@@ -0,0 +1,153 @@
+using System.Text.RegularExpressions;
+using AirlineSimulationApi.Models;
+
+namespace AirlineSimulationApi.Services;
+
+/// <summary>
+/// The cabin layout shared by every aircraft in the simulation: premium cabins in 2-2 up front,
+/// then 3-3 economy with a pair of overwing exit rows. Seat features and upcharges are derived
+/// from the row and column, so the seat map, booking validation and fare quotes always agree.
+/// </summary>
+public static class SeatLayout
+{
+    public const string Aircraft = "Airbus A320";
+
+    public const decimal ExtraLegroomUpcharge = 45m;
+    public const decimal PreferredSeatUpcharge = 15m;
+
+    public static readonly IReadOnlyList<Cabin> Cabins = new List<Cabin>
+    {
+        new() { Class = SeatClass.First, FirstRow = 1, LastRow = 2, Columns = { "A", "C", "D", "F" }, AislesAfter = { "C" } },
+        new() { Class = SeatClass.Business, FirstRow = 3, LastRow = 6, Columns = { "A", "C", "D", "F" }, AislesAfter = { "C" } },
+        new() { Class = SeatClass.PremiumEconomy, FirstRow = 7, LastRow = 10, Columns = { "A", "B", "C", "D", "E", "F" }, AislesAfter = { "C" } },
+        new() { Class = SeatClass.Economy, FirstRow = 11, LastRow = 30, Columns = { "A", "B", "C", "D", "E", "F" }, AislesAfter = { "C" } }
+    };
+
+    private static readonly HashSet<int> ExitRows = new() { 14, 15 };
+    private const int FirstOverWingRow = 12;
+    private const int LastOverWingRow = 18;
+    // Economy rows just behind the bulkhead sell window and aisle seats as preferred
+    private const int LastPreferredRow = 13;
+
+    private static readonly Dictionary<string, string> BlockedSeats = new()
+    {
+        ["30B"] = "Reserved for crew",
+        ["30E"] = "Reserved for crew"
+    };
+
+    private static readonly Regex SeatNumberPattern = new(@"^(\d{1,2})([A-Z])$", RegexOptions.Compiled);
+
+    // Seats that can be sold; blocked seats never count
+    public static int Capacity => Cabins.Sum(c => (c.LastRow - c.FirstRow + 1) * c.Columns.Count) - BlockedSeats.Count;
+
+    /// <summary>
+    /// Builds a fresh set of rows with every sellable seat available; callers apply live availability
+    /// </summary>
+    public static List<SeatRow> BuildRows()
+    {
+        return Cabins
+            .SelectMany(cabin => Enumerable.Range(cabin.FirstRow, cabin.LastRow - cabin.FirstRow + 1)
+                .Select(rowNumber => BuildRow(cabin, rowNumber)))
+            .ToList();
+    }
+
+    /// <summary>
+    /// The seat with the given number, such as "12C", or null when it is not on the aircraft
+    /// </summary>
+    public static Seat? FindSeat(string seatNumber)
+    {
+        var match = SeatNumberPattern.Match(seatNumber.Trim().ToUpperInvariant());
+        if (!match.Success)
+        {
+            return null;
+        }
+
+        var rowNumber = int.Parse(match.Groups[1].Value);
+        var cabin = Cabins.FirstOrDefault(c => rowNumber >= c.FirstRow && rowNumber <= c.LastRow);
+        if (cabin == null || !cabin.Columns.Contains(match.Groups[2].Value))
+        {
+            return null;
+        }
+
+        return BuildSeat(cabin, rowNumber, match.Groups[2].Value);
+    }
+
+    private static SeatRow BuildRow(Cabin cabin, int rowNumber)
+    {
+        return new SeatRow
+        {
+            RowNumber = rowNumber,
+            IsExitRow = ExitRows.Contains(rowNumber),
+            IsBulkhead = rowNumber == cabin.FirstRow,
+            IsOverWing = rowNumber >= FirstOverWingRow && rowNumber <= LastOverWingRow,
+            Seats = cabin.Columns.Select(column => BuildSeat(cabin, rowNumber, column)).ToList()
+        };
+    }
+
+    private static Seat BuildSeat(Cabin cabin, int rowNumber, string column)
+    {
+        var number = $"{rowNumber}{column}";
+        var position = GetPosition(cabin, column);
+        var isBlocked = BlockedSeats.TryGetValue(number, out var blockedReason);
+        var hasExtraLegroom = ExitRows.Contains(rowNumber) || rowNumber == cabin.FirstRow || cabin.Class == SeatClass.PremiumEconomy;
+
+        return new Seat
+        {
+            Number = number,
+            Column = column,
+            Class = cabin.Class,
+            IsAvailable = !isBlocked,
+            Position = position,
+            HasExtraLegroom = hasExtraLegroom,
+            IsBlocked = isBlocked,
+            BlockedReason = blockedReason,
+            Upcharge = GetUpcharge(cabin, rowNumber, position, hasExtraLegroom)
+        };
+    }
+
+    private static SeatPosition GetPosition(Cabin cabin, string column)
+    {
+        var index = cabin.Columns.IndexOf(column);
+        if (index == 0 || index == cabin.Columns.Count - 1)
+        {
+            return SeatPosition.Window;
+        }
+
+        var nextToAisle = cabin.AislesAfter.Contains(column) || cabin.AislesAfter.Contains(cabin.Columns[index - 1]);
+        return nextToAisle ? SeatPosition.Aisle : SeatPosition.Middle;
+    }
+
+    // Premium cabins include every seat in the fare; economy charges for legroom and the front rows
+    private static decimal GetUpcharge(Cabin cabin, int rowNumber, SeatPosition position, bool hasExtraLegroom)
+    {
+        if (cabin.Class != SeatClass.Economy)
+        {
+            return 0m;
+        }
+
+        if (hasExtraLegroom)
+        {
+            return ExtraLegroomUpcharge;
+        }
+
+        return rowNumber <= LastPreferredRow && position != SeatPosition.Middle ? PreferredSeatUpcharge : 0m;
+    }
+}
+
+public class Cabin
+{
+    public SeatClass Class { get; set; }
+    public int FirstRow { get; set; }
+    public int LastRow { get; set; }
+    // Column letters from left to right
+    public List<string> Columns { get; set; } = new();
+    // Columns with an aisle on their right
+    public List<string> AislesAfter { get; set; } = new();
+}
+
+public enum SeatPosition
+{
+    Window,
+    Middle,
+    Aisle
+}
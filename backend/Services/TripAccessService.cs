@@ -0,0 +1,155 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Caching.Memory;
+using Microsoft.IdentityModel.Tokens;
+using System.IdentityModel.Tokens.Jwt;
+using System.Security.Claims;
+using System.Text;
+using AirlineSimulationApi.Data;
+
+namespace AirlineSimulationApi.Services;
+
+public interface ITripAccessService
+{
+    Task<TripAccessResult> FindTripAsync(string confirmationNumber, string lastName, string clientKey);
+    Task<string?> GetBookingUserIdAsync(ClaimsPrincipal principal, string confirmationNumber);
+}
+
+/// <summary>
+/// Claim types carried by guest trip tokens
+/// </summary>
+public static class TripAccessClaims
+{
+    // The one booking the token opens
+    public const string ConfirmationNumber = "trip_confirmation";
+}
+
+/// <summary>
+/// "Find my trip" for travellers without an account on the booking. A confirmation number and a
+/// passenger's last name buy a token for that booking alone: it carries no user id, so every account
+/// endpoint still rejects it, and only viewing, check-in and boarding passes accept it.
+/// </summary>
+public class TripAccessService : ITripAccessService
+{
+    // Tokens last until this long after departure, so boarding passes still open at the gate
+    public static readonly TimeSpan TokenLifetime = TimeSpan.FromHours(12);
+    // Failed lookups allowed per client before it has to wait, so confirmation numbers cannot be guessed
+    private const int MaxFailedLookups = 10;
+    private static readonly TimeSpan FailedLookupWindow = TimeSpan.FromMinutes(15);
+
+    private readonly ApplicationDbContext _context;
+    private readonly IMemoryCache _cache;
+    private readonly ILogger<TripAccessService> _logger;
+
+    public TripAccessService(ApplicationDbContext context, IMemoryCache cache, ILogger<TripAccessService> logger)
+    {
+        _context = context;
+        _cache = cache;
+        _logger = logger;
+    }
+
+    public async Task<TripAccessResult> FindTripAsync(string confirmationNumber, string lastName, string clientKey)
+    {
+        var attemptsKey = $"trip_lookup_failures_{clientKey}";
+        if (_cache.TryGetValue(attemptsKey, out int failures) && failures >= MaxFailedLookups)
+        {
+            return new TripAccessResult
+            {
+                Success = false,
+                ErrorMessage = "Too many attempts. Please wait a few minutes and try again.",
+                ErrorCode = ErrorCodes.TooManyAttempts
+            };
+        }
+
+        var normalizedNumber = confirmationNumber.Trim().ToUpperInvariant();
+        var normalizedName = lastName.Trim().ToUpperInvariant();
+
+        var booking = await _context.Bookings
+            .Include(b => b.Flight)
+            .Include(b => b.Passengers)
+            .FirstOrDefaultAsync(b => b.ConfirmationNumber == normalizedNumber);
+
+        // The same answer whichever half is wrong, so a lookup never confirms that a booking exists
+        if (booking == null || !booking.Passengers.Any(p => p.LastName.Trim().ToUpperInvariant() == normalizedName))
+        {
+            _cache.Set(attemptsKey, failures + 1, FailedLookupWindow);
+            _logger.LogInformation("Trip lookup failed for {ConfirmationNumber}", normalizedNumber);
+            return new TripAccessResult
+            {
+                Success = false,
+                ErrorMessage = "We could not find a booking with that confirmation number and last name",
+                ErrorCode = ErrorCodes.BookingNotFound
+            };
+        }
+
+        var expiresAt = booking.Flight.ScheduledDeparture.Add(TokenLifetime);
+        if (expiresAt < DateTime.UtcNow.Add(TokenLifetime))
+        {
+            expiresAt = DateTime.UtcNow.Add(TokenLifetime);
+        }
+        return new TripAccessResult
+        {
+            Success = true,
+            ConfirmationNumber = booking.ConfirmationNumber,
+            Token = GenerateTripToken(booking.ConfirmationNumber, expiresAt),
+            ExpiresAt = expiresAt
+        };
+    }
+
+    /// <summary>
+    /// The account to act as on a booking: the signed-in user, or the booking's owner when the caller
+    /// holds a trip token for exactly this booking. Null when the caller has no access to it.
+    /// </summary>
+    public async Task<string?> GetBookingUserIdAsync(ClaimsPrincipal principal, string confirmationNumber)
+    {
+        var userId = principal.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (!string.IsNullOrEmpty(userId))
+        {
+            return userId;
+        }
+
+        var tripConfirmation = principal.FindFirst(TripAccessClaims.ConfirmationNumber)?.Value;
+        if (string.IsNullOrEmpty(tripConfirmation) ||
+            !string.Equals(tripConfirmation, confirmationNumber, StringComparison.OrdinalIgnoreCase))
+        {
+            return null;
+        }
+
+        return await _context.Bookings
+            .Where(b => b.ConfirmationNumber == tripConfirmation)
+            .Select(b => b.UserId)
+            .FirstOrDefaultAsync();
+    }
+
+    private static string GenerateTripToken(string confirmationNumber, DateTime expiresAt)
+    {
+        var jwtSecret = Environment.GetEnvironmentVariable("JWT_SECRET");
+        if (string.IsNullOrEmpty(jwtSecret))
+        {
+            throw new InvalidOperationException("JWT_SECRET environment variable is required.");
+        }
+        var key = Encoding.ASCII.GetBytes(jwtSecret);
+
+        var tokenDescriptor = new SecurityTokenDescriptor
+        {
+            Subject = new ClaimsIdentity(new[]
+            {
+                new Claim(TripAccessClaims.ConfirmationNumber, confirmationNumber)
+            }),
+            Expires = expiresAt,
+            SigningCredentials = new SigningCredentials(new SymmetricSecurityKey(key), SecurityAlgorithms.HmacSha256Signature)
+        };
+
+        var tokenHandler = new JwtSecurityTokenHandler();
+        return tokenHandler.WriteToken(tokenHandler.CreateToken(tokenDescriptor));
+    }
+}
+
+public class TripAccessResult
+{
+    public bool Success { get; set; }
+    public string? ErrorMessage { get; set; }
+    public string? ErrorCode { get; set; }
+    public string? ConfirmationNumber { get; set; }
+    public string? Token { get; set; }
+    public DateTime ExpiresAt { get; set; }
+}
@@ -0,0 +1,75 @@
+using System.Net;
+using WebPush;
+
+namespace AirlineSimulationApi.Services;
+
+public interface IPushSender
+{
+    Task<PushDeliveryResult> SendAsync(PushTarget target, string payload);
+}
+
+/// <summary>
+/// Delivers pushes through the browser vendors' push services, signed with the site's VAPID keys
+/// </summary>
+public class WebPushSender : IPushSender
+{
+    private readonly WebPushClient _client;
+    private readonly VapidDetails _vapidDetails;
+    private readonly ILogger<WebPushSender> _logger;
+
+    public WebPushSender(VapidSettings settings, ILogger<WebPushSender> logger)
+        : this(settings, logger, new WebPushClient())
+    {
+    }
+
+    // Lets tests point the client at a fake push service
+    internal WebPushSender(VapidSettings settings, ILogger<WebPushSender> logger, WebPushClient client)
+    {
+        _client = client;
+        _vapidDetails = new VapidDetails(settings.Subject, settings.PublicKey, settings.PrivateKey);
+        _logger = logger;
+    }
+
+    public async Task<PushDeliveryResult> SendAsync(PushTarget target, string payload)
+    {
+        try
+        {
+            var subscription = new PushSubscription(target.Endpoint, target.P256dh, target.Auth);
+            await _client.SendNotificationAsync(subscription, payload, _vapidDetails);
+            return PushDeliveryResult.Delivered;
+        }
+        catch (WebPushException ex) when (ex.StatusCode == HttpStatusCode.NotFound || ex.StatusCode == HttpStatusCode.Gone)
+        {
+            // The user revoked permission or the browser dropped the subscription
+            return PushDeliveryResult.Expired;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error sending push to {Endpoint}", target.Endpoint);
+            return PushDeliveryResult.Failed;
+        }
+    }
+}
+
+// DTOs
+public class VapidSettings
+{
+    public string PublicKey { get; set; } = string.Empty;
+    public string PrivateKey { get; set; } = string.Empty;
+    // Contact for the push services, a mailto: or https: URL
+    public string Subject { get; set; } = string.Empty;
+}
+
+public class PushTarget
+{
+    public string Endpoint { get; set; } = string.Empty;
+    public string P256dh { get; set; } = string.Empty;
+    public string Auth { get; set; } = string.Empty;
+}
+
+public enum PushDeliveryResult
+{
+    Delivered,
+    Expired,
+    Failed
+}
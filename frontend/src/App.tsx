@@ -9,10 +9,15 @@ import FlightBoard from './pages/FlightBoard';
 import Login from './pages/Login';
 import Register from './pages/Register';
 import Booking from './pages/Booking';
-import BookingCheckout from './pages/BookingCheckout';
 import BookingConfirmation from './pages/BookingConfirmation';
 import BookingSuccess from './pages/BookingSuccess';
 import MyBookings from './pages/MyBookings';
+import CheckIn from './pages/CheckIn';
+import ManageBooking from './pages/ManageBooking';
+import FindTrip from './pages/FindTrip';
+import TrackBaggage from './pages/TrackBaggage';
+import Loyalty from './pages/Loyalty';
+import AccountSettings from './pages/AccountSettings';
 import './App.css';
 
 function App() {
@@ -24,8 +29,14 @@ function App() {
             <Route path="/" element={<Layout />}>
               <Route index element={<Home />} />
               <Route path="flights" element={<FlightBoard />} />
+              <Route path="flights/:airport" element={<FlightBoard />} />
               <Route path="login" element={<Login />} />
               <Route path="register" element={<Register />} />
+              <Route path="find-trip" element={<FindTrip />} />
+              {/* Guests reach check-in through Find my trip rather than an account */}
+              <Route path="trip/:confirmationNumber" element={<CheckIn />} />
+              <Route path="baggage" element={<TrackBaggage />} />
+              <Route path="baggage/:trackingNumber" element={<TrackBaggage />} />
 
               {/* Protected booking routes */}
               <Route path="booking/:flightNumber" element={
@@ -35,7 +46,7 @@ function App() {
               } />
               <Route path="booking-checkout/:flightNumber" element={
                 <ProtectedRoute>
-                  <BookingCheckout />
+                  <Booking />
                 </ProtectedRoute>
               } />
               <Route path="booking-confirmation/:confirmationNumber?" element={
@@ -53,6 +64,26 @@ function App() {
                   <MyBookings />
                 </ProtectedRoute>
               } />
+              <Route path="check-in/:confirmationNumber" element={
+                <ProtectedRoute>
+                  <CheckIn />
+                </ProtectedRoute>
+              } />
+              <Route path="loyalty" element={
+                <ProtectedRoute>
+                  <Loyalty />
+                </ProtectedRoute>
+              } />
+              <Route path="account" element={
+                <ProtectedRoute>
+                  <AccountSettings />
+                </ProtectedRoute>
+              } />
+              <Route path="manage-booking/:confirmationNumber" element={
+                <ProtectedRoute>
+                  <ManageBooking />
+                </ProtectedRoute>
+              } />
             </Route>
           </Routes>
         </div>
@@ -0,0 +1,61 @@
+import React from 'react';
+
+export interface Airport {
+  code: string;
+  name: string;
+}
+
+export const DEFAULT_AIRPORT = 'ORD';
+
+export const AIRPORTS: Airport[] = [
+  { code: 'ORD', name: "Chicago O'Hare" },
+  { code: 'ATL', name: 'Atlanta Hartsfield-Jackson' },
+  { code: 'BOS', name: 'Boston Logan' },
+  { code: 'CLT', name: 'Charlotte Douglas' },
+  { code: 'DEN', name: 'Denver' },
+  { code: 'DFW', name: 'Dallas/Fort Worth' },
+  { code: 'DTW', name: 'Detroit Metropolitan' },
+  { code: 'EWR', name: 'Newark Liberty' },
+  { code: 'IAH', name: 'Houston George Bush' },
+  { code: 'JFK', name: 'New York JFK' },
+  { code: 'LAS', name: 'Las Vegas Harry Reid' },
+  { code: 'LAX', name: 'Los Angeles' },
+  { code: 'LGA', name: 'New York LaGuardia' },
+  { code: 'MCO', name: 'Orlando' },
+  { code: 'MIA', name: 'Miami' },
+  { code: 'MSP', name: 'Minneapolis-Saint Paul' },
+  { code: 'PHL', name: 'Philadelphia' },
+  { code: 'PHX', name: 'Phoenix Sky Harbor' },
+  { code: 'SEA', name: 'Seattle-Tacoma' },
+  { code: 'SFO', name: 'San Francisco' }
+];
+
+export const getAirportName = (code: string) =>
+  AIRPORTS.find(airport => airport.code === code.toUpperCase())?.name ?? code.toUpperCase();
+
+interface AirportPickerProps {
+  value: string;
+  onChange: (airportCode: string) => void;
+}
+
+const AirportPicker: React.FC<AirportPickerProps> = ({ value, onChange }) => {
+  const isKnownAirport = AIRPORTS.some(airport => airport.code === value);
+
+  return (
+    <select
+      className="filter-select airport-picker"
+      aria-label="Airport"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      {!isKnownAirport && <option value={value}>{value}</option>}
+      {AIRPORTS.map(airport => (
+        <option key={airport.code} value={airport.code}>
+          {airport.code} - {airport.name}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+export default AirportPicker;
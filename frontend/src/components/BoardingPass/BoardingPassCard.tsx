@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { BoardingPass } from '../../services/api';
+import { getSeatClassLabel } from '../BookingWizard/fares';
+import { formatPassDate, formatPassTime, getQrCodeDataUrl } from './passDetails';
+import './BoardingPass.css';
+
+interface BoardingPassCardProps {
+  pass: BoardingPass;
+  onPrint?: () => void;
+  onDownload?: () => void;
+}
+
+const BoardingPassCard: React.FC<BoardingPassCardProps> = ({ pass, onPrint, onDownload }) => {
+  const [qrCode, setQrCode] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    getQrCodeDataUrl(pass)
+      .then(dataUrl => {
+        if (!cancelled) setQrCode(dataUrl);
+      })
+      .catch(error => console.error('Failed to generate boarding pass barcode:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [pass]);
+
+  const details: [string, string][] = [
+    ['Flight', pass.flightNumber],
+    ['Date', formatPassDate(pass.scheduledDeparture)],
+    ['Departs', formatPassTime(pass.scheduledDeparture)],
+    ['Boarding', formatPassTime(pass.boardingTime)],
+    ['Gate', pass.gate],
+    ['Terminal', pass.terminal ?? '-'],
+    ['Seat', pass.seatNumber],
+    ['Group', String(pass.boardingGroup)],
+    ['Seq', String(pass.sequenceNumber).padStart(3, '0')]
+  ];
+
+  return (
+    <article className="boarding-pass" aria-label={`Boarding pass for ${pass.passengerName}`}>
+      <header className="boarding-pass-header">
+        <span className="boarding-pass-airline">{pass.airline}</span>
+        <span className="boarding-pass-class">{getSeatClassLabel(pass.seatClass)}</span>
+      </header>
+      <div className="boarding-pass-body">
+        <div className="boarding-pass-main">
+          <div className="boarding-pass-label">Passenger</div>
+          <div className="boarding-pass-name">{pass.lastName.toUpperCase()} / {pass.firstName.toUpperCase()}</div>
+          <div className="boarding-pass-route">
+            <span>{pass.originAirport}</span>
+            <span className="boarding-pass-arrow" aria-label="to">→</span>
+            <span>{pass.destinationAirport}</span>
+          </div>
+          <dl className="boarding-pass-details">
+            {details.map(([label, value]) => (
+              <div key={label}>
+                <dt>{label}</dt>
+                <dd>{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+        <div className="boarding-pass-stub">
+          {qrCode
+            ? <img className="boarding-pass-qr" src={qrCode} alt={`Boarding pass barcode for ${pass.passengerName}`} />
+            : <div className="boarding-pass-qr placeholder" aria-hidden="true" />}
+          <div className="boarding-pass-confirmation">{pass.confirmationNumber}</div>
+        </div>
+      </div>
+      {(onPrint || onDownload) && (
+        <div className="boarding-pass-actions no-print">
+          {onPrint && <button type="button" className="btn btn-secondary" onClick={onPrint}>Print</button>}
+          {onDownload && <button type="button" className="btn btn-secondary" onClick={onDownload}>Download PDF</button>}
+        </div>
+      )}
+    </article>
+  );
+};
+
+export default BoardingPassCard;
@@ -0,0 +1,69 @@
+import { BoardingPass, SeatClass } from '../../services/api';
+
+// IATA compartment codes printed in the barcode
+const COMPARTMENT_CODES: Record<SeatClass, string> = {
+  First: 'F',
+  Business: 'J',
+  PremiumEconomy: 'W',
+  Economy: 'Y'
+};
+
+// Passenger status 1: ticket issued and passenger checked in
+const CHECKED_IN_STATUS = '1';
+
+const pad = (value: string, length: number) => value.slice(0, length).padEnd(length, ' ');
+
+const zeroPad = (value: number | string, length: number) => String(value).padStart(length, '0').slice(-length);
+
+// BCBP only allows upper-case letters in names; accents and punctuation are dropped
+const toBcbpName = (value: string) =>
+  value.normalize('NFD').toUpperCase().replace(/[^A-Z ]/g, '').replace(/\s+/g, ' ').trim();
+
+// "AA123" -> carrier "AA", flight "0123"; an optional trailing letter is the operational suffix
+export const splitFlightNumber = (flightNumber: string) => {
+  const match = /^([A-Z0-9]{2}[A-Z]?)(\d{1,4})([A-Z]?)$/.exec(flightNumber.toUpperCase().replace(/\s+/g, ''));
+  if (!match) {
+    return { carrier: flightNumber.slice(0, 2).toUpperCase(), number: flightNumber.slice(2) };
+  }
+  return { carrier: match[1], number: `${zeroPad(match[2], 4)}${match[3]}` };
+};
+
+// Day of the year of the departure date, 001-366
+const toJulianDate = (isoDate: string) => {
+  const date = new Date(isoDate);
+  const startOfYear = Date.UTC(date.getUTCFullYear(), 0, 1);
+  const startOfDay = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return zeroPad((startOfDay - startOfYear) / 86400000 + 1, 3);
+};
+
+// "12C" -> "012C"
+const toBcbpSeat = (seatNumber: string) => {
+  const match = /^(\d{1,3})([A-Z])$/.exec(seatNumber.toUpperCase());
+  return match ? `${zeroPad(match[1], 3)}${match[2]}` : pad('', 4);
+};
+
+/**
+ * Encodes a boarding pass as an IATA Bar Coded Boarding Pass (BCBP, Resolution 792) single-leg
+ * "M1" string: the 60 mandatory characters the airport readers scan, with no conditional section.
+ */
+export const buildBcbpPayload = (pass: BoardingPass) => {
+  const { carrier, number } = splitFlightNumber(pass.flightNumber);
+  const name = `${toBcbpName(pass.lastName)}/${toBcbpName(pass.firstName)}`;
+
+  return [
+    'M1',
+    pad(name, 20),
+    'E',
+    pad(pass.confirmationNumber.toUpperCase(), 7),
+    pad(pass.originAirport.toUpperCase(), 3),
+    pad(pass.destinationAirport.toUpperCase(), 3),
+    pad(carrier, 3),
+    pad(number, 5),
+    toJulianDate(pass.scheduledDeparture),
+    COMPARTMENT_CODES[pass.seatClass] ?? 'Y',
+    toBcbpSeat(pass.seatNumber),
+    pad(zeroPad(pass.sequenceNumber, 4), 5),
+    CHECKED_IN_STATUS,
+    '00'
+  ].join('');
+};
@@ -0,0 +1,85 @@
+import { BoardingPass } from '../../services/api';
+import { getSeatClassLabel } from '../BookingWizard/fares';
+import { formatPassDate, formatPassTime, getPassFileName, getQrCodeDataUrl } from './passDetails';
+
+const PAGE_MARGIN = 20;
+const PASS_WIDTH = 170;
+const PASS_HEIGHT = 95;
+const QR_SIZE = 45;
+
+/**
+ * Builds a PDF with one boarding pass per A4 page and hands it to the browser as a download.
+ * jsPDF is only loaded the first time a pass is downloaded.
+ */
+export const downloadBoardingPassesPdf = async (passes: BoardingPass[]) => {
+  if (passes.length === 0) return;
+
+  const { jsPDF } = await import('jspdf');
+  const qrCodes = await Promise.all(passes.map(getQrCodeDataUrl));
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+
+  passes.forEach((pass, index) => {
+    if (index > 0) doc.addPage();
+    const left = PAGE_MARGIN;
+    const top = PAGE_MARGIN;
+
+    doc.setDrawColor(180);
+    doc.roundedRect(left, top, PASS_WIDTH, PASS_HEIGHT, 3, 3);
+    doc.setFillColor(102, 126, 234);
+    doc.rect(left, top, PASS_WIDTH, 14, 'F');
+
+    doc.setTextColor(255);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.text(`${pass.airline} · Boarding Pass`, left + 6, top + 9);
+    doc.setFontSize(10);
+    doc.text(getSeatClassLabel(pass.seatClass), left + PASS_WIDTH - 6, top + 9, { align: 'right' });
+
+    doc.setTextColor(40);
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.text('PASSENGER', left + 6, top + 24);
+    doc.setFontSize(13);
+    doc.setFont('helvetica', 'bold');
+    doc.text(`${pass.lastName.toUpperCase()} / ${pass.firstName.toUpperCase()}`, left + 6, top + 31);
+
+    doc.setFontSize(26);
+    doc.text(pass.originAirport, left + 6, top + 47);
+    doc.text(pass.destinationAirport, left + 60, top + 47);
+    // The standard PDF fonts have no arrow glyph
+    doc.setDrawColor(40);
+    doc.line(left + 36, top + 44, left + 54, top + 44);
+    doc.line(left + 51, top + 42, left + 54, top + 44);
+    doc.line(left + 51, top + 46, left + 54, top + 44);
+
+    const details: [string, string][] = [
+      ['FLIGHT', pass.flightNumber],
+      ['DATE', formatPassDate(pass.scheduledDeparture)],
+      ['DEPARTS', formatPassTime(pass.scheduledDeparture)],
+      ['BOARDING', formatPassTime(pass.boardingTime)],
+      ['GATE', pass.gate],
+      ['TERMINAL', pass.terminal ?? '-'],
+      ['SEAT', pass.seatNumber],
+      ['GROUP', String(pass.boardingGroup)],
+      ['SEQ', String(pass.sequenceNumber).padStart(3, '0')],
+      ['BOOKING', pass.confirmationNumber]
+    ];
+    details.forEach(([label, value], detailIndex) => {
+      const x = left + 6 + (detailIndex % 5) * 22;
+      const y = top + 60 + Math.floor(detailIndex / 5) * 16;
+      doc.setFontSize(7);
+      doc.setFont('helvetica', 'normal');
+      doc.text(label, x, y);
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text(value, x, y + 6);
+    });
+
+    doc.addImage(qrCodes[index], 'PNG', left + PASS_WIDTH - QR_SIZE - 8, top + 22, QR_SIZE, QR_SIZE);
+    doc.setFontSize(7);
+    doc.setFont('helvetica', 'normal');
+    doc.text('Present this pass with your travel document at security and the gate', left + 6, top + PASS_HEIGHT - 4);
+  });
+
+  doc.save(getPassFileName(passes));
+};
@@ -0,0 +1,18 @@
+import QRCode from 'qrcode';
+import { BoardingPass } from '../../services/api';
+import { buildBcbpPayload } from './bcbp';
+
+// Rendered as a PNG data URL so the same image works on screen, in print and in the PDF
+export const getQrCodeDataUrl = (pass: BoardingPass) =>
+  QRCode.toDataURL(buildBcbpPayload(pass), { errorCorrectionLevel: 'M', margin: 1, width: 240 });
+
+export const formatPassTime = (dateString: string) =>
+  new Date(dateString).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+export const formatPassDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('en-US', { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+export const getPassFileName = (passes: BoardingPass[]) =>
+  passes.length === 1
+    ? `boarding-pass-${passes[0].confirmationNumber}-${passes[0].lastName}.pdf`.replace(/\s+/g, '-')
+    : `boarding-passes-${passes[0]?.confirmationNumber ?? ''}.pdf`;
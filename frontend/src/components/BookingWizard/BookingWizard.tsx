@@ -0,0 +1,82 @@
+import React, { ReactNode } from 'react';
+import { BookingStep, BookingStepProps } from './types';
+
+interface BookingWizardProps {
+  steps: BookingStep[];
+  currentStep: number;
+  onStepChange: (index: number) => void;
+  stepProps: BookingStepProps;
+  // Errors and notices rendered below the active step
+  notice?: ReactNode;
+  isSubmitting: boolean;
+  submitDisabled?: boolean;
+  onSubmit: () => void;
+}
+
+const BookingWizard: React.FC<BookingWizardProps> = ({
+  steps,
+  currentStep,
+  onStepChange,
+  stepProps,
+  notice,
+  isSubmitting,
+  submitDisabled = false,
+  onSubmit
+}) => {
+  const step = steps[currentStep];
+  const StepComponent = step.component;
+  const isLastStep = currentStep === steps.length - 1;
+  const allStepsComplete = steps.every(s => s.isComplete(stepProps.draft, stepProps.quote));
+
+  return (
+    <>
+      <div className="booking-steps">
+        {steps.map((s, index) => (
+          <div key={s.id} className={`step ${index <= currentStep ? 'active' : ''}`}>
+            <span className="step-number">{index + 1}</span>
+            <span className="step-title">{s.title}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="booking-content">
+        <StepComponent {...stepProps} />
+
+        {notice}
+
+        <div className="booking-navigation">
+          {currentStep > 0 && (
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => onStepChange(currentStep - 1)}
+            >
+              Previous
+            </button>
+          )}
+          {isLastStep ? (
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={onSubmit}
+              disabled={isSubmitting || submitDisabled || !allStepsComplete}
+            >
+              {isSubmitting ? 'Processing...' : 'Complete Booking'}
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={() => onStepChange(currentStep + 1)}
+              disabled={!step.isComplete(stepProps.draft, stepProps.quote)}
+            >
+              Next
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default BookingWizard;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { FieldErrors, fieldErrorsFor } from '../../services/apiErrors';
+import {
+  CARD_BRAND_LABELS,
+  detectCardBrand,
+  formatCardNumber,
+  formatExpiry,
+  getCvvLength,
+  PaymentDetails,
+  validatePaymentDetails
+} from './payment';
+import './CardDetailsFields.css';
+
+type PaymentField = keyof PaymentDetails;
+
+// Client errors for expiry are keyed by the server's month/year fields
+const ERROR_KEYS: Record<PaymentField, string[]> = {
+  cardNumber: ['cardNumber'],
+  cardHolderName: ['cardHolderName'],
+  expiry: ['expiryMonth', 'expiryYear'],
+  cvv: ['cvv']
+};
+
+interface CardDetailsFieldsProps {
+  payment: PaymentDetails;
+  onChange: (payment: PaymentDetails) => void;
+  // Server errors, keyed as paymentInfo.<field>
+  fieldErrors: FieldErrors;
+  onClearFieldError: (key: string) => void;
+}
+
+// Card number, expiry, CVV and cardholder inputs, shared by checkout and booking changes
+const CardDetailsFields: React.FC<CardDetailsFieldsProps> = ({ payment, onChange, fieldErrors, onClearFieldError }) => {
+  const [touched, setTouched] = useState<Partial<Record<PaymentField, boolean>>>({});
+
+  const brand = detectCardBrand(payment.cardNumber);
+  const serverErrors = fieldErrorsFor(fieldErrors, 'paymentInfo');
+  const clientErrors = fieldErrorsFor(validatePaymentDetails(payment), 'paymentInfo');
+
+  // Server errors always show; client errors wait until the user has left the field
+  const errorFor = (field: PaymentField) => {
+    const keys = ERROR_KEYS[field];
+    const serverError = keys.map(key => serverErrors[key]).find(Boolean);
+    if (serverError) return serverError;
+    return touched[field] ? keys.map(key => clientErrors[key]).find(Boolean) : undefined;
+  };
+
+  const handleChange = (field: PaymentField, value: string) => {
+    onChange({ ...payment, [field]: value });
+    ERROR_KEYS[field].forEach(key => onClearFieldError(`paymentInfo.${key}`));
+  };
+
+  const handleBlur = (field: PaymentField) => setTouched({ ...touched, [field]: true });
+
+  const cardNumberError = errorFor('cardNumber');
+  const cardHolderNameError = errorFor('cardHolderName');
+  const expiryError = errorFor('expiry');
+  const cvvError = errorFor('cvv');
+
+  return (
+    <>
+      <div className="demo-notice">
+        <p>🔒 Payments are processed by a local test gateway. No real card will be charged.</p>
+        <p>Use 4242 4242 4242 4242 to pay successfully, or 4000 0000 0000 0002 to see a declined card.</p>
+      </div>
+      <div className="form-group">
+        <label htmlFor="card-number">Card Number</label>
+        <div className="card-number-input">
+          <input
+            id="card-number"
+            type="text"
+            inputMode="numeric"
+            autoComplete="cc-number"
+            placeholder="1234 5678 9012 3456"
+            value={payment.cardNumber}
+            onChange={(e) => handleChange('cardNumber', formatCardNumber(e.target.value))}
+            onBlur={() => handleBlur('cardNumber')}
+            className={cardNumberError ? 'input-error' : ''}
+          />
+          {brand !== 'unknown' && (
+            <span className={`card-brand card-brand-${brand}`}>{CARD_BRAND_LABELS[brand]}</span>
+          )}
+        </div>
+        {cardNumberError && <div className="field-error">{cardNumberError}</div>}
+      </div>
+      <div className="form-row">
+        <div className="form-group">
+          <label htmlFor="card-expiry">Expiry Date</label>
+          <input
+            id="card-expiry"
+            type="text"
+            inputMode="numeric"
+            autoComplete="cc-exp"
+            placeholder="MM/YY"
+            value={payment.expiry}
+            onChange={(e) => handleChange('expiry', formatExpiry(e.target.value))}
+            onBlur={() => handleBlur('expiry')}
+            className={expiryError ? 'input-error' : ''}
+          />
+          {expiryError && <div className="field-error">{expiryError}</div>}
+        </div>
+        <div className="form-group">
+          <label htmlFor="card-cvv">CVV</label>
+          <input
+            id="card-cvv"
+            type="password"
+            inputMode="numeric"
+            autoComplete="cc-csc"
+            placeholder={'•'.repeat(getCvvLength(brand))}
+            maxLength={getCvvLength(brand)}
+            value={payment.cvv}
+            onChange={(e) => handleChange('cvv', e.target.value.replace(/\D/g, ''))}
+            onBlur={() => handleBlur('cvv')}
+            className={cvvError ? 'input-error' : ''}
+          />
+          {cvvError && <div className="field-error">{cvvError}</div>}
+        </div>
+      </div>
+      <div className="form-group">
+        <label htmlFor="card-holder">Cardholder Name</label>
+        <input
+          id="card-holder"
+          type="text"
+          autoComplete="cc-name"
+          value={payment.cardHolderName}
+          onChange={(e) => handleChange('cardHolderName', e.target.value)}
+          onBlur={() => handleBlur('cardHolderName')}
+          className={cardHolderNameError ? 'input-error' : ''}
+        />
+        {cardHolderNameError && <div className="field-error">{cardHolderNameError}</div>}
+      </div>
+    </>
+  );
+};
+
+export default CardDetailsFields;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { fieldErrorsFor } from '../../services/apiErrors';
+import { BookingStepProps } from './types';
+import { formatPrice, MAX_CHECKED_BAGS } from './fares';
+import FareSummary from './FareSummary';
+
+const ExtrasStep: React.FC<BookingStepProps> = ({ draft, onDraftChange, fieldErrors, onClearFieldError, quote, isQuoting, quoteError }) => {
+  const { passengers } = draft;
+
+  const handleBagsChange = (index: number, checkedBags: number) => {
+    const updatedPassengers = [...passengers];
+    updatedPassengers[index] = { ...updatedPassengers[index], checkedBags };
+    onDraftChange({ ...draft, passengers: updatedPassengers });
+    onClearFieldError(`passengers[${index}].checkedBags`);
+  };
+
+  const bagOptions = Array.from({ length: MAX_CHECKED_BAGS + 1 }, (_, count) => count);
+
+  return (
+    <div className="extras-step">
+      <h2>Extras</h2>
+      <p className="step-description">
+        Carry-on bags are included. Checked bag fees are added to each passenger's fare.
+      </p>
+      {passengers.map((passenger, index) => {
+        const passengerErrors = fieldErrorsFor(fieldErrors, `passengers[${index}]`);
+        const bagFee = quote?.passengers
+          .find(line => line.passengerIndex === index)?.fees
+          .find(fee => fee.code === 'CHECKED_BAGS');
+        return (
+          <div key={index} className="passenger-form">
+            <h3>{passenger.firstName} {passenger.lastName}</h3>
+            <div className="form-group">
+              <label>Checked Bags</label>
+              <select
+                value={passenger.checkedBags}
+                onChange={(e) => handleBagsChange(index, Number(e.target.value))}
+                className={passengerErrors.checkedBags ? 'input-error' : ''}
+              >
+                {bagOptions.map(count => (
+                  <option key={count} value={count}>
+                    {count === 0 ? 'No checked bags' : `${count} bag${count > 1 ? 's' : ''}`}
+                  </option>
+                ))}
+              </select>
+              {passengerErrors.checkedBags && <div className="field-error">{passengerErrors.checkedBags}</div>}
+              {bagFee && quote && <div className="field-hint">{bagFee.description}: {formatPrice(bagFee.amount, quote.currency)}</div>}
+            </div>
+          </div>
+        );
+      })}
+      <FareSummary quote={quote} isQuoting={isQuoting} quoteError={quoteError} passengers={passengers} compact />
+    </div>
+  );
+};
+
+export default ExtrasStep;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { FareQuote, PassengerRequest } from '../../services/api';
+import { formatPoints } from '../Loyalty/tiers';
+import { formatPrice, getSeatClassLabel } from './fares';
+import PointsEarned from './PointsEarned';
+import { getPointsValue } from './points';
+
+interface FareSummaryProps {
+  quote: FareQuote | null;
+  isQuoting: boolean;
+  quoteError: string;
+  passengers: PassengerRequest[];
+  // Only show the total, for steps where the full breakdown would be noise
+  compact?: boolean;
+  // Loyalty points going toward the total
+  pointsToRedeem?: number;
+}
+
+const FareSummary: React.FC<FareSummaryProps> = ({
+  quote,
+  isQuoting,
+  quoteError,
+  passengers,
+  compact = false,
+  pointsToRedeem = 0
+}) => {
+  if (!quote) {
+    return (
+      <div className="fare-summary">
+        {quoteError ? <div className="error-message">{quoteError}</div> : <div className="fare-pending">Calculating fare...</div>}
+      </div>
+    );
+  }
+
+  const price = (amount: number) => formatPrice(amount, quote.currency);
+  const pointsValue = getPointsValue(pointsToRedeem, quote);
+
+  if (compact) {
+    return (
+      <div className={`fare-summary compact ${isQuoting ? 'updating' : ''}`}>
+        <span>Fare for {passengers.length} passenger{passengers.length > 1 ? 's' : ''}</span>
+        <strong>{price(quote.total)}</strong>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`fare-summary payment-summary ${isQuoting ? 'updating' : ''}`}>
+      <h3>Fare Breakdown</h3>
+      {quoteError && <div className="error-message">{quoteError}</div>}
+      <div className="passenger-summary">
+        {quote.passengers.map(line => {
+          const passenger = passengers[line.passengerIndex];
+          return (
+            <div key={line.passengerIndex} className="fare-line">
+              <div className="passenger-item">
+                <span>{passenger ? `${passenger.firstName} ${passenger.lastName}` : line.passengerName}</span>
+                <span>{getSeatClassLabel(line.seatClass)}</span>
+                <span>Seat: {passenger?.seatNumber || 'TBD'}</span>
+                <span>{price(line.total)}</span>
+              </div>
+              <div className="fare-line-details">
+                <span>Base fare {price(line.baseFare)}</span>
+                <span>Taxes {price(line.taxes)}</span>
+                {line.fees.map(fee => (
+                  <span key={fee.code}>{fee.description} {price(fee.amount)}</span>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="fare-totals">
+        <div><span>Base fare</span><span>{price(quote.baseFare)}</span></div>
+        <div><span>Taxes</span><span>{price(quote.taxes)}</span></div>
+        <div><span>Fees</span><span>{price(quote.fees)}</span></div>
+      </div>
+      <div className="total">
+        <strong>Total: {price(quote.total)}</strong>
+      </div>
+      {pointsToRedeem > 0 && (
+        <div className="fare-totals">
+          <div><span>Paid with {formatPoints(pointsToRedeem)} points</span><span>−{price(pointsValue)}</span></div>
+          <div><strong>Charged to card</strong><strong>{price(Math.max(0, quote.total - pointsValue))}</strong></div>
+        </div>
+      )}
+      <PointsEarned quote={quote} amountPaid={Math.max(0, quote.total - pointsValue)} />
+    </div>
+  );
+};
+
+export default FareSummary;
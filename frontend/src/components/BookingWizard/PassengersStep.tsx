@@ -0,0 +1,114 @@
+import React from 'react';
+import { PassengerRequest } from '../../services/api';
+import { fieldErrorsFor } from '../../services/apiErrors';
+import { BookingStepProps, createPassenger } from './types';
+import { SEAT_CLASS_OPTIONS } from './fares';
+import FareSummary from './FareSummary';
+
+const PassengersStep: React.FC<BookingStepProps> = ({ draft, onDraftChange, fieldErrors, onClearFieldError, quote, isQuoting, quoteError }) => {
+  const { passengers } = draft;
+
+  const handlePassengerChange = <K extends keyof PassengerRequest>(index: number, field: K, value: PassengerRequest[K]) => {
+    const updatedPassengers = [...passengers];
+    updatedPassengers[index] = { ...updatedPassengers[index], [field]: value };
+    // A seat picked for the old class is no longer valid
+    if (field === 'seatClass' && value !== passengers[index].seatClass) {
+      updatedPassengers[index].seatNumber = undefined;
+    }
+    onDraftChange({ ...draft, passengers: updatedPassengers });
+    onClearFieldError(`passengers[${index}].${field}`);
+  };
+
+  const addPassenger = () => {
+    onDraftChange({ ...draft, passengers: [...passengers, createPassenger()] });
+  };
+
+  const removePassenger = (index: number) => {
+    if (passengers.length > 1) {
+      // The passenger's seat goes with them
+      onDraftChange({ ...draft, passengers: passengers.filter((_, i) => i !== index) });
+    }
+  };
+
+  return (
+    <div className="passenger-info">
+      <h2>Passenger Information</h2>
+      {passengers.map((passenger, index) => {
+        const passengerErrors = fieldErrorsFor(fieldErrors, `passengers[${index}]`);
+        return (
+          <div key={index} className="passenger-form">
+            <h3>Passenger {index + 1}</h3>
+            <div className="form-row">
+              <div className="form-group">
+                <label>First Name</label>
+                <input
+                  type="text"
+                  value={passenger.firstName}
+                  onChange={(e) => handlePassengerChange(index, 'firstName', e.target.value)}
+                  className={passengerErrors.firstName ? 'input-error' : ''}
+                  required
+                />
+                {passengerErrors.firstName && <div className="field-error">{passengerErrors.firstName}</div>}
+              </div>
+              <div className="form-group">
+                <label>Last Name</label>
+                <input
+                  type="text"
+                  value={passenger.lastName}
+                  onChange={(e) => handlePassengerChange(index, 'lastName', e.target.value)}
+                  className={passengerErrors.lastName ? 'input-error' : ''}
+                  required
+                />
+                {passengerErrors.lastName && <div className="field-error">{passengerErrors.lastName}</div>}
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label>Date of Birth</label>
+                <input
+                  type="date"
+                  value={passenger.dateOfBirth}
+                  onChange={(e) => handlePassengerChange(index, 'dateOfBirth', e.target.value)}
+                  className={passengerErrors.dateOfBirth ? 'input-error' : ''}
+                />
+                {passengerErrors.dateOfBirth && <div className="field-error">{passengerErrors.dateOfBirth}</div>}
+              </div>
+              <div className="form-group">
+                <label>Seat Class</label>
+                <select
+                  value={passenger.seatClass}
+                  onChange={(e) => handlePassengerChange(index, 'seatClass', e.target.value as PassengerRequest['seatClass'])}
+                >
+                  {SEAT_CLASS_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {passengers.length > 1 && (
+              <button
+                type="button"
+                className="btn btn-danger btn-sm"
+                onClick={() => removePassenger(index)}
+              >
+                Remove Passenger
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        className="btn btn-secondary"
+        onClick={addPassenger}
+      >
+        Add Another Passenger
+      </button>
+      <FareSummary quote={quote} isQuoting={isQuoting} quoteError={quoteError} passengers={passengers} compact />
+    </div>
+  );
+};
+
+export default PassengersStep;
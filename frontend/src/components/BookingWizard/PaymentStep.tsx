@@ -0,0 +1,43 @@
+import React from 'react';
+import { BookingStepProps } from './types';
+import { formatPrice } from './fares';
+import CardDetailsFields from './CardDetailsFields';
+import PointsEarned from './PointsEarned';
+import PointsPayment from './PointsPayment';
+import { getAmountDue, isCoveredByPoints } from './points';
+
+const PaymentStep: React.FC<BookingStepProps> = ({ draft, onDraftChange, fieldErrors, onClearFieldError, quote }) => (
+  <div className="payment-step">
+    <h2>Payment Information</h2>
+    <div className="payment-form">
+      {quote && (
+        <PointsPayment
+          draft={draft}
+          onDraftChange={onDraftChange}
+          quote={quote}
+          fieldErrors={fieldErrors}
+          onClearFieldError={onClearFieldError}
+        />
+      )}
+      {isCoveredByPoints(draft, quote) ? (
+        <p className="points-covered">Your points cover the whole fare, so no card is needed.</p>
+      ) : (
+        <>
+          <h3>Card Details</h3>
+          <CardDetailsFields
+            payment={draft.payment}
+            onChange={(payment) => onDraftChange({ ...draft, payment })}
+            fieldErrors={fieldErrors}
+            onClearFieldError={onClearFieldError}
+          />
+        </>
+      )}
+      <div className="total">
+        <strong>Amount to pay: {quote ? formatPrice(getAmountDue(draft, quote), quote.currency) : '...'}</strong>
+      </div>
+      <PointsEarned quote={quote} amountPaid={quote ? getAmountDue(draft, quote) : undefined} />
+    </div>
+  </div>
+);
+
+export default PaymentStep;
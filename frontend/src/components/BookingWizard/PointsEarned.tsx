@@ -0,0 +1,31 @@
+import React from 'react';
+import { FareQuote } from '../../services/api';
+import { formatMiles, formatPoints, TIER_LABELS } from '../Loyalty/tiers';
+
+interface PointsEarnedProps {
+  quote: FareQuote | null;
+  // The cash part of the total when paying partly with points; only cash earns points
+  amountPaid?: number;
+}
+
+// What the booking will add to the customer's loyalty account once the flight has landed
+const PointsEarned: React.FC<PointsEarnedProps> = ({ quote, amountPaid }) => {
+  const earning = quote?.loyaltyEarning;
+  if (!earning) return null;
+
+  // An estimate; the server works it out from the amount actually paid once the flight lands
+  const points = amountPaid !== undefined && quote.total > 0
+    ? Math.floor(earning.points * Math.min(1, amountPaid / quote.total))
+    : earning.points;
+
+  return (
+    <div className="points-earned">
+      ⭐ Earn <strong>{formatPoints(points)} points</strong> and {formatMiles(earning.miles)} toward your tier
+      {earning.pointsMultiplier > 1 && (
+        <span> · includes your {TIER_LABELS[earning.tier]} bonus of {Math.round((earning.pointsMultiplier - 1) * 100)}%</span>
+      )}
+    </div>
+  );
+};
+
+export default PointsEarned;
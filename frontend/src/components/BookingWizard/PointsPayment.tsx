@@ -0,0 +1,78 @@
+import React from 'react';
+import { FareQuote } from '../../services/api';
+import { FieldErrors } from '../../services/apiErrors';
+import { formatPoints } from '../Loyalty/tiers';
+import { formatPrice } from './fares';
+import { getAmountDue, getPointsToRedeem, getPointsValue, POINTS_STEP } from './points';
+import { BookingDraft } from './types';
+
+interface PointsPaymentProps {
+  draft: BookingDraft;
+  onDraftChange: (draft: BookingDraft) => void;
+  quote: FareQuote;
+  fieldErrors: FieldErrors;
+  onClearFieldError: (path: string) => void;
+}
+
+// Points-plus-cash: how many loyalty points go toward the fare, with the card amount updating as the slider moves
+const PointsPayment: React.FC<PointsPaymentProps> = ({ draft, onDraftChange, quote, fieldErrors, onClearFieldError }) => {
+  const redemption = quote.pointsRedemption;
+  if (!redemption || redemption.availablePoints <= 0) return null;
+
+  const points = getPointsToRedeem(draft, quote);
+  const price = (amount: number) => formatPrice(amount, quote.currency);
+
+  const setPoints = (value: number) => {
+    const clamped = Math.max(0, Math.min(redemption.maxPoints, Math.floor(value) || 0));
+    onDraftChange({ ...draft, pointsToRedeem: clamped });
+    onClearFieldError('pointsToRedeem');
+  };
+
+  return (
+    <div className="points-payment">
+      <h3>Pay with Points</h3>
+      <p className="points-balance">
+        You have <strong>{formatPoints(redemption.availablePoints)} points</strong>.
+        Each point is worth {price(redemption.pointValue)} toward this fare.
+      </p>
+      <div className="points-payment-controls">
+        <input
+          type="range"
+          aria-label="Points to redeem"
+          min={0}
+          max={redemption.maxPoints}
+          step={POINTS_STEP}
+          value={points}
+          onChange={(e) => setPoints(Number(e.target.value))}
+        />
+        <div className="form-group">
+          <label htmlFor="points-to-redeem">Points</label>
+          <input
+            id="points-to-redeem"
+            type="number"
+            min={0}
+            max={redemption.maxPoints}
+            step={POINTS_STEP}
+            value={points}
+            onChange={(e) => setPoints(Number(e.target.value))}
+            className={fieldErrors.pointsToRedeem ? 'input-error' : ''}
+          />
+        </div>
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={() => setPoints(points === redemption.maxPoints ? 0 : redemption.maxPoints)}
+        >
+          {points === redemption.maxPoints ? 'Clear' : 'Use maximum'}
+        </button>
+      </div>
+      {fieldErrors.pointsToRedeem && <div className="field-error">{fieldErrors.pointsToRedeem}</div>}
+      <div className="points-conversion">
+        <span>{formatPoints(points)} points = −{price(getPointsValue(points, quote))}</span>
+        <span>Card pays {price(getAmountDue(draft, quote))}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PointsPayment;
@@ -0,0 +1,62 @@
+import React, { useState, useEffect } from 'react';
+import { apiService, WeatherResponse } from '../../services/api';
+import WeatherDisplay from '../WeatherDisplay';
+import { BookingStepProps } from './types';
+import FareSummary from './FareSummary';
+import { getPointsToRedeem } from './points';
+
+const ReviewStep: React.FC<BookingStepProps> = ({ flight, draft, quote, isQuoting, quoteError }) => {
+  const { passengers, flightDate } = draft;
+  const [weatherData, setWeatherData] = useState<WeatherResponse | null>(null);
+  const [weatherLoading, setWeatherLoading] = useState(true);
+
+  useEffect(() => {
+    const loadWeatherData = async () => {
+      try {
+        setWeatherLoading(true);
+        setWeatherData(await apiService.getFlightWeather(flight.flightNumber, new Date(flightDate)));
+      } catch (error) {
+        console.error('Failed to load weather data:', error);
+      } finally {
+        setWeatherLoading(false);
+      }
+    };
+
+    loadWeatherData();
+  }, [flight.flightNumber, flightDate]);
+
+  return (
+    <div className="review-step">
+      <h2>Review Your Booking</h2>
+      <FareSummary
+        quote={quote}
+        isQuoting={isQuoting}
+        quoteError={quoteError}
+        passengers={passengers}
+        pointsToRedeem={getPointsToRedeem(draft, quote)}
+      />
+
+      <div className="weather-section">
+        <h3>🌤️ Weather Information</h3>
+        <div className="weather-displays">
+          <WeatherDisplay
+            title="Departure Weather"
+            location={flight.originAirport}
+            weather={weatherData?.originWeather || null}
+            isLoading={weatherLoading}
+            error={weatherData === null && !weatherLoading ? 'Weather data unavailable' : undefined}
+          />
+          <WeatherDisplay
+            title="Arrival Weather"
+            location={flight.destinationAirport}
+            weather={weatherData?.destinationWeather || null}
+            isLoading={weatherLoading}
+            error={weatherData === null && !weatherLoading ? 'Weather data unavailable' : undefined}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewStep;
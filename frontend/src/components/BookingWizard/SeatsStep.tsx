@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import SeatMap from '../SeatMap';
+import { PassengerRequest, Seat } from '../../services/api';
+import { BookingStepProps } from './types';
+import { getSeatClassLabel } from './fares';
+
+// Drag data type for passenger cards, so they are never mistaken for seats dragged on the map
+const PASSENGER_DRAG_TYPE = 'application/x-passenger-index';
+
+const getPassengerName = (passenger: PassengerRequest, index: number) =>
+  `${passenger.firstName} ${passenger.lastName}`.trim() || `Passenger ${index + 1}`;
+
+// The first passenger at or after `from` still waiting for a seat, wrapping around
+const findUnseatedPassenger = (passengers: PassengerRequest[], from: number) => {
+  for (let offset = 0; offset < passengers.length; offset++) {
+    const index = (from + offset) % passengers.length;
+    if (!passengers[index].seatNumber) return index;
+  }
+  return -1;
+};
+
+const SeatsStep: React.FC<BookingStepProps> = ({
+  flight,
+  draft,
+  onDraftChange,
+  fieldErrors,
+  onClearFieldError,
+  unavailableSeats,
+  holdExpiries
+}) => {
+  const { passengers } = draft;
+  const [activeIndex, setActiveIndex] = useState(() => Math.max(findUnseatedPassenger(passengers, 0), 0));
+  const [assignError, setAssignError] = useState('');
+  const [draggedPassenger, setDraggedPassenger] = useState<number | null>(null);
+
+  const activePassenger = passengers[activeIndex] ?? passengers[0];
+  // Assigned seats show the number of the passenger sitting there
+  const seatLabels = passengers.reduce<Record<string, string>>((labels, passenger, index) => {
+    if (passenger.seatNumber) labels[passenger.seatNumber] = String(index + 1);
+    return labels;
+  }, {});
+
+  const findSeatOwner = (seatNumber: string) => passengers.findIndex(passenger => passenger.seatNumber === seatNumber);
+
+  // Applies seat changes keyed by passenger index; undefined clears the passenger's seat
+  const updateSeats = (changes: Record<number, string | undefined>) => {
+    const updated = passengers.map((passenger, index) =>
+      index in changes ? { ...passenger, seatNumber: changes[index] } : passenger
+    );
+    onDraftChange({ ...draft, passengers: updated });
+    Object.keys(changes).forEach(index => onClearFieldError(`passengers[${index}].seatNumber`));
+    onClearFieldError('selectedSeats');
+    setAssignError('');
+    return updated;
+  };
+
+  // Seats are validated against each passenger's class when assigned, so two passengers
+  // can only trade seats when they are booked in the same cabin
+  const swapSeats = (first: number, second: number) => {
+    const a = passengers[first];
+    const b = passengers[second];
+    if (a.seatClass !== b.seatClass) {
+      setAssignError(
+        `${getPassengerName(a, first)} (${getSeatClassLabel(a.seatClass)}) and ${getPassengerName(b, second)} ` +
+        `(${getSeatClassLabel(b.seatClass)}) are booked in different cabins and cannot swap seats`
+      );
+      return;
+    }
+    updateSeats({ [first]: b.seatNumber, [second]: a.seatNumber });
+  };
+
+  const moveSeat = (index: number, seat: Seat) => {
+    const passenger = passengers[index];
+    if (seat.class !== passenger.seatClass) {
+      setAssignError(
+        `Seat ${seat.number} is in ${getSeatClassLabel(seat.class)}, but ${getPassengerName(passenger, index)} ` +
+        `is booked in ${getSeatClassLabel(passenger.seatClass)}`
+      );
+      return null;
+    }
+    return updateSeats({ [index]: seat.number });
+  };
+
+  const handleSeatSelect = (seat: Seat) => {
+    const owner = findSeatOwner(seat.number);
+    if (owner === activeIndex) {
+      updateSeats({ [activeIndex]: undefined });
+    } else if (owner >= 0) {
+      swapSeats(activeIndex, owner);
+    } else {
+      const updated = moveSeat(activeIndex, seat);
+      // Move straight on to the next passenger still without a seat
+      if (updated) {
+        const next = findUnseatedPassenger(updated, activeIndex + 1);
+        if (next >= 0) setActiveIndex(next);
+      }
+    }
+  };
+
+  const handleSeatDrop = (fromSeat: string, toSeat: Seat) => {
+    const from = findSeatOwner(fromSeat);
+    if (from < 0) return;
+    const to = findSeatOwner(toSeat.number);
+    if (to >= 0) {
+      swapSeats(from, to);
+    } else {
+      moveSeat(from, toSeat);
+    }
+  };
+
+  const handlePassengerDrop = (event: React.DragEvent, index: number) => {
+    event.preventDefault();
+    const from = Number(event.dataTransfer.getData(PASSENGER_DRAG_TYPE));
+    setDraggedPassenger(null);
+    if (!Number.isNaN(from) && from !== index) {
+      swapSeats(from, index);
+    }
+  };
+
+  const selectPassenger = (index: number) => {
+    setActiveIndex(index);
+    setAssignError('');
+  };
+
+  return (
+    <div className="seat-selection">
+      <h2>Select Seats</h2>
+      <p>
+        Assigning seat for <strong>Passenger {activeIndex + 1}: {getPassengerName(activePassenger, activeIndex)}</strong>
+        {' '}({getSeatClassLabel(activePassenger.seatClass)})
+      </p>
+      <div className="seat-assignments">
+        {passengers.map((passenger, index) => {
+          const seatError = fieldErrors[`passengers[${index}].seatNumber`];
+          return (
+            <div
+              key={index}
+              role="button"
+              tabIndex={0}
+              aria-pressed={index === activeIndex}
+              className={[
+                'seat-assignment',
+                index === activeIndex ? 'active' : '',
+                seatError ? 'has-error' : '',
+                draggedPassenger !== null && draggedPassenger !== index ? 'drop-target' : ''
+              ].filter(Boolean).join(' ')}
+              onClick={() => selectPassenger(index)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  selectPassenger(index);
+                }
+              }}
+              draggable={!!passenger.seatNumber}
+              onDragStart={(e) => {
+                e.dataTransfer.setData(PASSENGER_DRAG_TYPE, String(index));
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedPassenger(index);
+              }}
+              onDragEnd={() => setDraggedPassenger(null)}
+              onDragOver={(e) => {
+                if (draggedPassenger !== null && draggedPassenger !== index) e.preventDefault();
+              }}
+              onDrop={(e) => handlePassengerDrop(e, index)}
+            >
+              <span className="seat-assignment-passenger">{index + 1}. {getPassengerName(passenger, index)}</span>
+              <span className="seat-assignment-class">{getSeatClassLabel(passenger.seatClass)}</span>
+              <span className="seat-assignment-seat">{passenger.seatNumber || 'No seat'}</span>
+              {seatError && <span className="field-error">{seatError}</span>}
+            </div>
+          );
+        })}
+      </div>
+      {passengers.length > 1 && (
+        <p className="seat-assignment-hint">
+          Drag one passenger onto another to swap their seats, or select another passenger's seat on the map.
+        </p>
+      )}
+      {(assignError || fieldErrors.selectedSeats) && (
+        <div className="error-message" role="alert">{assignError || fieldErrors.selectedSeats}</div>
+      )}
+      <SeatMap
+        flightNumber={flight.flightNumber}
+        flightDate={draft.flightDate}
+        onSeatSelect={handleSeatSelect}
+        selectedSeats={Object.keys(seatLabels)}
+        seatClass={activePassenger.seatClass}
+        unavailableSeats={unavailableSeats}
+        holdExpiries={holdExpiries}
+        seatLabels={seatLabels}
+        activeSeat={activePassenger.seatNumber}
+        onSeatDrop={handleSeatDrop}
+      />
+    </div>
+  );
+};
+
+export default SeatsStep;
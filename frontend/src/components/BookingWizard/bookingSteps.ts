@@ -0,0 +1,47 @@
+import { BookingStep, BookingStepId } from './types';
+import PassengersStep from './PassengersStep';
+import SeatsStep from './SeatsStep';
+import ExtrasStep from './ExtrasStep';
+import PaymentStep from './PaymentStep';
+import ReviewStep from './ReviewStep';
+import { validatePaymentDetails } from './payment';
+import { isCoveredByPoints } from './points';
+
+// The wizard renders these in order; add, remove or reorder entries to change the flow
+export const BOOKING_STEPS: BookingStep[] = [
+  {
+    id: 'passengers',
+    title: 'Passengers',
+    component: PassengersStep,
+    isComplete: draft => draft.passengers.every(p => p.firstName.trim() && p.lastName.trim())
+  },
+  {
+    id: 'seats',
+    title: 'Seats',
+    component: SeatsStep,
+    isComplete: draft => draft.passengers.every(p => !!p.seatNumber)
+  },
+  {
+    id: 'extras',
+    title: 'Extras',
+    component: ExtrasStep,
+    isComplete: () => true
+  },
+  {
+    id: 'payment',
+    title: 'Payment',
+    component: PaymentStep,
+    // No card is needed when points cover the whole fare
+    isComplete: (draft, quote) =>
+      isCoveredByPoints(draft, quote) || Object.keys(validatePaymentDetails(draft.payment)).length === 0
+  },
+  {
+    id: 'review',
+    title: 'Review',
+    component: ReviewStep,
+    isComplete: () => true
+  }
+];
+
+export const getStepIndex = (steps: BookingStep[], id: BookingStepId) =>
+  Math.max(steps.findIndex(step => step.id === id), 0);
@@ -0,0 +1,17 @@
+import { SeatClass } from '../../services/api';
+
+// Mirrors the per-passenger limit BookingService validates against
+export const MAX_CHECKED_BAGS = 3;
+
+export const SEAT_CLASS_OPTIONS: { value: SeatClass; label: string }[] = [
+  { value: 'Economy', label: 'Economy' },
+  { value: 'PremiumEconomy', label: 'Premium Economy' },
+  { value: 'Business', label: 'Business' },
+  { value: 'First', label: 'First Class' }
+];
+
+export const getSeatClassLabel = (seatClass: SeatClass) =>
+  SEAT_CLASS_OPTIONS.find(option => option.value === seatClass)?.label ?? seatClass;
+
+export const formatPrice = (amount: number, currency = 'USD') =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
@@ -0,0 +1,196 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  createPaymentDetails,
+  detectCardBrand,
+  formatCardNumber,
+  formatExpiry,
+  isExpired,
+  isLuhnValid,
+  parseExpiry,
+  PaymentDetails,
+  toPaymentInfo,
+  validatePaymentDetails
+} from './payment';
+
+// MM/YY for the month `offset` months from now
+const expiryFromNow = (offset: number) => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + offset);
+  return `${String(date.getMonth() + 1).padStart(2, '0')}/${String(date.getFullYear() % 100).padStart(2, '0')}`;
+};
+
+const validPayment = (overrides: Partial<PaymentDetails> = {}): PaymentDetails => ({
+  cardNumber: '4242 4242 4242 4242',
+  cardHolderName: 'Test Traveller',
+  expiry: expiryFromNow(24),
+  cvv: '123',
+  ...overrides
+});
+
+describe('detectCardBrand', () => {
+  it.each([
+    ['4242424242424242', 'visa'],
+    ['5555555555554444', 'mastercard'],
+    ['2223003122003222', 'mastercard'],
+    ['378282246310005', 'amex'],
+    ['3411', 'amex'],
+    ['6011111111111117', 'discover'],
+    ['6500000000000002', 'discover'],
+    ['1234567812345670', 'unknown'],
+    ['', 'unknown']
+  ])('recognises %s as %s', (cardNumber, brand) => {
+    expect(detectCardBrand(cardNumber)).toBe(brand);
+  });
+});
+
+describe('isLuhnValid', () => {
+  it.each(['4242424242424242', '4242 4242 4242 4242', '378282246310005', '6011111111111117'])('accepts %s', cardNumber => {
+    expect(isLuhnValid(cardNumber)).toBe(true);
+  });
+
+  it.each([
+    ['a wrong check digit', '4242424242424241'],
+    ['too few digits', '42424242420'],
+    ['too many digits', '42424242424242424242'],
+    ['no digits', '']
+  ])('rejects %s', (_, cardNumber) => {
+    expect(isLuhnValid(cardNumber)).toBe(false);
+  });
+});
+
+describe('formatCardNumber', () => {
+  it('groups digits in fours', () => {
+    expect(formatCardNumber('4242424242424242')).toBe('4242 4242 4242 4242');
+  });
+
+  it('groups partial numbers as they are typed', () => {
+    expect(formatCardNumber('42424')).toBe('4242 4');
+    expect(formatCardNumber('4242')).toBe('4242');
+  });
+
+  it('groups Amex numbers 4-6-5', () => {
+    expect(formatCardNumber('378282246310005')).toBe('3782 822463 10005');
+    expect(formatCardNumber('37828')).toBe('3782 8');
+  });
+
+  it('drops anything that is not a digit', () => {
+    expect(formatCardNumber('4242-4242 abc 4242')).toBe('4242 4242 4242');
+  });
+
+  it('stops at the length printed on the card for the brand', () => {
+    expect(formatCardNumber('42424242424242421234')).toBe('4242 4242 4242 4242');
+    expect(formatCardNumber('3782822463100059999')).toBe('3782 822463 10005');
+  });
+});
+
+describe('formatExpiry', () => {
+  it.each([
+    ['1', '1'],
+    ['12', '12'],
+    ['123', '12/3'],
+    ['1228', '12/28'],
+    ['12/28', '12/28'],
+    ['122830', '12/28']
+  ])('formats %s as %s', (typed, formatted) => {
+    expect(formatExpiry(typed)).toBe(formatted);
+  });
+});
+
+describe('parseExpiry', () => {
+  it('reads MM/YY as a four digit year', () => {
+    expect(parseExpiry('07/28')).toEqual({ month: 7, year: 2028 });
+    expect(parseExpiry(' 12/30 ')).toEqual({ month: 12, year: 2030 });
+  });
+
+  it.each(['', '7/28', '0728', '00/28', '13/28', '07/2028'])('rejects %p', expiry => {
+    expect(parseExpiry(expiry)).toBeNull();
+  });
+});
+
+describe('isExpired', () => {
+  const now = new Date(2026, 5, 30, 23, 59);
+
+  it('treats cards as valid through the end of their expiry month', () => {
+    expect(isExpired(6, 2026, now)).toBe(false);
+    expect(isExpired(7, 2026, now)).toBe(false);
+    expect(isExpired(1, 2027, now)).toBe(false);
+  });
+
+  it('treats earlier months as expired', () => {
+    expect(isExpired(5, 2026, now)).toBe(true);
+    expect(isExpired(12, 2025, now)).toBe(true);
+  });
+});
+
+describe('validatePaymentDetails', () => {
+  it('accepts complete card details', () => {
+    expect(validatePaymentDetails(validPayment())).toEqual({});
+  });
+
+  it('accepts a card expiring this month', () => {
+    expect(validatePaymentDetails(validPayment({ expiry: expiryFromNow(0) }))).toEqual({});
+  });
+
+  it('reports each invalid field under the same keys as the server', () => {
+    const errors = validatePaymentDetails({ cardNumber: '4242 4242 4242 4241', cardHolderName: ' ', expiry: '13/28', cvv: '12' });
+
+    expect(errors).toEqual({
+      'paymentInfo.cardNumber': 'Enter a valid card number',
+      'paymentInfo.cardHolderName': 'Cardholder name is required',
+      'paymentInfo.expiryMonth': 'Enter the expiry date as MM/YY',
+      'paymentInfo.cvv': 'Enter the 3-digit security code'
+    });
+  });
+
+  it('rejects card brands that are not accepted', () => {
+    expect(validatePaymentDetails(validPayment({ cardNumber: '1234 5678 1234 5670' }))).toEqual({
+      'paymentInfo.cardNumber': 'We accept Visa, Mastercard, American Express and Discover'
+    });
+  });
+
+  it('rejects expired cards', () => {
+    expect(validatePaymentDetails(validPayment({ expiry: expiryFromNow(-1) }))).toEqual({
+      'paymentInfo.expiryYear': 'This card has expired'
+    });
+  });
+
+  it('expects a four digit security code for Amex', () => {
+    const amex = validPayment({ cardNumber: '3782 822463 10005' });
+
+    expect(validatePaymentDetails({ ...amex, cvv: '1234' })).toEqual({});
+    expect(validatePaymentDetails({ ...amex, cvv: '123' })).toEqual({
+      'paymentInfo.cvv': 'Enter the 4-digit security code'
+    });
+  });
+
+  it('rejects security codes with other characters', () => {
+    expect(validatePaymentDetails(validPayment({ cvv: '12a' }))).toEqual({
+      'paymentInfo.cvv': 'Enter the 3-digit security code'
+    });
+  });
+});
+
+describe('createPaymentDetails', () => {
+  it('prefills the cardholder name from the traveller', () => {
+    expect(createPaymentDetails({ firstName: 'Ada', lastName: 'Lovelace' }).cardHolderName).toBe('Ada Lovelace');
+  });
+
+  it('starts empty without a name', () => {
+    expect(createPaymentDetails(null)).toEqual({ cardNumber: '', cardHolderName: '', expiry: '', cvv: '' });
+  });
+});
+
+describe('toPaymentInfo', () => {
+  it('sends the card number as digits and the expiry as numbers', () => {
+    const info = toPaymentInfo({ cardNumber: '4242 4242 4242 4242', cardHolderName: ' Test Traveller ', expiry: '07/28', cvv: '123' });
+
+    expect(info).toEqual({
+      cardNumber: '4242424242424242',
+      cardHolderName: 'Test Traveller',
+      expiryMonth: 7,
+      expiryYear: 2028,
+      cvv: '123'
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { PaymentInfo } from '../../services/api';
+import { FieldErrors } from '../../services/apiErrors';
+
+export type CardBrand = 'visa' | 'mastercard' | 'amex' | 'discover' | 'unknown';
+
+// What the payment form holds; converted to PaymentInfo when the booking is submitted
+export interface PaymentDetails {
+  cardNumber: string;
+  cardHolderName: string;
+  // MM/YY as typed
+  expiry: string;
+  cvv: string;
+}
+
+export const CARD_BRAND_LABELS: Record<CardBrand, string> = {
+  visa: 'Visa',
+  mastercard: 'Mastercard',
+  amex: 'American Express',
+  discover: 'Discover',
+  unknown: 'Card'
+};
+
+export const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+// Mirrors CardValidator.DetectBrand on the server
+export const detectCardBrand = (cardNumber: string): CardBrand => {
+  const digits = digitsOnly(cardNumber);
+  if (/^3[47]/.test(digits)) return 'amex';
+  if (/^4/.test(digits)) return 'visa';
+  if (/^5[1-5]/.test(digits)) return 'mastercard';
+  const firstFour = Number(digits.slice(0, 4));
+  if (digits.length >= 4 && firstFour >= 2221 && firstFour <= 2720) return 'mastercard';
+  if (/^(6011|65)/.test(digits)) return 'discover';
+  return 'unknown';
+};
+
+export const getCardNumberLength = (brand: CardBrand) => (brand === 'amex' ? 15 : 16);
+
+export const getCvvLength = (brand: CardBrand) => (brand === 'amex' ? 4 : 3);
+
+export const isLuhnValid = (cardNumber: string) => {
+  const digits = digitsOnly(cardNumber);
+  if (digits.length < 12 || digits.length > 19) return false;
+
+  let sum = 0;
+  let doubleDigit = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i]);
+    if (doubleDigit) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    doubleDigit = !doubleDigit;
+  }
+  return sum % 10 === 0;
+};
+
+// Groups digits the way they are printed on the card: 4-6-5 for Amex, blocks of four otherwise
+export const formatCardNumber = (value: string) => {
+  const brand = detectCardBrand(value);
+  const maxLength = brand === 'unknown' ? 19 : getCardNumberLength(brand);
+  const digits = digitsOnly(value).slice(0, maxLength);
+  if (brand === 'amex') {
+    return [digits.slice(0, 4), digits.slice(4, 10), digits.slice(10)].filter(Boolean).join(' ');
+  }
+  return digits.replace(/(\d{4})(?=\d)/g, '$1 ');
+};
+
+export const formatExpiry = (value: string) => {
+  const digits = digitsOnly(value).slice(0, 4);
+  return digits.length > 2 ? `${digits.slice(0, 2)}/${digits.slice(2)}` : digits;
+};
+
+export const parseExpiry = (expiry: string): { month: number; year: number } | null => {
+  const match = /^(\d{2})\/(\d{2})$/.exec(expiry.trim());
+  if (!match) return null;
+  const month = Number(match[1]);
+  if (month < 1 || month > 12) return null;
+  return { month, year: 2000 + Number(match[2]) };
+};
+
+// Cards are valid through the last day of their expiry month
+export const isExpired = (month: number, year: number, now = new Date()) =>
+  year < now.getFullYear() || (year === now.getFullYear() && month < now.getMonth() + 1);
+
+export const createPaymentDetails = (name?: { firstName: string; lastName: string } | null): PaymentDetails => ({
+  cardNumber: '',
+  cardHolderName: name ? `${name.firstName} ${name.lastName}`.trim() : '',
+  expiry: '',
+  cvv: ''
+});
+
+// Errors are keyed like the server's, e.g. "paymentInfo.cardNumber", so both can share one display
+export const validatePaymentDetails = (payment: PaymentDetails): FieldErrors => {
+  const errors: FieldErrors = {};
+  const brand = detectCardBrand(payment.cardNumber);
+
+  if (!isLuhnValid(payment.cardNumber)) {
+    errors['paymentInfo.cardNumber'] = 'Enter a valid card number';
+  } else if (brand === 'unknown') {
+    errors['paymentInfo.cardNumber'] = 'We accept Visa, Mastercard, American Express and Discover';
+  }
+
+  if (!payment.cardHolderName.trim()) {
+    errors['paymentInfo.cardHolderName'] = 'Cardholder name is required';
+  }
+
+  const expiry = parseExpiry(payment.expiry);
+  if (!expiry) {
+    errors['paymentInfo.expiryMonth'] = 'Enter the expiry date as MM/YY';
+  } else if (isExpired(expiry.month, expiry.year)) {
+    errors['paymentInfo.expiryYear'] = 'This card has expired';
+  }
+
+  if (!/^\d+$/.test(payment.cvv) || payment.cvv.length !== getCvvLength(brand)) {
+    errors['paymentInfo.cvv'] = `Enter the ${getCvvLength(brand)}-digit security code`;
+  }
+
+  return errors;
+};
+
+export const toPaymentInfo = (payment: PaymentDetails): PaymentInfo => {
+  const expiry = parseExpiry(payment.expiry);
+  return {
+    cardNumber: digitsOnly(payment.cardNumber),
+    cardHolderName: payment.cardHolderName.trim(),
+    expiryMonth: expiry?.month ?? 0,
+    expiryYear: expiry?.year ?? 0,
+    cvv: payment.cvv
+  };
+};
@@ -0,0 +1,20 @@
+import { FareQuote } from '../../services/api';
+import { BookingDraft } from './types';
+
+// Redemptions move in steps of this many points, except to reach the maximum
+export const POINTS_STEP = 100;
+
+// The points the draft would actually redeem, capped at what the latest quote allows
+export const getPointsToRedeem = (draft: BookingDraft, quote: FareQuote | null) =>
+  Math.max(0, Math.min(draft.pointsToRedeem, quote?.pointsRedemption?.maxPoints ?? 0));
+
+// Whole cents, the same as LoyaltyService.PointValue × points on the server
+export const getPointsValue = (points: number, quote: FareQuote) =>
+  Math.round(points * (quote.pointsRedemption?.pointValue ?? 0) * 100) / 100;
+
+// What is left to charge to the card after points
+export const getAmountDue = (draft: BookingDraft, quote: FareQuote) =>
+  Math.max(0, Math.round((quote.total - getPointsValue(getPointsToRedeem(draft, quote), quote)) * 100) / 100);
+
+export const isCoveredByPoints = (draft: BookingDraft, quote: FareQuote | null) =>
+  !!quote && getPointsToRedeem(draft, quote) > 0 && getAmountDue(draft, quote) === 0;
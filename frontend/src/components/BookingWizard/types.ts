@@ -0,0 +1,56 @@
+import React from 'react';
+import { FareQuote, FlightSummary, PassengerRequest } from '../../services/api';
+import { FieldErrors } from '../../services/apiErrors';
+import { PaymentDetails } from './payment';
+import { SeatHoldExpiries } from './useSeatHolds';
+
+export type BookingStepId = 'passengers' | 'seats' | 'extras' | 'payment' | 'review';
+
+// Everything the user has entered so far, shared by all steps
+export interface BookingDraft {
+  flightDate: string;
+  // Each passenger carries their own seat assignment
+  passengers: PassengerRequest[];
+  payment: PaymentDetails;
+  // Loyalty points toward the fare; the card pays the rest
+  pointsToRedeem: number;
+}
+
+export interface BookingStepProps {
+  flight: FlightSummary;
+  draft: BookingDraft;
+  onDraftChange: (draft: BookingDraft) => void;
+  fieldErrors: FieldErrors;
+  onClearFieldError: (path: string) => void;
+  unavailableSeats: string[];
+  holdExpiries: SeatHoldExpiries;
+  // Latest server quote for the draft; stays set while a re-quote is in flight
+  quote: FareQuote | null;
+  isQuoting: boolean;
+  quoteError: string;
+}
+
+export interface BookingStep {
+  id: BookingStepId;
+  title: string;
+  component: React.ComponentType<BookingStepProps>;
+  // Whether the user may move past this step
+  isComplete: (draft: BookingDraft, quote: FareQuote | null) => boolean;
+}
+
+export const createPassenger = (name?: { firstName: string; lastName: string } | null): PassengerRequest => ({
+  firstName: name?.firstName || '',
+  lastName: name?.lastName || '',
+  dateOfBirth: '',
+  seatClass: 'Economy',
+  checkedBags: 0
+});
+
+export const getAssignedSeats = (passengers: PassengerRequest[]) =>
+  passengers.map(passenger => passenger.seatNumber).filter((seat): seat is string => !!seat);
+
+// Clears the seat of any passenger sitting in one of the given seats
+export const unassignSeats = (passengers: PassengerRequest[], seats: string[]) =>
+  passengers.map(passenger =>
+    passenger.seatNumber && seats.includes(passenger.seatNumber) ? { ...passenger, seatNumber: undefined } : passenger
+  );
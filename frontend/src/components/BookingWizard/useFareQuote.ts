@@ -0,0 +1,51 @@
+import { useState, useEffect, useRef } from 'react';
+import { apiService, FareQuote } from '../../services/api';
+import { getErrorMessage } from '../../services/apiErrors';
+import { BookingDraft } from './types';
+
+const QUOTE_DEBOUNCE_MS = 300;
+
+// Keeps a server fare quote in step with the passengers, classes, seats and bags in the draft
+export const useFareQuote = (flightNumber: string | undefined, draft: BookingDraft) => {
+  const [quote, setQuote] = useState<FareQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [quoteError, setQuoteError] = useState('');
+  const latestRequest = useRef(0);
+  const passengersRef = useRef(draft.passengers);
+  passengersRef.current = draft.passengers;
+
+  // Only the fields that affect price trigger a re-quote, not every keystroke in a name
+  const pricingKey = JSON.stringify(draft.passengers.map(p => [p.seatClass, p.checkedBags, p.seatNumber]));
+
+  useEffect(() => {
+    if (!flightNumber) return;
+
+    const requestId = ++latestRequest.current;
+    setIsQuoting(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const result = await apiService.getFareQuote({
+          flightNumber,
+          flightDate: draft.flightDate,
+          passengers: passengersRef.current
+        });
+        if (requestId !== latestRequest.current) return;
+        setQuote(result);
+        setQuoteError('');
+      } catch (error) {
+        if (requestId !== latestRequest.current) return;
+        console.error('Failed to quote fare:', error);
+        setQuoteError(getErrorMessage(error, 'Unable to price this booking right now'));
+      } finally {
+        if (requestId === latestRequest.current) {
+          setIsQuoting(false);
+        }
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [flightNumber, draft.flightDate, pricingKey]);
+
+  return { quote, isQuoting, quoteError };
+};
@@ -0,0 +1,129 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useFlightUpdates } from '../../contexts/SignalRContext';
+import { apiService } from '../../services/api';
+import { ConflictError, getErrorMessage } from '../../services/apiErrors';
+
+export type HoldLostReason = 'taken' | 'expired';
+
+// Seat number -> ISO time the hold lapses
+export type SeatHoldExpiries = Record<string, string>;
+
+/**
+ * Keeps server-side seat holds in step with the seats selected in the draft: newly selected
+ * seats are held, deselected ones released, and everything is released when the page is left.
+ * Seats held or booked by other customers arrive live over the flight's hub group.
+ */
+export const useSeatHolds = (
+  flightNumber: string | undefined,
+  flightDate: string,
+  selectedSeats: string[],
+  onHoldLost: (seats: string[], reason: HoldLostReason, message?: string) => void
+) => {
+  const [holdExpiries, setHoldExpiries] = useState<SeatHoldExpiries>({});
+  const [seatsHeldByOthers, setSeatsHeldByOthers] = useState<string[]>([]);
+  const heldSeats = useRef(new Set<string>());
+  const selectedRef = useRef(selectedSeats);
+  const onHoldLostRef = useRef(onHoldLost);
+
+  useEffect(() => {
+    selectedRef.current = selectedSeats;
+    onHoldLostRef.current = onHoldLost;
+  }, [selectedSeats, onHoldLost]);
+
+  const forgetHold = useCallback((seat: string) => {
+    heldSeats.current.delete(seat);
+    setHoldExpiries(current => {
+      const remaining = { ...current };
+      delete remaining[seat];
+      return remaining;
+    });
+  }, []);
+
+  // Hold newly selected seats and release deselected ones
+  useEffect(() => {
+    if (!flightNumber) return;
+
+    selectedSeats
+      .filter(seat => !heldSeats.current.has(seat))
+      .forEach(async seat => {
+        heldSeats.current.add(seat);
+        try {
+          const hold = await apiService.holdSeat({ flightNumber, flightDate, seatNumber: seat });
+          if (selectedRef.current.includes(seat)) {
+            setHoldExpiries(current => ({ ...current, [seat]: hold.expiresAt }));
+          }
+        } catch (error) {
+          forgetHold(seat);
+          if (error instanceof ConflictError) {
+            onHoldLostRef.current([seat], 'taken', error.message);
+          } else {
+            console.error(`Failed to hold seat ${seat}:`, error);
+            onHoldLostRef.current([seat], 'taken', getErrorMessage(error, `Seat ${seat} could not be held`));
+          }
+        }
+      });
+
+    Array.from(heldSeats.current)
+      .filter(seat => !selectedSeats.includes(seat))
+      .forEach(seat => {
+        forgetHold(seat);
+        apiService.releaseSeatHold(flightNumber, seat, flightDate).catch(error => {
+          console.error(`Failed to release seat ${seat}:`, error);
+        });
+      });
+  }, [flightNumber, flightDate, selectedSeats, forgetHold]);
+
+  // Drop seats whose hold has run out; the server frees them at the same time
+  useEffect(() => {
+    const expiries = Object.entries(holdExpiries);
+    if (expiries.length === 0) return;
+
+    const nextExpiry = Math.min(...expiries.map(([, expiresAt]) => new Date(expiresAt).getTime()));
+    const timer = setTimeout(() => {
+      const expired = expiries
+        .filter(([, expiresAt]) => new Date(expiresAt).getTime() <= Date.now())
+        .map(([seat]) => seat);
+      if (expired.length > 0) {
+        expired.forEach(forgetHold);
+        onHoldLostRef.current(expired, 'expired');
+      }
+    }, Math.max(nextExpiry - Date.now(), 0));
+
+    return () => clearTimeout(timer);
+  }, [holdExpiries, forgetHold]);
+
+  // Release everything when the user navigates away or closes the tab
+  useEffect(() => {
+    if (!flightNumber) return;
+
+    const releaseAll = (keepalive: boolean) => {
+      if (heldSeats.current.size === 0) return;
+      heldSeats.current.clear();
+      apiService.releaseAllSeatHolds(flightNumber, flightDate, keepalive).catch(error => {
+        console.error('Failed to release seat holds:', error);
+      });
+    };
+
+    const handleUnload = () => releaseAll(true);
+    window.addEventListener('beforeunload', handleUnload);
+    return () => {
+      window.removeEventListener('beforeunload', handleUnload);
+      releaseAll(false);
+    };
+  }, [flightNumber, flightDate]);
+
+  useFlightUpdates(flightNumber, event => {
+    if (event.type !== 'SeatHoldChanged' || event.update.flightDate !== flightDate) return;
+
+    const { seatNumber, status } = event.update;
+    // Our own holds are echoed back to us too
+    if (selectedRef.current.includes(seatNumber)) return;
+
+    setSeatsHeldByOthers(current => {
+      const withoutSeat = current.filter(seat => seat !== seatNumber);
+      return status === 'Released' ? withoutSeat : [...withoutSeat, seatNumber];
+    });
+  });
+
+  return { holdExpiries, seatsHeldByOthers };
+};
@@ -0,0 +1,187 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { apiService, BookingDetailsResponse, CancelBookingResponse, CancellationQuote } from '../services/api';
+import { getErrorMessage } from '../services/apiErrors';
+import { formatPrice } from './BookingWizard/fares';
+import { formatPoints } from './Loyalty/tiers';
+import './CancelBookingDialog.css';
+
+interface CancelBookingDialogProps {
+  booking: BookingDetailsResponse;
+  onClose: () => void;
+  onCancelled: (response: CancelBookingResponse) => void;
+}
+
+// Lets the customer pick who to remove, shows the refund and credit quote, and asks for confirmation
+const CancelBookingDialog: React.FC<CancelBookingDialogProps> = ({ booking, onClose, onCancelled }) => {
+  const activePassengers = booking.passengers.filter(p => !p.cancelled);
+  const [selectedIds, setSelectedIds] = useState(() => activePassengers.filter(p => !p.checkedIn).map(p => p.id));
+  const [quote, setQuote] = useState<CancellationQuote | null>(null);
+  const [isQuoting, setIsQuoting] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState('');
+  const titleRef = useRef<HTMLHeadingElement>(null);
+  const onCloseRef = useRef(onClose);
+
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  useEffect(() => {
+    titleRef.current?.focus();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCloseRef.current();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Re-quote whenever the selection changes; a slower earlier quote must not overwrite a newer one
+  useEffect(() => {
+    if (selectedIds.length === 0) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsQuoting(true);
+    setError('');
+    apiService.getCancellationQuote(booking.confirmationNumber, selectedIds)
+      .then(result => {
+        if (!cancelled) setQuote(result);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          setQuote(null);
+          setError(getErrorMessage(error, 'Could not get a refund quote'));
+        }
+      })
+      .then(() => {
+        if (!cancelled) setIsQuoting(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [booking.confirmationNumber, selectedIds]);
+
+  const togglePassenger = (id: number) => {
+    setSelectedIds(current => current.includes(id) ? current.filter(selected => selected !== id) : [...current, id]);
+  };
+
+  const handleConfirm = async () => {
+    setIsCancelling(true);
+    setError('');
+    try {
+      onCancelled(await apiService.cancelBooking(booking.confirmationNumber, selectedIds));
+    } catch (error) {
+      console.error('Cancellation failed:', error);
+      setError(getErrorMessage(error, 'Cancellation failed. Please try again.'));
+      setIsCancelling(false);
+    }
+  };
+
+  const currency = quote?.currency ?? 'USD';
+
+  return (
+    <div className="cancel-dialog-overlay" role="dialog" aria-modal="true" aria-labelledby="cancel-dialog-title">
+      <div className="cancel-dialog">
+        <h2 id="cancel-dialog-title" ref={titleRef} tabIndex={-1}>
+          Cancel {booking.flight.flightNumber} · {booking.confirmationNumber}
+        </h2>
+
+        {activePassengers.length > 1 && (
+          <fieldset className="cancel-dialog-passengers">
+            <legend>Who should be removed from the booking?</legend>
+            {activePassengers.map(passenger => (
+              <label key={passenger.id} className="cancel-dialog-passenger">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(passenger.id)}
+                  disabled={passenger.checkedIn || isCancelling}
+                  onChange={() => togglePassenger(passenger.id)}
+                />
+                <span>{passenger.firstName} {passenger.lastName}</span>
+                {passenger.checkedIn && <span className="cancel-dialog-note">Checked in, cancel at the airport</span>}
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        {selectedIds.length === 0 ? (
+          <p className="cancel-dialog-empty">Select at least one passenger to cancel.</p>
+        ) : isQuoting && !quote ? (
+          <p className="cancel-dialog-empty">Calculating your refund...</p>
+        ) : quote && (
+          <div className={`cancel-dialog-quote ${isQuoting ? 'updating' : ''}`} aria-live="polite">
+            <p className="cancel-dialog-policy">{quote.policy}</p>
+            <table>
+              <thead>
+                <tr>
+                  <th scope="col">Passenger</th>
+                  <th scope="col">Fare</th>
+                  <th scope="col">Refund</th>
+                  <th scope="col">Credit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {quote.passengers.map(line => (
+                  <tr key={line.passengerId}>
+                    <td>{line.passengerName}</td>
+                    <td>{formatPrice(line.fareAmount, currency)}</td>
+                    <td>{formatPrice(line.refundAmount, currency)}</td>
+                    <td>{formatPrice(line.creditAmount, currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <dl className="cancel-dialog-totals">
+              <div>
+                <dt>Refund to your card</dt>
+                <dd>{formatPrice(quote.refundAmount, currency)}</dd>
+              </div>
+              <div>
+                <dt>Travel credit</dt>
+                <dd>{formatPrice(quote.creditAmount, currency)}</dd>
+              </div>
+              {quote.fee > 0 && (
+                <div>
+                  <dt>Cancellation fees</dt>
+                  <dd>{formatPrice(quote.fee, currency)}</dd>
+                </div>
+              )}
+              {quote.pointsRefunded > 0 && (
+                <div>
+                  <dt>Points returned to your rewards account</dt>
+                  <dd>{formatPoints(quote.pointsRefunded)}</dd>
+                </div>
+              )}
+            </dl>
+            <p className="cancel-dialog-warning">
+              {quote.cancelsBooking
+                ? 'The whole booking will be cancelled. This cannot be undone.'
+                : `${quote.passengers.length} passenger${quote.passengers.length === 1 ? '' : 's'} will be removed. Everyone else stays booked.`}
+            </p>
+          </div>
+        )}
+
+        {error && <div className="error-message" role="alert">{error}</div>}
+
+        <div className="cancel-dialog-actions">
+          <button type="button" className="btn btn-secondary" onClick={onClose} disabled={isCancelling}>
+            Keep Booking
+          </button>
+          <button
+            type="button"
+            className="btn btn-danger"
+            onClick={handleConfirm}
+            disabled={!quote || isQuoting || isCancelling}
+          >
+            {isCancelling ? 'Cancelling...' : quote?.cancelsBooking ? 'Cancel Booking' : 'Cancel Selected'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CancelBookingDialog;
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Outlet, Link } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import NotificationBell from './NotificationBell';
 import './Layout.css';
 
 const Layout: React.FC = () => {
@@ -15,9 +16,14 @@ const Layout: React.FC = () => {
           </div>
           <nav className="nav">
             <Link to="/flights">📊 Flight Board</Link>
+            <Link to="/find-trip">🔎 Find My Trip</Link>
+            <Link to="/baggage">🧳 Track My Bag</Link>
             {user ? (
               <div className="user-menu">
                 <Link to="/my-bookings">✈️ My Bookings</Link>
+                <Link to="/loyalty">⭐ {user.loyalty ? `${user.loyalty.tier} Rewards` : 'Rewards'}</Link>
+                <Link to="/account">⚙️ Settings</Link>
+                <NotificationBell />
                 <span>Welcome, {user.firstName}</span>
                 <button onClick={logout} className="btn btn-secondary">
                   Logout
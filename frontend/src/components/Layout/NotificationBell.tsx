@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { apiService, UserNotification, UserNotificationType } from '../../services/api';
+import { notificationEventBus } from '../../services/notificationEvents';
+import './NotificationBell.css';
+
+const NOTIFICATION_ICONS: Record<UserNotificationType, string> = {
+  GateChange: '🚪',
+  Delay: '⏰',
+  Cancellation: '❌',
+  CheckInReminder: '🎫'
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+// Bell in the header with the unread count; opens the notification center for the signed-in user
+const NotificationBell: React.FC = () => {
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const list = await apiService.getNotifications();
+      setNotifications(list.items);
+      setUnreadCount(list.unreadCount);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadNotifications();
+  }, [loadNotifications]);
+
+  useEffect(() => {
+    return notificationEventBus.subscribe(notification => {
+      setNotifications(current => [notification, ...current.filter(n => n.id !== notification.id)]);
+      setUnreadCount(count => count + 1);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const toggle = () => {
+    // Catch up on anything pushed while this tab was disconnected
+    if (!isOpen) loadNotifications();
+    setIsOpen(open => !open);
+  };
+
+  const markRead = async (notification: UserNotification) => {
+    if (notification.readAt) return;
+    try {
+      await apiService.markNotificationRead(notification.id);
+      const readAt = new Date().toISOString();
+      setNotifications(current => current.map(n => (n.id === notification.id ? { ...n, readAt } : n)));
+      setUnreadCount(count => Math.max(0, count - 1));
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      await apiService.markAllNotificationsRead();
+      const readAt = new Date().toISOString();
+      setNotifications(current => current.map(n => ({ ...n, readAt: n.readAt ?? readAt })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  return (
+    <div className="notification-bell" ref={containerRef}>
+      <button
+        type="button"
+        className="notification-bell-button"
+        onClick={toggle}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+      >
+        🔔
+        {unreadCount > 0 && <span className="notification-badge">{unreadCount > 99 ? '99+' : unreadCount}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="notification-panel" role="dialog" aria-label="Notifications">
+          <div className="notification-panel-header">
+            <h2>Notifications</h2>
+            {unreadCount > 0 && (
+              <button type="button" className="notification-mark-all" onClick={markAllRead}>
+                Mark all as read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="notification-empty">
+              Gate changes, delays and check-in reminders for your booked flights will show up here.
+            </p>
+          ) : (
+            <ul className="notification-list">
+              {notifications.map(notification => (
+                <li key={notification.id} className={notification.readAt ? 'notification-item' : 'notification-item unread'}>
+                  <button type="button" onClick={() => markRead(notification)}>
+                    <span className="notification-icon" aria-hidden="true">{NOTIFICATION_ICONS[notification.type]}</span>
+                    <span className="notification-body">
+                      <strong>{notification.title}</strong>
+                      <span>{notification.message}</span>
+                      <time dateTime={notification.createdAt}>{formatTime(notification.createdAt)}</time>
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <Link to="/my-bookings" className="notification-panel-footer" onClick={() => setIsOpen(false)}>
+            View my bookings
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
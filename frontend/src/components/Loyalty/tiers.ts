@@ -0,0 +1,13 @@
+import { LoyaltyTier } from '../../services/api';
+
+export const TIER_LABELS: Record<LoyaltyTier, string> = {
+  Basic: 'Basic',
+  Silver: 'Silver',
+  Gold: 'Gold',
+  Platinum: 'Platinum',
+  Diamond: 'Diamond'
+};
+
+export const formatPoints = (points: number) => new Intl.NumberFormat('en-US').format(points);
+
+export const formatMiles = (miles: number) => `${new Intl.NumberFormat('en-US').format(miles)} mi`;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { BookingChange, BookingChangeType } from '../../services/api';
+import { formatPrice } from '../BookingWizard/fares';
+
+interface ChangeHistoryProps {
+  changes: BookingChange[];
+}
+
+const CHANGE_TYPE_LABELS: Record<BookingChangeType, string> = {
+  SeatChange: 'Seat change',
+  FlightChange: 'Flight change',
+  NameCorrection: 'Name correction'
+};
+
+// Every change made to the booking since purchase, newest first
+const ChangeHistory: React.FC<ChangeHistoryProps> = ({ changes }) => {
+  if (changes.length === 0) {
+    return <p className="manage-empty">No changes have been made to this booking.</p>;
+  }
+
+  return (
+    <ol className="change-history">
+      {changes.map(change => (
+        <li key={change.id} className="change-history-item">
+          <div className="change-history-header">
+            <span className="change-history-type">{CHANGE_TYPE_LABELS[change.type]}</span>
+            <time dateTime={change.changedAt}>{new Date(change.changedAt).toLocaleString()}</time>
+          </div>
+          <p>{change.description}</p>
+          {(change.amountCharged > 0 || change.creditIssued > 0) && (
+            <p className="change-history-amounts">
+              {change.amountCharged > 0 && <span>Charged {formatPrice(change.amountCharged)}</span>}
+              {change.creditIssued > 0 && <span>Credit {formatPrice(change.creditIssued)}</span>}
+            </p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default ChangeHistory;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { FieldErrors } from '../../services/apiErrors';
+import CardDetailsFields from '../BookingWizard/CardDetailsFields';
+import { formatPrice } from '../BookingWizard/fares';
+import { PaymentDetails } from '../BookingWizard/payment';
+
+interface ChangePaymentProps {
+  amountDue: number;
+  creditDue: number;
+  currency?: string;
+  payment: PaymentDetails;
+  onPaymentChange: (payment: PaymentDetails) => void;
+  fieldErrors: FieldErrors;
+  onClearFieldError: (key: string) => void;
+}
+
+// What a change will cost or give back, with the card form when something is due
+const ChangePayment: React.FC<ChangePaymentProps> = ({
+  amountDue,
+  creditDue,
+  currency = 'USD',
+  payment,
+  onPaymentChange,
+  fieldErrors,
+  onClearFieldError
+}) => (
+  <div className="change-payment">
+    <dl className="change-payment-summary">
+      {amountDue > 0 && (
+        <div>
+          <dt>To pay now</dt>
+          <dd>{formatPrice(amountDue, currency)}</dd>
+        </div>
+      )}
+      {creditDue > 0 && (
+        <div>
+          <dt>Back as travel credit</dt>
+          <dd>{formatPrice(creditDue, currency)}</dd>
+        </div>
+      )}
+      {amountDue <= 0 && creditDue <= 0 && (
+        <div>
+          <dt>Price difference</dt>
+          <dd>None</dd>
+        </div>
+      )}
+    </dl>
+    {fieldErrors.paymentInfo && <div className="field-error">{fieldErrors.paymentInfo}</div>}
+    {amountDue > 0 && (
+      <div className="payment-form">
+        <CardDetailsFields
+          payment={payment}
+          onChange={onPaymentChange}
+          fieldErrors={fieldErrors}
+          onClearFieldError={onClearFieldError}
+        />
+      </div>
+    )}
+  </div>
+);
+
+export default ChangePayment;
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { apiService, FlightChangeOptionsResponse } from '../../services/api';
+import { FieldErrors, getErrorMessage } from '../../services/apiErrors';
+import { formatPrice } from '../BookingWizard/fares';
+import { createPaymentDetails, toPaymentInfo, validatePaymentDetails } from '../BookingWizard/payment';
+import ChangePayment from './ChangePayment';
+import { ChangePanelProps, describeChangeError } from './types';
+
+const formatDeparture = (dateTime: string) =>
+  new Date(dateTime).toLocaleString('en-US', {
+    weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+  });
+
+const FlightChangePanel: React.FC<ChangePanelProps> = ({ booking, onChanged }) => {
+  const [options, setOptions] = useState<FlightChangeOptionsResponse | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [payment, setPayment] = useState(createPaymentDetails);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const { confirmationNumber } = booking;
+
+  useEffect(() => {
+    let cancelled = false;
+    apiService.getFlightChangeOptions(confirmationNumber)
+      .then(response => {
+        if (!cancelled) setOptions(response);
+      })
+      .catch(err => {
+        if (!cancelled) setError(getErrorMessage(err, 'Other flights could not be loaded'));
+      })
+      .then(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [confirmationNumber]);
+
+  if (isLoading) {
+    return <div className="loading">Looking for other flights...</div>;
+  }
+
+  if (!options) {
+    return <div className="error-message" role="alert">{error}</div>;
+  }
+
+  const selected = options.options.find(option => option.flightId === selectedId);
+  const amountDue = selected ? Math.max(selected.fareDifference, 0) : 0;
+  const creditDue = selected ? Math.max(-selected.fareDifference, 0) : 0;
+
+  const clearFieldError = (key: string) => {
+    if (!(key in fieldErrors)) return;
+    const remaining = { ...fieldErrors };
+    delete remaining[key];
+    setFieldErrors(remaining);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    if (amountDue > 0) {
+      const paymentErrors = validatePaymentDetails(payment);
+      if (Object.keys(paymentErrors).length > 0) {
+        setFieldErrors(paymentErrors);
+        setError('Please check your card details');
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    setError('');
+    setFieldErrors({});
+    try {
+      const response = await apiService.changeFlight(confirmationNumber, {
+        flightId: selected.flightId,
+        paymentInfo: amountDue > 0 ? toPaymentInfo(payment) : undefined
+      });
+      onChanged(response);
+    } catch (err) {
+      const { message, fieldErrors } = describeChangeError(err, 'Your flight could not be changed. Please try again.');
+      setError(message);
+      setFieldErrors(fieldErrors);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (options.options.length === 0) {
+    return (
+      <p className="manage-empty">
+        There are no other upcoming flights from {booking.flight.originAirport} to {booking.flight.destinationAirport}.
+      </p>
+    );
+  }
+
+  return (
+    <form className="manage-panel" onSubmit={handleSubmit}>
+      <p>
+        You paid {formatPrice(options.currentFare, options.currency)} in fares. Moving to another flight re-prices
+        the booking at today's fare; seats are not carried over, so choose new ones once you have moved.
+      </p>
+      <fieldset className="flight-options">
+        <legend>Other flights from {booking.flight.originAirport} to {booking.flight.destinationAirport}</legend>
+        {options.options.map(option => (
+          <label
+            key={option.flightId}
+            className={`flight-option ${option.isAvailable ? '' : 'unavailable'} ${option.flightId === selectedId ? 'selected' : ''}`}
+          >
+            <input
+              type="radio"
+              name="flight"
+              value={option.flightId}
+              checked={option.flightId === selectedId}
+              disabled={!option.isAvailable}
+              onChange={() => {
+                setSelectedId(option.flightId);
+                setError('');
+              }}
+            />
+            <span className="flight-option-details">
+              <strong>{option.airline} {option.flightNumber}</strong>
+              <span>{formatDeparture(option.scheduledDeparture)} → {formatDeparture(option.scheduledArrival)}</span>
+            </span>
+            <span className="flight-option-price">
+              {option.fareDifference > 0
+                ? `+${formatPrice(option.fareDifference, options.currency)}`
+                : option.fareDifference < 0
+                  ? `${formatPrice(-option.fareDifference, options.currency)} credit`
+                  : 'No difference'}
+              <small>
+                {option.isAvailable ? `${option.seatsRemaining} seats left` : 'Not enough seats for your party'}
+              </small>
+            </span>
+          </label>
+        ))}
+        {fieldErrors.flightId && <div className="field-error">{fieldErrors.flightId}</div>}
+      </fieldset>
+      {selected && (
+        <ChangePayment
+          amountDue={amountDue}
+          creditDue={creditDue}
+          currency={options.currency}
+          payment={payment}
+          onPaymentChange={setPayment}
+          fieldErrors={fieldErrors}
+          onClearFieldError={clearFieldError}
+        />
+      )}
+      {error && <div className="error-message" role="alert">{error}</div>}
+      <div className="manage-actions">
+        <button type="submit" className="btn btn-primary" disabled={!selected || isSaving}>
+          {isSaving ? 'Saving...' : 'Change flight'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default FlightChangePanel;
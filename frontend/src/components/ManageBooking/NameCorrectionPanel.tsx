@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { apiService } from '../../services/api';
+import { FieldErrors } from '../../services/apiErrors';
+import { ChangePanelProps, describeChangeError, getChangeablePassengers } from './types';
+
+// Mirrors BookingChangeService.MaxNameCorrectionEdits
+const MAX_NAME_CORRECTION_EDITS = 3;
+
+const NameCorrectionPanel: React.FC<ChangePanelProps> = ({ booking, onChanged }) => {
+  const passengers = getChangeablePassengers(booking);
+  const [passengerId, setPassengerId] = useState(passengers[0]?.id);
+  const [firstName, setFirstName] = useState(passengers[0]?.firstName ?? '');
+  const [lastName, setLastName] = useState(passengers[0]?.lastName ?? '');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (passengers.length === 0) {
+    return <p className="manage-empty">Names cannot be changed after check-in. Please see an agent at the airport.</p>;
+  }
+
+  const passenger = passengers.find(p => p.id === passengerId) ?? passengers[0];
+  const isUnchanged = firstName.trim() === passenger.firstName && lastName.trim() === passenger.lastName;
+
+  const selectPassenger = (id: number) => {
+    const selected = passengers.find(p => p.id === id);
+    if (!selected) return;
+    setPassengerId(id);
+    setFirstName(selected.firstName);
+    setLastName(selected.lastName);
+    setFieldErrors({});
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+    setFieldErrors({});
+    try {
+      const response = await apiService.correctName(booking.confirmationNumber, {
+        passengerId: passenger.id,
+        firstName,
+        lastName
+      });
+      onChanged(response);
+    } catch (err) {
+      const { message, fieldErrors } = describeChangeError(err, 'The name could not be corrected. Please try again.');
+      setError(message);
+      setFieldErrors(fieldErrors);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form className="manage-panel" onSubmit={handleSubmit} noValidate>
+      <p>
+        Fix a misspelt name so it matches the passenger's travel document. Up to {MAX_NAME_CORRECTION_EDITS} letters
+        can be corrected at no charge; a ticket cannot be handed to a different traveller.
+      </p>
+      <div className="form-group">
+        <label htmlFor="correct-name-passenger">Passenger</label>
+        <select
+          id="correct-name-passenger"
+          value={passenger.id}
+          onChange={(e) => selectPassenger(Number(e.target.value))}
+        >
+          {passengers.map(p => (
+            <option key={p.id} value={p.id}>{p.firstName} {p.lastName}</option>
+          ))}
+        </select>
+        {fieldErrors.passengerId && <div className="field-error">{fieldErrors.passengerId}</div>}
+      </div>
+      <div className="form-row">
+        <div className="form-group">
+          <label htmlFor="correct-name-first">First name</label>
+          <input
+            id="correct-name-first"
+            type="text"
+            value={firstName}
+            onChange={(e) => setFirstName(e.target.value)}
+            className={fieldErrors.firstName ? 'input-error' : ''}
+            aria-invalid={!!fieldErrors.firstName}
+          />
+          {fieldErrors.firstName && <div className="field-error">{fieldErrors.firstName}</div>}
+        </div>
+        <div className="form-group">
+          <label htmlFor="correct-name-last">Last name</label>
+          <input
+            id="correct-name-last"
+            type="text"
+            value={lastName}
+            onChange={(e) => setLastName(e.target.value)}
+            className={fieldErrors.lastName ? 'input-error' : ''}
+            aria-invalid={!!fieldErrors.lastName}
+          />
+          {fieldErrors.lastName && <div className="field-error">{fieldErrors.lastName}</div>}
+        </div>
+      </div>
+      {error && <div className="error-message" role="alert">{error}</div>}
+      <div className="manage-actions">
+        <button type="submit" className="btn btn-primary" disabled={isUnchanged || isSaving}>
+          {isSaving ? 'Saving...' : 'Correct name'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default NameCorrectionPanel;
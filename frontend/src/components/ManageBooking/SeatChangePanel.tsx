@@ -0,0 +1,252 @@
+import React, { useState } from 'react';
+import SeatMap from '../SeatMap';
+import { apiService, PassengerDto, Seat, SeatClass, SeatMap as SeatMapType } from '../../services/api';
+import { FieldErrors } from '../../services/apiErrors';
+import { getSeatClassLabel } from '../BookingWizard/fares';
+import { createPaymentDetails, toPaymentInfo, validatePaymentDetails } from '../BookingWizard/payment';
+import ChangePayment from './ChangePayment';
+import { ChangePanelProps, describeChangeError, getChangeablePassengers } from './types';
+
+const getPassengerName = (passenger: PassengerDto) => `${passenger.firstName} ${passenger.lastName}`;
+
+// Seat number -> upcharge, read from the loaded seat map
+const getUpcharges = (seatMap: SeatMapType) =>
+  seatMap.rows.reduce<Record<string, number>>((upcharges, row) => {
+    row.seats.forEach(seat => {
+      upcharges[seat.number] = seat.upcharge;
+    });
+    return upcharges;
+  }, {});
+
+// Passenger id -> the seat they hold on the booking
+const getCurrentSeats = (passengers: PassengerDto[]) =>
+  passengers.reduce<Record<number, string | undefined>>((seats, passenger) => {
+    seats[passenger.id] = passenger.seatNumber;
+    return seats;
+  }, {});
+
+const SeatChangePanel: React.FC<ChangePanelProps> = ({ booking, onChanged }) => {
+  const passengers = getChangeablePassengers(booking);
+  const [seats, setSeats] = useState(() => getCurrentSeats(passengers));
+  const [activeId, setActiveId] = useState(passengers[0]?.id);
+  const [upcharges, setUpcharges] = useState<Record<string, number>>({});
+  const [currency, setCurrency] = useState('USD');
+  const [payment, setPayment] = useState(createPaymentDetails);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [unavailableSeats, setUnavailableSeats] = useState<string[]>([]);
+  const [assignError, setAssignError] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (passengers.length === 0) {
+    return <p className="manage-empty">Every passenger has checked in, so seats can no longer be changed online.</p>;
+  }
+
+  const activePassenger = passengers.find(p => p.id === activeId) ?? passengers[0];
+  const moves = passengers
+    .filter(p => seats[p.id] && seats[p.id] !== p.seatNumber)
+    .map(p => ({ passengerId: p.id, seatNumber: seats[p.id] as string }));
+
+  // Each passenger pays or gets back the difference between the old and new seat's upcharge
+  const differences = moves.map(move => {
+    const passenger = passengers.find(p => p.id === move.passengerId);
+    const previous = passenger?.seatNumber ? upcharges[passenger.seatNumber] ?? 0 : 0;
+    return (upcharges[move.seatNumber] ?? 0) - previous;
+  });
+  const amountDue = differences.filter(d => d > 0).reduce((sum, d) => sum + d, 0);
+  const creditDue = -differences.filter(d => d < 0).reduce((sum, d) => sum + d, 0);
+
+  // Server errors are keyed by position in the submitted list of moves
+  const seatErrorFor = (passengerId: number) => {
+    const index = moves.findIndex(move => move.passengerId === passengerId);
+    return index >= 0 ? fieldErrors[`seats[${index}].seatNumber`] || fieldErrors[`seats[${index}].passengerId`] : undefined;
+  };
+
+  const seatLabels = passengers.reduce<Record<string, string>>((labels, passenger, index) => {
+    const seatNumber = seats[passenger.id];
+    if (seatNumber) labels[seatNumber] = String(index + 1);
+    return labels;
+  }, {});
+
+  const findSeatOwner = (seatNumber: string) => passengers.find(p => seats[p.id] === seatNumber);
+
+  const updateSeats = (changes: Record<number, string | undefined>) => {
+    setSeats({ ...seats, ...changes });
+    setFieldErrors({});
+    setAssignError('');
+  };
+
+  // Seats are priced and checked by cabin, so passengers only trade seats within the same class
+  const swapSeats = (a: PassengerDto, b: PassengerDto) => {
+    if (a.seatClass !== b.seatClass) {
+      setAssignError(`${getPassengerName(a)} and ${getPassengerName(b)} are booked in different cabins and cannot swap seats`);
+      return;
+    }
+    updateSeats({ [a.id]: seats[b.id], [b.id]: seats[a.id] });
+  };
+
+  const moveSeat = (passenger: PassengerDto, seat: Seat) => {
+    if (seat.class !== passenger.seatClass) {
+      setAssignError(
+        `Seat ${seat.number} is in ${getSeatClassLabel(seat.class)}, but ${getPassengerName(passenger)} ` +
+        `is booked in ${getSeatClassLabel(passenger.seatClass as SeatClass)}`
+      );
+      return;
+    }
+    updateSeats({ [passenger.id]: seat.number });
+  };
+
+  const handleSeatSelect = (seat: Seat) => {
+    const owner = findSeatOwner(seat.number);
+    if (owner?.id === activePassenger.id) return;
+    if (owner) {
+      swapSeats(activePassenger, owner);
+    } else {
+      moveSeat(activePassenger, seat);
+    }
+  };
+
+  const handleSeatDrop = (fromSeat: string, toSeat: Seat) => {
+    const from = findSeatOwner(fromSeat);
+    if (!from) return;
+    const to = findSeatOwner(toSeat.number);
+    if (to) {
+      swapSeats(from, to);
+    } else {
+      moveSeat(from, toSeat);
+    }
+  };
+
+  const handleSeatMapLoad = (seatMap: SeatMapType) => {
+    setUpcharges(getUpcharges(seatMap));
+    setCurrency(seatMap.currency);
+  };
+
+  const clearFieldError = (key: string) => {
+    if (!(key in fieldErrors)) return;
+    const remaining = { ...fieldErrors };
+    delete remaining[key];
+    setFieldErrors(remaining);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (moves.length === 0) return;
+
+    if (amountDue > 0) {
+      const paymentErrors = validatePaymentDetails(payment);
+      if (Object.keys(paymentErrors).length > 0) {
+        setFieldErrors(paymentErrors);
+        setError('Please check your card details');
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    setError('');
+    setFieldErrors({});
+    try {
+      const response = await apiService.changeSeats(booking.confirmationNumber, {
+        seats: moves,
+        paymentInfo: amountDue > 0 ? toPaymentInfo(payment) : undefined
+      });
+      onChanged(response);
+    } catch (err) {
+      const { message, fieldErrors, unavailableSeats: taken } = describeChangeError(err, 'Your seats could not be changed. Please try again.');
+      setError(message);
+      setFieldErrors(fieldErrors);
+      if (taken.length > 0) {
+        setUnavailableSeats([...unavailableSeats, ...taken]);
+        // Put anyone moved onto a seat that has since gone back where they were
+        setSeats(passengers.reduce<Record<number, string | undefined>>((current, passenger) => {
+          const seatNumber = seats[passenger.id];
+          current[passenger.id] = seatNumber && taken.includes(seatNumber) ? passenger.seatNumber : seatNumber;
+          return current;
+        }, {}));
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form className="manage-panel" onSubmit={handleSubmit}>
+      <p>
+        Choosing a seat for <strong>{getPassengerName(activePassenger)}</strong>
+        {' '}({getSeatClassLabel(activePassenger.seatClass as SeatClass)})
+      </p>
+      <div className="seat-assignments">
+        {passengers.map((passenger, index) => {
+          const seatError = seatErrorFor(passenger.id);
+          const seatNumber = seats[passenger.id];
+          return (
+            <button
+              key={passenger.id}
+              type="button"
+              aria-pressed={passenger.id === activePassenger.id}
+              className={[
+                'seat-assignment',
+                passenger.id === activePassenger.id ? 'active' : '',
+                seatError ? 'has-error' : ''
+              ].filter(Boolean).join(' ')}
+              onClick={() => {
+                setActiveId(passenger.id);
+                setAssignError('');
+              }}
+            >
+              <span className="seat-assignment-passenger">{index + 1}. {getPassengerName(passenger)}</span>
+              <span className="seat-assignment-class">{getSeatClassLabel(passenger.seatClass as SeatClass)}</span>
+              <span className="seat-assignment-seat">
+                {seatNumber || 'No seat'}
+                {seatNumber !== passenger.seatNumber && passenger.seatNumber && ` (was ${passenger.seatNumber})`}
+              </span>
+              {seatError && <span className="field-error">{seatError}</span>}
+            </button>
+          );
+        })}
+      </div>
+      {(assignError || fieldErrors.seats) && (
+        <div className="error-message" role="alert">{assignError || fieldErrors.seats}</div>
+      )}
+      <SeatMap
+        flightNumber={booking.flight.flightNumber}
+        flightDate={booking.flight.scheduledDeparture}
+        onSeatSelect={handleSeatSelect}
+        selectedSeats={Object.keys(seatLabels)}
+        seatClass={activePassenger.seatClass as SeatClass}
+        seatLabels={seatLabels}
+        activeSeat={seats[activePassenger.id]}
+        onSeatDrop={handleSeatDrop}
+        unavailableSeats={unavailableSeats}
+        onSeatMapLoad={handleSeatMapLoad}
+      />
+      {moves.length > 0 && (
+        <ChangePayment
+          amountDue={amountDue}
+          creditDue={creditDue}
+          currency={currency}
+          payment={payment}
+          onPaymentChange={setPayment}
+          fieldErrors={fieldErrors}
+          onClearFieldError={clearFieldError}
+        />
+      )}
+      {error && <div className="error-message" role="alert">{error}</div>}
+      <div className="manage-actions">
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={() => updateSeats(getCurrentSeats(passengers))}
+          disabled={moves.length === 0 || isSaving}
+        >
+          Reset
+        </button>
+        <button type="submit" className="btn btn-primary" disabled={moves.length === 0 || isSaving}>
+          {isSaving ? 'Saving...' : 'Confirm seat change'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default SeatChangePanel;
@@ -0,0 +1,18 @@
+import { BookingChangeResponse, BookingDetailsResponse } from '../../services/api';
+import { ConflictError, FieldErrors, getErrorMessage, ValidationError } from '../../services/apiErrors';
+
+export interface ChangePanelProps {
+  booking: BookingDetailsResponse;
+  onChanged: (response: BookingChangeResponse) => void;
+}
+
+// Passengers who can still be changed online: on the booking and not yet checked in
+export const getChangeablePassengers = (booking: BookingDetailsResponse) =>
+  booking.passengers.filter(p => !p.cancelled && !p.checkedIn);
+
+// Splits a failed change into the message to show, field errors and any seats taken meanwhile
+export const describeChangeError = (error: unknown, fallback: string) => ({
+  message: getErrorMessage(error, fallback),
+  fieldErrors: (error instanceof ValidationError ? error.fieldErrors : {}) as FieldErrors,
+  unavailableSeats: error instanceof ConflictError ? error.seats : []
+});
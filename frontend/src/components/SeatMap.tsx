@@ -1,35 +1,195 @@
-import React, { useState, useEffect } from 'react';
-import { apiService, SeatMap as SeatMapType, Seat } from '../services/api';
+import React, { useState, useEffect, useRef } from 'react';
+import { apiService, SeatMap as SeatMapType, Seat, SeatRow, Cabin, SeatClass } from '../services/api';
+import { formatPrice, getSeatClassLabel } from './BookingWizard/fares';
 
 interface SeatMapProps {
   flightNumber: string;
   flightDate: string;
-  onSeatSelect: (seatNumber: string) => void;
+  onSeatSelect: (seat: Seat) => void;
   selectedSeats: string[];
-  seatClass: string;
+  seatClass: SeatClass;
+  // Shown on selected seats in place of a tick, e.g. the passenger sitting there
+  seatLabels?: Record<string, string>;
+  // Selected seat to emphasise, e.g. the one belonging to the passenger being seated
+  activeSeat?: string;
+  // When set, selected seats can be dragged onto another selected or available seat
+  onSeatDrop?: (fromSeat: string, toSeat: Seat) => void;
+  // Seats the server has since reported as taken, on top of the loaded map
+  unavailableSeats?: string[];
+  // Seat number -> when the user's hold on it lapses
+  holdExpiries?: Record<string, string>;
+  // Called with the map once loaded, e.g. to price seats the caller already has
+  onSeatMapLoad?: (seatMap: SeatMapType) => void;
 }
 
+const formatCountdown = (milliseconds: number) => {
+  const totalSeconds = Math.max(Math.ceil(milliseconds / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const HOLD_WARNING_MS = 60000;
+
+const NAVIGATION_KEYS = ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End'];
+
+const getSeatFeatures = (seat: Seat, row: SeatRow) =>
+  [
+    seat.hasExtraLegroom && 'Extra legroom',
+    row.isExitRow && 'Exit row',
+    row.isBulkhead && 'Bulkhead',
+    row.isOverWing && 'Over wing'
+  ].filter((feature): feature is string => !!feature);
+
+const getSeatPrice = (seat: Seat, currency: string) =>
+  seat.upcharge > 0 ? `+${formatPrice(seat.upcharge, currency)}` : 'Included in fare';
+
+/**
+ * The seat a navigation key moves focus to, or null at the edge of the map. Up and down keep the
+ * column letter where the next row has it, otherwise the seat in the same relative position, so
+ * moving between a 2-2 and a 3-3 cabin lands on the matching side of the aisle.
+ */
+const getSeatInDirection = (rows: SeatRow[], seatNumber: string, key: string, toMapEdge: boolean): Seat | null => {
+  const rowIndex = rows.findIndex(row => row.seats.some(seat => seat.number === seatNumber));
+  if (rowIndex < 0) return null;
+  const row = rows[rowIndex];
+  const seatIndex = row.seats.findIndex(seat => seat.number === seatNumber);
+
+  switch (key) {
+    case 'ArrowLeft':
+      return row.seats[seatIndex - 1] ?? null;
+    case 'ArrowRight':
+      return row.seats[seatIndex + 1] ?? null;
+    case 'Home':
+      return (toMapEdge ? rows[0] : row).seats[0] ?? null;
+    case 'End': {
+      const lastRow = toMapEdge ? rows[rows.length - 1] : row;
+      return lastRow.seats[lastRow.seats.length - 1] ?? null;
+    }
+    case 'ArrowUp':
+    case 'ArrowDown': {
+      const target = rows[rowIndex + (key === 'ArrowUp' ? -1 : 1)];
+      if (!target) return null;
+      const sameColumn = target.seats.find(seat => seat.column === row.seats[seatIndex].column);
+      if (sameColumn) return sameColumn;
+      const relativePosition = row.seats.length > 1 ? seatIndex / (row.seats.length - 1) : 0;
+      return target.seats[Math.round(relativePosition * (target.seats.length - 1))] ?? null;
+    }
+    default:
+      return null;
+  }
+};
+
+interface SeatTooltipProps {
+  seat: Seat;
+  row: SeatRow;
+  currency: string;
+  status: string;
+}
+
+// Visual only; the seat's accessible name carries the same details for screen readers
+const SeatTooltip: React.FC<SeatTooltipProps> = ({ seat, row, currency, status }) => {
+  const features = getSeatFeatures(seat, row);
+
+  return (
+    <div className="seat-tooltip" aria-hidden="true">
+      <div className="seat-tooltip-title">
+        <strong>{seat.number}</strong> {getSeatClassLabel(seat.class)}
+      </div>
+      <div>{seat.position} seat</div>
+      {features.length > 0 && <div>{features.join(' · ')}</div>}
+      {row.isExitRow && <div className="seat-tooltip-note">Must be willing and able to assist in an emergency</div>}
+      <div className="seat-tooltip-price">{getSeatPrice(seat, currency)}</div>
+      <div className="seat-tooltip-status">{status}</div>
+    </div>
+  );
+};
+
 const SeatMap: React.FC<SeatMapProps> = ({
   flightNumber,
   flightDate,
   onSeatSelect,
   selectedSeats,
-  seatClass
+  seatClass,
+  unavailableSeats = [],
+  holdExpiries = {},
+  seatLabels = {},
+  activeSeat,
+  onSeatDrop,
+  onSeatMapLoad
 }) => {
   const [seatMap, setSeatMap] = useState<SeatMapType | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [draggedSeat, setDraggedSeat] = useState<string | null>(null);
+  const [hoveredSeat, setHoveredSeat] = useState<string | null>(null);
+  // Roving tabindex: the one seat reachable with Tab; arrow keys move it
+  const [focusedSeat, setFocusedSeat] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const seatRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const announcedSelection = useRef<Record<string, string> | null>(null);
+  const warnedHolds = useRef(new Set<string>());
+
+  const hasHolds = Object.keys(holdExpiries).length > 0;
+
+  // Tick once a second while any hold countdown is showing
+  useEffect(() => {
+    if (!hasHolds) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasHolds]);
 
   useEffect(() => {
     loadSeatMap();
   }, [flightNumber, flightDate]);
 
+  // Tell screen reader users when seats are taken, released or move between passengers
+  useEffect(() => {
+    const current: Record<string, string> = {};
+    selectedSeats.forEach(seat => {
+      current[seat] = seatLabels[seat] ?? '';
+    });
+    const previous = announcedSelection.current;
+    announcedSelection.current = current;
+    // Seats already chosen when the map opens are not news
+    if (!previous) return;
+
+    const messages = [
+      ...Object.keys(current)
+        .filter(seat => previous[seat] !== current[seat])
+        .map(seat => (current[seat] ? `Seat ${seat} selected for passenger ${current[seat]}` : `Seat ${seat} selected`)),
+      ...Object.keys(previous)
+        .filter(seat => !(seat in current))
+        .map(seat => `Seat ${seat} released`)
+    ];
+    if (messages.length > 0) {
+      setAnnouncement(messages.join('. '));
+    }
+  }, [selectedSeats, seatLabels]);
+
+  // The countdown itself is not announced every second; warn once when a hold is about to lapse
+  useEffect(() => {
+    warnedHolds.current.forEach(seat => {
+      if (!holdExpiries[seat]) warnedHolds.current.delete(seat);
+    });
+    const expiring = Object.keys(holdExpiries).filter(seat =>
+      new Date(holdExpiries[seat]).getTime() - now < HOLD_WARNING_MS && !warnedHolds.current.has(seat)
+    );
+    if (expiring.length > 0) {
+      expiring.forEach(seat => warnedHolds.current.add(seat));
+      setAnnouncement(`Your hold on seat ${expiring.join(', ')} expires in less than a minute`);
+    }
+  }, [holdExpiries, now]);
+
   const loadSeatMap = async () => {
     try {
       setLoading(true);
       setError(null);
       const data = await apiService.getSeatMap(flightNumber, new Date(flightDate));
       setSeatMap(data);
+      onSeatMapLoad?.(data);
     } catch (err) {
       setError('Failed to load seat map');
       console.error('Error loading seat map:', err);
@@ -38,25 +198,158 @@ const SeatMap: React.FC<SeatMapProps> = ({
     }
   };
 
+  const isSeatAvailable = (seat: Seat) => seat.isAvailable && !unavailableSeats.includes(seat.number);
+
   const handleSeatClick = (seat: Seat) => {
-    if (seat.isAvailable) {
-      onSeatSelect(seat.number);
+    // Selected seats stay clickable so they can be deselected
+    if (isSeatAvailable(seat) || selectedSeats.includes(seat.number)) {
+      onSeatSelect(seat);
+    }
+  };
+
+  const canDrag = (seat: Seat) => !!onSeatDrop && selectedSeats.includes(seat.number);
+
+  const isDropTarget = (seat: Seat) =>
+    draggedSeat !== null && draggedSeat !== seat.number && (selectedSeats.includes(seat.number) || isSeatAvailable(seat));
+
+  const handleDragStart = (event: React.DragEvent, seat: Seat) => {
+    event.dataTransfer.setData('text/plain', seat.number);
+    event.dataTransfer.effectAllowed = 'move';
+    setDraggedSeat(seat.number);
+  };
+
+  const handleDragOver = (event: React.DragEvent, seat: Seat) => {
+    if (isDropTarget(seat)) {
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent, seat: Seat) => {
+    event.preventDefault();
+    const fromSeat = event.dataTransfer.getData('text/plain');
+    setDraggedSeat(null);
+    if (onSeatDrop && fromSeat && fromSeat !== seat.number) {
+      onSeatDrop(fromSeat, seat);
     }
   };
 
   const getSeatClass = (seat: Seat) => {
-    if (!seat.isAvailable) return 'seat-unavailable';
+    if (seat.number === activeSeat) return 'seat-selected seat-active';
     if (selectedSeats.includes(seat.number)) return 'seat-selected';
+    if (seat.isBlocked) return 'seat-unavailable seat-blocked';
+    if (!isSeatAvailable(seat)) return 'seat-unavailable';
     if (seat.class.toLowerCase() === seatClass.toLowerCase()) return 'seat-available';
     return 'seat-other-class';
   };
 
   const getSeatLabel = (seat: Seat) => {
-    if (!seat.isAvailable) return 'X';
-    if (selectedSeats.includes(seat.number)) return '✓';
+    if (selectedSeats.includes(seat.number)) return seatLabels[seat.number] ?? '✓';
+    if (!isSeatAvailable(seat)) return 'X';
     return seat.number;
   };
 
+  const describeSeat = (seat: Seat, row: SeatRow) =>
+    [
+      `Seat ${seat.number}`,
+      getSeatStatus(seat),
+      getSeatClassLabel(seat.class),
+      `${seat.position} seat`,
+      ...getSeatFeatures(seat, row),
+      getSeatPrice(seat, seatMap?.currency ?? 'USD')
+    ].join(', ');
+
+  // Where Tab lands in the grid: the last focused seat, else the seat being assigned, else the first useful seat
+  const getTabStop = () => {
+    if (!seatMap) return null;
+    const seats = ([] as Seat[]).concat(...seatMap.rows.map(row => row.seats));
+    const candidates = [focusedSeat, activeSeat, selectedSeats[0]];
+    const remembered = candidates.find(seat => seat && seats.some(s => s.number === seat));
+    if (remembered) return remembered;
+    const firstInClass = seats.find(seat => isSeatAvailable(seat) && seat.class.toLowerCase() === seatClass.toLowerCase());
+    return (firstInClass ?? seats[0])?.number ?? null;
+  };
+
+  const handleSeatKeyDown = (event: React.KeyboardEvent, seat: Seat) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      handleSeatClick(seat);
+      return;
+    }
+    if (!seatMap || !NAVIGATION_KEYS.includes(event.key)) return;
+
+    event.preventDefault();
+    const target = getSeatInDirection(seatMap.rows, seat.number, event.key, event.ctrlKey);
+    if (target) {
+      setFocusedSeat(target.number);
+      seatRefs.current[target.number]?.focus();
+    }
+  };
+
+  const getSeatStatus = (seat: Seat) => {
+    if (selectedSeats.includes(seat.number)) {
+      return seatLabels[seat.number] ? `Selected for passenger ${seatLabels[seat.number]}` : 'Selected';
+    }
+    if (seat.isBlocked) return seat.blockedReason || 'Not available for booking';
+    if (!isSeatAvailable(seat)) return 'Taken';
+    if (seat.class.toLowerCase() !== seatClass.toLowerCase()) return `Only for ${getSeatClassLabel(seat.class)} passengers`;
+    return 'Available';
+  };
+
+  // Lays out one cell per column, with a gap wherever the cabin has an aisle
+  const renderColumns = (cabin: Cabin, renderCell: (column: string) => React.ReactNode) =>
+    cabin.columns.map(column => (
+      <React.Fragment key={column}>
+        {renderCell(column)}
+        {cabin.aislesAfter.includes(column) && <div className="aisle" aria-hidden="true" />}
+      </React.Fragment>
+    ));
+
+  const renderSeat = (seat: Seat | undefined, row: SeatRow, tabStop: string | null) => {
+    if (!seat) return <div className="seat-gap" aria-hidden="true" />;
+
+    const isSelected = selectedSeats.includes(seat.number);
+    const modifiers = [
+      getSeatClass(seat),
+      seat.hasExtraLegroom ? 'seat-extra-legroom' : '',
+      seat.upcharge > 0 ? 'seat-paid' : '',
+      draggedSeat === seat.number ? 'seat-dragging' : ''
+    ].filter(Boolean).join(' ');
+
+    return (
+      <div
+        ref={element => {
+          seatRefs.current[seat.number] = element;
+        }}
+        role="gridcell"
+        tabIndex={seat.number === tabStop ? 0 : -1}
+        aria-label={describeSeat(seat, row)}
+        aria-selected={isSelected}
+        aria-disabled={!isSelected && !isSeatAvailable(seat)}
+        className={`seat ${modifiers}`}
+        onClick={() => handleSeatClick(seat)}
+        onKeyDown={(e) => handleSeatKeyDown(e, seat)}
+        onFocus={() => {
+          setFocusedSeat(seat.number);
+          setHoveredSeat(seat.number);
+        }}
+        onBlur={() => setHoveredSeat(current => (current === seat.number ? null : current))}
+        onMouseEnter={() => setHoveredSeat(seat.number)}
+        onMouseLeave={() => setHoveredSeat(current => (current === seat.number ? null : current))}
+        draggable={canDrag(seat)}
+        onDragStart={(e) => handleDragStart(e, seat)}
+        onDragEnd={() => setDraggedSeat(null)}
+        onDragOver={(e) => handleDragOver(e, seat)}
+        onDrop={(e) => handleDrop(e, seat)}
+      >
+        {getSeatLabel(seat)}
+        {hoveredSeat === seat.number && draggedSeat === null && (
+          <SeatTooltip seat={seat} row={row} currency={seatMap?.currency ?? 'USD'} status={getSeatStatus(seat)} />
+        )}
+      </div>
+    );
+  };
+
   if (loading) {
     return <div className="seat-map-loading">Loading seat map...</div>;
   }
@@ -69,64 +362,122 @@ const SeatMap: React.FC<SeatMapProps> = ({
     return <div className="seat-map-error">No seat map available</div>;
   }
 
+  const tabStop = getTabStop();
+  const instructionsId = `seat-map-instructions-${flightNumber}`;
+
   return (
     <div className="seat-map">
       <div className="seat-map-header">
         <h3>Select Your Seats</h3>
-        <p>Flight {flightNumber} - {new Date(flightDate).toLocaleDateString()}</p>
+        <p>Flight {flightNumber} · {seatMap.aircraft} - {new Date(flightDate).toLocaleDateString()}</p>
         <div className="seat-legend">
           <div className="legend-item">
-            <div className="seat seat-available"></div>
-            <span>Available ({seatClass})</span>
+            <div className="seat seat-available" aria-hidden="true"></div>
+            <span>Available ({getSeatClassLabel(seatClass)})</span>
           </div>
           <div className="legend-item">
-            <div className="seat seat-selected"></div>
+            <div className="seat seat-selected" aria-hidden="true">✓</div>
             <span>Selected</span>
           </div>
           <div className="legend-item">
-            <div className="seat seat-unavailable"></div>
+            <div className="seat seat-unavailable" aria-hidden="true">X</div>
             <span>Unavailable</span>
           </div>
           <div className="legend-item">
-            <div className="seat seat-other-class"></div>
-            <span>Other Class</span>
+            <div className="seat seat-other-class" aria-hidden="true"></div>
+            <span>Other Class (dashed)</span>
+          </div>
+          <div className="legend-item">
+            <div className="seat seat-available seat-extra-legroom" aria-hidden="true"></div>
+            <span>Extra Legroom (thick base)</span>
+          </div>
+          <div className="legend-item">
+            <div className="seat seat-available seat-paid" aria-hidden="true"></div>
+            <span>Paid Seat ($)</span>
           </div>
         </div>
       </div>
 
-      <div className="aircraft-layout">
-        <div className="aircraft-nose">✈</div>
-        
-        {seatMap.rows.map((row) => (
-          <div key={row.rowNumber} className="seat-row">
-            <div className="row-number">{row.rowNumber}</div>
-            <div className="seats">
-              {row.seats.map((seat) => (
-                <div
-                  key={seat.number}
-                  className={`seat ${getSeatClass(seat)}`}
-                  onClick={() => handleSeatClick(seat)}
-                  title={`${seat.number} - ${seat.class}`}
-                >
-                  {getSeatLabel(seat)}
-                </div>
-              ))}
+      <div
+        className="aircraft-layout"
+        role="grid"
+        aria-label={`Seats on flight ${flightNumber}`}
+        aria-describedby={instructionsId}
+      >
+        <div className="aircraft-nose" aria-hidden="true">✈</div>
+
+        {seatMap.cabins.map((cabin) => (
+          <section
+            key={cabin.class}
+            role="rowgroup"
+            aria-label={`${getSeatClassLabel(cabin.class)} cabin`}
+            className={`cabin cabin-${cabin.class.toLowerCase()}`}
+          >
+            <div className="cabin-name" aria-hidden="true">{getSeatClassLabel(cabin.class)}</div>
+            <div className="seat-row column-letters" aria-hidden="true">
+              <div className="row-side" />
+              <div className="row-number" />
+              <div className="seats">
+                {renderColumns(cabin, column => <div className="column-letter">{column}</div>)}
+              </div>
+              <div className="row-number" />
+              <div className="row-side" />
             </div>
-            <div className="row-number">{row.rowNumber}</div>
-          </div>
+            {seatMap.rows
+              .filter(row => row.rowNumber >= cabin.firstRow && row.rowNumber <= cabin.lastRow)
+              .map((row) => {
+                const rowClasses = [
+                  'seat-row',
+                  row.isExitRow ? 'exit-row' : '',
+                  row.isBulkhead ? 'bulkhead-row' : '',
+                  row.isOverWing ? 'over-wing' : ''
+                ].filter(Boolean).join(' ');
+                return (
+                  <div key={row.rowNumber} role="row" className={rowClasses}>
+                    <div className="row-side" aria-hidden="true">{row.isExitRow && <span className="exit-marker">EXIT</span>}</div>
+                    <div className="row-number" role="rowheader" aria-label={`Row ${row.rowNumber}${row.isExitRow ? ', exit row' : ''}`}>
+                      {row.rowNumber}
+                    </div>
+                    <div className="seats" role="presentation">
+                      {renderColumns(cabin, column => renderSeat(row.seats.find(seat => seat.column === column), row, tabStop))}
+                    </div>
+                    <div className="row-number" aria-hidden="true">{row.rowNumber}</div>
+                    <div className="row-side" aria-hidden="true">{row.isExitRow && <span className="exit-marker">EXIT</span>}</div>
+                  </div>
+                );
+              })}
+          </section>
         ))}
-        
-        <div className="aircraft-tail">✈</div>
+
+        <div className="aircraft-tail" aria-hidden="true">✈</div>
       </div>
 
       <div className="seat-map-footer">
-        <p>Click on available seats to select them</p>
+        <p id={instructionsId}>
+          {onSeatDrop
+            ? 'Click an available seat to assign it, or drag an assigned seat onto another seat to move or swap it. '
+            : 'Click on available seats to select them. '}
+          With a keyboard, use the arrow keys to move between seats and Enter or Space to select.
+        </p>
         {selectedSeats.length > 0 && (
           <div className="selected-seats">
             <strong>Selected: {selectedSeats.join(', ')}</strong>
           </div>
         )}
+        {hasHolds && (
+          <div className="seat-holds">
+            {selectedSeats.filter(seat => holdExpiries[seat]).map(seat => {
+              const remaining = new Date(holdExpiries[seat]).getTime() - now;
+              return (
+                <span key={seat} className={`seat-hold ${remaining < 60000 ? 'expiring' : ''}`}>
+                  {seat} held for {formatCountdown(remaining)}
+                </span>
+              );
+            })}
+          </div>
+        )}
       </div>
+      <div className="visually-hidden" aria-live="polite">{announcement}</div>
     </div>
   );
 };
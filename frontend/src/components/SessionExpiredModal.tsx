@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import './SessionExpiredModal.css';
+
+interface SessionExpiredModalProps {
+  email: string;
+  onSignIn: (password: string) => Promise<boolean>;
+  onSignOut: () => void;
+}
+
+// Shown on top of the current page so in-progress work (e.g. a half-finished booking) survives re-authentication
+const SessionExpiredModal: React.FC<SessionExpiredModalProps> = ({ email, onSignIn, onSignOut }) => {
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    const success = await onSignIn(password);
+    if (!success) {
+      setError('Invalid password');
+      setIsLoading(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    onSignOut();
+    navigate('/login');
+  };
+
+  return (
+    <div className="session-expired-overlay" role="dialog" aria-modal="true" aria-labelledby="session-expired-title">
+      <div className="auth-form session-expired-modal">
+        <h2 id="session-expired-title">Session Expired</h2>
+        <p className="session-expired-message">
+          For your security you have been signed out. Sign in again to pick up where you left off.
+        </p>
+        <form onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="session-email">Email</label>
+            <input type="email" id="session-email" value={email} disabled />
+          </div>
+          <div className="form-group">
+            <label htmlFor="session-password">Password</label>
+            <input
+              type="password"
+              id="session-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              required
+            />
+          </div>
+          {error && <div className="error-message">{error}</div>}
+          <div className="session-expired-actions">
+            <button type="button" className="btn btn-secondary" onClick={handleSignOut}>
+              Sign Out
+            </button>
+            <button type="submit" disabled={isLoading} className="btn btn-primary">
+              {isLoading ? 'Signing In...' : 'Sign In'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SessionExpiredModal;
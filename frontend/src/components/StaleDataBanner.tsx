@@ -0,0 +1,31 @@
+import React from 'react';
+import './StaleDataBanner.css';
+
+interface StaleDataBannerProps {
+  // ISO time the data on screen was saved
+  savedAt: string;
+  isOnline: boolean;
+  isSyncing: boolean;
+  onRefresh: () => void;
+}
+
+const formatSavedAt = (savedAt: string) =>
+  new Date(savedAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Shown while a page displays the copy saved for offline use instead of live data
+const StaleDataBanner: React.FC<StaleDataBannerProps> = ({ savedAt, isOnline, isSyncing, onRefresh }) => (
+  <div className={`stale-data-banner ${isOnline ? 'reconnected' : 'offline'}`} role="status">
+    <span>
+      {isOnline
+        ? `Back online. You are viewing information saved on ${formatSavedAt(savedAt)}, which may be out of date.`
+        : `You're offline. Showing information saved on ${formatSavedAt(savedAt)}.`}
+    </span>
+    {isOnline && (
+      <button type="button" className="stale-data-refresh" onClick={onRefresh} disabled={isSyncing}>
+        {isSyncing ? 'Updating...' : 'Refresh now'}
+      </button>
+    )}
+  </div>
+);
+
+export default StaleDataBanner;
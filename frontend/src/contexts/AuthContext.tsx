@@ -1,11 +1,17 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { apiService } from '../services/api';
+import { apiService, AuthResponse, LoyaltySummary } from '../services/api';
+import { NetworkError } from '../services/apiErrors';
+import { clearOfflineCache } from '../services/offlineCache';
+import { unsubscribeFromPush } from '../services/pushNotifications';
+import SessionExpiredModal from '../components/SessionExpiredModal';
 
 interface User {
   id: string;
   email: string;
   firstName: string;
   lastName: string;
+  // Not in the token, so missing while the server can't be reached
+  loyalty?: LoyaltySummary;
 }
 
 interface AuthContextType {
@@ -14,6 +20,7 @@ interface AuthContextType {
   register: (userData: RegisterData) => Promise<boolean>;
   logout: () => void;
   isLoading: boolean;
+  sessionExpired: boolean;
 }
 
 interface RegisterData {
@@ -23,6 +30,36 @@ interface RegisterData {
   password: string;
 }
 
+interface TokenPayload {
+  exp?: number;
+  nameid?: string;
+  sub?: string;
+  email?: string;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+}
+
+// Refresh the access token this long before it expires
+const REFRESH_LEAD_TIME_MS = 60 * 1000;
+
+// Basic JWT decode (without verification), the backend remains the source of truth
+const decodeToken = (token: string): TokenPayload | null => {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload));
+  } catch {
+    return null;
+  }
+};
+
+const userFromToken = (payload: TokenPayload): User => ({
+  id: payload.nameid || payload.sub || '',
+  email: payload.email || '',
+  firstName: payload.given_name || payload.name?.split(' ')[0] || '',
+  lastName: payload.family_name || payload.name?.split(' ')[1] || ''
+});
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -40,42 +77,82 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  // Bumped whenever a silent refresh stores a new token so the next refresh gets rescheduled
+  const [tokenVersion, setTokenVersion] = useState(0);
 
   useEffect(() => {
-    // Check for existing token on app load
-    const token = localStorage.getItem('authToken');
-    if (token) {
-      // For now, we'll trust the token exists and let the backend validate it
-      // In a production app, you might want to decode the JWT to get user info
-      // or make a call to a /me endpoint to validate the token
+    return apiService.onSessionChange(event => {
+      if (event === 'refreshed') {
+        setTokenVersion(version => version + 1);
+      } else {
+        setSessionExpired(true);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    // Validate any stored token with the backend on app load
+    const validateSession = async () => {
+      const token = apiService.getAuthToken();
+      if (!token) {
+        setIsLoading(false);
+        return;
+      }
+
       try {
-        // Basic JWT decode to get user info (without verification)
-        const payload = JSON.parse(atob(token.split('.')[1]));
-        setUser({
-          id: payload.nameid || payload.sub,
-          email: payload.email,
-          firstName: payload.given_name || payload.name?.split(' ')[0] || '',
-          lastName: payload.family_name || payload.name?.split(' ')[1] || ''
-        });
+        setUser(await apiService.getCurrentUser());
       } catch (error) {
-        // If token is invalid, remove it
-        localStorage.removeItem('authToken');
-        setUser(null);
+        if (error instanceof NetworkError) {
+          // The server is unreachable, trust the token claims until it can be checked
+          const payload = decodeToken(token);
+          setUser(payload ? userFromToken(payload) : null);
+        } else {
+          apiService.clearSession();
+          setUser(null);
+        }
+      } finally {
+        setSessionExpired(false);
+        setIsLoading(false);
       }
-    }
-    setIsLoading(false);
+    };
+
+    validateSession();
   }, []);
 
+  useEffect(() => {
+    // Proactively refresh shortly before the access token expires
+    if (!user || sessionExpired) return;
+
+    const token = apiService.getAuthToken();
+    const expiresAt = token ? decodeToken(token)?.exp : undefined;
+    if (!expiresAt) return;
+
+    const delay = Math.max(expiresAt * 1000 - Date.now() - REFRESH_LEAD_TIME_MS, 0);
+    const timer = setTimeout(() => {
+      // If the server cannot be reached, the next request that gets a 401 tries again
+      apiService.refreshSession().catch(error => console.error('Session refresh failed:', error));
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [user, sessionExpired, tokenVersion]);
+
+  const startSession = (response: AuthResponse) => {
+    apiService.setSession(response);
+    setUser({
+      id: response.user.id,
+      email: response.user.email,
+      firstName: response.user.firstName,
+      lastName: response.user.lastName,
+      loyalty: response.user.loyalty
+    });
+    setSessionExpired(false);
+  };
+
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
       const response = await apiService.login(email, password);
-      localStorage.setItem('authToken', response.token);
-      setUser({
-        id: response.user.id,
-        email: response.user.email,
-        firstName: response.user.firstName,
-        lastName: response.user.lastName
-      });
+      startSession(response);
       return true;
     } catch (error) {
       console.error('Login failed:', error);
@@ -83,26 +160,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Errors are left to propagate so the form can map validation failures onto its fields
   const register = async (userData: RegisterData): Promise<boolean> => {
-    try {
-      const response = await apiService.register(userData.email, userData.firstName, userData.lastName, userData.password);
-      localStorage.setItem('authToken', response.token);
-      setUser({
-        id: response.user.id,
-        email: response.user.email,
-        firstName: response.user.firstName,
-        lastName: response.user.lastName
-      });
-      return true;
-    } catch (error) {
-      console.error('Registration failed:', error);
-      return false;
-    }
+    const response = await apiService.register(userData.email, userData.firstName, userData.lastName, userData.password);
+    startSession(response);
+    return true;
   };
 
   const logout = () => {
     setUser(null);
-    localStorage.removeItem('authToken');
+    setSessionExpired(false);
+    // Clears the stored tokens straight away, then revokes the refresh token, whatever happens with push
+    apiService.logout().catch(error => console.error('Logout failed:', error));
+    // Stop this browser getting the signed-out user's pushes
+    unsubscribeFromPush().catch(error => console.error('Error disabling push notifications:', error));
+    // Saved bookings and boarding passes must not outlive the session on a shared device
+    clearOfflineCache();
   };
 
   const value = {
@@ -110,12 +183,21 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     login,
     register,
     logout,
-    isLoading
+    isLoading,
+    sessionExpired
   };
 
   return (
     <AuthContext.Provider value={value}>
       {children}
+      {/* The user is kept while the session is expired so protected pages stay mounted with their state */}
+      {sessionExpired && user && (
+        <SessionExpiredModal
+          email={user.email}
+          onSignIn={password => login(user.email, password)}
+          onSignOut={logout}
+        />
+      )}
     </AuthContext.Provider>
   );
-};
\ No newline at end of file
+};
@@ -1,11 +1,28 @@
-import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef, ReactNode } from 'react';
 import { HubConnection, HubConnectionBuilder, LogLevel } from '@microsoft/signalr';
+import {
+  flightEventBus,
+  FlightEventListener,
+  FlightStatusUpdate,
+  GateChangeUpdate,
+  DelayUpdate,
+  FlightCancellationUpdate,
+  SeatHoldUpdate
+} from '../services/flightEvents';
+import { baggageEventBus, BaggageEventListener } from '../services/baggageEvents';
+import { notificationEventBus } from '../services/notificationEvents';
+import { apiService, BaggageInfo, UserNotification } from '../services/api';
+import { useAuth } from './AuthContext';
 
 interface SignalRContextType {
   connection: HubConnection | null;
   isConnected: boolean;
   joinFlightGroup: (flightNumber: string) => Promise<void>;
   leaveFlightGroup: (flightNumber: string) => Promise<void>;
+  joinAirportGroup: (airportCode: string) => Promise<void>;
+  leaveAirportGroup: (airportCode: string) => Promise<void>;
+  joinBaggageGroup: (trackingNumber: string) => Promise<void>;
+  leaveBaggageGroup: (trackingNumber: string) => Promise<void>;
 }
 
 const SignalRContext = createContext<SignalRContextType | undefined>(undefined);
@@ -18,6 +35,52 @@ export const useSignalR = () => {
   return context;
 };
 
+// Subscribe a page to live updates for a single flight; joins the flight's hub group while mounted
+export const useFlightUpdates = (flightNumber: string | undefined, onEvent: FlightEventListener) => {
+  const { isConnected, joinFlightGroup, leaveFlightGroup } = useSignalR();
+  const listenerRef = useRef(onEvent);
+
+  useEffect(() => {
+    listenerRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!flightNumber) return;
+    return flightEventBus.subscribeToFlight(flightNumber, event => listenerRef.current(event));
+  }, [flightNumber]);
+
+  useEffect(() => {
+    if (!flightNumber || !isConnected) return;
+    joinFlightGroup(flightNumber);
+    return () => {
+      leaveFlightGroup(flightNumber);
+    };
+  }, [flightNumber, isConnected, joinFlightGroup, leaveFlightGroup]);
+};
+
+// Follow status changes for one checked bag; joins the bag's hub group while mounted
+export const useBaggageUpdates = (trackingNumber: string | undefined, onUpdate: BaggageEventListener) => {
+  const { isConnected, joinBaggageGroup, leaveBaggageGroup } = useSignalR();
+  const listenerRef = useRef(onUpdate);
+
+  useEffect(() => {
+    listenerRef.current = onUpdate;
+  }, [onUpdate]);
+
+  useEffect(() => {
+    if (!trackingNumber) return;
+    return baggageEventBus.subscribeToBaggage(trackingNumber, baggage => listenerRef.current(baggage));
+  }, [trackingNumber]);
+
+  useEffect(() => {
+    if (!trackingNumber || !isConnected) return;
+    joinBaggageGroup(trackingNumber);
+    return () => {
+      leaveBaggageGroup(trackingNumber);
+    };
+  }, [trackingNumber, isConnected, joinBaggageGroup, leaveBaggageGroup]);
+};
+
 interface SignalRProviderProps {
   children: ReactNode;
 }
@@ -25,17 +88,32 @@ interface SignalRProviderProps {
 export const SignalRProvider: React.FC<SignalRProviderProps> = ({ children }) => {
   const [connection, setConnection] = useState<HubConnection | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  // Hub group memberships are tied to the connection id, so remember them to rejoin after a reconnect
+  const joinedGroups = useRef(new Map<string, { method: string; arg: string }>());
+  const { user } = useAuth();
+  const userId = user?.id;
+  // Whether the current connection was opened with the user's token, so it can join their personal group
+  const isSignedIn = useRef(false);
+  // Events from a connection that has since been replaced are ignored
+  const currentConnection = useRef<HubConnection | null>(null);
 
   useEffect(() => {
     // Get base URL without /api suffix for SignalR hub
     const apiUrl = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
     const baseUrl = apiUrl.replace('/api', '');
+    // The hub authenticates when the connection opens, so signing in or out needs a fresh connection
+    isSignedIn.current = !!userId;
     const newConnection = new HubConnectionBuilder()
-      .withUrl(`${baseUrl}/flightUpdatesHub`)
+      .withUrl(`${baseUrl}/flightUpdatesHub`, {
+        accessTokenFactory: () => apiService.getAuthToken() ?? ''
+      })
       .withAutomaticReconnect()
       .configureLogging(LogLevel.Information)
       .build();
 
+    currentConnection.current = newConnection;
+    // Nothing can be invoked until the new connection has started
+    setIsConnected(false);
     setConnection(newConnection);
 
     return () => {
@@ -43,79 +121,151 @@ export const SignalRProvider: React.FC<SignalRProviderProps> = ({ children }) =>
         newConnection.stop();
       }
     };
-  }, []);
+  }, [userId]);
 
   useEffect(() => {
     if (connection) {
+      connection.on('FlightStatusChanged', (update: FlightStatusUpdate) => {
+        flightEventBus.publish({ type: 'FlightStatusChanged', update });
+      });
+
+      connection.on('GateChanged', (update: GateChangeUpdate) => {
+        flightEventBus.publish({ type: 'GateChanged', update });
+      });
+
+      connection.on('FlightDelayed', (update: DelayUpdate) => {
+        flightEventBus.publish({ type: 'FlightDelayed', update });
+      });
+
+      connection.on('FlightCancelled', (update: FlightCancellationUpdate) => {
+        flightEventBus.publish({ type: 'FlightCancelled', update });
+      });
+
+      connection.on('SeatHoldChanged', (update: SeatHoldUpdate) => {
+        flightEventBus.publish({ type: 'SeatHoldChanged', update });
+      });
+
+      connection.on('BaggageStatusChanged', (baggage: BaggageInfo) => {
+        baggageEventBus.publish(baggage);
+      });
+
+      connection.on('NotificationReceived', (notification: UserNotification) => {
+        notificationEventBus.publish(notification);
+      });
+
+      const joinUserGroup = () => {
+        if (!isSignedIn.current) return;
+        connection.invoke('JoinUserGroup').catch((error) => {
+          console.error('Error joining user group:', error);
+        });
+      };
+
+      const isCurrent = () => currentConnection.current === connection;
+
+      const rejoinGroups = () => {
+        joinUserGroup();
+        joinedGroups.current.forEach(({ method, arg }) => {
+          connection.invoke(method, arg).catch((error) => {
+            console.error(`Error rejoining group via ${method}:`, error);
+          });
+        });
+      };
+
       connection
         .start()
         .then(() => {
+          if (!isCurrent()) return;
           console.log('SignalR Connected');
           setIsConnected(true);
+          // Groups joined on a previous connection, e.g. before signing in, carry over to this one
+          rejoinGroups();
 
           connection.on('Connected', (connectionId) => {
             console.log('Connected with ID:', connectionId);
           });
-
-          connection.on('FlightStatusChanged', (update) => {
-            console.log('Flight status update:', update);
-            // Handle flight status updates
-          });
-
-          connection.on('GateChanged', (update) => {
-            console.log('Gate change update:', update);
-            // Handle gate change updates
-          });
-
-          connection.on('FlightDelayed', (update) => {
-            console.log('Flight delay update:', update);
-            // Handle flight delay updates
-          });
         })
         .catch((error) => {
           console.error('SignalR Connection Error:', error);
-          setIsConnected(false);
+          if (isCurrent()) setIsConnected(false);
         });
 
       connection.onclose(() => {
-        setIsConnected(false);
         console.log('SignalR Disconnected');
+        if (isCurrent()) setIsConnected(false);
       });
 
       connection.onreconnected(() => {
+        if (!isCurrent()) return;
         setIsConnected(true);
         console.log('SignalR Reconnected');
+        rejoinGroups();
       });
     }
   }, [connection]);
 
-  const joinFlightGroup = async (flightNumber: string) => {
+  const joinGroup = useCallback(async (method: string, arg: string, key: string) => {
     if (connection && isConnected) {
       try {
-        await connection.invoke('JoinFlightGroup', flightNumber);
-        console.log(`Joined flight group: ${flightNumber}`);
+        await connection.invoke(method, arg);
+        joinedGroups.current.set(key, { method, arg });
+        console.log(`Joined group: ${key}`);
       } catch (error) {
-        console.error('Error joining flight group:', error);
+        console.error(`Error joining group ${key}:`, error);
       }
     }
-  };
+  }, [connection, isConnected]);
 
-  const leaveFlightGroup = async (flightNumber: string) => {
+  const leaveGroup = useCallback(async (method: string, arg: string, key: string) => {
+    joinedGroups.current.delete(key);
     if (connection && isConnected) {
       try {
-        await connection.invoke('LeaveFlightGroup', flightNumber);
-        console.log(`Left flight group: ${flightNumber}`);
+        await connection.invoke(method, arg);
+        console.log(`Left group: ${key}`);
       } catch (error) {
-        console.error('Error leaving flight group:', error);
+        console.error(`Error leaving group ${key}:`, error);
       }
     }
-  };
+  }, [connection, isConnected]);
+
+  const joinFlightGroup = useCallback(
+    (flightNumber: string) => joinGroup('JoinFlightGroup', flightNumber, `flight_${flightNumber.toUpperCase()}`),
+    [joinGroup]
+  );
+
+  const leaveFlightGroup = useCallback(
+    (flightNumber: string) => leaveGroup('LeaveFlightGroup', flightNumber, `flight_${flightNumber.toUpperCase()}`),
+    [leaveGroup]
+  );
+
+  const joinAirportGroup = useCallback(
+    (airportCode: string) => joinGroup('JoinAirportGroup', airportCode, `airport_${airportCode.toUpperCase()}`),
+    [joinGroup]
+  );
+
+  const leaveAirportGroup = useCallback(
+    (airportCode: string) => leaveGroup('LeaveAirportGroup', airportCode, `airport_${airportCode.toUpperCase()}`),
+    [leaveGroup]
+  );
+
+  const joinBaggageGroup = useCallback(
+    (trackingNumber: string) => joinGroup('JoinBaggageGroup', trackingNumber, `baggage_${trackingNumber.toUpperCase()}`),
+    [joinGroup]
+  );
+
+  const leaveBaggageGroup = useCallback(
+    (trackingNumber: string) => leaveGroup('LeaveBaggageGroup', trackingNumber, `baggage_${trackingNumber.toUpperCase()}`),
+    [leaveGroup]
+  );
 
   const value = {
     connection,
     isConnected,
     joinFlightGroup,
-    leaveFlightGroup
+    leaveFlightGroup,
+    joinAirportGroup,
+    leaveAirportGroup,
+    joinBaggageGroup,
+    leaveBaggageGroup
   };
 
   return (
@@ -123,4 +273,4 @@ export const SignalRProvider: React.FC<SignalRProviderProps> = ({ children }) =>
       {children}
     </SignalRContext.Provider>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,31 @@
+import { useState, useEffect, useRef } from 'react';
+
+/**
+ * Tracks the browser's connectivity. `onReconnect` runs each time the connection comes back,
+ * which is where pages showing saved data resync with the server.
+ */
+export const useOnlineStatus = (onReconnect?: () => void) => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const onReconnectRef = useRef(onReconnect);
+
+  useEffect(() => {
+    onReconnectRef.current = onReconnect;
+  }, [onReconnect]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      onReconnectRef.current?.();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return isOnline;
+};
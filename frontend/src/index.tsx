@@ -3,6 +3,7 @@ import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import App from './App';
+import * as serviceWorkerRegistration from './serviceWorkerRegistration';
 import './index.css';
 
 const queryClient = new QueryClient({
@@ -31,4 +32,7 @@ root.render(
             </BrowserRouter>
         </QueryClientProvider>
     </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Keeps the app shell cached so saved bookings and boarding passes open offline
+serviceWorkerRegistration.register();
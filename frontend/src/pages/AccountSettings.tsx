@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { apiService, NotificationPreferences } from '../services/api';
+import { getErrorMessage } from '../services/apiErrors';
+import { disablePush, enablePush, getPushStatus, PushStatus } from '../services/pushNotifications';
+import './AccountSettings.css';
+
+type PreferenceKey = keyof NotificationPreferences;
+
+const CHANNELS: { key: PreferenceKey; label: string; description: string }[] = [
+  { key: 'emailNotifications', label: 'Email', description: 'Sent to the address you sign in with' },
+  { key: 'smsNotifications', label: 'Text message', description: 'Short alerts to your phone' },
+  { key: 'pushNotifications', label: 'Push notifications', description: 'Alerts in this app, and in browsers you allow below even when the app is closed' }
+];
+
+const CATEGORIES: { key: PreferenceKey; label: string; description: string }[] = [
+  { key: 'flightUpdates', label: 'Flight updates', description: 'Delays, gate changes and cancellations for flights you have booked' },
+  { key: 'bookingConfirmations', label: 'Booking confirmations', description: 'Receipts for bookings, check-in, changes and cancellations' },
+  { key: 'promotionalOffers', label: 'Offers and news', description: 'Fare sales and rewards promotions' }
+];
+
+const AccountSettings: React.FC = () => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [pushStatus, setPushStatus] = useState<PushStatus>('unsupported');
+  const [isUpdatingPush, setIsUpdatingPush] = useState(false);
+  const [pushError, setPushError] = useState('');
+
+  useEffect(() => {
+    getPushStatus()
+      .then(setPushStatus)
+      .catch(error => console.error('Error checking push notifications:', error));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadPreferences = async () => {
+      try {
+        const stored = await apiService.getNotificationPreferences();
+        if (!cancelled) setPreferences(stored);
+      } catch (error) {
+        console.error('Error loading notification preferences:', error);
+        if (!cancelled) setError(getErrorMessage(error, 'Failed to load your notification preferences'));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadPreferences();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleToggle = (key: PreferenceKey) => {
+    if (!preferences) return;
+    setPreferences({ ...preferences, [key]: !preferences[key] });
+    setIsDirty(true);
+    setNotice('');
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!preferences) return;
+
+    try {
+      setIsSaving(true);
+      setError('');
+      setPreferences(await apiService.updateNotificationPreferences(preferences));
+      setIsDirty(false);
+      setNotice('Your notification preferences have been saved.');
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      setError(getErrorMessage(error, 'Failed to save your notification preferences'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePushToggle = async () => {
+    try {
+      setIsUpdatingPush(true);
+      setPushError('');
+      setPushStatus(pushStatus === 'enabled' ? await disablePush() : await enablePush());
+    } catch (error) {
+      console.error('Error updating push notifications:', error);
+      setPushError(getErrorMessage(error, 'Failed to update browser notifications'));
+    } finally {
+      setIsUpdatingPush(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="settings-container">
+        <div className="loading">Loading settings...</div>
+      </div>
+    );
+  }
+
+  if (!preferences) {
+    return (
+      <div className="settings-container">
+        <div className="error-message">{error || 'Notification preferences not found'}</div>
+      </div>
+    );
+  }
+
+  const renderToggle = (option: { key: PreferenceKey; label: string; description: string }) => (
+    <label key={option.key} className="settings-toggle">
+      <input
+        type="checkbox"
+        checked={preferences[option.key]}
+        onChange={() => handleToggle(option.key)}
+      />
+      <span>
+        <strong>{option.label}</strong>
+        <span className="settings-toggle-description">{option.description}</span>
+      </span>
+    </label>
+  );
+
+  const noChannels = CHANNELS.every(channel => !preferences[channel.key]);
+
+  return (
+    <div className="settings-container">
+      <div className="settings-header">
+        <h1>Account Settings</h1>
+        {user && <p>{user.firstName} {user.lastName} · {user.email}</p>}
+      </div>
+
+      <form className="settings-section" onSubmit={handleSave}>
+        <h2>Notifications</h2>
+
+        <fieldset>
+          <legend>How we reach you</legend>
+          {CHANNELS.map(renderToggle)}
+        </fieldset>
+
+        <div className="settings-push">
+          <div>
+            <strong>Browser notifications on this device</strong>
+            <span className="settings-toggle-description">
+              {pushStatus === 'unsupported' && 'This browser does not support push notifications.'}
+              {pushStatus === 'denied' && 'Notifications are blocked for this site. Allow them in your browser settings to turn them on.'}
+              {pushStatus === 'disabled' && 'Get delays, gate changes and check-in reminders here even with the app closed.'}
+              {pushStatus === 'enabled' && 'This browser will show delays, gate changes and check-in reminders for your booked flights.'}
+            </span>
+          </div>
+          {(pushStatus === 'disabled' || pushStatus === 'enabled') && (
+            <button type="button" className="btn btn-secondary" onClick={handlePushToggle} disabled={isUpdatingPush}>
+              {isUpdatingPush ? 'Updating...' : pushStatus === 'enabled' ? 'Turn off' : 'Turn on'}
+            </button>
+          )}
+        </div>
+        {pushStatus === 'enabled' && !preferences.pushNotifications && (
+          <p className="settings-warning">Push notifications are switched off above, so this browser will not get any until you switch them back on.</p>
+        )}
+        {pushError && <div className="error-message" role="alert">{pushError}</div>}
+
+        <fieldset>
+          <legend>What we send</legend>
+          {CATEGORIES.map(renderToggle)}
+        </fieldset>
+
+        {noChannels && (
+          <p className="settings-warning">
+            With every channel switched off we will not send you anything, including booking confirmations and flight disruptions.
+          </p>
+        )}
+        {error && <div className="error-message" role="alert">{error}</div>}
+        {notice && <div className="settings-notice" role="status">{notice}</div>}
+
+        <button type="submit" className="btn btn-primary" disabled={isSaving || !isDirty}>
+          {isSaving ? 'Saving...' : 'Save Preferences'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AccountSettings;
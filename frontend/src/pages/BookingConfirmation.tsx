@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { useFlightUpdates } from '../contexts/SignalRContext';
 import { apiService, BookingDetailsResponse } from '../services/api';
+import { applyFlightEvent } from '../services/flightEvents';
+import { formatPoints } from '../components/Loyalty/tiers';
 import './BookingConfirmation.css';
 
 const BookingConfirmation: React.FC = () => {
@@ -25,6 +28,11 @@ const BookingConfirmation: React.FC = () => {
     }
   }, [confirmationNumber, user, navigate]);
 
+  // Keep the flight status, gate and times live while the confirmation is open
+  useFlightUpdates(booking?.flight.flightNumber, event => {
+    setBooking(current => current && { ...current, flight: applyFlightEvent(current.flight, event) });
+  });
+
   const loadBookingDetails = async () => {
     try {
       setIsLoading(true);
@@ -43,17 +51,6 @@ const BookingConfirmation: React.FC = () => {
     }
   };
 
-  const handleCheckIn = async () => {
-    try {
-      await apiService.checkIn(confirmationNumber!);
-      // Reload booking details to get updated status
-      loadBookingDetails();
-    } catch (error) {
-      console.error('Check-in failed:', error);
-      setError('Check-in failed. Please try again.');
-    }
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString('en-US', {
       weekday: 'long',
@@ -178,6 +175,18 @@ const BookingConfirmation: React.FC = () => {
                 <span className="label">Total Amount:</span>
                 <span className="value amount">${booking.totalAmount.toFixed(2)}</span>
               </div>
+              {booking.pointsRedeemed > 0 && (
+                <>
+                  <div className="payment-item">
+                    <span className="label">Paid with Points:</span>
+                    <span className="value">{formatPoints(booking.pointsRedeemed)} points (−${booking.pointsValue.toFixed(2)})</span>
+                  </div>
+                  <div className="payment-item">
+                    <span className="label">Charged to Card:</span>
+                    <span className="value">${(booking.totalAmount - booking.pointsValue).toFixed(2)}</span>
+                  </div>
+                </>
+              )}
               <div className="payment-item">
                 <span className="label">Payment Status:</span>
                 <span className="value status completed">Completed</span>
@@ -232,11 +241,19 @@ const BookingConfirmation: React.FC = () => {
                 {booking.status === 'Confirmed' && (
                   <button 
                     className="btn btn-primary"
-                    onClick={handleCheckIn}
+                    onClick={() => navigate(`/check-in/${booking.confirmationNumber}`)}
                   >
                     Check-in Now
                   </button>
                 )}
+                {booking.status === 'CheckedIn' && (
+                  <button 
+                    className="btn btn-primary"
+                    onClick={() => navigate(`/check-in/${booking.confirmationNumber}`)}
+                  >
+                    View Boarding Passes
+                  </button>
+                )}
               </div>
             </div>
             <div className="step-item">
@@ -265,6 +282,14 @@ const BookingConfirmation: React.FC = () => {
           >
             View All Bookings
           </button>
+          {booking.status === 'Confirmed' && new Date(booking.flight.scheduledDeparture) > new Date() && (
+            <button
+              className="btn btn-secondary"
+              onClick={() => navigate(`/manage-booking/${booking.confirmationNumber}`)}
+            >
+              Manage Booking
+            </button>
+          )}
           <button 
             className="btn btn-primary"
             onClick={() => navigate('/')}
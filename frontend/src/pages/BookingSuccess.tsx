@@ -1,20 +1,14 @@
 import React, { useEffect, useState } from 'react';
 import { useLocation, useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { FlightSummary, BookingResponse } from '../services/api';
+import { FlightSummary, BookingResponse, PassengerRequest } from '../services/api';
+import { formatPrice, getSeatClassLabel } from '../components/BookingWizard/fares';
 import './BookingConfirmation.css';
 
-interface Passenger {
-  firstName: string;
-  lastName: string;
-  dateOfBirth: string;
-  seatClass: string;
-}
-
 interface LocationState {
   booking: BookingResponse;
   flight: FlightSummary;
-  passengers: Passenger[];
+  passengers: PassengerRequest[];
   totalAmount: number;
 }
 
@@ -137,8 +131,8 @@ const BookingSuccess: React.FC = () => {
                     👤 {passenger.firstName} {passenger.lastName}
                   </div>
                   <div className="passenger-details">
-                    <span>Class: {passenger.seatClass}</span>
-                    <span>DOB: {new Date(passenger.dateOfBirth).toLocaleDateString()}</span>
+                    <span>Class: {getSeatClassLabel(passenger.seatClass)}</span>
+                    {passenger.dateOfBirth && <span>DOB: {new Date(passenger.dateOfBirth).toLocaleDateString()}</span>}
                   </div>
                 </div>
               ))}
@@ -172,13 +166,13 @@ const BookingSuccess: React.FC = () => {
             <div className="payment-summary">
               {passengers.map((passenger, index) => (
                 <div key={index} className="payment-row">
-                  <span>{passenger.firstName} {passenger.lastName} ({passenger.seatClass})</span>
-                  <span>${passenger.seatClass === 'Economy' ? '299.00' : passenger.seatClass === 'Business' ? '899.00' : '1,599.00'}</span>
+                  <span>{passenger.firstName} {passenger.lastName}</span>
+                  <span>{getSeatClassLabel(passenger.seatClass)}</span>
                 </div>
               ))}
               <div className="payment-row total">
                 <span><strong>Total Paid:</strong></span>
-                <span><strong>${totalAmount.toFixed(2)}</strong></span>
+                <span><strong>{formatPrice(totalAmount)}</strong></span>
               </div>
             </div>
           </div>
@@ -0,0 +1,473 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  apiService,
+  BaggageInfo,
+  BoardingPass,
+  BookingDetailsResponse,
+  PassengerCheckInRequest,
+  PassengerDto,
+  TravelDocumentType
+} from '../services/api';
+import { FieldErrors, fieldErrorsFor, getErrorMessage, ValidationError } from '../services/apiErrors';
+import { cacheBookingWithPasses, fetchBookingWithPasses } from '../services/offlineCache';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import StaleDataBanner from '../components/StaleDataBanner';
+import BoardingPassCard from '../components/BoardingPass/BoardingPassCard';
+import { downloadBoardingPassesPdf } from '../components/BoardingPass/boardingPassPdf';
+import './CheckIn.css';
+
+// Mirrors the window BookingService enforces
+const CHECK_IN_OPENS_HOURS = 24;
+const CHECK_IN_CLOSES_MINUTES = 45;
+
+const DOCUMENT_TYPE_OPTIONS: { value: TravelDocumentType; label: string }[] = [
+  { value: 'Passport', label: 'Passport' },
+  { value: 'NationalId', label: 'National ID card' }
+];
+
+type DocumentForm = Omit<PassengerCheckInRequest, 'passengerId'>;
+
+const emptyDocument = (): DocumentForm => ({
+  documentType: 'Passport',
+  documentNumber: '',
+  documentExpiry: '',
+  documentCountry: ''
+});
+
+const getCheckInWindow = (booking: BookingDetailsResponse) => {
+  const departure = new Date(booking.flight.scheduledDeparture).getTime();
+  const opensAt = new Date(departure - CHECK_IN_OPENS_HOURS * 60 * 60 * 1000);
+  const closesAt = new Date(departure - CHECK_IN_CLOSES_MINUTES * 60 * 1000);
+  const now = new Date();
+  return { opensAt, isOpen: now >= opensAt && now <= closesAt, isClosed: now > closesAt };
+};
+
+// Offline copies of a trip opened through Find my trip are kept apart from any account's bookings
+const getGuestCacheOwner = (confirmationNumber: string) => `trip:${confirmationNumber.toUpperCase()}`;
+
+const CheckIn: React.FC = () => {
+  const { confirmationNumber } = useParams<{ confirmationNumber: string }>();
+  const navigate = useNavigate();
+  const { user, isLoading: isAuthLoading } = useAuth();
+  // Signed-in travellers see their own bookings; guests need a trip token for this booking
+  const isGuest = !!confirmationNumber && !!apiService.getTripAccess(confirmationNumber);
+  const cacheOwner = user ? user.id : isGuest ? getGuestCacheOwner(confirmationNumber!) : null;
+
+  const [booking, setBooking] = useState<BookingDetailsResponse | null>(null);
+  const [boardingPasses, setBoardingPasses] = useState<BoardingPass[]>([]);
+  const [baggage, setBaggage] = useState<BaggageInfo[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [documents, setDocuments] = useState<Record<number, DocumentForm>>({});
+  const [documentsConfirmed, setDocumentsConfirmed] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [error, setError] = useState('');
+  // When the booking and passes shown were saved for offline use, rather than fetched just now
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  // Passenger whose pass alone is being printed; null prints every pass
+  const [printTarget, setPrintTarget] = useState<number | null | undefined>(undefined);
+
+  // A background load keeps the passes on screen while it resyncs
+  const loadCheckIn = useCallback(async (background = false) => {
+    if (!confirmationNumber || !cacheOwner) return;
+    try {
+      if (background) {
+        setIsSyncing(true);
+      } else {
+        setIsLoading(true);
+      }
+      setError('');
+      const { data, savedAt } = await fetchBookingWithPasses(cacheOwner, confirmationNumber);
+      setBooking(data.booking);
+      setBoardingPasses(data.boardingPasses);
+      setSelectedIds(data.booking.passengers.filter(p => !p.checkedIn && !p.cancelled).map(p => p.id));
+      setSavedAt(savedAt);
+    } catch (error) {
+      console.error('Error loading check-in:', error);
+      setError(getErrorMessage(error, 'Failed to load booking details'));
+    } finally {
+      setIsLoading(false);
+      setIsSyncing(false);
+    }
+  }, [confirmationNumber, cacheOwner]);
+
+  // Bag tags are only shown online; check-in itself works from the offline copy
+  const loadBaggage = useCallback(async () => {
+    if (!confirmationNumber || !cacheOwner) return;
+    try {
+      setBaggage(await apiService.getBookingBaggage(confirmationNumber));
+    } catch (error) {
+      console.error('Error loading baggage:', error);
+    }
+  }, [confirmationNumber, cacheOwner]);
+
+  useEffect(() => {
+    loadCheckIn();
+    loadBaggage();
+  }, [loadCheckIn, loadBaggage]);
+
+  const isOnline = useOnlineStatus(() => {
+    if (savedAt) loadCheckIn(true);
+    loadBaggage();
+  });
+
+  // Print once the passes that should be left out have been hidden
+  useEffect(() => {
+    if (printTarget === undefined) return;
+    window.print();
+    setPrintTarget(undefined);
+  }, [printTarget]);
+
+  const selectedPassengers = booking?.passengers.filter(p => selectedIds.includes(p.id)) ?? [];
+
+  const togglePassenger = (passenger: PassengerDto) => {
+    setSelectedIds(current =>
+      current.includes(passenger.id) ? current.filter(id => id !== passenger.id) : [...current, passenger.id]
+    );
+    // Errors are keyed by position in the submitted list, which changes with the selection
+    setFieldErrors({});
+  };
+
+  const handleDocumentChange = <K extends keyof DocumentForm>(passengerId: number, index: number, field: K, value: DocumentForm[K]) => {
+    setDocuments(current => ({
+      ...current,
+      [passengerId]: { ...(current[passengerId] ?? emptyDocument()), [field]: value }
+    }));
+    setFieldErrors(current => {
+      const remaining = { ...current };
+      delete remaining[`passengers[${index}].${field}`];
+      return remaining;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!booking || selectedPassengers.length === 0) return;
+
+    setIsSubmitting(true);
+    setError('');
+    setFieldErrors({});
+    try {
+      const response = await apiService.checkIn(booking.confirmationNumber, {
+        passengers: selectedPassengers.map(passenger => {
+          const document = documents[passenger.id] ?? emptyDocument();
+          return {
+            passengerId: passenger.id,
+            ...document,
+            documentExpiry: document.documentExpiry || undefined
+          };
+        }),
+        documentsConfirmed
+      });
+
+      const issuedIds = response.boardingPasses.map(pass => pass.passengerId);
+      const updatedPasses = [
+        ...boardingPasses.filter(pass => !issuedIds.includes(pass.passengerId)),
+        ...response.boardingPasses
+      ];
+      const passengers = booking.passengers.map(p => issuedIds.includes(p.id)
+        ? { ...p, checkedIn: true, seatNumber: response.boardingPasses.find(pass => pass.passengerId === p.id)?.seatNumber ?? p.seatNumber }
+        : p);
+      const updatedBooking = {
+        ...booking,
+        passengers,
+        status: passengers.every(p => p.checkedIn || p.cancelled) ? 'CheckedIn' : booking.status
+      };
+      setBoardingPasses(updatedPasses);
+      setBooking(updatedBooking);
+      // Keep the offline copy in step so the new passes open without a connection
+      if (cacheOwner) cacheBookingWithPasses(cacheOwner, updatedBooking, updatedPasses);
+      setSelectedIds([]);
+      setDocumentsConfirmed(false);
+      loadBaggage();
+    } catch (error) {
+      if (error instanceof ValidationError && Object.keys(error.fieldErrors).length > 0) {
+        setFieldErrors(error.fieldErrors);
+        setError(error.message);
+      } else {
+        console.error('Check-in failed:', error);
+        setError(getErrorMessage(error, 'Check-in failed. Please try again.'));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDownload = async (passes: BoardingPass[]) => {
+    setIsDownloading(true);
+    try {
+      await downloadBoardingPassesPdf(passes);
+    } catch (error) {
+      console.error('Failed to create boarding pass PDF:', error);
+      setError('Your boarding pass could not be downloaded. Please try printing it instead.');
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  if (!isAuthLoading && !cacheOwner) {
+    return (
+      <div className="checkin-container">
+        <div className="checkin-notice">
+          Your access to this trip has expired. <Link to="/find-trip">Find your trip</Link> again with the
+          confirmation number and a passenger's last name, or <Link to="/login">sign in</Link>.
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="checkin-container">
+        <div className="loading">Loading check-in...</div>
+      </div>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <div className="checkin-container">
+        <div className="error-message">{error || 'Booking not found'}</div>
+      </div>
+    );
+  }
+
+  const checkInWindow = getCheckInWindow(booking);
+  const activePassengers = booking.passengers.filter(p => !p.cancelled);
+  const pendingPassengers = activePassengers.filter(p => !p.checkedIn);
+  const sortedPasses = [...boardingPasses].sort((a, b) => a.passengerId - b.passengerId);
+
+  return (
+    <div className="checkin-container">
+      <div className="checkin-header no-print">
+        <h1>Online Check-in</h1>
+        <p>
+          {booking.flight.flightNumber} · {booking.flight.originAirport} → {booking.flight.destinationAirport}
+          {' '}· {new Date(booking.flight.scheduledDeparture).toLocaleString('en-US', {
+            weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+          })}
+        </p>
+        <p className="checkin-confirmation">Confirmation: {booking.confirmationNumber}</p>
+      </div>
+
+      {savedAt && (
+        <StaleDataBanner
+          savedAt={savedAt}
+          isOnline={isOnline}
+          isSyncing={isSyncing}
+          onRefresh={() => loadCheckIn(true)}
+        />
+      )}
+
+      {error && <div className="error-message" role="alert">{error}</div>}
+
+      {booking.status === 'Cancelled' ? (
+        <div className="checkin-notice">This booking has been cancelled.</div>
+      ) : pendingPassengers.length > 0 && !isOnline ? (
+        <div className="checkin-notice">You need a connection to check in. Boarding passes already issued are shown below.</div>
+      ) : pendingPassengers.length > 0 && !checkInWindow.isOpen ? (
+        <div className="checkin-notice">
+          {checkInWindow.isClosed
+            ? `Online check-in closed ${CHECK_IN_CLOSES_MINUTES} minutes before departure. Please see an agent at the airport.`
+            : `Online check-in opens ${CHECK_IN_OPENS_HOURS} hours before departure, on ${checkInWindow.opensAt.toLocaleString('en-US', {
+                weekday: 'long', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit'
+              })}.`}
+        </div>
+      ) : pendingPassengers.length > 0 && (
+        <form className="checkin-form" onSubmit={handleSubmit} noValidate>
+          <fieldset className="checkin-passengers">
+            <legend>Who is travelling?</legend>
+            {activePassengers.map(passenger => (
+              <label key={passenger.id} className={`checkin-passenger ${passenger.checkedIn ? 'checked-in' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={passenger.checkedIn || selectedIds.includes(passenger.id)}
+                  disabled={passenger.checkedIn}
+                  onChange={() => togglePassenger(passenger)}
+                />
+                <span className="checkin-passenger-name">{passenger.firstName} {passenger.lastName}</span>
+                <span className="checkin-passenger-seat">
+                  {passenger.checkedIn ? 'Checked in' : `Seat ${passenger.seatNumber || 'assigned at check-in'}`}
+                </span>
+              </label>
+            ))}
+            {fieldErrors.passengers && <div className="field-error">{fieldErrors.passengers}</div>}
+          </fieldset>
+
+          {selectedPassengers.map((passenger, index) => {
+            const document = documents[passenger.id] ?? emptyDocument();
+            const errors = fieldErrorsFor(fieldErrors, `passengers[${index}]`);
+            const inputId = (field: string) => `checkin-${passenger.id}-${field}`;
+            return (
+              <fieldset key={passenger.id} className="checkin-document">
+                <legend>Travel document for {passenger.firstName} {passenger.lastName}</legend>
+                {errors.passengerId && <div className="field-error">{errors.passengerId}</div>}
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={inputId('type')}>Document type</label>
+                    <select
+                      id={inputId('type')}
+                      value={document.documentType}
+                      onChange={(e) => handleDocumentChange(passenger.id, index, 'documentType', e.target.value as TravelDocumentType)}
+                    >
+                      {DOCUMENT_TYPE_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    {errors.documentType && <div className="field-error">{errors.documentType}</div>}
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={inputId('number')}>Document number</label>
+                    <input
+                      id={inputId('number')}
+                      type="text"
+                      autoComplete="off"
+                      value={document.documentNumber}
+                      onChange={(e) => handleDocumentChange(passenger.id, index, 'documentNumber', e.target.value)}
+                      className={errors.documentNumber ? 'input-error' : ''}
+                      aria-invalid={!!errors.documentNumber}
+                    />
+                    {errors.documentNumber && <div className="field-error">{errors.documentNumber}</div>}
+                  </div>
+                </div>
+                <div className="form-row">
+                  <div className="form-group">
+                    <label htmlFor={inputId('expiry')}>Expiry date</label>
+                    <input
+                      id={inputId('expiry')}
+                      type="date"
+                      value={document.documentExpiry}
+                      onChange={(e) => handleDocumentChange(passenger.id, index, 'documentExpiry', e.target.value)}
+                      className={errors.documentExpiry ? 'input-error' : ''}
+                      aria-invalid={!!errors.documentExpiry}
+                    />
+                    {errors.documentExpiry && <div className="field-error">{errors.documentExpiry}</div>}
+                  </div>
+                  <div className="form-group">
+                    <label htmlFor={inputId('country')}>Issuing country code</label>
+                    <input
+                      id={inputId('country')}
+                      type="text"
+                      maxLength={3}
+                      placeholder="e.g. US"
+                      value={document.documentCountry}
+                      onChange={(e) => handleDocumentChange(passenger.id, index, 'documentCountry', e.target.value.toUpperCase())}
+                      className={errors.documentCountry ? 'input-error' : ''}
+                      aria-invalid={!!errors.documentCountry}
+                    />
+                    {errors.documentCountry && <div className="field-error">{errors.documentCountry}</div>}
+                  </div>
+                </div>
+              </fieldset>
+            );
+          })}
+
+          {selectedPassengers.length > 0 && (
+            <>
+              <label className="checkin-attestation">
+                <input
+                  type="checkbox"
+                  checked={documentsConfirmed}
+                  onChange={(e) => {
+                    setDocumentsConfirmed(e.target.checked);
+                    setFieldErrors(current => {
+                      const remaining = { ...current };
+                      delete remaining.documentsConfirmed;
+                      return remaining;
+                    });
+                  }}
+                />
+                <span>
+                  I confirm that the details above are correct and that every selected passenger holds a valid
+                  travel document and any visas required for this journey.
+                </span>
+              </label>
+              {fieldErrors.documentsConfirmed && <div className="field-error">{fieldErrors.documentsConfirmed}</div>}
+            </>
+          )}
+
+          <button
+            type="submit"
+            className="btn btn-primary"
+            disabled={isSubmitting || selectedPassengers.length === 0}
+          >
+            {isSubmitting
+              ? 'Checking in...'
+              : `Check in ${selectedPassengers.length} passenger${selectedPassengers.length === 1 ? '' : 's'}`}
+          </button>
+        </form>
+      )}
+
+      {sortedPasses.length > 0 && (
+        <section className="checkin-boarding-passes">
+          <div className="checkin-boarding-passes-header no-print">
+            <h2>Boarding Passes</h2>
+            <div className="checkin-boarding-passes-actions">
+              <button type="button" className="btn btn-secondary" onClick={() => setPrintTarget(null)}>
+                Print all
+              </button>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={() => handleDownload(sortedPasses)}
+                disabled={isDownloading}
+              >
+                {isDownloading ? 'Preparing PDF...' : 'Download all (PDF)'}
+              </button>
+            </div>
+          </div>
+          <div className="boarding-pass-print-area">
+            {sortedPasses.map(pass => (
+              <div
+                key={pass.passengerId}
+                className={printTarget != null && printTarget !== pass.passengerId ? 'print-skip' : ''}
+              >
+                <BoardingPassCard
+                  pass={pass}
+                  onPrint={() => setPrintTarget(pass.passengerId)}
+                  onDownload={() => handleDownload([pass])}
+                />
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {baggage.length > 0 && (
+        <section className="checkin-baggage no-print">
+          <h2>Checked Bags</h2>
+          <ul>
+            {baggage.map(bag => (
+              <li key={bag.trackingNumber}>
+                <span>
+                  <Link to={`/baggage/${bag.trackingNumber}`}>{bag.trackingNumber}</Link>
+                  {bag.passengerName && ` · ${bag.passengerName}`}
+                </span>
+                <span>{bag.currentLocation}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <div className="checkin-actions no-print">
+        {user ? (
+          <button type="button" className="btn btn-secondary" onClick={() => navigate('/my-bookings')}>
+            Back to My Bookings
+          </button>
+        ) : (
+          <button type="button" className="btn btn-secondary" onClick={() => navigate('/find-trip')}>
+            Find another trip
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CheckIn;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { apiService } from '../services/api';
+import { FieldErrors, getErrorMessage, ValidationError } from '../services/apiErrors';
+
+// Guests find their booking by confirmation number and any passenger's last name
+const FindTrip: React.FC = () => {
+  const [confirmationNumber, setConfirmationNumber] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const navigate = useNavigate();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
+    setFieldErrors({});
+
+    try {
+      const access = await apiService.findTrip(confirmationNumber.trim(), lastName.trim());
+      apiService.setTripAccess(access);
+      navigate(`/trip/${access.confirmationNumber}`);
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        setFieldErrors(error.fieldErrors);
+      }
+      setError(getErrorMessage(error, 'We could not look up your trip. Please try again.'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="auth-container">
+      <div className="auth-form">
+        <h2>Find My Trip</h2>
+        <p>View your booking, check in and get boarding passes without an account.</p>
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="form-group">
+            <label htmlFor="trip-confirmation">Confirmation number</label>
+            <input
+              type="text"
+              id="trip-confirmation"
+              autoComplete="off"
+              maxLength={6}
+              placeholder="e.g. ABC123"
+              value={confirmationNumber}
+              onChange={(e) => setConfirmationNumber(e.target.value.toUpperCase())}
+              aria-invalid={!!fieldErrors.confirmationNumber}
+              required
+            />
+            {fieldErrors.confirmationNumber && <div className="field-error">{fieldErrors.confirmationNumber}</div>}
+          </div>
+          <div className="form-group">
+            <label htmlFor="trip-last-name">Passenger last name</label>
+            <input
+              type="text"
+              id="trip-last-name"
+              autoComplete="family-name"
+              value={lastName}
+              onChange={(e) => setLastName(e.target.value)}
+              aria-invalid={!!fieldErrors.lastName}
+              required
+            />
+            {fieldErrors.lastName && <div className="field-error">{fieldErrors.lastName}</div>}
+          </div>
+          {error && <div className="error-message" role="alert">{error}</div>}
+          <button type="submit" disabled={isLoading} className="btn btn-primary">
+            {isLoading ? 'Finding trip...' : 'Find trip'}
+          </button>
+        </form>
+        <p>
+          Booked this trip yourself? <Link to="/login">Sign in</Link> to manage it.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default FindTrip;
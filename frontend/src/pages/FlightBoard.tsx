@@ -1,64 +1,214 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useSignalR } from '../contexts/SignalRContext';
 import { useAuth } from '../contexts/AuthContext';
 import { apiService, FlightSummary } from '../services/api';
+import AirportPicker, { DEFAULT_AIRPORT, getAirportName } from '../components/AirportPicker';
+import {
+  flightEventBus,
+  applyFlightEvent,
+  getChangedFields,
+  isEventForFlight,
+  FlightField
+} from '../services/flightEvents';
+
+// How long a cell stays highlighted after a live update
+const HIGHLIGHT_DURATION_MS = 5000;
+
+type BoardTab = 'departures' | 'arrivals';
+type SortKey = 'flightNumber' | 'airline' | 'airport' | 'scheduled' | 'estimated' | 'status' | 'gate';
+
+interface SortState {
+  key: SortKey;
+  direction: 'asc' | 'desc';
+}
+
+const DEFAULT_SORT: SortState = { key: 'scheduled', direction: 'asc' };
+
+// Wait for the user to stop typing before querying the server
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Mirrors the backend FlightStatus enum
+const STATUS_OPTIONS = [
+  { value: 'Scheduled', label: 'Scheduled' },
+  { value: 'OnTime', label: 'On Time' },
+  { value: 'Delayed', label: 'Delayed' },
+  { value: 'Boarding', label: 'Boarding' },
+  { value: 'Departed', label: 'Departed' },
+  { value: 'InFlight', label: 'In Flight' },
+  { value: 'Arrived', label: 'Arrived' },
+  { value: 'Cancelled', label: 'Cancelled' }
+];
+
+const TAB_LABELS: Record<BoardTab, string> = {
+  departures: '🛫 Departures',
+  arrivals: '🛬 Arrivals'
+};
+
+// Departures show the destination and departure times, arrivals the origin and arrival times
+const getBoardColumns = (flight: FlightSummary, tab: BoardTab) =>
+  tab === 'departures'
+    ? {
+        airport: flight.destinationAirport,
+        scheduled: flight.scheduledDeparture,
+        estimated: flight.estimatedDeparture,
+        estimatedField: 'estimatedDeparture' as FlightField
+      }
+    : {
+        airport: flight.originAirport,
+        scheduled: flight.scheduledArrival,
+        estimated: flight.estimatedArrival,
+        estimatedField: 'estimatedArrival' as FlightField
+      };
+
+const getSortValue = (flight: FlightSummary, tab: BoardTab, key: SortKey): string => {
+  const columns = getBoardColumns(flight, tab);
+  switch (key) {
+    case 'airport':
+      return columns.airport;
+    case 'scheduled':
+      return new Date(columns.scheduled).toISOString();
+    case 'estimated':
+      return new Date(columns.estimated ?? columns.scheduled).toISOString();
+    case 'gate':
+      return flight.gate ?? '';
+    default:
+      return flight[key];
+  }
+};
 
 const FlightBoard: React.FC = () => {
-  const { isConnected } = useSignalR();
+  const { isConnected, joinAirportGroup, leaveAirportGroup } = useSignalR();
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [allFlights, setAllFlights] = useState<FlightSummary[]>([]);
-  const [filteredFlights, setFilteredFlights] = useState<FlightSummary[]>([]);
+  const { airport: airportParam } = useParams<{ airport: string }>();
+  const airport = (airportParam || DEFAULT_AIRPORT).toUpperCase();
+  // Filters live in the query string so boards can be bookmarked and the back button restores them
+  const [searchParams, setSearchParams] = useSearchParams();
+  const search = searchParams.get('search') ?? '';
+  const status = searchParams.get('status') ?? '';
+  const airline = searchParams.get('airline') ?? '';
+  const activeTab: BoardTab = searchParams.get('tab') === 'arrivals' ? 'arrivals' : 'departures';
+  const [searchInput, setSearchInput] = useState(search);
+  const [flights, setFlights] = useState<FlightSummary[]>([]);
+  const [tabTotals, setTabTotals] = useState<Record<BoardTab, number>>({ departures: 0, arrivals: 0 });
+  const [airlines, setAirlines] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedAirline, setSelectedAirline] = useState('');
+  const latestRequest = useRef(0);
+  const [highlights, setHighlights] = useState<Record<string, FlightField[]>>({});
+  const highlightTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const flightsRef = useRef<FlightSummary[]>([]);
+  const [sortByTab, setSortByTab] = useState<Record<BoardTab, SortState>>({
+    departures: DEFAULT_SORT,
+    arrivals: DEFAULT_SORT
+  });
 
   useEffect(() => {
-    loadFlights();
+    flightsRef.current = flights;
+  }, [flights]);
+
+  // Receive live updates for every flight at this airport, switching groups with the airport
+  useEffect(() => {
+    if (!isConnected) return;
+    joinAirportGroup(airport);
+    return () => {
+      leaveAirportGroup(airport);
+    };
+  }, [airport, isConnected, joinAirportGroup, leaveAirportGroup]);
+
+  const highlightFields = useCallback((flightNumber: string, fields: FlightField[]) => {
+    setHighlights(current => ({ ...current, [flightNumber]: fields }));
+
+    clearTimeout(highlightTimers.current[flightNumber]);
+    highlightTimers.current[flightNumber] = setTimeout(() => {
+      setHighlights(current => {
+        const next = { ...current };
+        delete next[flightNumber];
+        return next;
+      });
+      delete highlightTimers.current[flightNumber];
+    }, HIGHLIGHT_DURATION_MS);
   }, []);
 
-  // Load all flights once
-  const loadFlights = async () => {
+  // Patch board rows in place as SignalR events arrive
+  useEffect(() => {
+    return flightEventBus.subscribe(event => {
+      if (event.type === 'SeatHoldChanged') return;
+      const current = flightsRef.current.find(flight => isEventForFlight(event, flight.flightNumber));
+      if (!current) return;
+
+      const changedFields = getChangedFields(current, applyFlightEvent(current, event));
+      setFlights(current => current.map(flight =>
+        isEventForFlight(event, flight.flightNumber) ? applyFlightEvent(flight, event) : flight
+      ));
+
+      if (changedFields.length > 0) {
+        highlightFields(current.flightNumber, changedFields);
+      }
+    });
+  }, [highlightFields]);
+
+  useEffect(() => {
+    const timers = highlightTimers.current;
+    return () => {
+      Object.values(timers).forEach(timer => clearTimeout(timer));
+    };
+  }, []);
+
+  const updateFilters = useCallback((changes: Record<string, string>) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      Object.entries(changes).forEach(([name, value]) => {
+        if (value) {
+          next.set(name, value);
+        } else {
+          next.delete(name);
+        }
+      });
+      return next;
+    });
+  }, [setSearchParams]);
+
+  // Keep the search box in step with the URL when navigating back and forward
+  useEffect(() => {
+    setSearchInput(search);
+  }, [search]);
+
+  useEffect(() => {
+    if (searchInput.trim() === search) return;
+    const timer = setTimeout(() => updateFilters({ search: searchInput.trim() }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, search, updateFilters]);
+
+  // Load the flights matching the current airport and filters
+  const loadFlights = useCallback(async () => {
+    // Responses can arrive out of order while typing, only the latest request may update the board
+    const requestId = ++latestRequest.current;
     try {
       setLoading(true);
       setError(null);
-      const response = await apiService.getFlightBoard('ORD');
-      setAllFlights(response.flights);
-      setFilteredFlights(response.flights);
+      const response = await apiService.getFlightBoard(airport, search, status, airline);
+      if (requestId !== latestRequest.current) return;
+
+      setHighlights({});
+      setFlights(response.flights);
+      setTabTotals({ departures: response.totalDepartures, arrivals: response.totalArrivals });
+      setAirlines(response.airlines);
     } catch (err) {
+      if (requestId !== latestRequest.current) return;
       setError('Failed to load flight data');
       console.error('Error loading flights:', err);
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) {
+        setLoading(false);
+      }
     }
-  };
+  }, [airport, search, status, airline]);
 
-  // Dynamic filtering based on search term and airline
   useEffect(() => {
-    let filtered = allFlights;
-
-    // Filter by search term (flight number, airline, destination)
-    if (searchTerm.trim()) {
-      const term = searchTerm.toLowerCase();
-      filtered = filtered.filter(flight => 
-        flight.flightNumber.toLowerCase().includes(term) ||
-        flight.airline.toLowerCase().includes(term) ||
-        flight.destinationAirport.toLowerCase().includes(term) ||
-        flight.originAirport.toLowerCase().includes(term)
-      );
-    }
-
-    // Filter by airline
-    if (selectedAirline) {
-      filtered = filtered.filter(flight => 
-        flight.airline.toLowerCase().includes(selectedAirline.toLowerCase())
-      );
-    }
-
-    setFilteredFlights(filtered);
-  }, [allFlights, searchTerm, selectedAirline]);
+    loadFlights();
+  }, [loadFlights]);
 
   const formatTime = (timeString: string) => {
     return new Date(timeString).toLocaleTimeString('en-US', { 
@@ -89,16 +239,74 @@ const FlightBoard: React.FC = () => {
     }
   };
 
+  const isTabFlight = (flight: FlightSummary, tab: BoardTab) =>
+    (tab === 'departures' ? flight.originAirport : flight.destinationAirport).toUpperCase() === airport;
+
+  const tabCounts: Record<BoardTab, number> = {
+    departures: flights.filter(flight => isTabFlight(flight, 'departures')).length,
+    arrivals: flights.filter(flight => isTabFlight(flight, 'arrivals')).length
+  };
+
+  const sort = sortByTab[activeTab];
+  const visibleFlights = flights
+    .filter(flight => isTabFlight(flight, activeTab))
+    .sort((a, b) => {
+      const result = getSortValue(a, activeTab, sort.key).localeCompare(getSortValue(b, activeTab, sort.key));
+      return sort.direction === 'asc' ? result : -result;
+    });
+
+  const sortableColumns: { key: SortKey; label: string }[] = [
+    { key: 'flightNumber', label: 'Flight' },
+    { key: 'airline', label: 'Airline' },
+    { key: 'airport', label: activeTab === 'departures' ? 'Destination' : 'Origin' },
+    { key: 'scheduled', label: 'Scheduled' },
+    { key: 'estimated', label: 'Estimated' },
+    { key: 'status', label: 'Status' },
+    { key: 'gate', label: 'Gate' }
+  ];
+
+  const handleSort = (key: SortKey) => {
+    setSortByTab(current => ({
+      ...current,
+      [activeTab]: {
+        key,
+        direction: current[activeTab].key === key && current[activeTab].direction === 'asc' ? 'desc' : 'asc'
+      }
+    }));
+  };
+
+  const cellClass = (flight: FlightSummary, ...fields: FlightField[]) =>
+    fields.some(field => highlights[flight.flightNumber]?.includes(field)) ? 'cell-updated' : undefined;
+
+  const handleAirportChange = (airportCode: string) => {
+    navigate({ pathname: `/flights/${airportCode}`, search: searchParams.toString() });
+  };
+
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setSearchTerm(e.target.value);
+    setSearchInput(e.target.value);
+  };
+
+  const handleStatusChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    updateFilters({ status: e.target.value });
   };
 
   const handleAirlineChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    setSelectedAirline(e.target.value);
+    updateFilters({ airline: e.target.value });
+  };
+
+  const handleTabChange = (tab: BoardTab) => {
+    updateFilters({ tab: tab === 'departures' ? '' : tab });
+  };
+
+  const handleClearFilters = () => {
+    setSearchInput('');
+    updateFilters({ search: '', status: '', airline: '' });
   };
 
-  // Get unique airlines for the dropdown
-  const uniqueAirlines = Array.from(new Set(allFlights.map(flight => flight.airline))).sort();
+  const hasFilters = Boolean(search || status || airline);
+
+  // Keep a filtered airline selectable even if it has no flights at this airport
+  const airlineOptions = airline && !airlines.includes(airline) ? [airline, ...airlines] : airlines;
 
   const handleBookFlight = (flight: FlightSummary) => {
     if (!user) {
@@ -125,7 +333,8 @@ const FlightBoard: React.FC = () => {
   return (
     <div className="flight-board">
       <div className="flight-board-header">
-        <h1>🏙️ Flight Information Display - Chicago O'Hare (ORD) 🏙️</h1>
+        <h1>🏙️ Flight Information Display - {getAirportName(airport)} ({airport}) 🏙️</h1>
+        <AirportPicker value={airport} onChange={handleAirportChange} />
         <div className="connection-status">
           {isConnected ? '🟢 System Connected' : '🔴 System Disconnected'}
         </div>
@@ -148,26 +357,57 @@ const FlightBoard: React.FC = () => {
           type="text" 
           placeholder="🔍 Search flights by number, airline, or destination..." 
           className="search-input"
-          value={searchTerm}
+          value={searchInput}
           onChange={handleSearchChange}
         />
+        <select
+          className="filter-select"
+          aria-label="Flight status"
+          value={status}
+          onChange={handleStatusChange}
+        >
+          <option value="">All Statuses</option>
+          {STATUS_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
         <select 
           className="filter-select"
-          value={selectedAirline}
+          aria-label="Airline"
+          value={airline}
           onChange={handleAirlineChange}
         >
           <option value="">All Airlines</option>
-          {uniqueAirlines.map(airline => (
-            <option key={airline} value={airline}>{airline}</option>
+          {airlineOptions.map(name => (
+            <option key={name} value={name}>{name}</option>
           ))}
         </select>
+        {hasFilters && (
+          <button className="btn btn-secondary btn-sm" onClick={handleClearFilters}>
+            Clear Filters
+          </button>
+        )}
         <div className="filter-info">
-          ✈️ Flight Status: {filteredFlights.length} of {allFlights.length} flights
+          ✈️ {TAB_LABELS[activeTab]}: {tabCounts[activeTab]} of {tabTotals[activeTab]} flights
         </div>
       </div>
 
-      <div className="flight-table">
-        {loading ? (
+      <div className="board-tabs" role="tablist">
+        {(Object.keys(TAB_LABELS) as BoardTab[]).map(tab => (
+          <button
+            key={tab}
+            role="tab"
+            aria-selected={activeTab === tab}
+            className={`board-tab ${activeTab === tab ? 'active' : ''}`}
+            onClick={() => handleTabChange(tab)}
+          >
+            {TAB_LABELS[tab]} <span className="tab-count">{tabCounts[tab]}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className={`flight-table ${loading ? 'refreshing' : ''}`}>
+        {loading && flights.length === 0 ? (
           <div className="loading">✈️ Loading flight information...</div>
         ) : error ? (
           <div className="error">⚠️ {error}</div>
@@ -175,50 +415,59 @@ const FlightBoard: React.FC = () => {
           <table>
             <thead>
               <tr>
-                <th>Flight</th>
-                <th>Airline</th>
-                <th>Destination</th>
-                <th>Scheduled</th>
-                <th>Estimated</th>
-                <th>Status</th>
-                <th>Gate</th>
+                {sortableColumns.map(column => (
+                  <th
+                    key={column.key}
+                    aria-sort={sort.key === column.key ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+                  >
+                    <button className="sort-button" onClick={() => handleSort(column.key)}>
+                      {column.label}
+                      {sort.key === column.key && (sort.direction === 'asc' ? ' ▲' : ' ▼')}
+                    </button>
+                  </th>
+                ))}
                 <th>Terminal</th>
                 <th>Action</th>
               </tr>
             </thead>
             <tbody>
-              {filteredFlights.length === 0 ? (
+              {visibleFlights.length === 0 ? (
                 <tr>
                   <td colSpan={9} className="no-data">
-                    {allFlights.length === 0 ? '⚓ No flights available' : '🔍 No flights match your search criteria'}
+                    {tabTotals[activeTab] === 0 ? `⚓ No ${activeTab} available` : '🔍 No flights match your search criteria'}
                   </td>
                 </tr>
               ) : (
-                filteredFlights.map((flight) => (
-                  <tr key={flight.id}>
-                    <td>{flight.flightNumber}</td>
-                    <td>{flight.airline}</td>
-                    <td>{flight.destinationAirport}</td>
-                    <td>{formatTime(flight.scheduledDeparture)}</td>
-                    <td>{flight.estimatedDeparture ? formatTime(flight.estimatedDeparture) : '-'}</td>
-                    <td>
-                      <span className={`status ${getStatusColor(flight.status)}`}>
-                        {flight.status}
-                      </span>
-                    </td>
-                    <td>{flight.gate || '-'}</td>
-                    <td>{flight.terminal || '-'}</td>
-                    <td>
-                      <button
-                        className="btn btn-primary btn-sm"
-                        onClick={() => handleBookFlight(flight)}
-                        disabled={flight.status === 'Cancelled' || flight.status === 'Departed'}
-                      >
-                        {user ? 'Book Flight' : 'Book Now (Login Required)'}
-                      </button>
-                    </td>
-                  </tr>
-                ))
+                visibleFlights.map((flight) => {
+                  const columns = getBoardColumns(flight, activeTab);
+                  return (
+                    <tr key={flight.id}>
+                      <td>{flight.flightNumber}</td>
+                      <td>{flight.airline}</td>
+                      <td>{columns.airport}</td>
+                      <td>{formatTime(columns.scheduled)}</td>
+                      <td className={cellClass(flight, columns.estimatedField)}>
+                        {columns.estimated ? formatTime(columns.estimated) : '-'}
+                      </td>
+                      <td className={cellClass(flight, 'status')}>
+                        <span className={`status ${getStatusColor(flight.status)}`}>
+                          {flight.status}
+                        </span>
+                      </td>
+                      <td className={cellClass(flight, 'gate')}>{flight.gate || '-'}</td>
+                      <td className={cellClass(flight, 'terminal')}>{flight.terminal || '-'}</td>
+                      <td>
+                        <button
+                          className="btn btn-primary btn-sm"
+                          onClick={() => handleBookFlight(flight)}
+                          disabled={flight.status === 'Cancelled' || flight.status === 'Departed'}
+                        >
+                          {user ? 'Book Flight' : 'Book Now (Login Required)'}
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })
               )}
             </tbody>
           </table>
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { apiService, LoyaltyDashboard } from '../services/api';
+import { getErrorMessage } from '../services/apiErrors';
+import { formatMiles, formatPoints, TIER_LABELS } from '../components/Loyalty/tiers';
+import './Loyalty.css';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+const Loyalty: React.FC = () => {
+  const [account, setAccount] = useState<LoyaltyDashboard | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadAccount = async () => {
+      try {
+        const dashboard = await apiService.getLoyalty();
+        if (!cancelled) setAccount(dashboard);
+      } catch (error) {
+        console.error('Error loading loyalty account:', error);
+        if (!cancelled) setError(getErrorMessage(error, 'Failed to load your rewards account'));
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadAccount();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="loyalty-container">
+        <div className="loading">Loading rewards...</div>
+      </div>
+    );
+  }
+
+  if (!account) {
+    return (
+      <div className="loyalty-container">
+        <div className="error-message">{error || 'Rewards account not found'}</div>
+      </div>
+    );
+  }
+
+  const { nextTier, nextTierMiles } = account;
+  const tierProgress = nextTierMiles
+    ? Math.min(100, Math.round(((account.milesFlown - account.currentTierMiles) / (nextTierMiles - account.currentTierMiles)) * 100))
+    : 100;
+  const flights = account.history.filter(entry => entry.miles > 0);
+
+  return (
+    <div className="loyalty-container">
+      <div className={`loyalty-header tier-${account.tier.toLowerCase()}`}>
+        <div>
+          <p className="loyalty-tier">{TIER_LABELS[account.tier]} member</p>
+          <h1>{formatPoints(account.points)} points</h1>
+          <p className="loyalty-membership">Membership number {account.membershipNumber}</p>
+        </div>
+        <dl className="loyalty-stats">
+          <div>
+            <dt>Miles flown</dt>
+            <dd>{formatMiles(account.milesFlown)}</dd>
+          </div>
+          <div>
+            <dt>Points bonus</dt>
+            <dd>{account.pointsMultiplier > 1 ? `+${Math.round((account.pointsMultiplier - 1) * 100)}%` : 'None'}</dd>
+          </div>
+          <div>
+            <dt>Member since</dt>
+            <dd>{formatDate(account.joinDate)}</dd>
+          </div>
+        </dl>
+      </div>
+
+      <section className="loyalty-section">
+        <h2>Tier progress</h2>
+        {nextTier && nextTierMiles ? (
+          <>
+            <div
+              className="loyalty-progress"
+              role="progressbar"
+              aria-valuemin={account.currentTierMiles}
+              aria-valuemax={nextTierMiles}
+              aria-valuenow={account.milesFlown}
+              aria-label={`Progress to ${TIER_LABELS[nextTier]}`}
+            >
+              <div className="loyalty-progress-bar" style={{ width: `${tierProgress}%` }} />
+            </div>
+            <p className="loyalty-progress-label">
+              {formatMiles(nextTierMiles - account.milesFlown)} more to reach <strong>{TIER_LABELS[nextTier]}</strong>
+              {' '}({formatMiles(account.milesFlown)} of {formatMiles(nextTierMiles)})
+            </p>
+          </>
+        ) : (
+          <p className="loyalty-progress-label">You have reached our top tier. Thank you for flying with us.</p>
+        )}
+      </section>
+
+      <section className="loyalty-section">
+        <h2>Flights flown</h2>
+        {flights.length === 0 ? (
+          <p className="loyalty-empty">
+            Miles are credited once your flight lands. <Link to="/flights">Find a flight</Link> to start earning.
+          </p>
+        ) : (
+          <table className="loyalty-table">
+            <thead>
+              <tr>
+                <th scope="col">Date</th>
+                <th scope="col">Flight</th>
+                <th scope="col">Route</th>
+                <th scope="col">Booking</th>
+                <th scope="col" className="numeric">Miles</th>
+              </tr>
+            </thead>
+            <tbody>
+              {flights.map(entry => (
+                <tr key={entry.id}>
+                  <td>{formatDate(entry.departureDate ?? entry.createdAt)}</td>
+                  <td>{entry.flightNumber ?? '—'}</td>
+                  <td>{entry.originAirport && entry.destinationAirport ? `${entry.originAirport} → ${entry.destinationAirport}` : '—'}</td>
+                  <td>{entry.confirmationNumber ?? '—'}</td>
+                  <td className="numeric">{formatMiles(entry.miles)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className="loyalty-section">
+        <h2>Points history</h2>
+        {account.history.length === 0 ? (
+          <p className="loyalty-empty">No points activity yet.</p>
+        ) : (
+          <table className="loyalty-table">
+            <thead>
+              <tr>
+                <th scope="col">Date</th>
+                <th scope="col">Activity</th>
+                <th scope="col" className="numeric">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              {account.history.map(entry => (
+                <tr key={entry.id}>
+                  <td>{formatDate(entry.createdAt)}</td>
+                  <td>{entry.description}</td>
+                  <td className={`numeric ${entry.points < 0 ? 'points-spent' : 'points-earned-value'}`}>
+                    {entry.points > 0 ? '+' : ''}{formatPoints(entry.points)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default Loyalty;
@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { apiService, BookingChangeResponse, BookingDetailsResponse } from '../services/api';
+import { getErrorMessage } from '../services/apiErrors';
+import { formatPrice } from '../components/BookingWizard/fares';
+import SeatChangePanel from '../components/ManageBooking/SeatChangePanel';
+import FlightChangePanel from '../components/ManageBooking/FlightChangePanel';
+import NameCorrectionPanel from '../components/ManageBooking/NameCorrectionPanel';
+import ChangeHistory from '../components/ManageBooking/ChangeHistory';
+import './Booking.css';
+import './ManageBooking.css';
+
+type ManageTab = 'seats' | 'flight' | 'name' | 'history';
+
+const TABS: { id: ManageTab; label: string }[] = [
+  { id: 'seats', label: 'Change seats' },
+  { id: 'flight', label: 'Change flight' },
+  { id: 'name', label: 'Correct a name' },
+  { id: 'history', label: 'Change history' }
+];
+
+const describeChange = ({ amountCharged, creditIssued }: BookingChangeResponse) => {
+  if (amountCharged > 0) return `Your booking has been updated and ${formatPrice(amountCharged)} charged to your card.`;
+  if (creditIssued > 0) return `Your booking has been updated and ${formatPrice(creditIssued)} added as travel credit.`;
+  return 'Your booking has been updated.';
+};
+
+const ManageBooking: React.FC = () => {
+  const { confirmationNumber } = useParams<{ confirmationNumber: string }>();
+  const navigate = useNavigate();
+
+  const [booking, setBooking] = useState<BookingDetailsResponse | null>(null);
+  const [activeTab, setActiveTab] = useState<ManageTab>('seats');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const loadBooking = useCallback(async () => {
+    if (!confirmationNumber) return;
+    try {
+      setIsLoading(true);
+      setError('');
+      setBooking(await apiService.getBooking(confirmationNumber));
+    } catch (error) {
+      console.error('Error loading booking:', error);
+      setError(getErrorMessage(error, 'Failed to load booking details'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [confirmationNumber]);
+
+  useEffect(() => {
+    loadBooking();
+  }, [loadBooking]);
+
+  const handleChanged = (response: BookingChangeResponse) => {
+    setBooking(response.booking);
+    setNotice(describeChange(response));
+    // A new flight comes without seats, so send the traveller straight to choosing them
+    setActiveTab(response.changes.some(change => change.type === 'FlightChange') ? 'seats' : 'history');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="manage-container">
+        <div className="loading">Loading booking...</div>
+      </div>
+    );
+  }
+
+  if (!booking) {
+    return (
+      <div className="manage-container">
+        <div className="error-message">{error || 'Booking not found'}</div>
+      </div>
+    );
+  }
+
+  const hasDeparted = new Date(booking.flight.scheduledDeparture) <= new Date();
+  const canChange = booking.status !== 'Cancelled' && !hasDeparted;
+  // Remount the panels after each change so they start again from the updated booking
+  const panelKey = `${booking.flight.id}-${booking.changes.length}`;
+
+  return (
+    <div className="manage-container">
+      <div className="manage-header">
+        <h1>Manage Booking</h1>
+        <p>
+          {booking.flight.flightNumber} · {booking.flight.originAirport} → {booking.flight.destinationAirport}
+          {' '}· {new Date(booking.flight.scheduledDeparture).toLocaleString('en-US', {
+            weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+          })}
+        </p>
+        <p className="manage-confirmation">Confirmation: {booking.confirmationNumber}</p>
+      </div>
+
+      {notice && <div className="success-message" role="status">{notice}</div>}
+
+      {!canChange && (
+        <div className="manage-notice">
+          {booking.status === 'Cancelled'
+            ? 'This booking has been cancelled and can no longer be changed.'
+            : 'This flight has departed, so the booking can no longer be changed.'}
+        </div>
+      )}
+
+      <div className="manage-tabs" role="tablist">
+        {TABS.filter(tab => canChange || tab.id === 'history').map(tab => (
+          <button
+            key={tab.id}
+            type="button"
+            role="tab"
+            aria-selected={(canChange ? activeTab : 'history') === tab.id}
+            className={`manage-tab ${(canChange ? activeTab : 'history') === tab.id ? 'active' : ''}`}
+            onClick={() => {
+              setActiveTab(tab.id);
+              setNotice('');
+            }}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="manage-content" role="tabpanel">
+        {canChange && activeTab === 'seats' && <SeatChangePanel key={panelKey} booking={booking} onChanged={handleChanged} />}
+        {canChange && activeTab === 'flight' && <FlightChangePanel key={panelKey} booking={booking} onChanged={handleChanged} />}
+        {canChange && activeTab === 'name' && <NameCorrectionPanel key={panelKey} booking={booking} onChanged={handleChanged} />}
+        {(!canChange || activeTab === 'history') && <ChangeHistory changes={booking.changes} />}
+      </div>
+
+      <div className="manage-footer">
+        <button className="btn btn-secondary" onClick={() => navigate('/my-bookings')}>
+          Back to My Bookings
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ManageBooking;
@@ -1,9 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { apiService, BookingDetailsResponse } from '../services/api';
+import { BookingDetailsResponse, BookingScope, CancelBookingResponse } from '../services/api';
+import { fetchMyBookings } from '../services/offlineCache';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import StaleDataBanner from '../components/StaleDataBanner';
+import CancelBookingDialog from '../components/CancelBookingDialog';
+import { formatPrice } from '../components/BookingWizard/fares';
+import { formatPoints } from '../components/Loyalty/tiers';
 import './MyBookings.css';
 
+const PAGE_SIZE = 5;
+
 const MyBookings: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
@@ -11,7 +19,50 @@ const MyBookings: React.FC = () => {
   const [bookings, setBookings] = useState<BookingDetailsResponse[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
-  const [filter, setFilter] = useState<'all' | 'upcoming' | 'past'>('all');
+  const [filter, setFilter] = useState<BookingScope>('all');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(0);
+  const [counts, setCounts] = useState({ upcoming: 0, past: 0 });
+  // When the bookings shown were saved for offline use, rather than fetched just now
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [cancelTarget, setCancelTarget] = useState<BookingDetailsResponse | null>(null);
+  const [notice, setNotice] = useState('');
+
+  // A background load keeps the current list on screen while it resyncs
+  const loadBookings = useCallback(async (background = false) => {
+    if (!user) return;
+    try {
+      if (background) {
+        setIsSyncing(true);
+      } else {
+        setIsLoading(true);
+      }
+      setError('');
+      const { data: response, savedAt } = await fetchMyBookings(user.id, {
+        scope: filter,
+        status: statusFilter || undefined,
+        page,
+        pageSize: PAGE_SIZE
+      });
+
+      setBookings(response.bookings);
+      setTotalPages(response.totalPages);
+      setCounts({ upcoming: response.upcomingCount, past: response.pastCount });
+      setSavedAt(savedAt);
+    } catch (error) {
+      console.error('Error loading bookings:', error);
+      setError(background ? 'Your bookings could not be updated' : 'Failed to load bookings');
+    } finally {
+      setIsLoading(false);
+      setIsSyncing(false);
+    }
+  }, [user, filter, statusFilter, page]);
+
+  const isOnline = useOnlineStatus(() => {
+    if (savedAt) loadBookings(true);
+  });
 
   useEffect(() => {
     if (!user) {
@@ -20,114 +71,37 @@ const MyBookings: React.FC = () => {
     }
     
     loadBookings();
-  }, [user, navigate]);
+  }, [user, navigate, loadBookings]);
 
-  const loadBookings = async () => {
-    try {
-      setIsLoading(true);
-      // For demo purposes, we'll create some mock bookings
-      // In a real app, this would call an API endpoint to get user's bookings
-      const mockBookings: BookingDetailsResponse[] = [
-        {
-          confirmationNumber: 'ABC123',
-          status: 'Confirmed',
-          totalAmount: 599.98,
-          createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-          flight: {
-            id: 1,
-            flightNumber: 'AA1234',
-            airline: 'American Airlines',
-            originAirport: 'ORD',
-            destinationAirport: 'LAX',
-            scheduledDeparture: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(),
-            scheduledArrival: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000 + 4 * 60 * 60 * 1000).toISOString(),
-            status: 'On Time',
-            gate: 'A12',
-            terminal: 'Terminal 1'
-          },
-          passengers: [
-            {
-              firstName: user?.firstName || 'John',
-              lastName: user?.lastName || 'Doe',
-              seatNumber: '12A',
-              seatClass: 'Economy'
-            }
-          ]
-        },
-        {
-          confirmationNumber: 'XYZ789',
-          status: 'CheckedIn',
-          totalAmount: 899.97,
-          createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-          flight: {
-            id: 2,
-            flightNumber: 'UA5678',
-            airline: 'United Airlines',
-            originAirport: 'LAX',
-            destinationAirport: 'JFK',
-            scheduledDeparture: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000).toISOString(),
-            scheduledArrival: new Date(Date.now() + 1 * 24 * 60 * 60 * 1000 + 5 * 60 * 60 * 1000).toISOString(),
-            status: 'On Time',
-            gate: 'B8',
-            terminal: 'Terminal 2'
-          },
-          passengers: [
-            {
-              firstName: user?.firstName || 'John',
-              lastName: user?.lastName || 'Doe',
-              seatNumber: '8C',
-              seatClass: 'Business'
-            }
-          ]
-        },
-        {
-          confirmationNumber: 'DEF456',
-          status: 'Completed',
-          totalAmount: 299.99,
-          createdAt: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(),
-          flight: {
-            id: 3,
-            flightNumber: 'DL9012',
-            airline: 'Delta Air Lines',
-            originAirport: 'JFK',
-            destinationAirport: 'MIA',
-            scheduledDeparture: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-            scheduledArrival: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000 + 3 * 60 * 60 * 1000).toISOString(),
-            status: 'Completed',
-            gate: 'C15',
-            terminal: 'Terminal 3'
-          },
-          passengers: [
-            {
-              firstName: user?.firstName || 'John',
-              lastName: user?.lastName || 'Doe',
-              seatNumber: '15F',
-              seatClass: 'Economy'
-            }
-          ]
-        }
-      ];
-      
-      setBookings(mockBookings);
-    } catch (error) {
-      console.error('Error loading bookings:', error);
-      setError('Failed to load bookings');
-    } finally {
-      setIsLoading(false);
-    }
+  const handleFilterChange = (newFilter: BookingScope) => {
+    setFilter(newFilter);
+    setPage(1);
   };
 
-  const handleCheckIn = async (confirmationNumber: string) => {
-    try {
-      await apiService.checkIn(confirmationNumber);
-      // Reload bookings to get updated status
-      loadBookings();
-    } catch (error) {
-      console.error('Check-in failed:', error);
-      setError('Check-in failed. Please try again.');
-    }
+  const handleStatusFilterChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setStatusFilter(e.target.value);
+    setPage(1);
   };
 
+  const handleCancelled = ({ booking, cancellation }: CancelBookingResponse) => {
+    setCancelTarget(null);
+    const refunds = [
+      cancellation.refundAmount > 0 && `${formatPrice(cancellation.refundAmount, cancellation.currency)} will be refunded to your card`,
+      cancellation.creditAmount > 0 && `${formatPrice(cancellation.creditAmount, cancellation.currency)} has been added as travel credit`,
+      cancellation.pointsRefunded > 0 && `${formatPoints(cancellation.pointsRefunded)} points have been returned to your rewards account`
+    ].filter(Boolean).join(' and ');
+    setNotice(
+      `${cancellation.cancelsBooking ? `Booking ${booking.confirmationNumber} has been cancelled` : `Passengers removed from booking ${booking.confirmationNumber}`}. ` +
+      (refunds ? `${refunds}. ` : '') +
+      'A confirmation email is on its way.'
+    );
+    loadBookings(true);
+  };
+
+  // Passengers who have checked in can only be removed at the airport
+  const canCancel = (booking: BookingDetailsResponse) =>
+    booking.status !== 'Cancelled' && isUpcoming(booking) && booking.passengers.some(p => !p.cancelled && !p.checkedIn);
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       weekday: 'short',
@@ -163,17 +137,6 @@ const MyBookings: React.FC = () => {
     return new Date(booking.flight.scheduledDeparture) > new Date();
   };
 
-  const filteredBookings = bookings.filter(booking => {
-    switch (filter) {
-      case 'upcoming':
-        return isUpcoming(booking);
-      case 'past':
-        return !isUpcoming(booking);
-      default:
-        return true;
-    }
-  });
-
   if (isLoading) {
     return (
       <div className="bookings-container">
@@ -192,40 +155,63 @@ const MyBookings: React.FC = () => {
       <div className="bookings-filters">
         <button
           className={`filter-btn ${filter === 'all' ? 'active' : ''}`}
-          onClick={() => setFilter('all')}
+          onClick={() => handleFilterChange('all')}
         >
-          All Bookings ({bookings.length})
+          All Bookings ({counts.upcoming + counts.past})
         </button>
         <button
           className={`filter-btn ${filter === 'upcoming' ? 'active' : ''}`}
-          onClick={() => setFilter('upcoming')}
+          onClick={() => handleFilterChange('upcoming')}
         >
-          Upcoming ({bookings.filter(isUpcoming).length})
+          Upcoming ({counts.upcoming})
         </button>
         <button
           className={`filter-btn ${filter === 'past' ? 'active' : ''}`}
-          onClick={() => setFilter('past')}
+          onClick={() => handleFilterChange('past')}
         >
-          Past ({bookings.filter(b => !isUpcoming(b)).length})
+          Past ({counts.past})
         </button>
+        <select
+          className="status-filter"
+          value={statusFilter}
+          onChange={handleStatusFilterChange}
+        >
+          <option value="">All Statuses</option>
+          <option value="Confirmed">Confirmed</option>
+          <option value="CheckedIn">Checked In</option>
+          <option value="Completed">Completed</option>
+          <option value="Cancelled">Cancelled</option>
+        </select>
       </div>
 
+      {savedAt && (
+        <StaleDataBanner
+          savedAt={savedAt}
+          isOnline={isOnline}
+          isSyncing={isSyncing}
+          onRefresh={() => loadBookings(true)}
+        />
+      )}
+
       {error && <div className="error-message">{error}</div>}
+      {notice && <div className="success-message" role="status">{notice}</div>}
 
       <div className="bookings-list">
-        {filteredBookings.length === 0 ? (
+        {bookings.length === 0 ? (
           <div className="no-bookings">
             <div className="no-bookings-icon">✈️</div>
             <h3>No bookings found</h3>
             <p>
-              {filter === 'upcoming' 
+              {statusFilter
+                ? 'No bookings match the selected status.'
+                : filter === 'upcoming'
                 ? "You don't have any upcoming flights."
                 : filter === 'past'
                 ? "You don't have any past flights."
                 : "You haven't made any bookings yet."
               }
             </p>
-            {filter === 'all' && (
+            {filter === 'all' && !statusFilter && (
               <button 
                 className="btn btn-primary"
                 onClick={() => navigate('/')}
@@ -235,7 +221,7 @@ const MyBookings: React.FC = () => {
             )}
           </div>
         ) : (
-          filteredBookings.map((booking) => (
+          bookings.map((booking) => (
             <div key={booking.confirmationNumber} className="booking-card">
               <div className="booking-header">
                 <div className="booking-info">
@@ -285,9 +271,10 @@ const MyBookings: React.FC = () => {
                 <h4>Passengers</h4>
                 <div className="passengers-list">
                   {booking.passengers.map((passenger, index) => (
-                    <div key={index} className="passenger-item">
+                    <div key={index} className={`passenger-item ${passenger.cancelled ? 'cancelled' : ''}`}>
                       <span className="passenger-name">
                         {passenger.firstName} {passenger.lastName}
+                        {passenger.cancelled && <span className="passenger-cancelled"> (cancelled)</span>}
                       </span>
                       <span className="passenger-seat">
                         Seat: {passenger.seatNumber || 'TBD'}
@@ -300,6 +287,14 @@ const MyBookings: React.FC = () => {
                 </div>
               </div>
 
+              {(booking.refundedAmount > 0 || booking.creditAmount > 0 || booking.pointsRefunded > 0) && (
+                <div className="booking-refunds">
+                  {booking.refundedAmount > 0 && <span>Refunded: {formatPrice(booking.refundedAmount)}</span>}
+                  {booking.creditAmount > 0 && <span>Travel credit: {formatPrice(booking.creditAmount)}</span>}
+                  {booking.pointsRefunded > 0 && <span>Points returned: {formatPoints(booking.pointsRefunded)}</span>}
+                </div>
+              )}
+
               <div className="booking-actions">
                 <button 
                   className="btn btn-secondary"
@@ -310,17 +305,37 @@ const MyBookings: React.FC = () => {
                 {booking.status === 'Confirmed' && isUpcoming(booking) && (
                   <button 
                     className="btn btn-primary"
-                    onClick={() => handleCheckIn(booking.confirmationNumber)}
+                    onClick={() => navigate(`/check-in/${booking.confirmationNumber}`)}
                   >
                     Check-in
                   </button>
                 )}
-                {booking.status === 'CheckedIn' && (
+                {canCancel(booking) && (
+                  <button
+                    className="btn btn-secondary"
+                    onClick={() => navigate(`/manage-booking/${booking.confirmationNumber}`)}
+                  >
+                    Manage
+                  </button>
+                )}
+                {canCancel(booking) && (
+                  <button
+                    className="btn btn-cancel"
+                    onClick={() => {
+                      setNotice('');
+                      setCancelTarget(booking);
+                    }}
+                  >
+                    Cancel
+                  </button>
+                )}
+                {booking.passengers.some(p => p.checkedIn && !p.cancelled) && (
+
                   <button 
                     className="btn btn-success"
-                    onClick={() => navigate(`/booking-confirmation/${booking.confirmationNumber}`)}
+                    onClick={() => navigate(`/check-in/${booking.confirmationNumber}`)}
                   >
-                    View Boarding Pass
+                    {booking.status === 'CheckedIn' ? 'View Boarding Pass' : 'View Boarding Passes'}
                   </button>
                 )}
               </div>
@@ -328,6 +343,36 @@ const MyBookings: React.FC = () => {
           ))
         )}
       </div>
+
+      {totalPages > 1 && (
+        <div className="bookings-pagination">
+          <button
+            className="btn btn-secondary"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+          >
+            Previous
+          </button>
+          <span className="page-indicator">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            className="btn btn-secondary"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+          >
+            Next
+          </button>
+        </div>
+      )}
+
+      {cancelTarget && (
+        <CancelBookingDialog
+          booking={cancelTarget}
+          onClose={() => setCancelTarget(null)}
+          onCancelled={handleCancelled}
+        />
+      )}
     </div>
   );
 };
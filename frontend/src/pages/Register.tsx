@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { ConflictError, ErrorCodes, FieldErrors, getErrorMessage, ValidationError } from '../services/apiErrors';
 
 const Register: React.FC = () => {
   const [formData, setFormData] = useState({
@@ -12,6 +13,7 @@ const Register: React.FC = () => {
   });
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
   const [passwordStrength, setPasswordStrength] = useState({
     hasMinLength: false,
     hasUpperCase: false,
@@ -34,6 +36,11 @@ const Register: React.FC = () => {
 
     // Clear error when user starts typing
     if (error) setError('');
+    if (fieldErrors[name]) {
+      const remaining = { ...fieldErrors };
+      delete remaining[name];
+      setFieldErrors(remaining);
+    }
   };
 
   // Password strength validation
@@ -66,6 +73,7 @@ const Register: React.FC = () => {
     e.preventDefault();
     setIsLoading(true);
     setError('');
+    setFieldErrors({});
 
     // Validation checks
     if (!formData.firstName.trim() || !formData.lastName.trim()) {
@@ -105,16 +113,15 @@ const Register: React.FC = () => {
       } else {
         setError('Registration failed. Please try again.');
       }
-    } catch (error: any) {
-      // More specific error handling
-      if (error.message.includes('already exists')) {
-        setError('This email is already registered. Please use a different email or try logging in.');
-      } else if (error.message.includes('Invalid email')) {
-        setError('Please enter a valid email address.');
-      } else if (error.message.includes('Password')) {
-        setError('Password does not meet requirements.');
+    } catch (error) {
+      // Map server-side validation failures onto the individual form fields
+      if (error instanceof ValidationError && Object.keys(error.fieldErrors).length > 0) {
+        setFieldErrors(error.fieldErrors);
+        setError('Please correct the highlighted fields.');
+      } else if (error instanceof ConflictError && error.code === ErrorCodes.EmailTaken) {
+        setFieldErrors({ email: 'This email is already registered. Please use a different email or try logging in.' });
       } else {
-        setError(error.message || 'Registration failed. Please try again.');
+        setError(getErrorMessage(error, 'Registration failed. Please try again.'));
       }
     } finally {
       setIsLoading(false);
@@ -135,8 +142,10 @@ const Register: React.FC = () => {
                 name="firstName"
                 value={formData.firstName}
                 onChange={handleChange}
+                className={fieldErrors.firstName ? 'error' : ''}
                 required
               />
+              {fieldErrors.firstName && <div className="field-error">{fieldErrors.firstName}</div>}
             </div>
             <div className="form-group">
               <label htmlFor="lastName">Last Name</label>
@@ -146,8 +155,10 @@ const Register: React.FC = () => {
                 name="lastName"
                 value={formData.lastName}
                 onChange={handleChange}
+                className={fieldErrors.lastName ? 'error' : ''}
                 required
               />
+              {fieldErrors.lastName && <div className="field-error">{fieldErrors.lastName}</div>}
             </div>
           </div>
           <div className="form-group">
@@ -158,8 +169,10 @@ const Register: React.FC = () => {
               name="email"
               value={formData.email}
               onChange={handleChange}
+              className={fieldErrors.email ? 'error' : ''}
               required
             />
+            {fieldErrors.email && <div className="field-error">{fieldErrors.email}</div>}
           </div>
           <div className="form-group">
             <label htmlFor="password">Password</label>
@@ -171,8 +184,10 @@ const Register: React.FC = () => {
               onChange={handleChange}
               onFocus={() => setShowPasswordRequirements(true)}
               onBlur={() => setShowPasswordRequirements(false)}
+              className={fieldErrors.password ? 'error' : ''}
               required
             />
+            {fieldErrors.password && <div className="field-error">{fieldErrors.password}</div>}
             {showPasswordRequirements && (
               <div className="password-requirements">
                 <div className="requirement-title">Password Requirements:</div>
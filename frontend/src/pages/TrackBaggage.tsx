@@ -0,0 +1,162 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { apiService, BaggageInfo, BaggageStatus } from '../services/api';
+import { getErrorMessage } from '../services/apiErrors';
+import { useBaggageUpdates } from '../contexts/SignalRContext';
+import './TrackBaggage.css';
+
+// The usual journey of a checked bag; Lost sits outside it
+const JOURNEY: { status: BaggageStatus; label: string }[] = [
+  { status: 'CheckedIn', label: 'Checked in' },
+  { status: 'InTransit', label: 'In transit' },
+  { status: 'Loaded', label: 'Loaded' },
+  { status: 'Delivered', label: 'At baggage claim' }
+];
+
+const STATUS_LABELS: Record<BaggageStatus, string> = {
+  CheckedIn: 'Checked in',
+  InTransit: 'In transit',
+  Loaded: 'Loaded on aircraft',
+  Delivered: 'Delivered',
+  Lost: 'Delayed — being traced'
+};
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+  });
+
+// Anyone with a bag tag can follow it here; no sign-in needed
+const TrackBaggage: React.FC = () => {
+  const { trackingNumber } = useParams<{ trackingNumber: string }>();
+  const navigate = useNavigate();
+
+  const [query, setQuery] = useState(trackingNumber ?? '');
+  const [baggage, setBaggage] = useState<BaggageInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [isLive, setIsLive] = useState(false);
+
+  const loadBaggage = useCallback(async () => {
+    if (!trackingNumber) return;
+    try {
+      setIsLoading(true);
+      setError('');
+      setBaggage(await apiService.trackBaggage(trackingNumber));
+    } catch (error) {
+      setBaggage(null);
+      setError(getErrorMessage(error, 'We could not look up that bag. Please try again.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [trackingNumber]);
+
+  useEffect(() => {
+    setQuery(trackingNumber ?? '');
+    setIsLive(false);
+    loadBaggage();
+  }, [trackingNumber, loadBaggage]);
+
+  const handleUpdate = useCallback((update: BaggageInfo) => {
+    setBaggage(update);
+    setIsLive(true);
+  }, []);
+
+  useBaggageUpdates(baggage?.trackingNumber, handleUpdate);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = query.trim().toUpperCase();
+    if (!normalized) return;
+    navigate(`/baggage/${normalized}`);
+  };
+
+  const reachedIndex = baggage ? JOURNEY.findIndex(step => step.status === baggage.status) : -1;
+  // Newest first, the way a traveller reads a tracking page
+  const history = baggage ? [...baggage.statusHistory].reverse() : [];
+
+  return (
+    <div className="baggage-container">
+      <div className="baggage-header">
+        <h1>Track My Bag</h1>
+        <p>Enter the tracking number printed on your bag tag.</p>
+        <form className="baggage-search" onSubmit={handleSubmit} noValidate>
+          <label htmlFor="baggage-tracking-number" className="visually-hidden">Tracking number</label>
+          <input
+            type="text"
+            id="baggage-tracking-number"
+            autoComplete="off"
+            maxLength={12}
+            placeholder="e.g. ABC123456"
+            value={query}
+            onChange={(e) => setQuery(e.target.value.toUpperCase())}
+          />
+          <button type="submit" className="btn btn-primary" disabled={!query.trim() || isLoading}>
+            {isLoading ? 'Tracking...' : 'Track'}
+          </button>
+        </form>
+      </div>
+
+      {error && <div className="error-message" role="alert">{error}</div>}
+
+      {baggage && (
+        <section className="baggage-details" aria-live="polite">
+          <div className="baggage-summary">
+            <div>
+              <h2>{baggage.trackingNumber}</h2>
+              <p>
+                {baggage.description}
+                {baggage.passengerName && ` · ${baggage.passengerName}`}
+                {baggage.flightNumber && ` · ${baggage.flightNumber}`}
+                {baggage.originAirport && baggage.destinationAirport && ` ${baggage.originAirport} → ${baggage.destinationAirport}`}
+              </p>
+            </div>
+            <div className={`baggage-status baggage-status-${baggage.status.toLowerCase()}`}>
+              {STATUS_LABELS[baggage.status]}
+              {isLive && <span className="baggage-live">Updated live</span>}
+            </div>
+          </div>
+
+          <p className="baggage-location">
+            <strong>Last seen:</strong> {baggage.currentLocation} · {formatTime(baggage.lastUpdated)}
+          </p>
+
+          {baggage.status === 'Lost' ? (
+            <div className="baggage-notice">
+              Your bag did not arrive with your flight. Our baggage team is tracing it and this page will update as soon
+              as it is found.
+            </div>
+          ) : (
+            <ol className="baggage-progress">
+              {JOURNEY.map((step, index) => (
+                <li
+                  key={step.status}
+                  className={index < reachedIndex ? 'done' : index === reachedIndex ? 'current' : ''}
+                  aria-current={index === reachedIndex ? 'step' : undefined}
+                >
+                  {step.label}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          <h3>Status history</h3>
+          <ol className="baggage-timeline">
+            {history.map((event, index) => (
+              <li key={`${event.status}-${event.timestamp}`} className={index === 0 ? 'latest' : ''}>
+                <div className="baggage-timeline-header">
+                  <span className="baggage-timeline-status">{STATUS_LABELS[event.status]}</span>
+                  <time dateTime={event.timestamp}>{formatTime(event.timestamp)}</time>
+                </div>
+                <p>{event.description}</p>
+                <p className="baggage-timeline-location">{event.location}</p>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default TrackBaggage;
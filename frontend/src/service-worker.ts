@@ -0,0 +1,78 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Compiled by react-scripts with Workbox's InjectManifest in production builds only.
+// Booking data is cached by the app in IndexedDB (see services/offlineCache.ts); the worker
+// only keeps the app shell available so those pages can open without a connection, and shows
+// Web Push notifications (see services/pushNotifications.ts).
+
+import { clientsClaim } from 'workbox-core';
+import { precacheAndRoute, createHandlerBoundToURL } from 'workbox-precaching';
+import { registerRoute } from 'workbox-routing';
+
+declare const self: ServiceWorkerGlobalScope;
+
+clientsClaim();
+
+// Every asset emitted by the build, including lazily loaded chunks such as the PDF generator
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Serve index.html for client-side routes so deep links like /my-bookings open offline.
+// API calls, hub connections and real files are left to the network.
+const fileExtensionRegexp = /\/[^/?]+\.[^/]+$/;
+registerRoute(
+  ({ request, url }) =>
+    request.mode === 'navigate' &&
+    !url.pathname.startsWith('/api') &&
+    !url.pathname.startsWith('/flightUpdatesHub') &&
+    !url.pathname.match(fileExtensionRegexp),
+  createHandlerBoundToURL(process.env.PUBLIC_URL + '/index.html')
+);
+
+// Lets a waiting update take over once the app asks for it
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+// Web Push messages from the API, shown even while the app is closed. The payload is PushMessage on the
+// server: { title, body, url, tag }.
+interface PushMessage {
+  title: string;
+  body: string;
+  url?: string;
+  tag?: string;
+}
+
+self.addEventListener('push', event => {
+  if (!event.data) return;
+
+  let message: PushMessage;
+  try {
+    message = event.data.json();
+  } catch {
+    message = { title: 'Flight update', body: event.data.text() };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: message.tag || undefined,
+      data: { url: message.url || '/' }
+    })
+  );
+});
+
+// Bring the page forward if it is already open, otherwise open it
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+      const existing = windows.find(client => client.url === url);
+      return existing ? existing.focus() : self.clients.openWindow(url);
+    })
+  );
+});
@@ -0,0 +1,33 @@
+// Registers the service worker built from src/service-worker.ts. Development builds have no
+// worker, so the app always talks to the dev server there.
+
+export const register = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  // The worker only controls pages on its own origin
+  const publicPath = process.env.PUBLIC_URL || '';
+  const publicUrl = new URL(publicPath, window.location.href);
+  if (publicUrl.origin !== window.location.origin) {
+    return;
+  }
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register(`${publicPath}/service-worker.js`);
+      registration.onupdatefound = () => {
+        const installing = registration.installing;
+        if (!installing) return;
+        installing.onstatechange = () => {
+          // A new build is ready: activate it now, open pages keep the code they already loaded
+          if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+            installing.postMessage({ type: 'SKIP_WAITING' });
+          }
+        };
+      };
+    } catch (error) {
+      console.error('Service worker registration failed:', error);
+    }
+  });
+};
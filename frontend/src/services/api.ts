@@ -1,14 +1,80 @@
+import { createApiError, ErrorCodes, NetworkError, UnauthorizedError } from './apiErrors';
+
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000/api';
 
+const AUTH_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+// Guest tokens from Find my trip, by confirmation number
+const TRIP_ACCESS_KEY = 'tripAccess';
+
+// 'refreshed' fires after a silent refresh stored a new token pair,
+// 'expired' once the refresh token itself has been rejected
+export type SessionEvent = 'refreshed' | 'expired';
+type SessionListener = (event: SessionEvent) => void;
+
 class ApiService {
-  private getAuthToken(): string | null {
-    return localStorage.getItem('authToken');
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionListeners = new Set<SessionListener>();
+
+  getAuthToken(): string | null {
+    return localStorage.getItem(AUTH_TOKEN_KEY);
   }
 
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const url = `${API_BASE_URL}${endpoint}`;
-    const token = this.getAuthToken();
+  private getRefreshToken(): string | null {
+    return localStorage.getItem(REFRESH_TOKEN_KEY);
+  }
+
+  setSession(auth: AuthResponse) {
+    localStorage.setItem(AUTH_TOKEN_KEY, auth.token);
+    localStorage.setItem(REFRESH_TOKEN_KEY, auth.refreshToken);
+  }
 
+  clearSession() {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+  }
+
+  private getTripAccessMap(): Record<string, TripAccess> {
+    try {
+      return JSON.parse(localStorage.getItem(TRIP_ACCESS_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  // The unexpired guest token for a booking, if this browser has found it through Find my trip
+  getTripAccess(confirmationNumber: string): TripAccess | null {
+    const access = this.getTripAccessMap()[confirmationNumber.toUpperCase()];
+    return access && new Date(access.expiresAt) > new Date() ? access : null;
+  }
+
+  setTripAccess(access: TripAccess) {
+    const now = new Date();
+    const current = this.getTripAccessMap();
+    const unexpired = Object.keys(current)
+      .filter(key => new Date(current[key].expiresAt) > now)
+      .reduce<Record<string, TripAccess>>((map, key) => ({ ...map, [key]: current[key] }), {});
+    localStorage.setItem(TRIP_ACCESS_KEY, JSON.stringify({ ...unexpired, [access.confirmationNumber]: access }));
+  }
+
+  clearTripAccess(confirmationNumber: string) {
+    const current = this.getTripAccessMap();
+    delete current[confirmationNumber.toUpperCase()];
+    localStorage.setItem(TRIP_ACCESS_KEY, JSON.stringify(current));
+  }
+
+  onSessionChange(listener: SessionListener) {
+    this.sessionListeners.add(listener);
+    return () => {
+      this.sessionListeners.delete(listener);
+    };
+  }
+
+  private notifySession(event: SessionEvent) {
+    this.sessionListeners.forEach(listener => listener(event));
+  }
+
+  private async send(endpoint: string, options: RequestInit, token: string | null): Promise<Response> {
     const config: RequestInit = {
       headers: {
         'Content-Type': 'application/json',
@@ -18,16 +84,96 @@ class ApiService {
       ...options,
     };
 
-    const response = await fetch(url, config);
-    
+    try {
+      return await fetch(`${API_BASE_URL}${endpoint}`, config);
+    } catch {
+      throw new NetworkError();
+    }
+  }
+
+  private async request<T>(endpoint: string, options: RequestInit = {}, retryOnUnauthorized = true): Promise<T> {
+    const token = this.getAuthToken();
+    const response = await this.send(endpoint, options, token);
+
+    // The access token has expired: refresh once and replay the request with the new token
+    if (response.status === 401 && retryOnUnauthorized && token && this.getRefreshToken()) {
+      if (await this.refreshSession()) {
+        return this.request<T>(endpoint, options, false);
+      }
+      throw new UnauthorizedError('Your session has expired. Please sign in again.', 401, ErrorCodes.SessionExpired);
+    }
+
+    return this.readResponse<T>(response);
+  }
+
+  // Requests for a booking found through Find my trip carry its guest token rather than the account's
+  private async tripRequest<T>(confirmationNumber: string, endpoint: string, options: RequestInit = {}): Promise<T> {
+    const access = this.getTripAccess(confirmationNumber);
+    if (!access) {
+      return this.request<T>(endpoint, options);
+    }
+
+    const response = await this.send(endpoint, options, access.token);
+    if (response.status === 401) {
+      this.clearTripAccess(confirmationNumber);
+      throw new UnauthorizedError('Your access to this trip has expired. Please find your trip again.', 401, ErrorCodes.SessionExpired);
+    }
+
+    return this.readResponse<T>(response);
+  }
+
+  private async readResponse<T>(response: Response): Promise<T> {
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: 'An error occurred' }));
-      throw new Error(error.message || 'Request failed');
+      const body = await response.json().catch(() => null);
+      throw createApiError(response.status, body);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
     }
 
     return response.json();
   }
 
+  // Concurrent callers share a single in-flight refresh so the rotated refresh token is only spent once.
+  // Rejects with NetworkError when the server cannot be reached, since that says nothing about the session.
+  async refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh();
+    }
+
+    try {
+      return await this.refreshPromise;
+    } finally {
+      this.refreshPromise = null;
+    }
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) {
+      return false;
+    }
+
+    try {
+      const response = await this.request<AuthResponse>('/auth/refresh', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken }),
+      }, false);
+      this.setSession(response);
+      this.notifySession('refreshed');
+      return true;
+    } catch (error) {
+      // A network failure leaves the session intact so it can be retried later
+      if (error instanceof NetworkError) {
+        throw error;
+      }
+      this.clearSession();
+      this.notifySession('expired');
+      return false;
+    }
+  }
+
   // Auth endpoints
   async login(email: string, password: string) {
     return this.request<AuthResponse>('/auth/login', {
@@ -43,6 +189,21 @@ class ApiService {
     });
   }
 
+  async getCurrentUser() {
+    return this.request<UserDto>('/auth/me');
+  }
+
+  async logout() {
+    const refreshToken = this.getRefreshToken();
+    this.clearSession();
+    if (refreshToken) {
+      await this.request<void>('/auth/logout', {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken }),
+      }, false);
+    }
+  }
+
   // Flight endpoints
   async getFlightBoard(airport: string = 'ORD', search?: string, status?: string, airline?: string) {
     const params = new URLSearchParams({ airport });
@@ -75,13 +236,158 @@ class ApiService {
     });
   }
 
+  async getFareQuote(quote: FareQuoteRequest) {
+    return this.request<FareQuote>('/bookings/quote', {
+      method: 'POST',
+      body: JSON.stringify(quote),
+    });
+  }
+
+  async holdSeat(hold: SeatHoldRequest) {
+    return this.request<SeatHoldResponse>('/bookings/holds', {
+      method: 'POST',
+      body: JSON.stringify(hold),
+    });
+  }
+
+  async releaseSeatHold(flightNumber: string, seatNumber: string, flightDate: string) {
+    return this.request<void>(`/bookings/holds/${flightNumber}/${seatNumber}?date=${flightDate}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // keepalive lets the release finish when it is sent while the page is unloading
+  async releaseAllSeatHolds(flightNumber: string, flightDate: string, keepalive = false) {
+    return this.request<void>(`/bookings/holds/${flightNumber}?date=${flightDate}`, {
+      method: 'DELETE',
+      keepalive,
+    });
+  }
+
+  async findTrip(confirmationNumber: string, lastName: string) {
+    return this.request<TripAccess>('/bookings/lookup', {
+      method: 'POST',
+      body: JSON.stringify({ confirmationNumber, lastName }),
+    });
+  }
+
   async getBooking(confirmationNumber: string) {
-    return this.request<BookingDetailsResponse>(`/bookings/${confirmationNumber}`);
+    return this.tripRequest<BookingDetailsResponse>(confirmationNumber, `/bookings/${confirmationNumber}`);
+  }
+
+  async getMyBookings(query: MyBookingsQuery = {}) {
+    const params = new URLSearchParams();
+    if (query.scope) params.append('scope', query.scope);
+    if (query.status) params.append('status', query.status);
+    if (query.page) params.append('page', query.page.toString());
+    if (query.pageSize) params.append('pageSize', query.pageSize.toString());
+
+    return this.request<MyBookingsResponse>(`/bookings?${params}`);
+  }
+
+  async checkIn(confirmationNumber: string, request: CheckInRequest) {
+    return this.tripRequest<CheckInResponse>(confirmationNumber, `/bookings/${confirmationNumber}/checkin`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async getBoardingPasses(confirmationNumber: string) {
+    return this.tripRequest<BoardingPass[]>(confirmationNumber, `/bookings/${confirmationNumber}/boarding-passes`);
+  }
+
+  async getBookingBaggage(confirmationNumber: string) {
+    return this.tripRequest<BaggageInfo[]>(confirmationNumber, `/bookings/${confirmationNumber}/baggage`);
+  }
+
+  async trackBaggage(trackingNumber: string) {
+    return this.request<BaggageInfo>(`/baggage/${encodeURIComponent(trackingNumber)}`);
+  }
+
+  // No passenger ids quotes cancelling everyone still on the booking
+  async getCancellationQuote(confirmationNumber: string, passengerIds: number[] = []) {
+    const params = new URLSearchParams();
+    passengerIds.forEach(id => params.append('passengerIds', id.toString()));
+    return this.request<CancellationQuote>(`/bookings/${confirmationNumber}/cancellation-quote?${params}`);
+  }
+
+  async cancelBooking(confirmationNumber: string, passengerIds: number[] = []) {
+    return this.request<CancelBookingResponse>(`/bookings/${confirmationNumber}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ passengerIds }),
+    });
+  }
+
+  async getFlightChangeOptions(confirmationNumber: string) {
+    return this.request<FlightChangeOptionsResponse>(`/bookings/${confirmationNumber}/change-options`);
+  }
+
+  async changeSeats(confirmationNumber: string, request: ChangeSeatsRequest) {
+    return this.request<BookingChangeResponse>(`/bookings/${confirmationNumber}/change-seats`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async changeFlight(confirmationNumber: string, request: ChangeFlightRequest) {
+    return this.request<BookingChangeResponse>(`/bookings/${confirmationNumber}/change-flight`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async correctName(confirmationNumber: string, request: CorrectNameRequest) {
+    return this.request<BookingChangeResponse>(`/bookings/${confirmationNumber}/correct-name`, {
+      method: 'POST',
+      body: JSON.stringify(request),
+    });
+  }
+
+  async getLoyalty() {
+    return this.request<LoyaltyDashboard>('/loyalty');
+  }
+
+  async getNotificationPreferences() {
+    return this.request<NotificationPreferences>('/account/notification-preferences');
+  }
+
+  async updateNotificationPreferences(preferences: NotificationPreferences) {
+    return this.request<NotificationPreferences>('/account/notification-preferences', {
+      method: 'PUT',
+      body: JSON.stringify(preferences),
+    });
+  }
+
+  async getNotifications() {
+    return this.request<UserNotificationList>('/notifications');
+  }
+
+  async markNotificationRead(id: number) {
+    return this.request<void>(`/notifications/${id}/read`, {
+      method: 'POST',
+    });
+  }
+
+  async markAllNotificationsRead() {
+    return this.request<void>('/notifications/read-all', {
+      method: 'POST',
+    });
+  }
+
+  async getPushPublicKey() {
+    return this.request<{ publicKey: string }>('/notifications/push/public-key');
   }
 
-  async checkIn(confirmationNumber: string) {
-    return this.request<CheckInResponse>(`/bookings/${confirmationNumber}/checkin`, {
+  async savePushSubscription(subscription: PushSubscriptionJSON) {
+    return this.request<void>('/notifications/push/subscriptions', {
       method: 'POST',
+      body: JSON.stringify(subscription),
+    });
+  }
+
+  async deletePushSubscription(endpoint: string) {
+    return this.request<void>(`/notifications/push/subscriptions?endpoint=${encodeURIComponent(endpoint)}`, {
+      method: 'DELETE',
     });
   }
 
@@ -95,14 +401,110 @@ export const apiService = new ApiService();
 // Types
 export interface AuthResponse {
   token: string;
+  refreshToken: string;
   user: UserDto;
 }
 
+// A guest token from Find my trip, good for one booking's view, check-in and boarding passes
+export interface TripAccess {
+  confirmationNumber: string;
+  token: string;
+  expiresAt: string;
+}
+
 export interface UserDto {
   id: string;
   email: string;
   firstName: string;
   lastName: string;
+  loyalty?: LoyaltySummary;
+}
+
+export interface NotificationPreferences {
+  // Channels
+  emailNotifications: boolean;
+  smsNotifications: boolean;
+  pushNotifications: boolean;
+  // Kinds of message; each goes out only over the channels switched on above
+  flightUpdates: boolean;
+  promotionalOffers: boolean;
+  bookingConfirmations: boolean;
+}
+
+export type UserNotificationType = 'GateChange' | 'Delay' | 'Cancellation' | 'CheckInReminder';
+
+export interface UserNotification {
+  id: number;
+  type: UserNotificationType;
+  title: string;
+  message: string;
+  bookingId?: number;
+  flightNumber?: string;
+  createdAt: string;
+  // Absent until the user has read it
+  readAt?: string;
+}
+
+export interface UserNotificationList {
+  // The most recent notifications, newest first
+  items: UserNotification[];
+  unreadCount: number;
+}
+
+export type LoyaltyTier = 'Basic' | 'Silver' | 'Gold' | 'Platinum' | 'Diamond';
+
+export interface LoyaltySummary {
+  membershipNumber: string;
+  tier: LoyaltyTier;
+  points: number;
+}
+
+export type LoyaltyTransactionType = 'Earned' | 'Redeemed' | 'Refunded';
+
+export interface LoyaltyActivity {
+  id: number;
+  type: LoyaltyTransactionType;
+  // Negative when points leave the account
+  points: number;
+  miles: number;
+  description: string;
+  createdAt: string;
+  confirmationNumber?: string;
+  flightNumber?: string;
+  originAirport?: string;
+  destinationAirport?: string;
+  departureDate?: string;
+}
+
+export interface LoyaltyDashboard extends LoyaltySummary {
+  milesFlown: number;
+  joinDate: string;
+  // Bonus applied to points earned at the current tier, e.g. 1.5 for 50% extra
+  pointsMultiplier: number;
+  // Miles the current tier starts at
+  currentTierMiles: number;
+  // Absent at the top tier
+  nextTier?: LoyaltyTier;
+  nextTierMiles?: number;
+  // Newest first
+  history: LoyaltyActivity[];
+}
+
+// What a booking earns once flown
+export interface LoyaltyEarning {
+  points: number;
+  miles: number;
+  tier: LoyaltyTier;
+  pointsMultiplier: number;
+}
+
+// How many points a customer could put toward a fare
+export interface PointsRedemption {
+  availablePoints: number;
+  // The balance, or enough to cover the whole fare
+  maxPoints: number;
+  // In the fare's currency
+  pointValue: number;
 }
 
 export interface FlightBoardResponse {
@@ -110,6 +512,9 @@ export interface FlightBoardResponse {
   flights: FlightSummary[];
   lastUpdated: string;
   totalCount: number;
+  totalDepartures: number;
+  totalArrivals: number;
+  airlines: string[];
 }
 
 export interface FlightDetailsResponse {
@@ -160,20 +565,81 @@ export interface CreateBookingRequest {
   flightNumber: string;
   flightDate: string;
   passengers: PassengerRequest[];
-  selectedSeats: string[];
+  // Not needed when points cover the whole fare
+  paymentInfo?: PaymentInfo;
+  pointsToRedeem?: number;
+}
+
+export interface PaymentInfo {
+  cardNumber: string;
+  cardHolderName: string;
+  expiryMonth: number;
+  expiryYear: number;
+  cvv: string;
 }
 
+export type SeatClass = 'Economy' | 'PremiumEconomy' | 'Business' | 'First';
+
 export interface PassengerRequest {
   firstName: string;
   lastName: string;
   dateOfBirth?: string;
-  seatClass: string;
+  seatClass: SeatClass;
+  checkedBags: number;
+  // Must be a seat in the passenger's seatClass cabin
+  seatNumber?: string;
+}
+
+export type FareQuoteRequest = Omit<CreateBookingRequest, 'paymentInfo' | 'pointsToRedeem'>;
+
+export interface FareFee {
+  code: string;
+  description: string;
+  amount: number;
+}
+
+export interface PassengerFare {
+  passengerIndex: number;
+  passengerName: string;
+  seatClass: SeatClass;
+  baseFare: number;
+  taxes: number;
+  fees: FareFee[];
+  total: number;
+}
+
+export interface FareQuote {
+  currency: string;
+  baseFare: number;
+  taxes: number;
+  fees: number;
+  total: number;
+  passengers: PassengerFare[];
+  quotedAt: string;
+  // Only for signed-in customers
+  loyaltyEarning?: LoyaltyEarning;
+  pointsRedemption?: PointsRedemption;
+}
+
+export interface SeatHoldRequest {
+  flightNumber: string;
+  flightDate: string;
+  seatNumber: string;
+}
+
+export interface SeatHoldResponse {
+  flightNumber: string;
+  seatNumber: string;
+  expiresAt: string;
 }
 
 export interface BookingResponse {
   confirmationNumber: string;
   status: string;
   totalAmount: number;
+  pointsRedeemed: number;
+  // The part of totalAmount paid with points
+  pointsValue: number;
   createdAt: string;
 }
 
@@ -181,47 +647,253 @@ export interface BookingDetailsResponse {
   confirmationNumber: string;
   status: string;
   totalAmount: number;
+  // Returned to the card by cancellations so far
+  refundedAmount: number;
+  // Kept as travel credit by cancellations so far
+  creditAmount: number;
+  pointsRedeemed: number;
+  // The part of totalAmount paid with points
+  pointsValue: number;
+  // Returned to the rewards account by cancellations so far
+  pointsRefunded: number;
   flight: FlightSummary;
   passengers: PassengerDto[];
+  // Changes made after purchase, newest first; only filled in for single-booking requests
+  changes: BookingChange[];
   createdAt: string;
 }
 
+export type BookingScope = 'all' | 'upcoming' | 'past';
+
+export interface MyBookingsQuery {
+  scope?: BookingScope;
+  status?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface MyBookingsResponse {
+  bookings: BookingDetailsResponse[];
+  page: number;
+  pageSize: number;
+  totalCount: number;
+  totalPages: number;
+  upcomingCount: number;
+  pastCount: number;
+}
+
+export type TravelDocumentType = 'Passport' | 'NationalId';
+
+export interface PassengerCheckInRequest {
+  passengerId: number;
+  documentType?: TravelDocumentType;
+  documentNumber: string;
+  // yyyy-mm-dd
+  documentExpiry?: string;
+  // ISO country code of the issuing state
+  documentCountry: string;
+}
+
+export interface CheckInRequest {
+  passengers: PassengerCheckInRequest[];
+  documentsConfirmed: boolean;
+}
+
 export interface CheckInResponse {
   success: boolean;
-  boardingPass?: BoardingPass;
+  boardingPasses: BoardingPass[];
 }
 
 export interface PassengerDto {
+  id: number;
   firstName: string;
   lastName: string;
   seatNumber?: string;
   seatClass: string;
+  checkedIn: boolean;
+  cancelled: boolean;
+}
+
+export interface PassengerCancellation {
+  passengerId: number;
+  passengerName: string;
+  fareAmount: number;
+  refundAmount: number;
+  creditAmount: number;
+  fee: number;
+  pointsRefunded: number;
+}
+
+export interface CancellationQuote {
+  confirmationNumber: string;
+  currency: string;
+  // Which refund rule applies, in words
+  policy: string;
+  passengers: PassengerCancellation[];
+  refundAmount: number;
+  creditAmount: number;
+  fee: number;
+  // Loyalty points going back to the rewards account
+  pointsRefunded: number;
+  // True when no passenger would be left on the booking
+  cancelsBooking: boolean;
+  quotedAt: string;
+}
+
+export interface CancelBookingResponse {
+  booking: BookingDetailsResponse;
+  cancellation: CancellationQuote;
+}
+
+export type BookingChangeType = 'SeatChange' | 'FlightChange' | 'NameCorrection';
+
+export interface BookingChange {
+  id: number;
+  // Null when the change applies to the whole booking
+  passengerId: number | null;
+  type: BookingChangeType;
+  description: string;
+  previousValue?: string;
+  newValue?: string;
+  amountCharged: number;
+  creditIssued: number;
+  changedAt: string;
+}
+
+export interface FlightChangeOption {
+  flightId: number;
+  flightNumber: string;
+  airline: string;
+  scheduledDeparture: string;
+  scheduledArrival: string;
+  seatsRemaining: number;
+  // False when too few seats remain for everyone on the booking
+  isAvailable: boolean;
+  newFare: number;
+  // Positive is charged to a card, negative issued as travel credit
+  fareDifference: number;
+}
+
+export interface FlightChangeOptionsResponse {
+  currency: string;
+  currentFare: number;
+  options: FlightChangeOption[];
+}
+
+export interface PassengerSeatChange {
+  passengerId: number;
+  seatNumber: string;
+}
+
+export interface ChangeSeatsRequest {
+  seats: PassengerSeatChange[];
+  paymentInfo?: PaymentInfo;
+}
+
+export interface ChangeFlightRequest {
+  flightId: number;
+  paymentInfo?: PaymentInfo;
+}
+
+export interface CorrectNameRequest {
+  passengerId: number;
+  firstName: string;
+  lastName: string;
+}
+
+export interface BookingChangeResponse {
+  booking: BookingDetailsResponse;
+  // The changes just made
+  changes: BookingChange[];
+  amountCharged: number;
+  creditIssued: number;
 }
 
 export interface BoardingPass {
   confirmationNumber: string;
+  passengerId: number;
+  firstName: string;
+  lastName: string;
   passengerName: string;
   flightNumber: string;
+  airline: string;
+  originAirport: string;
+  destinationAirport: string;
+  scheduledDeparture: string;
   seatNumber: string;
+  seatClass: SeatClass;
   gate: string;
+  terminal?: string;
   boardingTime: string;
-  qrCode: string;
+  boardingGroup: number;
+  // Order in which the passenger checked in for the flight
+  sequenceNumber: number;
+}
+
+export type BaggageStatus = 'CheckedIn' | 'InTransit' | 'Loaded' | 'Delivered' | 'Lost';
+
+export interface BaggageStatusUpdate {
+  status: BaggageStatus;
+  location: string;
+  timestamp: string;
+  description: string;
+}
+
+export interface BaggageInfo {
+  trackingNumber: string;
+  description: string;
+  status: BaggageStatus;
+  currentLocation: string;
+  lastUpdated: string;
+  flightNumber?: string;
+  originAirport?: string;
+  destinationAirport?: string;
+  passengerName?: string;
+  weight: number;
+  // Oldest first
+  statusHistory: BaggageStatusUpdate[];
 }
 
 export interface SeatMapType {
   flightNumber: string;
+  aircraft: string;
+  // Currency of seat upcharges
+  currency: string;
+  cabins: Cabin[];
   rows: SeatRow[];
 }
 
 export type SeatMap = SeatMapType;
 
+export interface Cabin {
+  class: SeatClass;
+  firstRow: number;
+  lastRow: number;
+  // Column letters from left to right
+  columns: string[];
+  // Columns with an aisle on their right
+  aislesAfter: string[];
+}
+
 export interface SeatRow {
   rowNumber: number;
+  isExitRow: boolean;
+  isBulkhead: boolean;
+  isOverWing: boolean;
   seats: Seat[];
 }
 
+export type SeatPosition = 'Window' | 'Middle' | 'Aisle';
+
 export interface Seat {
   number: string;
-  class: string;
+  column: string;
+  class: SeatClass;
   isAvailable: boolean;
+  position: SeatPosition;
+  hasExtraLegroom: boolean;
+  isBlocked: boolean;
+  blockedReason?: string;
+  // Charged on top of the fare; 0 when the seat is included
+  upcharge: number;
 }
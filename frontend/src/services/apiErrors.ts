@@ -0,0 +1,160 @@
+// Error codes sent by the backend alongside the HTTP status
+export const ErrorCodes = {
+  ValidationFailed: 'VALIDATION_FAILED',
+  EmailTaken: 'EMAIL_TAKEN',
+  SessionExpired: 'SESSION_EXPIRED',
+  FlightNotFound: 'FLIGHT_NOT_FOUND',
+  FlightDeparted: 'FLIGHT_DEPARTED',
+  FlightSoldOut: 'FLIGHT_SOLD_OUT',
+  SeatUnavailable: 'SEAT_UNAVAILABLE',
+  PaymentDeclined: 'PAYMENT_DECLINED',
+  BookingNotFound: 'BOOKING_NOT_FOUND',
+  CheckInUnavailable: 'CHECK_IN_UNAVAILABLE',
+  CancellationUnavailable: 'CANCELLATION_UNAVAILABLE',
+  RefundFailed: 'REFUND_FAILED',
+  ChangeUnavailable: 'CHANGE_UNAVAILABLE',
+  TooManyAttempts: 'TOO_MANY_ATTEMPTS',
+} as const;
+
+export type FieldErrors = Record<string, string>;
+
+interface ErrorBody {
+  message?: string;
+  title?: string;
+  detail?: string;
+  code?: string;
+  errors?: Record<string, string[] | string>;
+  seats?: string[];
+  declineCode?: string;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(message: string, fieldErrors: FieldErrors = {}, code?: string) {
+    super(message, 400, code);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'You need to sign in to continue', status = 401, code?: string) {
+    super(message, status, code);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'The requested resource was not found', code?: string) {
+    super(message, 404, code);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  readonly seats: string[];
+
+  constructor(message: string, code?: string, seats: string[] = []) {
+    super(message, 409, code);
+    this.name = 'ConflictError';
+    this.seats = seats;
+  }
+}
+
+export class PaymentDeclinedError extends ApiError {
+  readonly declineCode?: string;
+
+  constructor(message: string, code?: string, declineCode?: string) {
+    super(message, 402, code);
+    this.name = 'PaymentDeclinedError';
+    this.declineCode = declineCode;
+  }
+}
+
+export class ServerError extends ApiError {
+  constructor(message = 'Something went wrong on our side. Please try again later.', status = 500, code?: string) {
+    super(message, status, code);
+    this.name = 'ServerError';
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to reach the server. Check your connection and try again.') {
+    super(message, 0);
+    this.name = 'NetworkError';
+  }
+}
+
+// ASP.NET reports field paths as "Email", "$.email" or "Passengers[0].FirstName";
+// normalise them to the camelCase paths the forms use, e.g. "passengers[0].firstName"
+export const normalizeFieldPath = (path: string) =>
+  path
+    .replace(/^\$\.?/, '')
+    .split('.')
+    .map(segment => segment.charAt(0).toLowerCase() + segment.slice(1))
+    .join('.');
+
+const toFieldErrors = (errors?: ErrorBody['errors']): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  if (!errors) return fieldErrors;
+
+  Object.entries(errors).forEach(([path, messages]) => {
+    const message = Array.isArray(messages) ? messages[0] : messages;
+    if (message) {
+      fieldErrors[normalizeFieldPath(path)] = message;
+    }
+  });
+
+  return fieldErrors;
+};
+
+export const createApiError = (status: number, body: ErrorBody | null): ApiError => {
+  const message = body?.message || body?.detail || body?.title || 'Request failed';
+  const code = body?.code;
+
+  switch (true) {
+    case status === 400 || status === 422:
+      return new ValidationError(message, toFieldErrors(body?.errors), code);
+    case status === 401 || status === 403:
+      return new UnauthorizedError(message, status, code);
+    case status === 402:
+      return new PaymentDeclinedError(message, code, body?.declineCode);
+    case status === 404:
+      return new NotFoundError(message, code);
+    case status === 409:
+      return new ConflictError(message, code, body?.seats ?? []);
+    case status >= 500:
+      return new ServerError(body?.message, status, code);
+    default:
+      return new ApiError(message, status, code);
+  }
+};
+
+// Pulls the field errors for a nested path prefix, e.g. "passengers[1]" -> { firstName: '...' }
+export const fieldErrorsFor = (fieldErrors: FieldErrors, prefix: string): FieldErrors => {
+  const scoped: FieldErrors = {};
+  Object.entries(fieldErrors).forEach(([path, message]) => {
+    if (path.startsWith(`${prefix}.`)) {
+      scoped[path.slice(prefix.length + 1)] = message;
+    }
+  });
+  return scoped;
+};
+
+export const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof Error && error.message ? error.message : fallback;
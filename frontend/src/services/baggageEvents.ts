@@ -0,0 +1,30 @@
+import { BaggageInfo } from './api';
+
+// BaggageStatusChanged pushes carry the whole bag, history included, so a page can simply replace what it shows
+export type BaggageEventListener = (baggage: BaggageInfo) => void;
+
+const baggageKey = (trackingNumber: string) => trackingNumber.trim().toUpperCase();
+
+class BaggageEventBus {
+  private listeners = new Map<string, Set<BaggageEventListener>>();
+
+  subscribeToBaggage(trackingNumber: string, listener: BaggageEventListener) {
+    const key = baggageKey(trackingNumber);
+    const listeners = this.listeners.get(key) ?? new Set<BaggageEventListener>();
+    listeners.add(listener);
+    this.listeners.set(key, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.listeners.delete(key);
+      }
+    };
+  }
+
+  publish(baggage: BaggageInfo) {
+    this.listeners.get(baggageKey(baggage.trackingNumber))?.forEach(listener => listener(baggage));
+  }
+}
+
+export const baggageEventBus = new BaggageEventBus();
@@ -0,0 +1,144 @@
+import { FlightSummary } from './api';
+
+// Payloads pushed by FlightUpdatesHub, mirroring the backend update models
+export interface FlightStatusUpdate {
+  flightNumber: string;
+  airline: string;
+  oldStatus: string;
+  newStatus: string;
+  estimatedDeparture?: string;
+  estimatedArrival?: string;
+  gate?: string;
+  terminal?: string;
+  updatedAt: string;
+}
+
+export interface GateChangeUpdate {
+  flightNumber: string;
+  airline: string;
+  oldGate?: string;
+  newGate?: string;
+  terminal?: string;
+  updatedAt: string;
+}
+
+export interface DelayUpdate {
+  flightNumber: string;
+  airline: string;
+  originalDeparture: string;
+  newEstimatedDeparture?: string;
+  originalArrival: string;
+  newEstimatedArrival?: string;
+  delayMinutes: number;
+  reason?: string;
+  updatedAt: string;
+}
+
+export interface FlightCancellationUpdate {
+  flightNumber: string;
+  airline: string;
+  reason?: string;
+  updatedAt: string;
+}
+
+export type SeatHoldStatus = 'Held' | 'Released' | 'Booked';
+
+export interface SeatHoldUpdate {
+  flightNumber: string;
+  // yyyy-MM-dd
+  flightDate: string;
+  seatNumber: string;
+  status: SeatHoldStatus;
+  expiresAt?: string;
+  updatedAt: string;
+}
+
+export type FlightEvent =
+  | { type: 'FlightStatusChanged'; update: FlightStatusUpdate }
+  | { type: 'GateChanged'; update: GateChangeUpdate }
+  | { type: 'FlightDelayed'; update: DelayUpdate }
+  | { type: 'FlightCancelled'; update: FlightCancellationUpdate }
+  | { type: 'SeatHoldChanged'; update: SeatHoldUpdate };
+
+export type FlightEventType = FlightEvent['type'];
+
+export type FlightEventListener = (event: FlightEvent) => void;
+
+// FlightSummary fields a live event can change, used to highlight updated cells
+export type FlightField = 'status' | 'gate' | 'terminal' | 'estimatedDeparture' | 'estimatedArrival';
+
+const flightKey = (flightNumber: string) => flightNumber.toUpperCase();
+
+class FlightEventBus {
+  private listeners = new Set<FlightEventListener>();
+  private flightListeners = new Map<string, Set<FlightEventListener>>();
+
+  subscribe(listener: FlightEventListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  subscribeToFlight(flightNumber: string, listener: FlightEventListener) {
+    const key = flightKey(flightNumber);
+    const listeners = this.flightListeners.get(key) ?? new Set<FlightEventListener>();
+    listeners.add(listener);
+    this.flightListeners.set(key, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) {
+        this.flightListeners.delete(key);
+      }
+    };
+  }
+
+  publish(event: FlightEvent) {
+    this.listeners.forEach(listener => listener(event));
+    this.flightListeners.get(flightKey(event.update.flightNumber))?.forEach(listener => listener(event));
+  }
+}
+
+export const flightEventBus = new FlightEventBus();
+
+export const isEventForFlight = (event: FlightEvent, flightNumber: string) =>
+  flightKey(event.update.flightNumber) === flightKey(flightNumber);
+
+// Returns a patched copy of the flight with the changes carried by the event applied
+export const applyFlightEvent = <T extends FlightSummary>(flight: T, event: FlightEvent): T => {
+  switch (event.type) {
+    case 'FlightStatusChanged':
+      return {
+        ...flight,
+        status: event.update.newStatus,
+        estimatedDeparture: event.update.estimatedDeparture ?? flight.estimatedDeparture,
+        estimatedArrival: event.update.estimatedArrival ?? flight.estimatedArrival,
+        gate: event.update.gate ?? flight.gate,
+        terminal: event.update.terminal ?? flight.terminal
+      };
+    case 'GateChanged':
+      return {
+        ...flight,
+        gate: event.update.newGate,
+        terminal: event.update.terminal ?? flight.terminal
+      };
+    case 'FlightDelayed':
+      return {
+        ...flight,
+        status: 'Delayed',
+        estimatedDeparture: event.update.newEstimatedDeparture ?? flight.estimatedDeparture,
+        estimatedArrival: event.update.newEstimatedArrival ?? flight.estimatedArrival
+      };
+    case 'FlightCancelled':
+      return { ...flight, status: 'Cancelled' };
+    case 'SeatHoldChanged':
+      // Seat holds don't change anything shown for the flight itself
+      return flight;
+  }
+};
+
+const TRACKED_FIELDS: FlightField[] = ['status', 'gate', 'terminal', 'estimatedDeparture', 'estimatedArrival'];
+
+export const getChangedFields = (before: FlightSummary, after: FlightSummary): FlightField[] =>
+  TRACKED_FIELDS.filter(field => before[field] !== after[field]);
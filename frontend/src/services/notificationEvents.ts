@@ -0,0 +1,21 @@
+import { UserNotification } from './api';
+
+// NotificationReceived pushes arrive on the user's hub group once they have signed in
+export type NotificationEventListener = (notification: UserNotification) => void;
+
+class NotificationEventBus {
+  private listeners = new Set<NotificationEventListener>();
+
+  subscribe(listener: NotificationEventListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  publish(notification: UserNotification) {
+    this.listeners.forEach(listener => listener(notification));
+  }
+}
+
+export const notificationEventBus = new NotificationEventBus();
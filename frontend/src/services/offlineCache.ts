@@ -0,0 +1,245 @@
+import { apiService, BoardingPass, BookingDetailsResponse, MyBookingsQuery, MyBookingsResponse } from './api';
+import { NetworkError } from './apiErrors';
+
+const DB_NAME = 'airline-offline';
+const DB_VERSION = 1;
+const BOOKINGS_STORE = 'bookings';
+const BOARDING_PASSES_STORE = 'boardingPasses';
+// The most GET /bookings returns at once
+const SYNC_PAGE_SIZE = 50;
+
+interface CachedRecord<T> {
+  confirmationNumber: string;
+  userId: string;
+  // ISO time the record was last fetched from the server
+  savedAt: string;
+  data: T;
+}
+
+// Results served from the cache carry the time they were saved; fresh ones have null
+export interface OfflineResult<T> {
+  data: T;
+  savedAt: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(BOOKINGS_STORE, { keyPath: 'confirmationNumber' }).createIndex('userId', 'userId');
+        db.createObjectStore(BOARDING_PASSES_STORE, { keyPath: 'confirmationNumber' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after private browsing blocked the first attempt
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest | void
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// The cache is best effort: a failed write must never break the page that triggered it
+const ignoreCacheError = (error: unknown) => {
+  console.warn('Offline cache unavailable:', error);
+};
+
+const saveBookings = (userId: string, bookings: BookingDetailsResponse[]) => {
+  const savedAt = new Date().toISOString();
+  return runTransaction<void>(BOOKINGS_STORE, 'readwrite', store => {
+    bookings.forEach(booking => {
+      const record: CachedRecord<BookingDetailsResponse> = {
+        confirmationNumber: booking.confirmationNumber,
+        userId,
+        savedAt,
+        data: booking
+      };
+      store.put(record);
+    });
+  }).catch(ignoreCacheError);
+};
+
+const saveBoardingPasses = (userId: string, confirmationNumber: string, passes: BoardingPass[]) => {
+  const record: CachedRecord<BoardingPass[]> = {
+    confirmationNumber,
+    userId,
+    savedAt: new Date().toISOString(),
+    data: passes
+  };
+  return runTransaction<void>(BOARDING_PASSES_STORE, 'readwrite', store => {
+    store.put(record);
+  }).catch(ignoreCacheError);
+};
+
+const getCachedBookings = (userId: string) =>
+  runTransaction<CachedRecord<BookingDetailsResponse>[]>(BOOKINGS_STORE, 'readonly', store =>
+    store.index('userId').getAll(userId)
+  ).catch(() => [] as CachedRecord<BookingDetailsResponse>[]);
+
+// Replaces everything saved for the user with the given bookings, so ones cancelled or removed on the server
+// since the last visit stop showing offline. Boarding passes of bookings that are gone go with them.
+const replaceBookings = async (userId: string, bookings: BookingDetailsResponse[]) => {
+  const current = await getCachedBookings(userId);
+  const kept = new Set(bookings.map(booking => booking.confirmationNumber));
+  const removed = current.map(record => record.confirmationNumber).filter(number => !kept.has(number));
+
+  await runTransaction<void>(BOOKINGS_STORE, 'readwrite', store => {
+    removed.forEach(confirmationNumber => store.delete(confirmationNumber));
+  }).catch(ignoreCacheError);
+  await runTransaction<void>(BOARDING_PASSES_STORE, 'readwrite', store => {
+    removed.forEach(confirmationNumber => store.delete(confirmationNumber));
+  }).catch(ignoreCacheError);
+  await saveBookings(userId, bookings);
+};
+
+// Every booking the user has, reusing the page just loaded when it already holds them all
+const fetchAllBookings = async (query: MyBookingsQuery, response: MyBookingsResponse) => {
+  if (!query.status && (query.scope ?? 'all') === 'all' && response.totalPages <= 1) {
+    return response.bookings;
+  }
+
+  const bookings: BookingDetailsResponse[] = [];
+  let totalPages = 1;
+  for (let page = 1; page <= totalPages; page++) {
+    const result = await apiService.getMyBookings({ scope: 'all', page, pageSize: SYNC_PAGE_SIZE });
+    bookings.push(...result.bookings);
+    totalPages = result.totalPages;
+  }
+  return bookings;
+};
+
+const getCachedRecord = async <T>(storeName: string, userId: string, confirmationNumber: string) => {
+  const record = await runTransaction<CachedRecord<T> | undefined>(storeName, 'readonly', store =>
+    store.get(confirmationNumber)
+  ).catch(() => undefined);
+  // Another account may have used this browser; never show its bookings
+  return record && record.userId === userId ? record : undefined;
+};
+
+const oldest = (times: string[]) => times.reduce((min, time) => (time < min ? time : min));
+
+// Applies the same scope, status, ordering and paging as GET /bookings to the cached records
+const queryCachedBookings = (records: CachedRecord<BookingDetailsResponse>[], query: MyBookingsQuery): MyBookingsResponse => {
+  const now = Date.now();
+  const departure = (booking: BookingDetailsResponse) => new Date(booking.flight.scheduledDeparture).getTime();
+  const bookings = records
+    .map(record => record.data)
+    .filter(booking => !query.status || booking.status === query.status);
+
+  const upcoming = bookings.filter(booking => departure(booking) > now);
+  const past = bookings.filter(booking => departure(booking) <= now);
+  const scoped = query.scope === 'upcoming'
+    ? upcoming.sort((a, b) => departure(a) - departure(b))
+    : query.scope === 'past'
+    ? past.sort((a, b) => departure(b) - departure(a))
+    : bookings.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  const page = query.page ?? 1;
+  const pageSize = query.pageSize ?? 10;
+  return {
+    bookings: scoped.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageSize,
+    totalCount: scoped.length,
+    totalPages: Math.ceil(scoped.length / pageSize),
+    upcomingCount: upcoming.length,
+    pastCount: past.length
+  };
+};
+
+/**
+ * Stores a booking changed during this visit, such as by check-in, so the offline copy matches the page
+ */
+export const cacheBookingWithPasses = (userId: string, booking: BookingDetailsResponse, passes: BoardingPass[]) =>
+  Promise.all([
+    saveBookings(userId, [booking]),
+    saveBoardingPasses(userId, booking.confirmationNumber, passes)
+  ]);
+
+/**
+ * Loads the user's bookings and keeps a copy in IndexedDB. When the server cannot be reached
+ * the bookings saved on earlier visits are returned instead, with the time they were saved.
+ */
+export const fetchMyBookings = async (userId: string, query: MyBookingsQuery): Promise<OfflineResult<MyBookingsResponse>> => {
+  try {
+    const response = await apiService.getMyBookings(query);
+    await saveBookings(userId, response.bookings);
+    // Bring the rest of the saved set up to date without holding up the page
+    fetchAllBookings(query, response)
+      .then(bookings => replaceBookings(userId, bookings))
+      .catch(ignoreCacheError);
+    return { data: response, savedAt: null };
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error;
+
+    const records = await getCachedBookings(userId);
+    if (records.length === 0) throw error;
+    return { data: queryCachedBookings(records, query), savedAt: oldest(records.map(record => record.savedAt)) };
+  }
+};
+
+/**
+ * Loads a booking with its issued boarding passes, falling back to the saved copies offline
+ */
+export const fetchBookingWithPasses = async (
+  userId: string,
+  confirmationNumber: string
+): Promise<OfflineResult<{ booking: BookingDetailsResponse; boardingPasses: BoardingPass[] }>> => {
+  try {
+    const [booking, boardingPasses] = await Promise.all([
+      apiService.getBooking(confirmationNumber),
+      apiService.getBoardingPasses(confirmationNumber)
+    ]);
+    await cacheBookingWithPasses(userId, booking, boardingPasses);
+    return { data: { booking, boardingPasses }, savedAt: null };
+  } catch (error) {
+    if (!(error instanceof NetworkError)) throw error;
+
+    const [booking, passes] = await Promise.all([
+      getCachedRecord<BookingDetailsResponse>(BOOKINGS_STORE, userId, confirmationNumber),
+      getCachedRecord<BoardingPass[]>(BOARDING_PASSES_STORE, userId, confirmationNumber)
+    ]);
+    if (!booking) throw error;
+    return {
+      data: { booking: booking.data, boardingPasses: passes?.data ?? [] },
+      savedAt: passes ? oldest([booking.savedAt, passes.savedAt]) : booking.savedAt
+    };
+  }
+};
+
+/**
+ * Removes every saved booking and boarding pass, called when the user signs out
+ */
+export const clearOfflineCache = () =>
+  Promise.all([
+    runTransaction<void>(BOOKINGS_STORE, 'readwrite', store => {
+      store.clear();
+    }),
+    runTransaction<void>(BOARDING_PASSES_STORE, 'readwrite', store => {
+      store.clear();
+    })
+  ]).catch(ignoreCacheError);
@@ -0,0 +1,90 @@
+import { apiService } from './api';
+
+export type PushStatus = 'unsupported' | 'denied' | 'disabled' | 'enabled';
+
+// Pushes are shown by the app's own service worker (src/service-worker.ts), which only exists in production builds
+export const isPushSupported = () =>
+  process.env.NODE_ENV === 'production' &&
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// The VAPID public key arrives base64url encoded; PushManager wants the raw bytes
+const urlBase64ToUint8Array = (base64Url: string) => {
+  const padding = '='.repeat((4 - (base64Url.length % 4)) % 4);
+  const raw = atob((base64Url + padding).replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(raw, char => char.charCodeAt(0));
+};
+
+const sameKey = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+// serviceWorker.ready never settles when no worker is active, e.g. when registration failed
+const SERVICE_WORKER_READY_TIMEOUT_MS = 5000;
+
+const getRegistration = () =>
+  new Promise<ServiceWorkerRegistration>((resolve, reject) => {
+    const timeout = window.setTimeout(
+      () => reject(new Error('No active service worker')),
+      SERVICE_WORKER_READY_TIMEOUT_MS
+    );
+    navigator.serviceWorker.ready.then(registration => {
+      window.clearTimeout(timeout);
+      resolve(registration);
+    });
+  });
+
+const getSubscription = async () => {
+  const registration = await getRegistration();
+  return registration.pushManager.getSubscription();
+};
+
+export const getPushStatus = async (): Promise<PushStatus> => {
+  if (!isPushSupported()) return 'unsupported';
+  if (Notification.permission === 'denied') return 'denied';
+  return (await getSubscription()) ? 'enabled' : 'disabled';
+};
+
+// Ask for permission, subscribe this browser and store the subscription against the signed-in user
+export const enablePush = async (): Promise<PushStatus> => {
+  if (!isPushSupported()) return 'unsupported';
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') return permission === 'denied' ? 'denied' : 'disabled';
+
+  const registration = await getRegistration();
+  const { publicKey } = await apiService.getPushPublicKey();
+  const applicationServerKey = urlBase64ToUint8Array(publicKey);
+
+  let subscription = await registration.pushManager.getSubscription();
+  // A subscription made with a different key (e.g. after the server's keys changed) cannot be reused
+  const currentKey = subscription?.options.applicationServerKey;
+  if (subscription && currentKey && !sameKey(new Uint8Array(currentKey), applicationServerKey)) {
+    await subscription.unsubscribe();
+    subscription = null;
+  }
+  subscription = subscription ?? await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey });
+
+  await apiService.savePushSubscription(subscription.toJSON());
+  return 'enabled';
+};
+
+export const disablePush = async (): Promise<PushStatus> => {
+  if (!isPushSupported()) return 'unsupported';
+
+  const subscription = await getSubscription();
+  if (subscription) {
+    // Unsubscribing in the browser is what stops delivery; the server copy may already be gone
+    await apiService.deletePushSubscription(subscription.endpoint).catch(error => {
+      console.error('Error removing push subscription:', error);
+    });
+    await subscription.unsubscribe();
+  }
+  return getPushStatus();
+};
+
+// For sign-out, when the session is already gone: only the browser unsubscribes, and the server drops its copy
+// the next time the push service reports the subscription gone
+export const unsubscribeFromPush = async () => {
+  if (!isPushSupported()) return;
+
+  const subscription = await getSubscription();
+  await subscription?.unsubscribe();
+};
@@ -0,0 +1,102 @@
+using AirlineSimulationApi.Models;
+using AirlineSimulationApi.Services;
+
+namespace AirlineSimulationApi.Tests.Services;
+
+public class CancellationPolicyTests
+{
+    private static readonly DateTime Now = new(2026, 6, 1, 12, 0, 0, DateTimeKind.Utc);
+
+    [Fact]
+    public void AllocateRefund_PaysBackThePurchaseBeforeChanges()
+    {
+        var booking = CreateBooking(purchase: 200m, "TXN_PURCHASE");
+        AddChange(booking, 30m, "TXN_SEATS");
+
+        var refunds = CancellationPolicy.AllocateRefund(booking, 230m);
+
+        Assert.Collection(refunds,
+            r => Assert.Equal(("TXN_PURCHASE", 200m), (r.TransactionId, r.Amount)),
+            r => Assert.Equal(("TXN_SEATS", 30m), (r.TransactionId, r.Amount)));
+    }
+
+    [Fact]
+    public void AllocateRefund_GroupsChangesPaidForTogether()
+    {
+        var booking = CreateBooking(purchase: 200m, "TXN_PURCHASE");
+        AddChange(booking, 20m, "TXN_SEATS");
+        AddChange(booking, 10m, "TXN_SEATS");
+        AddChange(booking, 50m, "TXN_FLIGHT");
+        booking.RefundedAmount = 200m;
+
+        var refunds = CancellationPolicy.AllocateRefund(booking, 80m);
+
+        Assert.Collection(refunds,
+            r => Assert.Equal(("TXN_SEATS", 30m), (r.TransactionId, r.Amount)),
+            r => Assert.Equal(("TXN_FLIGHT", 50m), (r.TransactionId, r.Amount)));
+    }
+
+    [Fact]
+    public void AllocateRefund_SkipsWhatEarlierCancellationsRefunded()
+    {
+        var booking = CreateBooking(purchase: 200m, "TXN_PURCHASE");
+        AddChange(booking, 30m, "TXN_SEATS");
+        booking.RefundedAmount = 150m;
+
+        var refunds = CancellationPolicy.AllocateRefund(booking, 80m);
+
+        Assert.Collection(refunds,
+            r => Assert.Equal(("TXN_PURCHASE", 50m), (r.TransactionId, r.Amount)),
+            r => Assert.Equal(("TXN_SEATS", 30m), (r.TransactionId, r.Amount)));
+    }
+
+    [Fact]
+    public void Quote_RefundsTheChangedFareAcrossAllCharges()
+    {
+        var booking = CreateBooking(purchase: 200m, "TXN_PURCHASE");
+        AddChange(booking, 30m, "TXN_SEATS");
+        booking.Passengers.Add(new Passenger { Id = 1, FirstName = "Ada", LastName = "Lovelace", FareAmount = 230m });
+
+        var quote = CancellationPolicy.Quote(booking, booking.Passengers.ToList(), Now);
+
+        Assert.Equal(230m, quote.RefundAmount);
+        Assert.Equal(0m, quote.CreditAmount);
+        Assert.True(quote.CancelsBooking);
+    }
+
+    [Fact]
+    public void Quote_IssuesCreditForWhatNoChargeCanCover()
+    {
+        // Paid before transaction ids were stored, then a seat change paid by card
+        var booking = CreateBooking(purchase: 200m, transactionId: null);
+        AddChange(booking, 30m, "TXN_SEATS");
+        booking.Passengers.Add(new Passenger { Id = 1, FirstName = "Ada", LastName = "Lovelace", FareAmount = 230m });
+
+        var quote = CancellationPolicy.Quote(booking, booking.Passengers.ToList(), Now);
+
+        Assert.Equal(30m, quote.RefundAmount);
+        Assert.Equal(200m, quote.CreditAmount);
+    }
+
+    private static Booking CreateBooking(decimal purchase, string? transactionId) => new()
+    {
+        Id = 1,
+        ConfirmationNumber = "ABC123",
+        TotalAmount = purchase,
+        PaymentTransactionId = transactionId,
+        Flight = new Flight { ScheduledDeparture = Now.AddDays(30) }
+    };
+
+    private static void AddChange(Booking booking, decimal amountCharged, string transactionId)
+    {
+        booking.TotalAmount += amountCharged;
+        booking.Changes.Add(new BookingChange
+        {
+            Id = booking.Changes.Count + 1,
+            Type = BookingChangeType.SeatChange,
+            AmountCharged = amountCharged,
+            PaymentTransactionId = transactionId,
+            ChangedAt = Now.AddDays(booking.Changes.Count - 10)
+        });
+    }
+}
@@ -0,0 +1,153 @@
+using AirlineSimulationApi.Services;
+
+namespace AirlineSimulationApi.Tests.Services;
+
+public class CardValidatorTests
+{
+    [Theory]
+    [InlineData("4242424242424242")]
+    [InlineData("4242 4242 4242 4242")]
+    [InlineData("4242-4242-4242-4242")]
+    [InlineData("378282246310005")]
+    [InlineData("2223003122003222")]
+    public void IsLuhnValid_AcceptsValidNumbers(string cardNumber)
+    {
+        Assert.True(CardValidator.IsLuhnValid(cardNumber));
+    }
+
+    [Theory]
+    [InlineData("4242424242424241")]
+    [InlineData("378282246310006")]
+    [InlineData("")]
+    [InlineData("abcd")]
+    // Passes the checksum but is shorter than any card number
+    [InlineData("42424242420")]
+    // Passes the checksum but is longer than any card number
+    [InlineData("42424242424242424242")]
+    public void IsLuhnValid_RejectsInvalidNumbers(string cardNumber)
+    {
+        Assert.False(CardValidator.IsLuhnValid(cardNumber));
+    }
+
+    [Theory]
+    [InlineData("4242424242424242", CardBrand.Visa)]
+    [InlineData("5555555555554444", CardBrand.Mastercard)]
+    [InlineData("2223003122003222", CardBrand.Mastercard)]
+    [InlineData("378282246310005", CardBrand.Amex)]
+    [InlineData("341111111111111", CardBrand.Amex)]
+    [InlineData("6011111111111117", CardBrand.Discover)]
+    [InlineData("6500000000000002", CardBrand.Discover)]
+    [InlineData("1234567812345670", CardBrand.Unknown)]
+    [InlineData("", CardBrand.Unknown)]
+    public void DetectBrand_RecognisesCardPrefixes(string cardNumber, CardBrand brand)
+    {
+        Assert.Equal(brand, CardValidator.DetectBrand(cardNumber));
+    }
+
+    [Theory]
+    // Valid through the last day of the expiry month
+    [InlineData(6, 2026, false)]
+    [InlineData(7, 2026, false)]
+    [InlineData(1, 2027, false)]
+    [InlineData(5, 2026, true)]
+    [InlineData(12, 2025, true)]
+    [InlineData(0, 2030, true)]
+    [InlineData(13, 2030, true)]
+    public void IsExpired_ComparesAgainstTheExpiryMonth(int month, int year, bool expired)
+    {
+        var now = new DateTime(2026, 6, 30, 23, 59, 0, DateTimeKind.Utc);
+
+        Assert.Equal(expired, CardValidator.IsExpired(month, year, now));
+    }
+
+    [Fact]
+    public void Validate_AcceptsCompleteCardDetails()
+    {
+        Assert.Empty(CardValidator.Validate(CreatePaymentInfo()));
+    }
+
+    [Fact]
+    public void Validate_RequiresPaymentDetails()
+    {
+        var errors = CardValidator.Validate(null);
+
+        Assert.Equal("paymentInfo", Assert.Single(errors).Key);
+    }
+
+    [Fact]
+    public void Validate_ReportsEachInvalidField()
+    {
+        var payment = CreatePaymentInfo();
+        payment.CardNumber = "4242424242424241";
+        payment.CardHolderName = " ";
+        payment.ExpiryMonth = 13;
+        payment.Cvv = "12";
+
+        var errors = CardValidator.Validate(payment);
+
+        Assert.Equal(
+            new[] { "paymentInfo.cardHolderName", "paymentInfo.cardNumber", "paymentInfo.cvv", "paymentInfo.expiryMonth" },
+            errors.Keys.OrderBy(k => k, StringComparer.Ordinal));
+    }
+
+    [Fact]
+    public void Validate_ReportsExpiredCardsAgainstTheExpiryYear()
+    {
+        var lastMonth = DateTime.UtcNow.AddMonths(-1);
+        var payment = CreatePaymentInfo();
+        payment.ExpiryMonth = lastMonth.Month;
+        payment.ExpiryYear = lastMonth.Year;
+
+        var errors = CardValidator.Validate(payment);
+
+        Assert.Equal("This card has expired", Assert.Single(errors["paymentInfo.expiryYear"]));
+    }
+
+    [Fact]
+    public void Validate_RejectsUnsupportedCardBrands()
+    {
+        var payment = CreatePaymentInfo();
+        payment.CardNumber = "1234567812345670";
+
+        var errors = CardValidator.Validate(payment);
+
+        Assert.Equal("We accept Visa, Mastercard, American Express and Discover", Assert.Single(errors["paymentInfo.cardNumber"]));
+    }
+
+    [Theory]
+    [InlineData("4242424242424242", "123", true)]
+    [InlineData("4242424242424242", "1234", false)]
+    [InlineData("4242424242424242", "12a", false)]
+    [InlineData("378282246310005", "1234", true)]
+    [InlineData("378282246310005", "123", false)]
+    public void Validate_ChecksTheSecurityCodeLengthForTheBrand(string cardNumber, string cvv, bool valid)
+    {
+        var payment = CreatePaymentInfo();
+        payment.CardNumber = cardNumber;
+        payment.Cvv = cvv;
+
+        var errors = CardValidator.Validate(payment);
+
+        Assert.Equal(valid, !errors.ContainsKey("paymentInfo.cvv"));
+    }
+
+    [Fact]
+    public void Validate_KeysErrorsUnderTheGivenPrefix()
+    {
+        var payment = CreatePaymentInfo();
+        payment.Cvv = string.Empty;
+
+        var errors = CardValidator.Validate(payment, "payment");
+
+        Assert.Equal("payment.cvv", Assert.Single(errors).Key);
+    }
+
+    private static PaymentInfo CreatePaymentInfo() => new()
+    {
+        CardNumber = "4242 4242 4242 4242",
+        CardHolderName = "Test Traveller",
+        ExpiryMonth = 12,
+        ExpiryYear = DateTime.UtcNow.Year + 2,
+        Cvv = "123"
+    };
+}
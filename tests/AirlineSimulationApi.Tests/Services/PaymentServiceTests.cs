@@ -0,0 +1,101 @@
+using AirlineSimulationApi.Services;
+using Microsoft.Extensions.Logging.Abstractions;
+
+namespace AirlineSimulationApi.Tests.Services;
+
+public class PaymentServiceTests
+{
+    private readonly PaymentService _service = new(
+        new MockPaymentGateway(NullLogger<MockPaymentGateway>.Instance),
+        NullLogger<PaymentService>.Instance);
+
+    [Theory]
+    [InlineData("4000000000000002", PaymentDeclineCodes.CardDeclined, "Your card was declined")]
+    [InlineData("4000000000009995", PaymentDeclineCodes.InsufficientFunds, "Your card has insufficient funds")]
+    [InlineData("4000000000000069", PaymentDeclineCodes.ExpiredCard, "Your card has expired")]
+    [InlineData("4000000000000127", PaymentDeclineCodes.IncorrectCvc, "Your card's security code is incorrect")]
+    [InlineData("4000000000000119", PaymentDeclineCodes.ProcessingError, "An error occurred while processing your card. Please try again.")]
+    [InlineData("5100000000000511", PaymentDeclineCodes.CardDeclined, "Your card was declined")]
+    [InlineData("371449635398431", PaymentDeclineCodes.InsufficientFunds, "Your card has insufficient funds")]
+    public async Task ProcessPaymentAsync_DeclinesTestCards(string cardNumber, string declineCode, string message)
+    {
+        var result = await _service.ProcessPaymentAsync(CreateRequest(cardNumber));
+
+        Assert.False(result.Success);
+        Assert.Equal(declineCode, result.DeclineCode);
+        Assert.Equal(message, result.ErrorMessage);
+        Assert.Null(result.TransactionId);
+    }
+
+    [Fact]
+    public async Task ProcessPaymentAsync_DeclinesTestCardsTypedWithSpaces()
+    {
+        var result = await _service.ProcessPaymentAsync(CreateRequest("4000 0000 0000 0002"));
+
+        Assert.False(result.Success);
+        Assert.Equal(PaymentDeclineCodes.CardDeclined, result.DeclineCode);
+    }
+
+    [Theory]
+    [InlineData("4242424242424242", CardBrand.Visa)]
+    [InlineData("5555555555554444", CardBrand.Mastercard)]
+    [InlineData("378282246310005", CardBrand.Amex)]
+    [InlineData("6011111111111117", CardBrand.Discover)]
+    public async Task ProcessPaymentAsync_ApprovesOtherValidCards(string cardNumber, CardBrand brand)
+    {
+        var result = await _service.ProcessPaymentAsync(CreateRequest(cardNumber, amount: 249.50m));
+
+        Assert.True(result.Success);
+        Assert.Null(result.DeclineCode);
+        Assert.StartsWith("TXN_", result.TransactionId);
+        Assert.Equal(249.50m, result.Amount);
+        Assert.Equal(brand, result.CardBrand);
+    }
+
+    [Fact]
+    public async Task ProcessPaymentAsync_RejectsCardsFailingTheLuhnCheck()
+    {
+        var result = await _service.ProcessPaymentAsync(CreateRequest("4242424242424241"));
+
+        Assert.False(result.Success);
+        Assert.Equal(PaymentDeclineCodes.InvalidCard, result.DeclineCode);
+    }
+
+    [Fact]
+    public async Task ProcessPaymentAsync_RejectsExpiredCards()
+    {
+        var lastMonth = DateTime.UtcNow.AddMonths(-1);
+        var request = CreateRequest("4242424242424242");
+        request.ExpiryMonth = lastMonth.Month;
+        request.ExpiryYear = lastMonth.Year;
+
+        var result = await _service.ProcessPaymentAsync(request);
+
+        Assert.False(result.Success);
+        Assert.Equal(PaymentDeclineCodes.InvalidCard, result.DeclineCode);
+    }
+
+    [Fact]
+    public async Task ProcessPaymentAsync_RejectsNonPositiveAmounts()
+    {
+        var result = await _service.ProcessPaymentAsync(CreateRequest("4242424242424242", amount: 0m));
+
+        Assert.False(result.Success);
+        Assert.Equal(PaymentDeclineCodes.InvalidCard, result.DeclineCode);
+    }
+
+    private static PaymentRequest CreateRequest(string cardNumber, decimal amount = 100m)
+    {
+        var brand = CardValidator.DetectBrand(cardNumber);
+        return new PaymentRequest
+        {
+            Amount = amount,
+            CardNumber = cardNumber,
+            CardHolderName = "Test Traveller",
+            ExpiryMonth = 12,
+            ExpiryYear = DateTime.UtcNow.Year + 2,
+            Cvv = brand == CardBrand.Amex ? "1234" : "123",
+            Description = "Flight booking for AS123"
+        };
+    }
+}
@@ -0,0 +1,153 @@
+using System.Text.Json;
+using AirlineSimulationApi.Models;
+using AirlineSimulationApi.Services;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging.Abstractions;
+
+namespace AirlineSimulationApi.Tests.Services;
+
+public class PushNotificationServiceTests : IDisposable
+{
+    private readonly TestDatabase _database = new();
+    private readonly LocalPushSender _pushSender = new(NullLogger<LocalPushSender>.Instance);
+    private readonly PushNotificationService _service;
+
+    private static readonly PushMessage Message = new()
+    {
+        Title = "Flight AS123 is delayed",
+        Body = "New departure time 14:35",
+        Url = "/bookings/42",
+        Tag = "flight-123"
+    };
+
+    public PushNotificationServiceTests()
+    {
+        var preferences = new NotificationPreferencesService(_database.Context, NullLogger<NotificationPreferencesService>.Instance);
+        _service = new PushNotificationService(
+            _database.Context,
+            _pushSender,
+            new VapidSettings { PublicKey = "public-key", PrivateKey = "private-key", Subject = "mailto:ops@example.com" },
+            preferences,
+            NullLogger<PushNotificationService>.Instance);
+    }
+
+    public void Dispose() => _database.Dispose();
+
+    [Fact]
+    public async Task SendAsync_DeliversToEverySubscribedBrowser()
+    {
+        var user = await _database.AddUserAsync();
+        await SubscribeAsync(user.Id, "https://push.example.com/laptop");
+        await SubscribeAsync(user.Id, "https://push.example.com/phone");
+
+        var delivered = await _service.SendAsync(user.Id, NotificationCategory.FlightUpdates, Message);
+
+        Assert.Equal(2, delivered);
+        Assert.Equal(
+            new[] { "https://push.example.com/laptop", "https://push.example.com/phone" },
+            _pushSender.Sent.Select(p => p.Endpoint).OrderBy(e => e));
+
+        var payload = JsonSerializer.Deserialize<PushMessage>(_pushSender.Sent[0].Payload, new JsonSerializerOptions(JsonSerializerDefaults.Web));
+        Assert.NotNull(payload);
+        Assert.Equal(Message.Title, payload.Title);
+        Assert.Equal(Message.Body, payload.Body);
+        Assert.Equal(Message.Url, payload.Url);
+        Assert.Equal(Message.Tag, payload.Tag);
+    }
+
+    [Fact]
+    public async Task SendAsync_OnlyReachesTheUsersOwnBrowsers()
+    {
+        var user = await _database.AddUserAsync();
+        var otherUser = await _database.AddUserAsync();
+        await SubscribeAsync(user.Id, "https://push.example.com/mine");
+        await SubscribeAsync(otherUser.Id, "https://push.example.com/theirs");
+
+        var delivered = await _service.SendAsync(user.Id, NotificationCategory.FlightUpdates, Message);
+
+        Assert.Equal(1, delivered);
+        Assert.Equal("https://push.example.com/mine", Assert.Single(_pushSender.Sent).Endpoint);
+    }
+
+    [Fact]
+    public async Task SendAsync_SkipsUsersWhoTurnedPushOff()
+    {
+        var user = await _database.AddUserAsync();
+        await SubscribeAsync(user.Id, "https://push.example.com/laptop");
+        await SetPreferencesAsync(user.Id, p => p.PushNotifications = false);
+
+        var delivered = await _service.SendAsync(user.Id, NotificationCategory.FlightUpdates, Message);
+
+        Assert.Equal(0, delivered);
+        Assert.Empty(_pushSender.Sent);
+    }
+
+    [Fact]
+    public async Task SendAsync_SkipsCategoriesTheUserTurnedOff()
+    {
+        var user = await _database.AddUserAsync();
+        await SubscribeAsync(user.Id, "https://push.example.com/laptop");
+        await SetPreferencesAsync(user.Id, p => p.FlightUpdates = false);
+
+        var delivered = await _service.SendAsync(user.Id, NotificationCategory.FlightUpdates, Message);
+
+        Assert.Equal(0, delivered);
+        Assert.Empty(_pushSender.Sent);
+    }
+
+    [Fact]
+    public async Task SendAsync_SkipsCategoriesOffByDefault()
+    {
+        var user = await _database.AddUserAsync();
+        await SubscribeAsync(user.Id, "https://push.example.com/laptop");
+
+        // Users who never saved preferences get the defaults, which leave promotions off
+        var delivered = await _service.SendAsync(user.Id, NotificationCategory.PromotionalOffers, Message);
+
+        Assert.Equal(0, delivered);
+        Assert.Empty(_pushSender.Sent);
+    }
+
+    [Fact]
+    public async Task SendAsync_RemovesSubscriptionsThePushServiceReportsAsGone()
+    {
+        var user = await _database.AddUserAsync();
+        await SubscribeAsync(user.Id, "https://push.example.com/laptop");
+        await SubscribeAsync(user.Id, "https://push.example.com/old-phone");
+        _pushSender.ExpireEndpoint("https://push.example.com/old-phone");
+
+        var delivered = await _service.SendAsync(user.Id, NotificationCategory.FlightUpdates, Message);
+
+        Assert.Equal(1, delivered);
+        Assert.Equal("https://push.example.com/laptop", Assert.Single(_pushSender.Sent).Endpoint);
+        var remaining = await _database.Context.WebPushSubscriptions.Select(s => s.Endpoint).ToListAsync();
+        Assert.Equal("https://push.example.com/laptop", Assert.Single(remaining));
+    }
+
+    [Fact]
+    public async Task SubscribeAsync_MovesABrowserToTheUserSignedInOnIt()
+    {
+        var previousUser = await _database.AddUserAsync();
+        var user = await _database.AddUserAsync();
+        await SubscribeAsync(previousUser.Id, "https://push.example.com/shared");
+        await SubscribeAsync(user.Id, "https://push.example.com/shared");
+
+        Assert.Equal(0, await _service.SendAsync(previousUser.Id, NotificationCategory.FlightUpdates, Message));
+        Assert.Equal(1, await _service.SendAsync(user.Id, NotificationCategory.FlightUpdates, Message));
+    }
+
+    private Task SubscribeAsync(string userId, string endpoint) =>
+        _service.SubscribeAsync(userId, new PushSubscriptionRequest
+        {
+            Endpoint = endpoint,
+            Keys = new PushSubscriptionKeys { P256dh = "p256dh-key", Auth = "auth-secret" }
+        });
+
+    private async Task SetPreferencesAsync(string userId, Action<NotificationPreferences> update)
+    {
+        var preferences = new NotificationPreferences { UserId = userId };
+        update(preferences);
+        _database.Context.NotificationPreferences.Add(preferences);
+        await _database.Context.SaveChangesAsync();
+    }
+}
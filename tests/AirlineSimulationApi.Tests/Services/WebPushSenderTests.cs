@@ -0,0 +1,75 @@
+using System.Net;
+using System.Security.Cryptography;
+using AirlineSimulationApi.Services;
+using Microsoft.Extensions.Logging.Abstractions;
+using WebPush;
+
+namespace AirlineSimulationApi.Tests.Services;
+
+public class WebPushSenderTests
+{
+    [Theory]
+    [InlineData(HttpStatusCode.Created, PushDeliveryResult.Delivered)]
+    [InlineData(HttpStatusCode.NotFound, PushDeliveryResult.Expired)]
+    [InlineData(HttpStatusCode.Gone, PushDeliveryResult.Expired)]
+    [InlineData(HttpStatusCode.TooManyRequests, PushDeliveryResult.Failed)]
+    [InlineData(HttpStatusCode.InternalServerError, PushDeliveryResult.Failed)]
+    public async Task SendAsync_MapsThePushServiceResponse(HttpStatusCode status, PushDeliveryResult expected)
+    {
+        var pushService = new FakePushService(status);
+        var sender = CreateSender(pushService);
+
+        var result = await sender.SendAsync(CreateTarget(), "{\"title\":\"Gate change\"}");
+
+        Assert.Equal(expected, result);
+        Assert.Equal(1, pushService.Requests);
+    }
+
+    private static WebPushSender CreateSender(FakePushService pushService)
+    {
+        var vapidKeys = VapidHelper.GenerateVapidKeys();
+        var settings = new VapidSettings
+        {
+            PublicKey = vapidKeys.PublicKey,
+            PrivateKey = vapidKeys.PrivateKey,
+            Subject = "mailto:ops@example.com"
+        };
+        return new WebPushSender(settings, NullLogger<WebPushSender>.Instance, new WebPushClient(new HttpClient(pushService)));
+    }
+
+    // A subscription with real keys, as a browser would hand out, so the payload can be encrypted
+    private static PushTarget CreateTarget()
+    {
+        using var browserKey = ECDiffieHellman.Create(ECCurve.NamedCurves.nistP256);
+        var point = browserKey.ExportParameters(false).Q;
+        var publicKey = new byte[] { 0x04 }.Concat(point.X!).Concat(point.Y!).ToArray();
+
+        return new PushTarget
+        {
+            Endpoint = "https://push.example.com/send/abc123",
+            P256dh = Base64UrlEncode(publicKey),
+            Auth = Base64UrlEncode(RandomNumberGenerator.GetBytes(16))
+        };
+    }
+
+    private static string Base64UrlEncode(byte[] bytes) =>
+        Convert.ToBase64String(bytes).TrimEnd('=').Replace('+', '-').Replace('/', '_');
+
+    private class FakePushService : HttpMessageHandler
+    {
+        private readonly HttpStatusCode _status;
+
+        public FakePushService(HttpStatusCode status)
+        {
+            _status = status;
+        }
+
+        public int Requests { get; private set; }
+
+        protected override Task<HttpResponseMessage> SendAsync(HttpRequestMessage request, CancellationToken cancellationToken)
+        {
+            Requests++;
+            return Task.FromResult(new HttpResponseMessage(_status) { RequestMessage = request });
+        }
+    }
+}
@@ -0,0 +1,48 @@
+using AirlineSimulationApi.Data;
+using AirlineSimulationApi.Models;
+using Microsoft.Data.Sqlite;
+using Microsoft.EntityFrameworkCore;
+
+namespace AirlineSimulationApi.Tests;
+
+/// <summary>
+/// A throwaway SQLite database kept in memory for as long as the test holds it. SQLite rather than the
+/// EF in-memory provider so bulk ExecuteUpdate/ExecuteDelete calls run for real.
+/// </summary>
+public sealed class TestDatabase : IDisposable
+{
+    private readonly SqliteConnection _connection;
+
+    public TestDatabase()
+    {
+        _connection = new SqliteConnection("DataSource=:memory:");
+        _connection.Open();
+
+        Context = new ApplicationDbContext(new DbContextOptionsBuilder<ApplicationDbContext>()
+            .UseSqlite(_connection)
+            .Options);
+        Context.Database.EnsureCreated();
+    }
+
+    public ApplicationDbContext Context { get; }
+
+    public async Task<User> AddUserAsync()
+    {
+        var user = new User
+        {
+            FirstName = "Test",
+            LastName = "Traveller",
+            Email = $"{Guid.NewGuid():N}@example.com",
+            PasswordHash = "not-a-real-hash"
+        };
+        Context.Users.Add(user);
+        await Context.SaveChangesAsync();
+        return user;
+    }
+
+    public void Dispose()
+    {
+        Context.Dispose();
+        _connection.Dispose();
+    }
+}